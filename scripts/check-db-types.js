@@ -0,0 +1,222 @@
+// Checks that the hand-written Database interface in src/lib/supabase.ts matches the schema
+// built by supabase/migrations. Run with `npm run check:db-types`; exits non-zero on drift.
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const migrationsDir = join(root, 'supabase', 'migrations');
+const typesFile = join(root, 'src', 'lib', 'supabase.ts');
+
+const CONSTRAINT_KEYWORDS = /^(CONSTRAINT|PRIMARY|UNIQUE|CHECK|FOREIGN|EXCLUDE)\b/i;
+
+// Split on commas that are not nested inside parentheses
+const splitTopLevel = (text) => {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+const parseColumn = (definition) => {
+  const [name, ...rest] = definition.split(/\s+/);
+  const spec = rest.join(' ');
+  const notNull = /\bNOT NULL\b|\bPRIMARY KEY\b/i.test(spec);
+  const hasDefault = /\bDEFAULT\b|\bGENERATED\b/i.test(spec);
+  return { name: name.replace(/"/g, ''), notNull, hasDefault };
+};
+
+const readSchema = () => {
+  const tables = new Map();
+  const enums = new Map();
+  const views = new Set();
+  const functions = new Set();
+
+  const files = readdirSync(migrationsDir).filter(file => file.endsWith('.sql')).sort();
+
+  for (const file of files) {
+    const raw = readFileSync(join(migrationsDir, file), 'utf8')
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/--.*$/gm, '');
+
+    // Enums are usually created inside DO blocks, so read them before bodies are stripped
+    for (const match of raw.matchAll(/CREATE TYPE\s+(\w+)\s+AS ENUM\s*\(([^)]*)\)/gi)) {
+      enums.set(match[1], [...match[2].matchAll(/'([^']*)'/g)].map(value => value[1]));
+    }
+    for (const match of raw.matchAll(/ALTER TYPE\s+(\w+)\s+ADD VALUE\s+(?:IF NOT EXISTS\s+)?'([^']*)'/gi)) {
+      const values = enums.get(match[1]) || [];
+      if (!values.includes(match[2])) values.push(match[2]);
+      enums.set(match[1], values);
+    }
+    for (const match of raw.matchAll(/CREATE (?:OR REPLACE )?FUNCTION\s+(?:public\.)?(\w+)\s*\(/gi)) {
+      functions.add(match[1]);
+    }
+
+    const statements = raw.replace(/\$\$[\s\S]*?\$\$/g, '').split(';');
+
+    for (const statement of statements.map(s => s.trim())) {
+      let match;
+
+      if ((match = statement.match(/^CREATE TABLE\s+(?:IF NOT EXISTS\s+)?(?:public\.)?(\w+)\s*\(([\s\S]*)\)$/i))) {
+        const columns = new Map();
+        splitTopLevel(match[2])
+          .filter(item => !CONSTRAINT_KEYWORDS.test(item))
+          .map(parseColumn)
+          .forEach(column => columns.set(column.name, column));
+        tables.set(match[1], columns);
+      } else if ((match = statement.match(/^DROP TABLE\s+(?:IF EXISTS\s+)?(?:public\.)?(\w+)/i))) {
+        tables.delete(match[1]);
+      } else if ((match = statement.match(/^ALTER TABLE\s+(?:IF EXISTS\s+)?(?:ONLY\s+)?(?:public\.)?(\w+)\s+([\s\S]*)$/i))) {
+        const columns = tables.get(match[1]);
+        if (!columns) continue;
+
+        for (const action of splitTopLevel(match[2])) {
+          let actionMatch;
+          if ((actionMatch = action.match(/^ADD COLUMN\s+(?:IF NOT EXISTS\s+)?([\s\S]+)$/i))) {
+            const column = parseColumn(actionMatch[1]);
+            columns.set(column.name, column);
+          } else if ((actionMatch = action.match(/^DROP COLUMN\s+(?:IF EXISTS\s+)?(\w+)/i))) {
+            columns.delete(actionMatch[1]);
+          } else if ((actionMatch = action.match(/^RENAME COLUMN\s+(\w+)\s+TO\s+(\w+)/i))) {
+            const column = columns.get(actionMatch[1]);
+            columns.delete(actionMatch[1]);
+            if (column) columns.set(actionMatch[2], { ...column, name: actionMatch[2] });
+          } else if ((actionMatch = action.match(/^ALTER COLUMN\s+(\w+)\s+(SET|DROP)\s+(NOT NULL|DEFAULT)/i))) {
+            const column = columns.get(actionMatch[1]);
+            if (!column) continue;
+            const enabled = actionMatch[2].toUpperCase() === 'SET';
+            if (actionMatch[3].toUpperCase() === 'NOT NULL') column.notNull = enabled;
+            else column.hasDefault = enabled;
+          }
+        }
+      } else if ((match = statement.match(/^CREATE (?:OR REPLACE )?VIEW\s+(?:public\.)?(\w+)/i))) {
+        views.add(match[1]);
+      } else if ((match = statement.match(/^DROP VIEW\s+(?:IF EXISTS\s+)?(?:public\.)?(\w+)/i))) {
+        views.delete(match[1]);
+      }
+    }
+  }
+
+  return { tables, enums, views, functions };
+};
+
+// Reads the nested `key: { ... }` blocks of the Database interface into plain objects
+const readTypes = () => {
+  const source = readFileSync(typesFile, 'utf8');
+  const start = source.indexOf('export interface Database {');
+  const lines = source.slice(start).split('\n').slice(1);
+
+  const rootNode = {};
+  const stack = [rootNode];
+
+  for (const line of lines.map(l => l.trim())) {
+    if (!line) continue;
+
+    if (/^}/.test(line)) {
+      stack.pop();
+      if (stack.length === 0) break;
+      continue;
+    }
+
+    const match = line.match(/^([\w[\]\s]+?)(\??):\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, optional, value] = match;
+    if (value === '{') {
+      const child = {};
+      stack[stack.length - 1][key] = child;
+      stack.push(child);
+    } else {
+      stack[stack.length - 1][key] = { optional: optional === '?', type: value };
+    }
+  }
+
+  return rootNode.public;
+};
+
+const errors = [];
+const schema = readSchema();
+const types = readTypes();
+
+const tsTables = types.Tables || {};
+for (const [table, columns] of schema.tables) {
+  const tsTable = tsTables[table];
+  if (!tsTable) {
+    errors.push(`Table ${table} is missing from Database['public']['Tables']`);
+    continue;
+  }
+
+  for (const block of ['Row', 'Insert', 'Update']) {
+    const fields = tsTable[block] || {};
+    for (const name of columns.keys()) {
+      if (!fields[name]) errors.push(`${table}.${block} is missing column ${name}`);
+    }
+    for (const name of Object.keys(fields)) {
+      if (!columns.has(name)) errors.push(`${table}.${block} has ${name}, which is not a column`);
+    }
+  }
+
+  for (const column of columns.values()) {
+    const row = tsTable.Row?.[column.name];
+    const insert = tsTable.Insert?.[column.name];
+    // Nullable columns without a default really do come back as null
+    if (row && !column.notNull && !column.hasDefault && !/\bnull\b/.test(row.type)) {
+      errors.push(`${table}.Row.${column.name} is nullable in the schema but not typed as null`);
+    }
+    if (insert && insert.optional && column.notNull && !column.hasDefault) {
+      errors.push(`${table}.Insert.${column.name} is required by the schema but optional in the type`);
+    }
+  }
+}
+for (const table of Object.keys(tsTables)) {
+  if (!table.startsWith('[') && !schema.tables.has(table)) {
+    errors.push(`Database['public']['Tables'] has ${table}, which no migration creates`);
+  }
+}
+
+const tsEnums = types.Enums || {};
+for (const [name, values] of schema.enums) {
+  const tsEnum = tsEnums[name];
+  if (!tsEnum) {
+    errors.push(`Enum ${name} is missing from Database['public']['Enums']`);
+    continue;
+  }
+  const tsValues = [...tsEnum.type.matchAll(/'([^']*)'/g)].map(value => value[1]);
+  if ([...values].sort().join('|') !== [...tsValues].sort().join('|')) {
+    errors.push(`Enum ${name} is ${values.join(', ')} in the schema but ${tsValues.join(', ')} in the type`);
+  }
+}
+for (const name of Object.keys(tsEnums)) {
+  if (!name.startsWith('[') && !schema.enums.has(name)) {
+    errors.push(`Database['public']['Enums'] has ${name}, which no migration creates`);
+  }
+}
+
+for (const name of Object.keys(types.Views || {})) {
+  if (!name.startsWith('[') && !schema.views.has(name)) {
+    errors.push(`Database['public']['Views'] has ${name}, which no migration creates`);
+  }
+}
+for (const name of Object.keys(types.Functions || {})) {
+  if (!name.startsWith('[') && !schema.functions.has(name)) {
+    errors.push(`Database['public']['Functions'] has ${name}, which no migration creates`);
+  }
+}
+
+if (errors.length > 0) {
+  console.error(`Database types are out of sync with supabase/migrations:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  process.exit(1);
+}
+
+console.log(`Database types match ${schema.tables.size} tables and ${schema.enums.size} enums from supabase/migrations.`);
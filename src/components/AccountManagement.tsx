@@ -19,46 +19,17 @@ import {
   Check,
   XIcon
 } from 'lucide-react';
-import { Account, Category, User as UserType } from '../types';
+import { Account } from '../types';
 import CategoryManagement from './CategoryManagement';
+import ScreenErrors from './ScreenErrors';
+import { can } from '../lib/permissions';
+import { useAccountActions, useAccounts, useCategories, useCurrentUser } from '../hooks/useStore';
 
-interface AccountManagementProps {
-  accounts: Account[];
-  categories: Category[];
-  currentUser: UserType;
-  onAddAccount: (account: Omit<Account, 'id' | 'created_at' | 'account_code'>) => void;
-  onUpdateAccount: (id: string, updates: Partial<Account>) => void;
-  onDeleteAccount: (id: string) => void;
-  onAddCategory: (category: Omit<Category, 'id' | 'created_at'>) => void;
-  onUpdateCategory: (id: string, updates: Partial<Category>) => void;
-  onDeleteCategory: (id: string) => void;
-}
-
-const AccountManagement: React.FC<AccountManagementProps> = ({
-  accounts,
-  categories,
-  currentUser,
-  onAddAccount,
-  onUpdateAccount,
-  onDeleteAccount,
-  onAddCategory,
-  onUpdateCategory,
-  onDeleteCategory,
-}) => {
-  // Filter accounts based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
-
+const AccountManagement: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const categories = useCategories();
+  const { addAccount, updateAccount, deleteAccount } = useAccountActions();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [paymentFilter, setPaymentFilter] = useState('all');
@@ -67,6 +38,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [showCategoryManagement, setShowCategoryManagement] = useState(false);
   const [editingField, setEditingField] = useState<{accountId: string, field: string} | null>(null);
+  const canEdit = can(currentUser, 'accounts.edit');
+  const canDelete = can(currentUser, 'accounts.delete');
   const [formData, setFormData] = useState({
     username: '',
     email: '',
@@ -84,7 +57,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   };
 
   // Filter accounts based on search and filters
-  const filteredAccounts = filteredAccountsByRole.filter(account => {
+  const filteredAccounts = accounts.filter(account => {
     const matchesSearch = account.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          account.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          account.account_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -101,14 +74,20 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
     e.preventDefault();
     
     if (editingAccount) {
-      onUpdateAccount(editingAccount.id, formData);
+      updateAccount(editingAccount.id, formData);
     } else {
-      onAddAccount(formData);
+      addAccount(formData);
     }
     
     closeModal();
   };
 
+  const handleDelete = (id: string) => {
+    if (confirm('Are you sure you want to delete this account? This will also delete all associated sales data.')) {
+      deleteAccount(id);
+    }
+  };
+
   const handleEdit = (account: Account) => {
     setEditingAccount(account);
     setFormData({
@@ -152,7 +131,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   };
 
   const handleInlineEdit = (accountId: string, field: string, value: string) => {
-    onUpdateAccount(accountId, { [field]: value });
+    updateAccount(accountId, { [field]: value });
     setEditingField(null);
   };
 
@@ -212,13 +191,10 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
             <span>Back to Accounts</span>
           </button>
         </div>
+
+        <ScreenErrors />
         
-        <CategoryManagement
-          categories={categories}
-          onAddCategory={onAddCategory}
-          onUpdateCategory={onUpdateCategory}
-          onDeleteCategory={onDeleteCategory}
-        />
+        <CategoryManagement />
       </div>
     );
   }
@@ -226,18 +202,20 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   return (
     <>
       <div className="space-y-6">
+        <ScreenErrors />
+
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Account Management</h1>
             <p className="text-gray-600">
-              {currentUser?.role === 'superadmin' 
-                ? 'Manage all affiliate accounts and their information'
-                : `Manage your ${filteredAccountsByRole.length} affiliate accounts`}
+              {can(currentUser, 'accounts.view_all')
+                ? canEdit ? 'Manage all affiliate accounts and their information' : 'All affiliate accounts and their information'
+                : `Manage your ${accounts.length} affiliate accounts`}
             </p>
           </div>
           <div className="flex space-x-3">
-            {currentUser?.role === 'superadmin' && (
+            {can(currentUser, 'categories.manage') && (
               <button
                 onClick={() => setShowCategoryManagement(true)}
                 className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -246,13 +224,15 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                 <span>Manage Categories</span>
               </button>
             )}
-            <button
-              onClick={handleAdd}
-              className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Account</span>
-            </button>
+            {canEdit && (
+              <button
+                onClick={handleAdd}
+                className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Account</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -264,7 +244,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                 <User className="w-6 h-6 text-purple-600" />
               </div>
               <div>
-                <div className="text-2xl font-bold text-gray-900">{filteredAccountsByRole.length}</div>
+                <div className="text-2xl font-bold text-gray-900">{accounts.length}</div>
                 <p className="text-sm text-gray-600">Total Accounts</p>
               </div>
             </div>
@@ -277,7 +257,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {filteredAccountsByRole.filter(acc => acc.status === 'active').length}
+                  {accounts.filter(acc => acc.status === 'active').length}
                 </div>
                 <p className="text-sm text-gray-600">Active</p>
               </div>
@@ -291,7 +271,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {filteredAccountsByRole.filter(acc => acc.status === 'violation').length}
+                  {accounts.filter(acc => acc.status === 'violation').length}
                 </div>
                 <p className="text-sm text-gray-600">Violations</p>
               </div>
@@ -305,7 +285,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {filteredAccountsByRole.filter(acc => acc.payment_data === 'utamakan').length}
+                  {accounts.filter(acc => acc.payment_data === 'utamakan').length}
                 </div>
                 <p className="text-sm text-gray-600">Priority</p>
               </div>
@@ -448,7 +428,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'status'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getStatusColor(account.status)}`}
+                            disabled={!canEdit}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 disabled:opacity-100 disabled:cursor-default transition-opacity ${getStatusColor(account.status)}`}
                           >
                             {getStatusLabel(account.status)}
                           </button>
@@ -479,7 +460,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'payment_data'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getPaymentColor(account.payment_data)}`}
+                            disabled={!canEdit}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 disabled:opacity-100 disabled:cursor-default transition-opacity ${getPaymentColor(account.payment_data)}`}
                           >
                             {getPaymentLabel(account.payment_data)}
                           </button>
@@ -511,7 +493,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'category_id'})}
-                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 transition-opacity"
+                            disabled={!canEdit}
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 disabled:opacity-100 disabled:cursor-default transition-opacity"
                           >
                             {getCategoryName(account.category_id)}
                           </button>
@@ -522,16 +505,18 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center space-x-3">
-                          <button
-                            onClick={() => handleEdit(account)}
-                            className="text-blue-600 hover:text-blue-700 transition-colors"
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => handleEdit(account)}
+                              className="text-blue-600 hover:text-blue-700 transition-colors"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          )}
                           
-                          {currentUser?.role === 'superadmin' && (
+                          {canDelete && (
                             <button
-                              onClick={() => onDeleteAccount(account.id)}
+                              onClick={() => handleDelete(account.id)}
                               className="text-red-600 hover:text-red-700 transition-colors"
                             >
                               <Trash2 className="w-4 h-4" />
@@ -548,17 +533,17 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
             <div className="text-center py-12">
               <User className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {filteredAccountsByRole.length === 0 ? 'No accounts assigned to you' : 'No accounts match your filters'}
+                {accounts.length === 0 ? 'No accounts assigned to you' : 'No accounts match your filters'}
               </h3>
               <p className="text-gray-600 mb-4">
-                {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                {accounts.length === 0 
+                  ? canEdit
                     ? 'Get started by adding your first account'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search or filter criteria'
                 }
               </p>
-              {filteredAccountsByRole.length === 0 && currentUser?.role === 'superadmin' && (
+              {accounts.length === 0 && canEdit && (
                 <button
                   onClick={handleAdd}
                   className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors"
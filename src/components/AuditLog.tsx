@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History, Filter, Calendar, ChevronLeft, ChevronRight, ChevronDown, X } from 'lucide-react';
+import { AuditLogEntry, AuditLogQuery } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useAccounts, useLoadReporter, useUsers } from '../hooks/useStore';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_STYLES,
+  AUDIT_TABLE_LABELS,
+  describeAuditRow,
+  formatAuditValue,
+  getAuditChanges
+} from '../lib/audit';
+import ScreenErrors from './ScreenErrors';
+
+const PAGE_SIZE = 50;
+
+const AuditLog: React.FC = () => {
+  const accounts = useAccounts();
+  const { users } = useUsers();
+  const [actorId, setActorId] = useState('');
+  const [tableName, setTableName] = useState('');
+  const [rowFilter, setRowFilter] = useState<{ id: string; label: string } | null>(null);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const { fetchAuditLogPage } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
+
+  const query: AuditLogQuery = useMemo(() => ({
+    actorId: actorId || undefined,
+    tableName: tableName || undefined,
+    rowId: rowFilter?.id,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+  }), [actorId, tableName, rowFilter, startDate, endDate]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [query]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    fetchAuditLogPage(query, page, PAGE_SIZE).then(({ data, error }) => {
+      if (!isCurrent) return;
+
+      reportLoad('Failed to load audit log', error);
+      if (data) {
+        setEntries(data.rows);
+        setTotal(data.total);
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [query, page, fetchAuditLogPage, reportLoad, reloadKey]);
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  const getActorName = (entry: AuditLogEntry) => {
+    if (!entry.actor_id) return 'System';
+    return users.find(user => user.id === entry.actor_id)?.name || entry.actor_name || 'Deleted user';
+  };
+
+  const handleTableChange = (value: string) => {
+    setTableName(value);
+    setRowFilter(null);
+  };
+
+  // Narrows the log to the full history of one record
+  const showRowHistory = (entry: AuditLogEntry) => {
+    setTableName(entry.table_name);
+    setRowFilter({ id: entry.row_id, label: describeAuditRow(entry, accounts, users) });
+    setExpandedId(null);
+  };
+
+  const clearFilters = () => {
+    setActorId('');
+    setTableName('');
+    setRowFilter(null);
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const hasFilters = Boolean(actorId || tableName || rowFilter || startDate || endDate);
+
+  return (
+    <div className="space-y-6">
+      <ScreenErrors />
+
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Every change to accounts, sales data, incentives, payouts and team members, with who made it and when</p>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Filter className="w-5 h-5 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Filters:</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">User:</label>
+            <select
+              value={actorId}
+              onChange={(e) => setActorId(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="">All Users</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-600">Entity:</label>
+            <select
+              value={tableName}
+              onChange={(e) => handleTableChange(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="">All Entities</option>
+              {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+                <option key={table} value={table}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Calendar className="w-4 h-4 text-gray-400" />
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-gray-400 text-sm">to</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="text-sm text-purple-600 hover:text-purple-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {rowFilter && (
+          <div className="mt-4 inline-flex items-center space-x-2 px-3 py-1 rounded-full bg-purple-50 text-purple-700 text-sm">
+            <span>History of {AUDIT_TABLE_LABELS[tableName] || tableName}: {rowFilter.label}</span>
+            <button onClick={() => setRowFilter(null)} className="hover:text-purple-900">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map(entry => {
+                const changes = getAuditChanges(entry);
+                const isExpanded = expandedId === entry.id;
+
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : entry.id)}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(entry.created_at).toLocaleString('id-ID')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {getActorName(entry)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${AUDIT_ACTION_STYLES[entry.action]}`}>
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{describeAuditRow(entry, accounts, users)}</div>
+                        <div className="text-sm text-gray-500">{AUDIT_TABLE_LABELS[entry.table_name] || entry.table_name}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {entry.action === 'update'
+                          ? changes.map(change => change.column).join(', ')
+                          : `${changes.length} fields`}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-6 py-4">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 uppercase">
+                                <th className="py-1 pr-4 font-medium">Field</th>
+                                <th className="py-1 pr-4 font-medium">Before</th>
+                                <th className="py-1 font-medium">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changes.map(change => (
+                                <tr key={change.column} className="align-top">
+                                  <td className="py-1 pr-4 font-mono text-xs text-gray-700">{change.column}</td>
+                                  <td className="py-1 pr-4 text-red-700 break-all">{entry.action === 'insert' ? '—' : formatAuditValue(change.before)}</td>
+                                  <td className="py-1 text-green-700 break-all">{entry.action === 'delete' ? '—' : formatAuditValue(change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          {!rowFilter && (
+                            <button
+                              onClick={() => showRowHistory(entry)}
+                              className="mt-3 flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+                            >
+                              <History className="w-4 h-4" />
+                              <span>Show full history of this record</span>
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {!isLoading && total === 0 && (
+            <div className="text-center py-12">
+              <History className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No changes found</h3>
+              <p className="text-gray-600">{hasFilters ? 'Try adjusting your filters' : 'Changes appear here as soon as someone edits data'}</p>
+            </div>
+          )}
+        </div>
+
+        {total > PAGE_SIZE && (
+          <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {page * PAGE_SIZE + 1}-{Math.min((page + 1) * PAGE_SIZE, total)} of {total.toLocaleString()} changes
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setPage(current => current - 1)}
+                disabled={page === 0}
+                className="p-1.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>Page {page + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(current => current + 1)}
+                disabled={page + 1 >= pageCount}
+                className="p-1.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
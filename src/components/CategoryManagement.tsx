@@ -1,20 +1,13 @@
 import React, { useState } from 'react';
 import { Plus, Edit2, Trash2, Tag, X } from 'lucide-react';
 import { Category } from '../types';
+import { useAccountActions, useCategories, useCategoryActions } from '../hooks/useStore';
+import { reportError } from '../lib/store';
 
-interface CategoryManagementProps {
-  categories: Category[];
-  onAddCategory: (category: Omit<Category, 'id' | 'created_at'>) => void;
-  onUpdateCategory: (id: string, category: Partial<Category>) => void;
-  onDeleteCategory: (id: string) => void;
-}
-
-const CategoryManagement: React.FC<CategoryManagementProps> = ({
-  categories,
-  onAddCategory,
-  onUpdateCategory,
-  onDeleteCategory,
-}) => {
+const CategoryManagement: React.FC = () => {
+  const categories = useCategories();
+  const { addCategory, updateCategory, deleteCategory } = useCategoryActions();
+  const { reloadAccounts } = useAccountActions();
   const [showModal, setShowModal] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [formData, setFormData] = useState({
@@ -26,9 +19,9 @@ const CategoryManagement: React.FC<CategoryManagementProps> = ({
     e.preventDefault();
     
     if (editingCategory) {
-      onUpdateCategory(editingCategory.id, formData);
+      updateCategory(editingCategory.id, formData);
     } else {
-      onAddCategory(formData);
+      addCategory(formData);
     }
     
     setShowModal(false);
@@ -45,6 +38,26 @@ const CategoryManagement: React.FC<CategoryManagementProps> = ({
     setShowModal(true);
   };
 
+  const handleDelete = async (id: string) => {
+    // Fetch latest account data to ensure we have current state
+    const { data: latestAccounts, error } = await reloadAccounts();
+    if (error) {
+      reportError({ title: 'Failed to check accounts using this category', error, retry: () => handleDelete(id) });
+      return;
+    }
+
+    const accountsUsingCategory = latestAccounts.filter(acc => acc.category_id === id);
+    
+    if (accountsUsingCategory.length > 0) {
+      alert(`Cannot delete category. ${accountsUsingCategory.length} account(s) are still using this category. Please reassign or delete those accounts first.`);
+      return;
+    }
+    
+    if (confirm('Are you sure you want to delete this category?')) {
+      deleteCategory(id);
+    }
+  };
+
   const handleAdd = () => {
     setEditingCategory(null);
     setFormData({ name: '', description: '' });
@@ -93,7 +106,7 @@ const CategoryManagement: React.FC<CategoryManagementProps> = ({
                     <Edit2 className="w-4 h-4" />
                   </button>
                   <button
-                    onClick={() => onDeleteCategory(category.id)}
+                    onClick={() => handleDelete(category.id)}
                     className="p-2 text-gray-400 hover:text-red-600 transition-colors"
                   >
                     <Trash2 className="w-4 h-4" />
@@ -12,52 +12,30 @@ import {
   CheckCircle,
   Star,
   FileText,
-  Shield
+  Shield,
+  Wallet
 } from 'lucide-react';
 import MetricCard from './MetricCard';
-import { DashboardMetrics, Account, SalesData, User } from '../types';
-
-interface DateFilter {
-  startDate: string;
-  endDate: string;
-  preset: string;
-}
-
-interface DashboardProps {
-  accounts: Account[];
-  salesData: SalesData[];
-  dateFilter: DateFilter;
-  onDateFilterChange: (filter: DateFilter) => void;
-  currentUser?: User;
-}
-
-const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter, onDateFilterChange, currentUser }) => {
-  // Filter accounts and sales data based on user role
-  const filteredAccounts = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
+import { DashboardMetrics } from '../types';
+import TeamPerformance from './TeamPerformance';
+import DataUpdatedIndicator from './DataUpdatedIndicator';
+import ScreenErrors from './ScreenErrors';
+import { formatPeriodLabel, summarizePayouts } from '../lib/payouts';
+import { can } from '../lib/permissions';
+import { useSupabase } from '../hooks/useSupabase';
+import { useAccounts, useCurrentUser, useDateFilter, useLoadReporter, usePayoutLedger, useSalesData, useTeams, useUsers } from '../hooks/useStore';
+import { EMPTY_SALES_TOTALS, getDateFilterRange } from '../lib/salesQuery';
+import { getCurrentMonth, getMonthPeriod } from '../lib/incentives';
+import { TeamRollup, getVisibleTeams, rollupTeam } from '../lib/teams';
 
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
-    }
-  }, [salesData, currentUser]);
+const Dashboard: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const payoutLedger = usePayoutLedger();
+  const teams = useTeams();
+  const [dateFilter, setDateFilter] = useDateFilter();
+  const salesQuery = React.useMemo(() => getDateFilterRange(dateFilter), [dateFilter]);
+  const { salesData } = useSalesData(salesQuery);
 
   const [metrics, setMetrics] = useState<DashboardMetrics>({
     totalCommission: 0,
@@ -69,96 +47,102 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
   });
 
   const [dailyData, setDailyData] = useState<any[]>([]);
-  const [filteredSalesData, setFilteredSalesData] = useState<SalesData[]>([]);
+  const [teamRollups, setTeamRollups] = useState<TeamRollup[]>([]);
 
-  // Calculate payment status statistics for superadmin
+  // Calculate payment status statistics for everyone who sees all accounts
   const paymentStats = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return null;
+    if (!can(currentUser, 'accounts.view_all')) return null;
     
     const stats = {
-      total: filteredAccounts.length,
-      belumDiatur: filteredAccounts.filter(acc => acc.payment_data === 'belum diatur').length,
-      utamakan: filteredAccounts.filter(acc => acc.payment_data === 'utamakan').length,
-      dimasukkan: filteredAccounts.filter(acc => acc.payment_data === 'dimasukkan').length,
-      disetujui: filteredAccounts.filter(acc => acc.payment_data === 'disetujui').length,
-      sah: filteredAccounts.filter(acc => acc.payment_data === 'sah').length,
+      total: accounts.length,
+      belumDiatur: accounts.filter(acc => acc.payment_data === 'belum diatur').length,
+      utamakan: accounts.filter(acc => acc.payment_data === 'utamakan').length,
+      dimasukkan: accounts.filter(acc => acc.payment_data === 'dimasukkan').length,
+      disetujui: accounts.filter(acc => acc.payment_data === 'disetujui').length,
+      sah: accounts.filter(acc => acc.payment_data === 'sah').length,
     };
     
     return stats;
-  }, [filteredAccounts, currentUser]);
+  }, [accounts, currentUser]);
 
   // Get accounts that need immediate attention (utamakan status)
   const priorityAccounts = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return [];
-    return filteredAccounts.filter(acc => acc.payment_data === 'utamakan');
-  }, [filteredAccounts, currentUser]);
+    if (!can(currentUser, 'accounts.view_all')) return [];
+    return accounts.filter(acc => acc.payment_data === 'utamakan');
+  }, [accounts, currentUser]);
+
+  // Metrics come from get_sales_totals; row level security limits them to the user's accounts
+  const { fetchSalesTotals } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
 
-  // Filter sales data based on date filter
+  // salesData changes after uploads and rollbacks, which is when the totals need refreshing
   useEffect(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filteredSalesDataByUser.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
+    let isCurrent = true;
+
+    Promise.all([
+      fetchSalesTotals('all', 'all', salesQuery),
+      fetchSalesTotals('all', 'day', salesQuery),
+    ]).then(([totalsResult, dailyResult]) => {
+      if (!isCurrent) return;
+
+      reportLoad('Failed to load sales totals', totalsResult.error || dailyResult.error);
+      if (totalsResult.error || dailyResult.error) return;
+
+      const [totals = EMPTY_SALES_TOTALS] = totalsResult.data;
+      setMetrics({
+        totalCommission: totals.gross_commission,
+        totalRevenue: totals.total_purchases,
+        totalOrders: totals.orders,
+        totalClicks: totals.clicks,
+        commissionPercentage: totals.commission_rate,
+        conversionRate: totals.conversion_rate,
       });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filteredSalesDataByUser.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    setFilteredSalesData(filtered);
-  }, [filteredSalesDataByUser, dateFilter]);
+
+      // Daily data for charts (last 7 days with data)
+      setDailyData(dailyResult.data.slice(-7).map(row => ({
+        date: row.bucket,
+        commission: row.gross_commission,
+        revenue: row.total_purchases,
+        orders: row.orders,
+        clicks: row.clicks,
+      })));
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [salesQuery, salesData, fetchSalesTotals, reportLoad, reloadKey]);
+
+  // Team targets are monthly, so the rollup always covers the current month whatever the date filter says
+  const visibleTeams = React.useMemo(() => getVisibleTeams(teams, currentUser), [teams, currentUser]);
+  const { users } = useUsers(visibleTeams.length > 0);
+  const currentMonth = getCurrentMonth();
 
   useEffect(() => {
-    // Calculate metrics from sales data
-    const totalCommission = filteredSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredSalesData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredSalesData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredSalesData.reduce((sum, data) => sum + data.clicks, 0);
-    
-    const commissionPercentage = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
-    const conversionRate = totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0;
-
-    setMetrics({
-      totalCommission,
-      totalRevenue,
-      totalOrders,
-      totalClicks,
-      commissionPercentage,
-      conversionRate,
+    if (visibleTeams.length === 0) {
+      setTeamRollups([]);
+      return;
+    }
+
+    let isCurrent = true;
+    const monthPeriod = getMonthPeriod(currentMonth);
+
+    fetchSalesTotals('user', 'all', { startDate: monthPeriod.start, endDate: monthPeriod.end }).then(({ data: userTotals, error }) => {
+      if (!isCurrent) return;
+
+      reportLoad('Failed to load team performance', error);
+      if (error) return;
+
+      const figures = userTotals
+        .filter(row => row.group_id !== null)
+        .map(row => ({ user_id: row.group_id as string, total_revenue: row.total_purchases, total_commission: row.gross_commission }));
+      setTeamRollups(visibleTeams.map(team => rollupTeam(team, users, figures)));
     });
 
-    // Prepare daily data for charts (last 7 days with data)
-    const groupedData = filteredSalesData.reduce((acc, data) => {
-      const date = data.date;
-      if (!acc[date]) {
-        acc[date] = {
-          date,
-          commission: 0,
-          revenue: 0,
-          orders: 0,
-          clicks: 0,
-        };
-      }
-      acc[date].commission += data.gross_commission;
-      acc[date].revenue += data.total_purchases;
-      acc[date].orders += data.orders;
-      acc[date].clicks += data.clicks;
-      return acc;
-    }, {} as any);
-
-    const dailyArray = Object.values(groupedData)
-      .sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 7)
-      .reverse();
-
-    setDailyData(dailyArray);
-  }, [filteredSalesData]);
+    return () => {
+      isCurrent = false;
+    };
+  }, [visibleTeams, users, currentMonth, salesData, fetchSalesTotals, reportLoad, reloadKey]);
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -169,7 +153,7 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
       newFilter.endDate = '';
     }
     
-    onDateFilterChange(newFilter);
+    setDateFilter(newFilter);
   };
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -183,12 +167,26 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
     return `${value.toFixed(2)}%`;
   };
 
+  const seesAllPayouts = can(currentUser, 'payouts.manage') || can(currentUser, 'payouts.approve');
+
+  const payoutSummary = React.useMemo(() => {
+    const entries = seesAllPayouts
+      ? payoutLedger
+      : payoutLedger.filter(entry => entry.user_id === currentUser.id);
+    return summarizePayouts(entries);
+  }, [payoutLedger, currentUser, seesAllPayouts]);
+
   return (
     <div className="space-y-6">
+      <ScreenErrors />
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <div className="flex items-center space-x-3">
+            <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+            <DataUpdatedIndicator />
+          </div>
           <p className="text-gray-600">Detailed overview of your affiliate performance</p>
         </div>
         <div className="flex items-center space-x-3 flex-wrap">
@@ -260,7 +258,42 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
         />
       </div>
 
-      {currentUser?.role === 'superadmin' && paymentStats && (
+      {teamRollups.length > 0 && (
+        <TeamPerformance
+          rollups={teamRollups}
+          title="Target Tim"
+          subtitle={`Omzet ${formatPeriodLabel(currentMonth)} dibandingkan target bulanan tiap tim`}
+        />
+      )}
+
+      {/* Incentive Payouts */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <Wallet className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            {seesAllPayouts ? 'Incentive Payouts' : 'Your Incentive Payouts'}
+          </h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-blue-50 rounded-lg p-4">
+            <div className="text-sm font-medium text-blue-700 mb-1">Outstanding</div>
+            <div className="text-xl font-bold text-blue-900">{formatCurrency(payoutSummary.outstanding)}</div>
+            <p className="text-xs text-blue-700 mt-1">
+              Draft {formatCurrency(payoutSummary.draft)} · Approved {formatCurrency(payoutSummary.approved)}
+            </p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-4">
+            <div className="text-sm font-medium text-green-700 mb-1">Paid</div>
+            <div className="text-xl font-bold text-green-900">{formatCurrency(payoutSummary.paid)}</div>
+          </div>
+          <div className="bg-red-50 rounded-lg p-4">
+            <div className="text-sm font-medium text-red-700 mb-1">Disputed</div>
+            <div className="text-xl font-bold text-red-900">{formatCurrency(payoutSummary.disputed)}</div>
+          </div>
+        </div>
+      </div>
+
+      {paymentStats && (
         <>
           <div className="flex items-center justify-between">
             <div>
@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { useDataUpdatedAt } from '../hooks/useStore';
+
+// How long the indicator stays highlighted after data from another session arrives
+const HIGHLIGHT_DURATION = 4000;
+
+const DataUpdatedIndicator: React.FC = () => {
+  const updatedAt = useDataUpdatedAt();
+  const [isHighlighted, setIsHighlighted] = useState(false);
+
+  useEffect(() => {
+    if (!updatedAt) return;
+
+    setIsHighlighted(true);
+    const timer = setTimeout(() => setIsHighlighted(false), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [updatedAt]);
+
+  if (!updatedAt) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs transition-colors duration-500 ${
+        isHighlighted ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+      }`}
+      title="Data dari sesi lain diterima secara langsung"
+    >
+      <RefreshCw className="w-3 h-3" />
+      <span>
+        Data diperbarui {new Date(updatedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+      </span>
+    </span>
+  );
+};
+
+export default DataUpdatedIndicator;
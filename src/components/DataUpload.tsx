@@ -1,67 +1,73 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
-
-interface DataUploadProps {
-  accounts: Account[];
-  salesData: SalesData[];
-  categories: Category[];
-  currentUser?: {
-    id: string;
-    name: string;
-    email: string;
-    role: 'user' | 'superadmin';
-    managed_accounts: string[];
-  };
-  onUploadData: (accountId: string, data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[]) => void;
-  onDeleteSalesData: (accountId: string, dateRange?: { start: string; end: string }) => void;
-}
-
-interface ParsedRow {
-  date: string;
-  clicks: number;
-  orders: number;
-  gross_commission: number;
-  products_sold: number;
-  total_purchases: number;
-  new_buyers: number;
-}
-
-const DataUpload: React.FC<DataUploadProps> = ({ 
-  accounts, 
-  salesData, 
-  categories, 
-  currentUser,
-  onUploadData, 
-  onDeleteSalesData 
-}) => {
-  // Filter accounts based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User, Lock, Layers, Plus, History, RotateCcw } from 'lucide-react';
+import { Account, SalesData, ImportBatch, SalesAccountSummary, SupabaseError } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useAccountActions, useAccounts, useCategories, useCurrentUser, useLoadReporter, usePayoutPeriods, useSalesActions } from '../hooks/useStore';
+import { getMonthKey } from '../lib/incentives';
+import { can, managesAccount } from '../lib/permissions';
+import {
+  ImportCell,
+  ParsedRow,
+  ConflictResolution,
+  buildSalesImport,
+  cellToText,
+  diffSalesRows,
+  detectHeaderRow,
+  findAccountByKey,
+  normalizeAccountKey,
+  isExcelFile,
+  parseDelimitedText,
+  readWorkbookSheet,
+  readWorkbookSheetNames,
+  resolveSalesDiff,
+} from '../lib/salesImport';
+import ScreenErrors from './ScreenErrors';
+
+const DataUpload: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const categories = useCategories();
+  const payoutPeriods = usePayoutPeriods();
+  const closedPeriods = React.useMemo(
+    () => payoutPeriods.filter(period => period.status === 'closed').map(period => period.period),
+    [payoutPeriods]
+  );
+  const { addAccount } = useAccountActions();
+  const { uploadSalesData, rollbackImport, deleteSalesData } = useSalesActions();
+  const { fetchImportBatches, fetchSalesData, fetchSalesAccountSummaries } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
 
   const [searchTerm, setSearchTerm] = useState('');
   
   // Upload modal states
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [uploadMode, setUploadMode] = useState<'single' | 'bulk'>('single');
+  const [bulkSummary, setBulkSummary] = useState<{ account: Account; rows: number }[] | null>(null);
+  const [isCreatingAccounts, setIsCreatingAccounts] = useState(false);
+  const [defaultResolution, setDefaultResolution] = useState<ConflictResolution>('overwrite');
+  const [conflictResolutions, setConflictResolutions] = useState<Record<string, ConflictResolution>>({});
   const [selectedAccountForUpload, setSelectedAccountForUpload] = useState('');
   const [file, setFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedRow[]>([]);
+  const [sourceTable, setSourceTable] = useState<ImportCell[][] | null>(null);
+  const [headerRowIndex, setHeaderRowIndex] = useState(0);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState('');
+  const [isReadingFile, setIsReadingFile] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<{ success: boolean; message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Drag and drop states
   const [isDragOver, setIsDragOver] = useState(false);
+
+  // Only the rows an upload can touch and per-account totals are loaded, never the whole table
+  const [existingSalesData, setExistingSalesData] = useState<SalesData[]>([]);
+  const [accountSummaries, setAccountSummaries] = useState<SalesAccountSummary[]>([]);
+
+  // Import history state
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
   
   // Delete modal states
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -69,6 +75,89 @@ const DataUpload: React.FC<DataUploadProps> = ({
   const [deleteStartDate, setDeleteStartDate] = useState('');
   const [deleteEndDate, setDeleteEndDate] = useState('');
 
+  const importResult = React.useMemo(() => {
+    return sourceTable
+      ? buildSalesImport(sourceTable, headerRowIndex, { multiAccount: uploadMode === 'bulk' })
+      : null;
+  }, [sourceTable, headerRowIndex, uploadMode]);
+
+  const parsedData: ParsedRow[] = React.useMemo(() => importResult?.rows || [], [importResult]);
+  const reportIssues = importResult?.report.filter(row => row.status !== 'valid') || [];
+  const errorRowCount = importResult?.report.filter(row => row.status === 'error').length || 0;
+  const warningRowCount = importResult?.report.filter(row => row.status === 'warning').length || 0;
+  const parsedDates = parsedData.map(row => row.date).sort();
+
+  // Route each account group in a combined file to an account the current user may upload to
+  const accountMatches = React.useMemo(() => {
+    if (!importResult || uploadMode !== 'bulk') return [];
+
+    return Object.entries(importResult.rowsByAccount).map(([key, rows]) => {
+      const label = importResult.report.find(row => row.account && normalizeAccountKey(row.account) === key)?.account || key;
+      const dates = rows.map(row => row.date).sort();
+      return {
+        key,
+        label,
+        account: findAccountByKey(accounts, key) || null,
+        rows,
+        start: dates[0],
+        end: dates[dates.length - 1],
+      };
+    });
+  }, [importResult, uploadMode, accounts]);
+
+  const unmatchedAccounts = accountMatches.filter(match => !match.account);
+
+  // Rows grouped by the account they will be written to
+  const uploadGroups = React.useMemo(() => {
+    if (uploadMode === 'bulk') {
+      return accountMatches
+        .filter((match): match is typeof match & { account: Account } => match.account !== null)
+        .map(match => ({ account: match.account, rows: match.rows }));
+    }
+
+    const account = accounts.find(acc => acc.id === selectedAccountForUpload);
+    return account && parsedData.length > 0 ? [{ account, rows: parsedData }] : [];
+  }, [uploadMode, accountMatches, accounts, selectedAccountForUpload, parsedData]);
+
+  const rowDiffs = React.useMemo(() => {
+    return uploadGroups.flatMap(group =>
+      diffSalesRows(group.rows, existingSalesData.filter(data => data.account_id === group.account.id))
+        .map(diff => ({ ...diff, key: `${group.account.id}|${diff.date}`, account: group.account }))
+    );
+  }, [uploadGroups, existingSalesData]);
+
+  const changedDiffs = rowDiffs.filter(diff => diff.status === 'changed');
+  const newDiffCount = rowDiffs.filter(diff => diff.status === 'new').length;
+  const identicalDiffCount = rowDiffs.filter(diff => diff.status === 'identical').length;
+
+  const getResolution = (key: string) => conflictResolutions[key] || defaultResolution;
+
+  const buildUploads = () => {
+    return uploadGroups
+      .map(group => ({
+        accountId: group.account.id,
+        data: resolveSalesDiff(
+          rowDiffs.filter(diff => diff.account.id === group.account.id),
+          diff => getResolution(`${group.account.id}|${diff.date}`)
+        ),
+      }))
+      .filter(upload => upload.data.length > 0);
+  };
+
+  // Months with a closed payout period cannot receive new or changed sales data
+  const lockedUploadMonths = [...new Set(parsedData.map(row => getMonthKey(row.date)))]
+    .filter(month => closedPeriods.includes(month))
+    .sort();
+
+  const deleteSummary = accountSummaries.find(summary => summary.account_id === deleteAccountId);
+  const deleteRangeStart = deleteStartDate && deleteEndDate ? deleteStartDate : deleteSummary?.first_date;
+  const deleteRangeEnd = deleteStartDate && deleteEndDate ? deleteEndDate : deleteSummary?.last_date;
+  const lockedDeleteMonths = deleteRangeStart && deleteRangeEnd
+    ? closedPeriods
+      .filter(month => month >= getMonthKey(deleteRangeStart) && month <= getMonthKey(deleteRangeEnd))
+      .sort()
+    : [];
+
   const getCategoryName = (categoryId: string) => {
     if (!categoryId) return 'Belum Diatur';
     const category = categories.find(cat => cat.id === categoryId);
@@ -76,7 +165,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
   };
 
   // Filter accounts based on search term
-  const filteredAccounts = filteredAccountsByRole.filter(account => 
+  const filteredAccounts = accounts.filter(account => 
     account.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
     account.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
     account.account_code.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -84,32 +173,76 @@ const DataUpload: React.FC<DataUploadProps> = ({
   );
 
   const getAccountSalesDataCount = (accountId: string) => {
-    return salesData.filter(data => data.account_id === accountId).length;
+    return accountSummaries.find(summary => summary.account_id === accountId)?.row_count || 0;
   };
 
   const getAccountDateRange = (accountId: string) => {
-    const accountData = salesData.filter(data => data.account_id === accountId);
-    if (accountData.length === 0) return null;
+    const summary = accountSummaries.find(summary => summary.account_id === accountId);
+    if (!summary) return null;
     
-    const dates = accountData.map(data => new Date(data.date)).sort((a, b) => a.getTime() - b.getTime());
     return {
-      start: dates[0].toISOString().split('T')[0],
-      end: dates[dates.length - 1].toISOString().split('T')[0]
+      start: summary.first_date,
+      end: summary.last_date
     };
   };
 
+  const loadAccountSummaries = useCallback(async () => {
+    const { data, error } = await fetchSalesAccountSummaries();
+    reportLoad('Failed to load uploaded data summary', error);
+    if (data) setAccountSummaries(data);
+  }, [fetchSalesAccountSummaries, reportLoad]);
+
+  // Existing rows for the accounts and dates in the file, used to preview changes
+  const existingQuery = React.useMemo(() => {
+    const dates = uploadGroups.flatMap(group => group.rows.map(row => row.date)).sort();
+    return {
+      accountIds: uploadGroups.map(group => group.account.id),
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+    };
+  }, [uploadGroups]);
+
+  const loadExistingSalesData = useCallback(async () => {
+    if (!existingQuery.startDate) {
+      setExistingSalesData([]);
+      return;
+    }
+
+    const { data, error } = await fetchSalesData(existingQuery);
+    reportLoad('Failed to load existing sales data for the preview', error);
+    if (data) setExistingSalesData(data);
+  }, [existingQuery, fetchSalesData, reportLoad]);
+
+  useEffect(() => {
+    loadExistingSalesData();
+  }, [loadExistingSalesData, reloadKey]);
+
   // Upload functions
   const openUploadModal = (accountId: string) => {
+    setUploadMode('single');
     setSelectedAccountForUpload(accountId);
     setShowUploadModal(true);
     setUploadResult(null);
   };
 
+  const openBulkUploadModal = () => {
+    setUploadMode('bulk');
+    setSelectedAccountForUpload('');
+    setBulkSummary(null);
+    setShowUploadModal(true);
+    setUploadResult(null);
+  };
+
   const closeUploadModal = () => {
     setShowUploadModal(false);
     setSelectedAccountForUpload('');
+    setBulkSummary(null);
+    setConflictResolutions({});
+    setDefaultResolution('overwrite');
     setFile(null);
-    setParsedData([]);
+    setSourceTable(null);
+    setSheetNames([]);
+    setSelectedSheet('');
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -117,65 +250,77 @@ const DataUpload: React.FC<DataUploadProps> = ({
     }
   };
 
-  const parseCSV = (csvText: string): ParsedRow[] => {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',');
-    
-    // Validate headers
-    const expectedHeaders = [
-      'Tanggal',
-      'Klik', 
-      'Pesanan',
-      'Komisi Kotor(Rp)',
-      'Produk Terjual',
-      'Total Pembelian yang Dibuat(Rp)',
-      'Pembeli Baru'
-    ];
-
-    const data: ParsedRow[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const row = lines[i].split(',');
-      if (row.length === expectedHeaders.length) {
-        data.push({
-          date: row[0],
-          clicks: parseInt(row[1]) || 0,
-          orders: parseInt(row[2]) || 0,
-          gross_commission: parseFloat(row[3]) || 0,
-          products_sold: parseInt(row[4]) || 0,
-          total_purchases: parseFloat(row[5]) || 0,
-          new_buyers: parseInt(row[6]) || 0,
+  // Windows reports CSV files as application/vnd.ms-excel, so fall back to the extension
+  const isSupportedFile = (selectedFile: File) => {
+    return selectedFile.type === 'text/csv' || selectedFile.name.toLowerCase().endsWith('.csv') || isExcelFile(selectedFile);
+  };
+
+  const showTable = (table: ImportCell[][]) => {
+    setSourceTable(table);
+    setHeaderRowIndex(detectHeaderRow(table, { multiAccount: uploadMode === 'bulk' }));
+  };
+
+  const loadSheet = async (workbook: File, sheet: string) => {
+    setSelectedSheet(sheet);
+    setIsReadingFile(true);
+    try {
+      showTable(await readWorkbookSheet(workbook, sheet));
+    } catch {
+      setSourceTable(null);
+      setUploadResult({
+        success: false,
+        message: `Error reading sheet "${sheet}". Please check the workbook.`,
+      });
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const loadFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setUploadResult(null);
+    setConflictResolutions({});
+    setSourceTable(null);
+    setSheetNames([]);
+    setSelectedSheet('');
+
+    if (isExcelFile(selectedFile)) {
+      setIsReadingFile(true);
+      try {
+        const names = await readWorkbookSheetNames(selectedFile);
+        setSheetNames(names);
+        if (names.length > 0) {
+          await loadSheet(selectedFile, names[0]);
+        }
+      } catch {
+        setUploadResult({
+          success: false,
+          message: 'Error reading Excel file. Please check the file format.',
         });
+      } finally {
+        setIsReadingFile(false);
       }
+      return;
+    }
+
+    try {
+      showTable(parseDelimitedText(await selectedFile.text()));
+    } catch {
+      setUploadResult({
+        success: false,
+        message: 'Error parsing CSV file. Please check the file format.',
+      });
     }
-    
-    return data;
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile);
-      setUploadResult(null);
-      
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const csvText = e.target?.result as string;
-          const parsed = parseCSV(csvText);
-          setParsedData(parsed);
-        } catch (error) {
-          setUploadResult({
-            success: false,
-            message: 'Error parsing CSV file. Please check the file format.',
-          });
-        }
-      };
-      reader.readAsText(selectedFile);
+    if (selectedFile && isSupportedFile(selectedFile)) {
+      loadFile(selectedFile);
     } else {
       setUploadResult({
         success: false,
-        message: 'Please select a valid CSV file.',
+        message: 'Please select a valid CSV or Excel (.xlsx) file.',
       });
     }
   };
@@ -201,59 +346,159 @@ const DataUpload: React.FC<DataUploadProps> = ({
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
       const droppedFile = files[0];
-      if (droppedFile.type === 'text/csv' || droppedFile.name.endsWith('.csv')) {
-        setFile(droppedFile);
-        setUploadResult(null);
-        
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          try {
-            const csvText = event.target?.result as string;
-            const parsed = parseCSV(csvText);
-            setParsedData(parsed);
-          } catch (error) {
-            setUploadResult({
-              success: false,
-              message: 'Error parsing CSV file. Please check the file format.',
-            });
-          }
-        };
-        reader.readAsText(droppedFile);
+      if (isSupportedFile(droppedFile)) {
+        loadFile(droppedFile);
       } else {
         setUploadResult({
           success: false,
-          message: 'Please drop a valid CSV file.',
+          message: 'Please drop a valid CSV or Excel (.xlsx) file.',
         });
       }
     }
   };
 
+  const handleCreateMissingAccounts = async () => {
+    if (unmatchedAccounts.length === 0 || !can(currentUser, 'accounts.edit')) return;
+
+    // Each account is created on its own; one failing does not stop the rest
+    setIsCreatingAccounts(true);
+    const failed: string[] = [];
+    for (const match of unmatchedAccounts) {
+      const { error } = await addAccount({
+        username: match.label.replace(/^@/, ''),
+        email: '',
+        phone: '',
+        status: 'active',
+        payment_data: 'belum diatur',
+        category_id: '',
+        user_id: currentUser.id,
+      });
+      if (error) {
+        failed.push(`${match.label} (${error.message})`);
+      }
+    }
+    setIsCreatingAccounts(false);
+
+    if (failed.length > 0) {
+      setUploadResult({
+        success: false,
+        message: `Failed to create ${failed.length} of ${unmatchedAccounts.length} accounts: ${failed.join('; ')}.`,
+      });
+    }
+  };
+
+  const handleBulkUpload = async () => {
+    if (!file || uploadGroups.length === 0) {
+      setUploadResult({
+        success: false,
+        message: 'No rows match an existing account.',
+      });
+      return;
+    }
+
+    const uploads = buildUploads();
+    if (uploads.length === 0) {
+      setUploadResult({
+        success: false,
+        message: 'No new or changed rows to upload.',
+      });
+      return;
+    }
+
+    if (lockedUploadMonths.length > 0) {
+      setUploadResult({
+        success: false,
+        message: `Payout period ${lockedUploadMonths.join(', ')} is closed. Remove those rows or ask a super admin to reopen the period.`,
+      });
+      return;
+    }
+
+    setIsUploading(true);
+
+    try {
+      const { data: uploaded, error } = await uploadSalesData(uploads, file.name);
+
+      if (error) throw error;
+
+      loadImportBatches();
+      loadAccountSummaries();
+      loadExistingSalesData();
+      setBulkSummary(uploadGroups.map(group => ({
+        account: group.account,
+        rows: uploaded.filter(item => item.account_id === group.account.id).length,
+      })));
+      setUploadResult({
+        success: true,
+        message: `Successfully uploaded ${uploaded.length} records for ${uploads.length} accounts.` +
+          (unmatchedAccounts.length > 0 ? ` ${unmatchedAccounts.length} unmatched accounts were skipped.` : '') +
+          (errorRowCount > 0 ? ` ${errorRowCount} invalid rows were skipped.` : ''),
+      });
+    } catch (err) {
+      setUploadResult({
+        success: false,
+        message: `Failed to upload data: ${(err as SupabaseError).message}`,
+      });
+    }
+
+    setIsUploading(false);
+  };
+
   const handleUpload = async () => {
+    if (uploadMode === 'bulk') {
+      return handleBulkUpload();
+    }
+
     if (!selectedAccountForUpload || !file || parsedData.length === 0) {
       setUploadResult({
         success: false,
-        message: 'Please upload a valid CSV file.',
+        message: 'Please upload a valid CSV or Excel file.',
+      });
+      return;
+    }
+
+    if (lockedUploadMonths.length > 0) {
+      setUploadResult({
+        success: false,
+        message: `Payout period ${lockedUploadMonths.join(', ')} is closed. Remove those rows or ask a super admin to reopen the period.`,
+      });
+      return;
+    }
+
+    const uploads = buildUploads();
+    if (uploads.length === 0) {
+      setUploadResult({
+        success: false,
+        message: 'No new or changed rows to upload.',
       });
       return;
     }
 
+    const rowsToUpload = uploads[0].data;
+    const skippedCount = parsedData.length - rowsToUpload.length;
+
     setIsUploading(true);
     
     try {
-      await onUploadData(selectedAccountForUpload, parsedData);
+      const { error } = await uploadSalesData([{ accountId: selectedAccountForUpload, data: rowsToUpload }], file.name);
+      if (error) throw error;
+
+      loadImportBatches();
+      loadAccountSummaries();
       setUploadResult({
         success: true,
-        message: `Successfully uploaded ${parsedData.length} records.`,
+        message: `Successfully uploaded ${rowsToUpload.length} records.` +
+          (skippedCount > 0 ? ` ${skippedCount} identical or skipped rows were left unchanged.` : '') +
+          (errorRowCount > 0 ? ` ${errorRowCount} invalid rows were skipped.` : ''),
       });
       
       // Reset form after successful upload
       setTimeout(() => {
         closeUploadModal();
       }, 2000);
-    } catch (error) {
+    } catch (err) {
       setUploadResult({
         success: false,
-        message: 'Failed to upload data. Please try again.',
+        message: `Failed to upload data: ${(err as SupabaseError).message}`,
       });
     }
     
@@ -262,7 +507,9 @@ const DataUpload: React.FC<DataUploadProps> = ({
 
   const clearFile = () => {
     setFile(null);
-    setParsedData([]);
+    setSourceTable(null);
+    setSheetNames([]);
+    setSelectedSheet('');
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -270,6 +517,50 @@ const DataUpload: React.FC<DataUploadProps> = ({
     }
   };
 
+  // Import history functions
+  const loadImportBatches = useCallback(async () => {
+    setIsLoadingHistory(true);
+    const { data, error } = await fetchImportBatches();
+    reportLoad('Failed to load import history', error);
+    if (data) setImportBatches(data);
+    setIsLoadingHistory(false);
+  }, [fetchImportBatches, reportLoad]);
+
+  useEffect(() => {
+    loadImportBatches();
+    loadAccountSummaries();
+  }, [loadImportBatches, loadAccountSummaries, reloadKey]);
+
+  // Same check as the import_batches update policy
+  const canRollbackBatch = (batch: ImportBatch) => {
+    if (batch.status !== 'applied') return false;
+    return batch.uploaded_by === currentUser.id || (can(currentUser, 'sales.upload') && batch.account_ids.every(id => {
+      const account = accounts.find(acc => acc.id === id);
+      return account !== undefined && managesAccount(currentUser, account);
+    }));
+  };
+
+  const getBatchAccountNames = (batch: ImportBatch) => {
+    return batch.account_ids
+      .map(id => accounts.find(acc => acc.id === id)?.username || 'Unknown')
+      .join(', ');
+  };
+
+  const handleRollbackImport = async (batch: ImportBatch) => {
+    const message = `Roll back "${batch.file_name}"? ${batch.row_count} uploaded rows will be removed and any rows it overwrote will be restored.`;
+    if (!confirm(message)) return;
+
+    setRollingBackId(batch.id);
+    const { data: rolledBack } = await rollbackImport(batch.id);
+    setRollingBackId(null);
+
+    // A failure (e.g. a newer import overlapping the same accounts and dates) is listed on the screen
+    if (rolledBack) {
+      setImportBatches(prev => prev.map(item => item.id === rolledBack.id ? rolledBack : item));
+      loadAccountSummaries();
+    }
+  };
+
   // Delete functions
   const openDeleteModal = (accountId: string) => {
     setDeleteAccountId(accountId);
@@ -285,28 +576,40 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setDeleteEndDate('');
   };
 
-  const handleDeleteSalesData = () => {
-    if (!deleteAccountId) return;
+  const handleDeleteSalesData = async () => {
+    if (!deleteAccountId || lockedDeleteMonths.length > 0) return;
     
     const dateRange = deleteStartDate && deleteEndDate 
       ? { start: deleteStartDate, end: deleteEndDate }
       : undefined;
     
-    onDeleteSalesData(deleteAccountId, dateRange);
     closeDeleteModal();
+    await deleteSalesData(deleteAccountId, dateRange);
+    loadAccountSummaries();
   };
 
   return (
     <>
       <div className="space-y-6">
+        <ScreenErrors />
+
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
-          <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
-              ? 'Manage sales data for all affiliate accounts'
-              : `Manage sales data for your ${filteredAccountsByRole.length} affiliate accounts`}
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
+            <p className="text-gray-600">
+              {can(currentUser, 'accounts.view_all')
+                ? 'Manage sales data for all affiliate accounts'
+                : `Manage sales data for your ${accounts.length} affiliate accounts`}
+            </p>
+          </div>
+          <button
+            onClick={openBulkUploadModal}
+            className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            <Layers className="w-4 h-4" />
+            <span>Bulk Upload</span>
+          </button>
         </div>
 
         {/* Search */}
@@ -429,11 +732,11 @@ const DataUpload: React.FC<DataUploadProps> = ({
             <div className="text-center py-12">
               <Search className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {filteredAccountsByRole.length === 0 ? 'No accounts assigned to you' : 'No accounts match your search'}
+                {accounts.length === 0 ? 'No accounts assigned to you' : 'No accounts match your search'}
               </h3>
               <p className="text-gray-600">
-                {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                {accounts.length === 0 
+                  ? can(currentUser, 'accounts.edit')
                     ? 'Please add accounts first in the Account Management section'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search criteria'
@@ -443,10 +746,85 @@ const DataUpload: React.FC<DataUploadProps> = ({
           )}
         </div>
 
+        {/* Import History */}
+        <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <History className="w-5 h-5 text-purple-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Import History</h3>
+            </div>
+            <button
+              onClick={loadImportBatches}
+              disabled={isLoadingHistory}
+              className="text-sm text-purple-600 hover:text-purple-700 disabled:opacity-50"
+            >
+              {isLoadingHistory ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+
+          {importBatches.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {importBatches.map(batch => (
+                <div key={batch.id} className="p-4 flex items-center justify-between">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="font-medium text-gray-900 truncate">{batch.file_name}</span>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                        batch.status === 'applied' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {batch.status === 'applied' ? 'Applied' : 'Rolled back'}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-600">
+                      <span>{new Date(batch.created_at).toLocaleString('id-ID')}</span>
+                      <span>•</span>
+                      <span>{batch.uploader_name || 'Unknown'}</span>
+                      <span>•</span>
+                      <span>{batch.row_count} rows</span>
+                      {batch.date_start && batch.date_end && (
+                        <>
+                          <span>•</span>
+                          <span>
+                            {new Date(batch.date_start).toLocaleDateString('id-ID')} - {new Date(batch.date_end).toLocaleDateString('id-ID')}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1 truncate">{getBatchAccountNames(batch)}</div>
+                    {batch.status === 'rolled_back' && batch.rolled_back_at && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        Rolled back {new Date(batch.rolled_back_at).toLocaleString('id-ID')}
+                      </div>
+                    )}
+                  </div>
+
+                  {canRollbackBatch(batch) && (
+                    <button
+                      onClick={() => handleRollbackImport(batch)}
+                      disabled={rollingBackId !== null}
+                      className="flex items-center space-x-1 border border-red-300 text-red-700 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors text-sm disabled:opacity-50 flex-shrink-0 ml-4"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>{rollingBackId === batch.id ? 'Rolling back...' : 'Rollback'}</span>
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 text-center py-8">
+              {isLoadingHistory ? 'Loading import history...' : 'No imports recorded yet.'}
+            </p>
+          )}
+        </div>
+
         {/* CSV Format Guide */}
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
-          <h3 className="text-lg font-semibold text-blue-900 mb-3">CSV Format Requirements</h3>
-          <p className="text-blue-800 mb-4">Your CSV file should contain the following columns in this exact order:</p>
+          <h3 className="text-lg font-semibold text-blue-900 mb-3">File Format Requirements</h3>
+          <p className="text-blue-800 mb-4">
+            Upload a CSV or Excel (.xlsx) file containing the following columns. For workbooks you can pick the sheet and header row before uploading. Columns are matched by name in Indonesian or English and may appear in any order.
+            Amounts like "Rp 1.234.567" and dates as dd/mm/yyyy or yyyy-mm-dd are supported.
+          </p>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <p className="font-medium text-blue-900">1. Tanggal (Date)</p>
@@ -455,9 +833,9 @@ const DataUpload: React.FC<DataUploadProps> = ({
               <p className="font-medium text-blue-900">4. Komisi Kotor(Rp) (Gross Commission)</p>
             </div>
             <div>
-              <p className="font-medium text-blue-900">5. Produk Terjual (Products Sold)</p>
+              <p className="font-medium text-blue-900">5. Produk Terjual (Products Sold, optional)</p>
               <p className="font-medium text-blue-900">6. Total Pembelian yang Dibuat(Rp) (Total Purchases)</p>
-              <p className="font-medium text-blue-900">7. Pembeli Baru (New Buyers)</p>
+              <p className="font-medium text-blue-900">7. Pembeli Baru (New Buyers, optional)</p>
             </div>
           </div>
         </div>
@@ -470,9 +848,13 @@ const DataUpload: React.FC<DataUploadProps> = ({
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <div>
-                  <h2 className="text-xl font-bold text-gray-900">Upload Sales Data</h2>
+                  <h2 className="text-xl font-bold text-gray-900">
+                    {uploadMode === 'bulk' ? 'Bulk Upload Sales Data' : 'Upload Sales Data'}
+                  </h2>
                   <p className="text-sm text-gray-600 mt-1">
-                    Upload CSV file for: {accounts.find(acc => acc.id === selectedAccountForUpload)?.username}
+                    {uploadMode === 'bulk'
+                      ? 'Upload one combined file with a username or account_code column'
+                      : `Upload CSV or Excel file for: ${accounts.find(acc => acc.id === selectedAccountForUpload)?.username}`}
                   </p>
                 </div>
                 <button
@@ -499,15 +881,15 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 {!file ? (
                   <>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                      {isDragOver ? 'Drop your CSV file here' : 'Drop your CSV file here, or click to browse'}
+                      {isDragOver ? 'Drop your file here' : 'Drop your CSV or Excel file here, or click to browse'}
                     </h3>
                     <p className={`mb-4 ${isDragOver ? 'text-purple-600' : 'text-gray-600'}`}>
-                      CSV files up to 10MB are supported
+                      CSV and .xlsx files up to 10MB are supported
                     </p>
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx"
                       onChange={handleFileSelect}
                       className="hidden"
                     />
@@ -535,7 +917,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                       <div className="text-sm text-gray-600">
                         <p>{parsedData.length} rows parsed successfully</p>
                         <p className="text-xs mt-1">
-                          Date range: {parsedData[parsedData.length - 1]?.date} to {parsedData[0]?.date}
+                          Date range: {parsedDates[0]} to {parsedDates[parsedDates.length - 1]}
                         </p>
                       </div>
                     )}
@@ -543,6 +925,239 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 )}
               </div>
 
+              {/* Sheet and Header Row */}
+              {sourceTable && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                  {sheetNames.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Sheet</label>
+                      <select
+                        value={selectedSheet}
+                        onChange={(e) => file && loadSheet(file, e.target.value)}
+                        disabled={isReadingFile}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                      >
+                        {sheetNames.map(name => (
+                          <option key={name} value={name}>{name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  <div className={sheetNames.length > 0 ? '' : 'md:col-span-2'}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Header Row</label>
+                    <select
+                      value={headerRowIndex}
+                      onChange={(e) => setHeaderRowIndex(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                    >
+                      {sourceTable.slice(0, 20).map((row, index) => (
+                        <option key={index} value={index}>
+                          Baris {index + 1}: {row.map(cellToText).filter(Boolean).join(' | ').slice(0, 60) || '(kosong)'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              {isReadingFile && (
+                <p className="text-sm text-gray-600 mb-6">Reading file...</p>
+              )}
+
+              {importResult && importResult.missingColumns.length > 0 && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-6 flex items-start space-x-3">
+                  <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                  <div>
+                    <h3 className="font-medium text-red-900">Missing Required Columns</h3>
+                    <p className="text-sm text-red-700">
+                      {importResult.missingColumns.join(', ')} not found in row {headerRowIndex + 1}. Choose another sheet or header row.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Account Routing */}
+              {uploadMode === 'bulk' && accountMatches.length > 0 && !bulkSummary && (
+                <div className="border border-gray-200 rounded-lg mb-6">
+                  <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <h3 className="font-medium text-gray-900">Accounts in File</h3>
+                    <span className="text-xs font-medium text-gray-600">
+                      {accountMatches.length - unmatchedAccounts.length} matched, {unmatchedAccounts.length} unmatched
+                    </span>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                    {accountMatches.map(match => (
+                      <div key={match.key} className="px-4 py-2 flex items-center justify-between text-sm">
+                        <div>
+                          <span className="font-medium text-gray-900">{match.label}</span>
+                          {match.account ? (
+                            <span className="ml-2 text-xs text-gray-500">→ {match.account.username} ({match.account.account_code})</span>
+                          ) : (
+                            <span className="ml-2 text-xs text-red-600">Account not found</span>
+                          )}
+                        </div>
+                        <span className="text-xs text-gray-600">
+                          {match.rows.length} rows · {match.start} to {match.end}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {unmatchedAccounts.length > 0 && (
+                    <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+                      <p className="text-xs text-gray-600">Rows for unmatched accounts will be skipped.</p>
+                      {can(currentUser, 'accounts.edit') && (
+                        <button
+                          onClick={handleCreateMissingAccounts}
+                          disabled={isCreatingAccounts}
+                          className="flex items-center space-x-1 px-3 py-1 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors text-xs disabled:opacity-50"
+                        >
+                          <Plus className="w-3 h-3" />
+                          <span>{isCreatingAccounts ? 'Creating...' : `Create ${unmatchedAccounts.length} missing accounts`}</span>
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Bulk Upload Summary */}
+              {bulkSummary && (
+                <div className="border border-gray-200 rounded-lg mb-6 divide-y divide-gray-100">
+                  {bulkSummary.map(item => (
+                    <div key={item.account.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-900">{item.account.username}</span>
+                      <span className="text-gray-600">{item.rows} records uploaded</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Validation Report */}
+              {importResult && importResult.missingColumns.length === 0 && (
+                <div className="border border-gray-200 rounded-lg mb-6">
+                  <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <h3 className="font-medium text-gray-900">Validation Report</h3>
+                    <div className="flex items-center space-x-3 text-xs font-medium">
+                      <span className="text-green-700">{importResult.report.length - errorRowCount - warningRowCount} valid</span>
+                      <span className="text-yellow-700">{warningRowCount} warnings</span>
+                      <span className="text-red-700">{errorRowCount} errors</span>
+                    </div>
+                  </div>
+                  {importResult.unknownColumns.length > 0 && (
+                    <p className="px-4 pt-3 text-xs text-gray-500">
+                      Ignored columns: {importResult.unknownColumns.join(', ')}
+                    </p>
+                  )}
+                  {reportIssues.length > 0 ? (
+                    <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                      {reportIssues.map(row => (
+                        <div key={row.line} className="px-4 py-2 flex items-start space-x-3 text-sm">
+                          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                            row.status === 'error' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'
+                          }`}>
+                            Baris {row.line}
+                          </span>
+                          <span className="text-gray-700">{row.messages.join('; ')}</span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="p-4 text-sm text-gray-600">All rows passed validation.</p>
+                  )}
+                  {errorRowCount > 0 && (
+                    <p className="px-4 py-3 border-t border-gray-200 text-xs text-red-700">
+                      Rows with errors will not be uploaded.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Changes Preview */}
+              {rowDiffs.length > 0 && !uploadResult?.success && (
+                <div className="border border-gray-200 rounded-lg mb-6">
+                  <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+                    <h3 className="font-medium text-gray-900">Changes Preview</h3>
+                    <div className="flex items-center space-x-3 text-xs font-medium">
+                      <span className="text-green-700">{newDiffCount} new</span>
+                      <span className="text-orange-700">{changedDiffs.length} changed</span>
+                      <span className="text-gray-500">{identicalDiffCount} identical</span>
+                    </div>
+                  </div>
+
+                  {changedDiffs.length > 0 ? (
+                    <>
+                      <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+                        <span className="text-sm text-gray-700">Default for changed rows</span>
+                        <select
+                          value={defaultResolution}
+                          onChange={(e) => setDefaultResolution(e.target.value as ConflictResolution)}
+                          className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                        >
+                          <option value="overwrite">Overwrite</option>
+                          <option value="skip">Skip</option>
+                          <option value="keep_higher">Keep higher</option>
+                        </select>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+                        {changedDiffs.map(diff => (
+                          <div key={diff.key} className="px-4 py-3">
+                            <div className="flex items-center justify-between mb-2">
+                              <span className="text-sm font-medium text-gray-900">
+                                {diff.date}
+                                {uploadMode === 'bulk' && <span className="ml-2 text-xs text-gray-500">{diff.account.username}</span>}
+                              </span>
+                              <select
+                                value={getResolution(diff.key)}
+                                onChange={(e) => setConflictResolutions(prev => ({
+                                  ...prev,
+                                  [diff.key]: e.target.value as ConflictResolution,
+                                }))}
+                                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-xs"
+                              >
+                                <option value="overwrite">Overwrite</option>
+                                <option value="skip">Skip</option>
+                                <option value="keep_higher">Keep higher</option>
+                              </select>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                              {diff.changes.map(change => {
+                                const delta = change.after - change.before;
+                                return (
+                                  <div key={change.field} className="text-xs text-gray-600">
+                                    <span className="font-medium">{change.label}:</span>{' '}
+                                    {change.before.toLocaleString('id-ID')} → {change.after.toLocaleString('id-ID')}{' '}
+                                    <span className={delta > 0 ? 'text-green-600' : 'text-red-600'}>
+                                      ({delta > 0 ? '+' : ''}{delta.toLocaleString('id-ID')})
+                                    </span>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  ) : (
+                    <p className="p-4 text-sm text-gray-600">
+                      {newDiffCount > 0 ? 'No existing days will be changed.' : 'Every row matches the data already stored.'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Closed Period Warning */}
+              {lockedUploadMonths.length > 0 && (
+                <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 mb-6 flex items-start space-x-3">
+                  <Lock className="w-5 h-5 text-yellow-600 mt-0.5" />
+                  <div>
+                    <h3 className="font-medium text-yellow-900">Closed Payout Period</h3>
+                    <p className="text-sm text-yellow-700">
+                      This file contains rows for {lockedUploadMonths.join(', ')}. Incentives for closed periods are frozen, so these rows cannot be uploaded.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {/* Upload Result */}
               {uploadResult && (
                 <div className={`border rounded-lg p-4 mb-6 flex items-start space-x-3 ${
@@ -578,7 +1193,13 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 </button>
                 <button
                   onClick={handleUpload}
-                  disabled={isUploading || !file || parsedData.length === 0}
+                  disabled={
+                    isUploading ||
+                    !file ||
+                    parsedData.length === 0 ||
+                    lockedUploadMonths.length > 0 ||
+                    (uploadMode === 'bulk' && (bulkSummary !== null || accountMatches.every(match => !match.account)))
+                  }
                   className="flex-1 bg-purple-600 text-white py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   {isUploading ? (
@@ -675,6 +1296,15 @@ const DataUpload: React.FC<DataUploadProps> = ({
                     : 'All sales data for this account will be deleted.'
                   }
                 </p>
+
+                {lockedDeleteMonths.length > 0 && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start space-x-2">
+                    <Lock className="w-4 h-4 text-yellow-600 mt-0.5" />
+                    <p className="text-sm text-yellow-800">
+                      Payout period {lockedDeleteMonths.join(', ')} is closed. Narrow the date range to open months only.
+                    </p>
+                  </div>
+                )}
               </div>
               
               <div className="flex space-x-3 pt-6">
@@ -686,7 +1316,8 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 </button>
                 <button
                   onClick={handleDeleteSalesData}
-                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  disabled={lockedDeleteMonths.length > 0}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
                 >
                   Delete Data
                 </button>
@@ -10,215 +10,164 @@ import {
   Calculator,
   Percent,
   Filter,
+  Calendar,
   ArrowUpDown,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  Lock,
+  Unlock,
+  AlertTriangle,
+  X,
+  Wallet,
+  Edit2
 } from 'lucide-react';
-import { Account, SalesData, IncentiveRule, User, IncentiveCalculation } from '../types';
+import { IncentiveCalculation, PayoutSnapshot, PayoutLedgerEntry, PayoutStatus, User } from '../types';
+import TeamPerformance from './TeamPerformance';
+import ScreenErrors from './ScreenErrors';
 import { useSupabase } from '../hooks/useSupabase';
+import {
+  useAccounts,
+  useCurrentUser,
+  useIncentiveMonth,
+  useIncentiveRules,
+  useLoadReporter,
+  useMonthlySales,
+  usePayoutActions,
+  usePayoutLedger,
+  usePayoutPeriods,
+  useTeams,
+  useUsers
+} from '../hooks/useStore';
+import { selectAccountsManagedBy } from '../lib/store';
+import { calculateIncentive, getMonthPeriod, getRulesInForce } from '../lib/incentives';
+import { PAYOUT_STATUS_LABELS, PAYOUT_STATUS_STYLES, PAYOUT_STATUS_TRANSITIONS } from '../lib/payouts';
+import { can, hasManagedAccounts } from '../lib/permissions';
+import { getVisibleTeams, leadsTeam, rollupTeam } from '../lib/teams';
+
+interface PayoutRow {
+  user_id: string;
+  user_name: string;
+  calculated_amount: number;
+  entry: PayoutLedgerEntry | null;
+}
+
+const PAYOUT_ACTION_LABELS: Record<PayoutStatus, string> = {
+  draft: 'Kembalikan ke Draft',
+  approved: 'Approve',
+  paid: 'Tandai Dibayar',
+  disputed: 'Dispute',
+};
 
-interface IncentiveOverviewProps {
-  accounts: Account[];
-  salesData: SalesData[];
-  incentiveRules: IncentiveRule[];
-  currentUser: User;
+interface SnapshotDiff {
+  user_id: string;
+  user_name: string;
+  snapshot: PayoutSnapshot | null;
+  live: IncentiveCalculation | null;
 }
 
-const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
-  accounts,
-  salesData,
-  incentiveRules,
-  currentUser
-}) => {
-  const { fetchUsers } = useSupabase();
-  const [allUsers, setAllUsers] = React.useState<User[]>([]);
+const IncentiveOverview: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const incentiveRules = useIncentiveRules();
+  const payoutPeriods = usePayoutPeriods();
+  const payoutLedger = usePayoutLedger();
+  const teams = useTeams();
+  const [selectedMonth, setSelectedMonth] = useIncentiveMonth();
+  const { salesData } = useMonthlySales(selectedMonth);
+  const { fetchPayoutSnapshots } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
+  const {
+    closePayoutPeriod,
+    reopenPayoutPeriod,
+    createPayoutDraft,
+    updatePayoutAmount,
+    updatePayoutStatus,
+  } = usePayoutActions();
   const [sortBy, setSortBy] = React.useState<'incentive' | 'revenue' | 'commission' | 'rate'>('incentive');
   const [sortOrder, setSortOrder] = React.useState<'asc' | 'desc'>('desc');
   const [filterBy, setFilterBy] = React.useState<'all' | 'earning' | 'not_earning'>('all');
+  const [snapshots, setSnapshots] = React.useState<PayoutSnapshot[]>([]);
+  const [showReopenModal, setShowReopenModal] = React.useState(false);
+  const [isUpdatingPeriod, setIsUpdatingPeriod] = React.useState(false);
+  const [updatingPayoutUserId, setUpdatingPayoutUserId] = React.useState<string | null>(null);
+
+  const canManagePayouts = can(currentUser, 'payouts.manage');
+  const canApprovePayouts = can(currentUser, 'payouts.approve');
+  // Finance and viewers follow the whole team; everyone else sees their own numbers
+  const seesAllUsers = can(currentUser, 'accounts.view_all') || canManagePayouts || canApprovePayouts;
+  const visibleTeams = useMemo(() => getVisibleTeams(teams, currentUser), [teams, currentUser]);
+
+  // Rules whose terms were in force during the selected month, whether or not they are still active
+  const rulesInForce = useMemo(
+    () => getRulesInForce(incentiveRules, getMonthPeriod(selectedMonth)),
+    [incentiveRules, selectedMonth]
+  );
 
-  // Load all users for name mapping
-  React.useEffect(() => {
-    const loadUsers = async () => {
-      if (currentUser.role === 'superadmin') {
-        try {
-          const users = await fetchUsers();
-          setAllUsers(users);
-        } catch (error) {
-          console.error('Error loading users:', error);
-        }
-      }
-    };
-    
-    loadUsers();
-  }, [currentUser.role, fetchUsers]);
-  const calculateUserIncentive = (
-    userId: string, 
-    userAccounts: Account[], 
-    allSalesData: SalesData[], 
-    rules: IncentiveRule[]
-  ): IncentiveCalculation | null => {
-    if (userAccounts.length === 0) return null;
-
-    // Find the best matching rule for this user
-    const applicableRules = rules.filter(rule => rule.is_active);
-    if (applicableRules.length === 0) return null;
-
-    // Get sales data for user's accounts
-    const userSalesData = allSalesData.filter(data => 
-      userAccounts.some(acc => acc.id === data.account_id)
-    );
-
-    // Calculate totals
-    const totalRevenue = userSalesData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalCommission = userSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const commissionRate = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
-    
-    // Find the best matching rule based on commission rate
-    let bestRule: IncentiveRule | null = null;
-    for (const rule of applicableRules) {
-      if (commissionRate >= rule.commission_rate_min && 
-          (rule.commission_rate_max === 100 || commissionRate <= rule.commission_rate_max)) {
-        bestRule = rule;
-        break;
-      }
-    }
-
-    if (!bestRule) {
-      // Return calculation with no applicable rule
-      return {
-        user_id: userId,
-        user_name: getUserName(userId),
-        total_revenue: totalRevenue,
-        total_commission: totalCommission,
-        commission_rate: commissionRate,
-        applicable_rule: null,
-        current_tier: null,
-        next_tier: null,
-        incentive_amount: 0,
-        progress_percentage: 0,
-        remaining_to_next_tier: 0,
-        managed_accounts_count: userAccounts.length,
-      };
-    }
-
-    // Filter accounts that meet minimum commission threshold for the selected rule
-    const qualifyingAccountIds = new Set<string>();
-    userAccounts.forEach(account => {
-      const accountSalesData = userSalesData.filter(data => data.account_id === account.id);
-      const accountCommission = accountSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-      
-      if (accountCommission >= bestRule.min_commission_threshold) {
-        qualifyingAccountIds.add(account.id);
-      }
-    });
-
-    // Calculate revenue from qualifying accounts only
-    const qualifyingRevenue = userSalesData
-      .filter(data => qualifyingAccountIds.has(data.account_id))
-      .reduce((sum, data) => sum + data.total_purchases, 0);
+  const selectedPeriod = payoutPeriods.find(period => period.period === selectedMonth);
+  const isPeriodClosed = selectedPeriod?.status === 'closed';
 
-    // Find current tier and calculate incentive
-    let incentiveAmount = 0;
-    let currentTier = null;
-    let nextTier = null;
+  // Load all users for name mapping; leads get their members back from the users policies
+  const { users: allUsers } = useUsers(seesAllUsers || leadsTeam(teams, currentUser));
 
-    const sortedTiers = [...bestRule.tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
-    
-    for (let i = 0; i < sortedTiers.length; i++) {
-      const tier = sortedTiers[i];
-      if (qualifyingRevenue >= tier.revenue_threshold) {
-        currentTier = tier;
-        
-        // Calculate incentive for this tier
-        const tierRevenue = i === 0 
-          ? Math.min(qualifyingRevenue, sortedTiers[i + 1]?.revenue_threshold || qualifyingRevenue) - tier.revenue_threshold
-          : Math.min(qualifyingRevenue, sortedTiers[i + 1]?.revenue_threshold || qualifyingRevenue) - tier.revenue_threshold;
-        
-        incentiveAmount += tierRevenue * (tier.incentive_rate / 100);
-      } else {
-        nextTier = tier;
-        break;
+  // Closed periods are shown from their frozen snapshots instead of live sales data
+  React.useEffect(() => {
+    const loadSnapshots = async () => {
+      if (!isPeriodClosed) {
+        setSnapshots([]);
+        return;
       }
-    }
 
-    // Calculate progress to next tier
-    let progressPercentage = 0;
-    let remainingToNextTier = 0;
+      const { data: periodSnapshots, error } = await fetchPayoutSnapshots(selectedMonth);
+      reportLoad('Failed to load payout snapshots', error);
+      if (error) return;
 
-    if (nextTier) {
-      const currentThreshold = currentTier?.revenue_threshold || bestRule.base_revenue_threshold;
-      const nextThreshold = nextTier.revenue_threshold;
-      const progress = qualifyingRevenue - currentThreshold;
-      const totalNeeded = nextThreshold - currentThreshold;
-      
-      progressPercentage = Math.min((progress / totalNeeded) * 100, 100);
-      remainingToNextTier = Math.max(nextThreshold - qualifyingRevenue, 0);
-    } else if (currentTier) {
-      progressPercentage = 100;
-    }
-
-    return {
-      user_id: userId,
-      user_name: getUserName(userId),
-      total_revenue: totalRevenue,
-      total_commission: totalCommission,
-      commission_rate: commissionRate,
-      applicable_rule: bestRule,
-      current_tier: currentTier,
-      next_tier: nextTier,
-      incentive_amount: incentiveAmount,
-      progress_percentage: progressPercentage,
-      remaining_to_next_tier: remainingToNextTier,
-      managed_accounts_count: userAccounts.length,
+      setSnapshots(seesAllUsers
+        ? periodSnapshots
+        : periodSnapshots.filter(snapshot => snapshot.user_id === currentUser.id));
     };
-  };
 
-  const getUserName = (userId: string): string => {
-    if (userId === currentUser.id) return currentUser.name;
-    
-    // Find user from allUsers array
-    const user = allUsers.find(u => u.id === userId);
-    if (user) {
-      return user.name;
-    }
-    
-    // Fallback to user ID if not found
-    return `User ${userId.slice(0, 8)}`;
-  };
+    loadSnapshots();
+  }, [selectedMonth, isPeriodClosed, currentUser.id, seesAllUsers, fetchPayoutSnapshots, reportLoad, reloadKey]);
 
   // Calculate incentives for all users
   const incentiveCalculations = useMemo(() => {
-    const activeRules = incentiveRules.filter(rule => rule.is_active);
-    if (activeRules.length === 0) return [];
+    if (rulesInForce.length === 0) return [];
+
+    const period = getMonthPeriod(selectedMonth);
+    const calculateUserIncentive = (user: User) => {
+      const userAccounts = selectAccountsManagedBy(accounts, user);
+      if (userAccounts.length === 0) return null;
+      return calculateIncentive({
+        userId: user.id,
+        userName: user.name,
+        accounts: userAccounts,
+        salesData,
+        rules: rulesInForce,
+        period,
+      });
+    };
 
     // Get all users who manage accounts
     const userCalculations: IncentiveCalculation[] = [];
     
-    // For superadmin view, calculate for all users
-    if (currentUser.role === 'superadmin') {
-      // Get unique user IDs from accounts
-      const userIds = [...new Set(accounts.map(acc => acc.user_id).filter(Boolean))];
-      
-      userIds.forEach(userId => {
-        const userAccounts = accounts.filter(acc => acc.user_id === userId);
-        const calculation = calculateUserIncentive(userId, userAccounts, salesData, activeRules);
+    // For the team-wide view, calculate for all users on the accounts they manage, as Incentive Quest does
+    if (seesAllUsers) {
+      allUsers.filter(user => hasManagedAccounts(user.role)).forEach(user => {
+        const calculation = calculateUserIncentive(user);
         if (calculation) {
           userCalculations.push(calculation);
         }
       });
     } else {
       // For regular users, only show their own calculation
-      const userAccounts = accounts.filter(acc => 
-        currentUser.managed_accounts.includes(acc.id)
-      );
-      const calculation = calculateUserIncentive(currentUser.id, userAccounts, salesData, activeRules);
+      const calculation = calculateUserIncentive(currentUser);
       if (calculation) {
         userCalculations.push(calculation);
       }
     }
 
     return userCalculations.sort((a, b) => b.incentive_amount - a.incentive_amount);
-  }, [accounts, salesData, incentiveRules, currentUser, allUsers]);
+  }, [accounts, salesData, rulesInForce, currentUser, seesAllUsers, allUsers, selectedMonth]);
 
   // Filter and sort calculations
   const filteredAndSortedCalculations = useMemo(() => {
@@ -263,6 +212,28 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
     return filtered;
   }, [incentiveCalculations, filterBy, sortBy, sortOrder]);
 
+  // Members are scored on the accounts they manage; closed periods use their snapshots where there is one
+  const teamRollups = useMemo(() => {
+    if (visibleTeams.length === 0 || rulesInForce.length === 0) return [];
+
+    const period = getMonthPeriod(selectedMonth);
+    const teamIds = new Set(visibleTeams.map(team => team.id));
+    const users = allUsers.some(user => user.id === currentUser.id) ? allUsers : [currentUser, ...allUsers];
+
+    const figures = users
+      .filter(user => user.team_id && teamIds.has(user.team_id))
+      .map(user => snapshots.find(snapshot => snapshot.user_id === user.id) || calculateIncentive({
+        userId: user.id,
+        userName: user.name,
+        accounts: selectAccountsManagedBy(accounts, user),
+        salesData,
+        rules: rulesInForce,
+        period,
+      }));
+
+    return visibleTeams.map(team => rollupTeam(team, users, figures));
+  }, [visibleTeams, allUsers, currentUser, accounts, salesData, rulesInForce, selectedMonth, snapshots]);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -271,37 +242,198 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
     }).format(amount);
   };
 
-  const totalIncentives = incentiveCalculations.reduce((sum, calc) => sum + calc.incentive_amount, 0);
-  const totalRevenue = incentiveCalculations.reduce((sum, calc) => sum + calc.total_revenue, 0);
-  const totalCommission = incentiveCalculations.reduce((sum, calc) => sum + calc.total_commission, 0);
-  const usersEarningIncentives = incentiveCalculations.filter(calc => calc.incentive_amount > 0).length;
+  const formatDateTime = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleString('id-ID', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const summarySource = isPeriodClosed ? snapshots : incentiveCalculations;
+  const totalIncentives = summarySource.reduce((sum, calc) => sum + calc.incentive_amount, 0);
+  const totalRevenue = summarySource.reduce((sum, calc) => sum + calc.total_revenue, 0);
+  const totalCommission = summarySource.reduce((sum, calc) => sum + calc.total_commission, 0);
+  const usersEarningIncentives = summarySource.filter(calc => calc.incentive_amount > 0).length;
   const totalIncentivesToPay = totalIncentives; // Same as totalIncentives but with different semantic meaning
-  
-  const activeRules = incentiveRules.filter(rule => rule.is_active);
-  const primaryActiveRule = activeRules[0]; // Show the first active rule in the header
+
+
+  // Compare what was paid out against what live data would produce today
+  const snapshotDiffs = useMemo(() => {
+    const userIds = [...new Set([
+      ...snapshots.map(snapshot => snapshot.user_id),
+      ...incentiveCalculations.map(calc => calc.user_id),
+    ])];
+
+    return userIds
+      .map((userId): SnapshotDiff => {
+        const snapshot = snapshots.find(s => s.user_id === userId) || null;
+        const live = incentiveCalculations.find(calc => calc.user_id === userId) || null;
+        return {
+          user_id: userId,
+          user_name: snapshot?.user_name || live?.user_name || '',
+          snapshot,
+          live,
+        };
+      })
+      .filter(diff =>
+        !diff.snapshot ||
+        !diff.live ||
+        Math.round(diff.snapshot.incentive_amount) !== Math.round(diff.live.incentive_amount) ||
+        Math.round(diff.snapshot.total_revenue) !== Math.round(diff.live.total_revenue) ||
+        Math.round(diff.snapshot.qualifying_revenue) !== Math.round(diff.live.qualifying_revenue)
+      );
+  }, [snapshots, incentiveCalculations]);
+
+  // Closed periods pay out what was frozen; open periods draft from the live calculation
+  const payoutRows = useMemo(() => {
+    const periodEntries = payoutLedger.filter(entry => entry.period === selectedMonth);
+    const source = isPeriodClosed ? snapshots : incentiveCalculations;
+
+    const rows: PayoutRow[] = source.map(item => ({
+      user_id: item.user_id,
+      user_name: item.user_name,
+      calculated_amount: item.incentive_amount,
+      entry: periodEntries.find(entry => entry.user_id === item.user_id) || null,
+    }));
+
+    periodEntries
+      .filter(entry => !rows.some(row => row.user_id === entry.user_id))
+      .forEach(entry => {
+        rows.push({
+          user_id: entry.user_id,
+          user_name: allUsers.find(u => u.id === entry.user_id)?.name || `User ${entry.user_id.slice(0, 8)}`,
+          calculated_amount: 0,
+          entry,
+        });
+      });
+
+    return rows;
+  }, [payoutLedger, selectedMonth, isPeriodClosed, snapshots, incentiveCalculations, allUsers]);
+
+  const handleCreatePayoutDraft = async (row: PayoutRow) => {
+    setUpdatingPayoutUserId(row.user_id);
+    await createPayoutDraft(row.user_id, selectedMonth, Math.round(row.calculated_amount));
+    setUpdatingPayoutUserId(null);
+  };
+
+  const handleCreateAllPayoutDrafts = async () => {
+    const rowsWithoutEntry = payoutRows.filter(row => !row.entry && row.calculated_amount > 0);
+    for (const row of rowsWithoutEntry) {
+      await handleCreatePayoutDraft(row);
+    }
+  };
+
+  const handleEditPayoutAmount = async (entry: PayoutLedgerEntry) => {
+    const input = prompt('Jumlah insentif (Rp):', String(entry.amount));
+    if (input === null) return;
+
+    const amount = Number(input.replace(/[^\d]/g, ''));
+    if (!input.trim() || isNaN(amount)) {
+      alert('Jumlah tidak valid');
+      return;
+    }
+
+    const note = amount !== entry.amount ? prompt('Alasan perubahan (opsional):', entry.note || '') : null;
+
+    setUpdatingPayoutUserId(entry.user_id);
+    await updatePayoutAmount(entry, amount, note || undefined);
+    setUpdatingPayoutUserId(null);
+  };
+
+  const handlePayoutTransition = async (entry: PayoutLedgerEntry, status: PayoutStatus) => {
+    const details: { note?: string; payment_reference?: string } = {};
+
+    if (status === 'paid') {
+      const reference = prompt('Nomor referensi pembayaran (opsional):', '');
+      if (reference === null) return;
+      details.payment_reference = reference.trim() || undefined;
+    } else if (status === 'disputed') {
+      const reason = prompt('Alasan dispute:', '');
+      if (!reason || !reason.trim()) return;
+      details.note = reason.trim();
+    }
+
+    setUpdatingPayoutUserId(entry.user_id);
+    await updatePayoutStatus(entry, status, currentUser.id, details);
+    setUpdatingPayoutUserId(null);
+  };
+
+  const handleClosePeriod = async () => {
+    if (!confirm(`Tutup periode ${selectedMonth}? Komisi akan dibekukan dan data penjualan bulan ini tidak bisa diubah.`)) {
+      return;
+    }
+
+    setIsUpdatingPeriod(true);
+    await closePayoutPeriod(selectedMonth, incentiveCalculations);
+    setIsUpdatingPeriod(false);
+  };
+
+  const handleReopenPeriod = async () => {
+    setIsUpdatingPeriod(true);
+    const { error } = await reopenPayoutPeriod(selectedMonth, currentUser.id);
+    if (!error) {
+      setShowReopenModal(false);
+    }
+    setIsUpdatingPeriod(false);
+  };
 
   return (
     <div className="space-y-6">
+      <ScreenErrors />
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Incentive Overview</h1>
           <p className="text-gray-600">
-            {currentUser.role === 'superadmin' 
+            {seesAllUsers
               ? 'Monitor incentive performance across all team members'
               : 'Track your incentive progress and earnings'}
           </p>
         </div>
+        {canManagePayouts && rulesInForce.length > 0 && (
+          <div className="flex items-center space-x-3">
+            <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${
+              isPeriodClosed ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-700'
+            }`}>
+              {isPeriodClosed ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+              <span>{isPeriodClosed ? 'Periode Ditutup' : 'Periode Terbuka'}</span>
+            </span>
+            {isPeriodClosed ? (
+              <button
+                onClick={() => setShowReopenModal(true)}
+                disabled={isUpdatingPeriod}
+                className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                <Unlock className="w-4 h-4" />
+                <span>Buka Kembali</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleClosePeriod}
+                disabled={isUpdatingPeriod}
+                className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-400"
+              >
+                <Lock className="w-4 h-4" />
+                <span>{isUpdatingPeriod ? 'Menutup...' : 'Tutup Periode'}</span>
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
-      {activeRules.length === 0 ? (
+      {rulesInForce.length === 0 ? (
         <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-6">
           <div className="flex items-center space-x-3">
             <Target className="w-6 h-6 text-yellow-600" />
             <div>
               <h3 className="text-lg font-semibold text-yellow-900">No Active Incentive Rules</h3>
               <p className="text-yellow-800">
-                {currentUser.role === 'superadmin' 
+                {can(currentUser, 'incentives.manage')
                   ? 'Please activate incentive rules to start calculating incentives.'
                   : 'Contact your administrator to activate incentive rules.'}
               </p>
@@ -373,6 +505,16 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
           <div className="bg-white rounded-xl border border-gray-100 p-4">
             <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
               <div className="flex items-center space-x-4">
+                <div className="flex items-center space-x-2">
+                  <Calendar className="w-5 h-5 text-gray-400" />
+                  <span className="text-sm font-medium text-gray-700">Bulan:</span>
+                  <input
+                    type="month"
+                    value={selectedMonth}
+                    onChange={(e) => setSelectedMonth(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                  />
+                </div>
                 <div className="flex items-center space-x-2">
                   <Filter className="w-5 h-5 text-gray-400" />
                   <span className="text-sm font-medium text-gray-700">Filter:</span>
@@ -418,12 +560,84 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
               </div>
             </div>
           </div>
-          {/* Incentive Calculations */}
+          {teamRollups.length > 0 && (
+            <TeamPerformance
+              rollups={teamRollups}
+              subtitle={`Omzet, komisi dan insentif anggota tim untuk ${selectedMonth}`}
+              showIncentives
+            />
+          )}
+
+          {isPeriodClosed && selectedPeriod && (
+            <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 flex items-start space-x-3">
+              <Lock className="w-5 h-5 text-gray-600 mt-0.5" />
+              <div>
+                <h3 className="font-medium text-gray-900">Periode {selectedMonth} sudah ditutup</h3>
+                <p className="text-sm text-gray-600">
+                  Ditutup pada {formatDateTime(selectedPeriod.closed_at)}. Angka di bawah adalah snapshot saat penutupan dan tidak berubah walaupun data penjualan diunggah ulang.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isPeriodClosed ? (
+            <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+              <div className="p-6 border-b border-gray-100">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">Payout Snapshot</h3>
+                  <span className="text-sm text-gray-600">{snapshots.length} user</span>
+                </div>
+              </div>
+
+              {snapshots.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tier Rate</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Qualifying Accounts</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Incentive</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {snapshots.map(snapshot => (
+                        <tr key={snapshot.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-4 text-sm font-medium text-gray-900">{snapshot.user_name}</td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-900">{formatCurrency(snapshot.total_revenue)}</td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-900">
+                            {formatCurrency(snapshot.total_commission)}
+                            <span className="block text-xs text-gray-500">{snapshot.commission_rate.toFixed(2)}%</span>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-700">{snapshot.rule_name || '-'}</td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-700">
+                            {snapshot.tier_rate !== null ? `${snapshot.tier_rate}%` : '-'}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-right text-gray-700">{snapshot.qualifying_account_ids.length}</td>
+                          <td className="px-6 py-4 text-sm text-right font-semibold text-green-600">{formatCurrency(snapshot.incentive_amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <BarChart3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No Snapshot Data</h3>
+                  <p className="text-gray-600">Tidak ada komisi yang tercatat saat periode ini ditutup.</p>
+                </div>
+              )}
+            </div>
+          ) : (
+          /* Incentive Calculations */
           <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
             <div className="p-6 border-b border-gray-100">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-semibold text-gray-900">
-                  {currentUser.role === 'superadmin' ? 'Team Performance' : 'Your Performance'}
+                  {seesAllUsers ? 'Team Performance' : 'Your Performance'}
                 </h3>
                 <span className="text-sm text-gray-600">
                   Menampilkan {filteredAndSortedCalculations.length} dari {incentiveCalculations.length} user
@@ -451,7 +665,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                           </p>
                           {calculation.applicable_rule && (
                             <p className="text-xs text-purple-600 font-medium">
-                              Rule: {calculation.applicable_rule.name}
+                              Rule: {calculation.applicable_rule.name} ({calculation.applicable_rule.calculation_mode === 'flat' ? 'Flat' : 'Progresif'})
                             </p>
                           )}
                         </div>
@@ -533,8 +747,8 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                         
                         <div className="grid grid-cols-1 gap-2 text-xs text-blue-800">
                           <div className="flex justify-between items-center">
-                            <span className="font-medium">Current Revenue:</span>
-                            <span>{formatCurrency(calculation.total_revenue)}</span>
+                            <span className="font-medium">Qualifying Revenue:</span>
+                            <span>{formatCurrency(calculation.qualifying_revenue)}</span>
                           </div>
                           <div className="flex justify-between items-center">
                             <span className="font-medium">Next Tier Target:</span>
@@ -574,7 +788,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
                 </h3>
                 <p className="text-gray-600">
                   {incentiveCalculations.length === 0 
-                    ? (currentUser.role === 'superadmin' 
+                    ? (seesAllUsers
                         ? 'No users have qualifying accounts or sales data yet.'
                         : 'You don\'t have any qualifying accounts or sales data yet.')
                     : 'Coba ubah filter atau kriteria pencarian Anda.'}
@@ -582,8 +796,200 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({
               </div>
             )}
           </div>
+          )}
         </>
       )}
+
+      {/* Payout Ledger */}
+      {(canManagePayouts || canApprovePayouts) && rulesInForce.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+          <div className="p-6 border-b border-gray-100">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Wallet className="w-5 h-5 text-purple-600" />
+                <h3 className="text-lg font-semibold text-gray-900">Payout Ledger {selectedMonth}</h3>
+              </div>
+              {canManagePayouts && payoutRows.some(row => !row.entry && row.calculated_amount > 0) && (
+                <button
+                  onClick={handleCreateAllPayoutDrafts}
+                  disabled={updatingPayoutUserId !== null}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:bg-gray-400"
+                >
+                  Buat Semua Draft
+                </button>
+              )}
+            </div>
+            {!isPeriodClosed && (
+              <p className="text-sm text-gray-600 mt-2">
+                Periode masih terbuka, jumlah draft diambil dari perhitungan saat ini. Tutup periode terlebih dahulu agar jumlahnya tidak berubah.
+              </p>
+            )}
+          </div>
+
+          {payoutRows.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Calculated</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {payoutRows.map(row => (
+                    <tr key={row.user_id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{row.user_name}</div>
+                        {row.entry?.note && <div className="text-xs text-gray-500">{row.entry.note}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-700">{formatCurrency(row.calculated_amount)}</td>
+                      <td className="px-6 py-4 text-sm text-right font-semibold text-gray-900">
+                        {row.entry ? formatCurrency(row.entry.amount) : '-'}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {row.entry ? (
+                          <span className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${PAYOUT_STATUS_STYLES[row.entry.status]}`}>
+                            {PAYOUT_STATUS_LABELS[row.entry.status]}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-400">Belum dibuat</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="flex items-center justify-end space-x-2">
+                          {!row.entry ? canManagePayouts && (
+                            <button
+                              onClick={() => handleCreatePayoutDraft(row)}
+                              disabled={updatingPayoutUserId !== null}
+                              className="px-3 py-1 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 transition-colors text-xs disabled:opacity-50"
+                            >
+                              Buat Draft
+                            </button>
+                          ) : (
+                            <>
+                              {canManagePayouts && row.entry.status === 'draft' && (
+                                <button
+                                  onClick={() => handleEditPayoutAmount(row.entry!)}
+                                  disabled={updatingPayoutUserId !== null}
+                                  className="p-1 text-gray-400 hover:text-purple-600 transition-colors disabled:opacity-50"
+                                  title="Ubah jumlah"
+                                >
+                                  <Edit2 className="w-4 h-4" />
+                                </button>
+                              )}
+                              {canApprovePayouts && PAYOUT_STATUS_TRANSITIONS[row.entry.status].map(status => (
+                                <button
+                                  key={status}
+                                  onClick={() => handlePayoutTransition(row.entry!, status)}
+                                  disabled={updatingPayoutUserId !== null}
+                                  className="px-3 py-1 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors text-xs disabled:opacity-50"
+                                >
+                                  {PAYOUT_ACTION_LABELS[status]}
+                                </button>
+                              ))}
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600 text-center py-8">Belum ada insentif untuk periode ini.</p>
+          )}
+        </div>
+      )}
+
+      {/* Reopen Period Modal */}
+      {showReopenModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-gray-900">Buka Kembali Periode {selectedMonth}</h2>
+                <button
+                  onClick={() => setShowReopenModal(false)}
+                  className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start space-x-3">
+                <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
+                <p className="text-sm text-yellow-800">
+                  Setelah dibuka kembali, komisi akan dihitung ulang dari data penjualan terbaru dan data penjualan bulan ini bisa diubah lagi.
+                </p>
+              </div>
+
+              {snapshotDiffs.length > 0 ? (
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">User</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Revenue</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qualifying Revenue</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Incentive</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {snapshotDiffs.map(diff => (
+                        <tr key={diff.user_id}>
+                          <td className="px-4 py-3 text-sm">
+                            <div className="font-medium text-gray-900">{diff.user_name}</div>
+                            {!diff.snapshot && <div className="text-xs text-blue-600">Tidak ada di snapshot</div>}
+                            {!diff.live && <div className="text-xs text-red-600">Tidak ada di data terbaru</div>}
+                          </td>
+                          {[
+                            [diff.snapshot?.total_revenue, diff.live?.total_revenue],
+                            [diff.snapshot?.qualifying_revenue, diff.live?.qualifying_revenue],
+                            [diff.snapshot?.incentive_amount, diff.live?.incentive_amount],
+                          ].map(([frozen, live], index) => (
+                            <td key={index} className="px-4 py-3 text-sm text-right">
+                              <div className="text-gray-500 line-through">{formatCurrency(frozen || 0)}</div>
+                              <div className={(live || 0) >= (frozen || 0) ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
+                                {formatCurrency(live || 0)}
+                              </div>
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Data terbaru sama dengan snapshot. Tidak ada perubahan komisi jika periode dibuka kembali.
+                </p>
+              )}
+            </div>
+
+            <div className="p-6 border-t border-gray-100 flex space-x-3">
+              <button
+                onClick={() => setShowReopenModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReopenPeriod}
+                disabled={isUpdatingPeriod}
+                className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-400"
+              >
+                {isUpdatingPeriod ? 'Membuka...' : 'Buka Kembali Periode'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
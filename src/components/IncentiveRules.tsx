@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   Plus, 
   Edit2, 
@@ -11,27 +11,48 @@ import {
   Save,
   AlertCircle,
   TrendingUp,
-  Calculator
+  Calculator,
+  History
 } from 'lucide-react';
-import { IncentiveRule, IncentiveTier } from '../types';
-import { useSupabase } from '../hooks/useSupabase';
+import { IncentiveRule, IncentiveRuleVersion, IncentiveTierInput, IncentiveCalculationMode } from '../types';
+import { useIncentiveRuleActions, useIncentiveRules } from '../hooks/useStore';
+import { getCurrentMonth, getMonthKey, getMonthPeriod, isVersionInForce } from '../lib/incentives';
+import { formatPeriodLabel } from '../lib/payouts';
+import ScreenErrors from './ScreenErrors';
 
-interface IncentiveRulesProps {
-  incentiveRules: IncentiveRule[];
-  onUpdateRules: (rules: IncentiveRule[]) => void;
-}
+type VersionStatus = 'current' | 'scheduled' | 'ended' | 'replaced';
 
-const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdateRules }) => {
-  const [rules, setRules] = useState<IncentiveRule[]>(incentiveRules);
+const VERSION_STATUS_LABELS: Record<VersionStatus, string> = {
+  current: 'In force',
+  scheduled: 'Scheduled',
+  ended: 'Ended',
+  replaced: 'Replaced before taking effect',
+};
+
+const VERSION_STATUS_STYLES: Record<VersionStatus, string> = {
+  current: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  ended: 'bg-gray-100 text-gray-700',
+  replaced: 'bg-gray-100 text-gray-500',
+};
+
+// A version replaced in the month it started ends the day before it starts
+const getVersionStatus = (version: IncentiveRuleVersion): VersionStatus => {
+  const currentPeriod = getMonthPeriod(getCurrentMonth());
+  if (version.effective_to && version.effective_to < version.effective_from) return 'replaced';
+  if (isVersionInForce(version, currentPeriod)) return 'current';
+  return version.effective_from > currentPeriod.start ? 'scheduled' : 'ended';
+};
+
+const IncentiveRules: React.FC = () => {
+  // Deleted rules are kept for the months they applied to, but can no longer be managed
+  const rules = useIncentiveRules().filter(rule => !rule.deleted_at);
   const [showModal, setShowModal] = useState(false);
   const [editingRule, setEditingRule] = useState<IncentiveRule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
   
-  const {
-    loading,
-    addIncentiveRule,
-    updateIncentiveRule,
-    deleteIncentiveRule,
-  } = useSupabase();
+  const { addIncentiveRule, updateIncentiveRule, deleteIncentiveRule } = useIncentiveRuleActions();
 
   const [formData, setFormData] = useState({
     name: '',
@@ -40,9 +61,13 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     commission_rate_min: 5,
     commission_rate_max: 7.99,
     base_revenue_threshold: 80000000,
+    calculation_mode: 'progressive' as IncentiveCalculationMode,
     is_active: true,
+    effective_from: getCurrentMonth(),
+    effective_to: '',
   });
-  const [tiers, setTiers] = useState<Omit<IncentiveTier, 'id' | 'created_at'>[]>([
+  // Tiers loaded from a rule keep their id, so the save updates them instead of replacing them
+  const [tiers, setTiers] = useState<IncentiveTierInput[]>([
     { revenue_threshold: 80000000, incentive_rate: 0.4 },
     { revenue_threshold: 90000000, incentive_rate: 0.6 },
     { revenue_threshold: 100000000, incentive_rate: 0.8 },
@@ -51,11 +76,6 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     { revenue_threshold: 130000000, incentive_rate: 1.5 },
   ]);
 
-  // Update local state when props change
-  useEffect(() => {
-    setRules(incentiveRules);
-  }, [incentiveRules]);
-
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -74,28 +94,28 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    // Months are picked as YYYY-MM; the rule stores the first and last day
     const ruleData = {
       ...formData,
-      tiers: tiers.map((tier, index) => ({
+      effective_from: getMonthPeriod(formData.effective_from).start,
+      effective_to: formData.effective_to ? getMonthPeriod(formData.effective_to).end : null,
+      tiers: tiers.map(tier => ({
+        id: tier.id,
         revenue_threshold: tier.revenue_threshold,
         incentive_rate: tier.incentive_rate,
       })),
     };
 
-    if (editingRule) {
-      const updatedRule = await updateIncentiveRule(editingRule.id, ruleData);
-      if (updatedRule) {
-        const newRules = rules.map(rule => rule.id === editingRule.id ? updatedRule : rule);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
-    } else {
-      const newRule = await addIncentiveRule(ruleData);
-      if (newRule) {
-        const newRules = [...rules, newRule];
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
+    setIsSaving(true);
+    setSaveError(null);
+    const { error } = editingRule
+      ? await updateIncentiveRule(editingRule.id, ruleData)
+      : await addIncentiveRule(ruleData);
+    setIsSaving(false);
+
+    if (error) {
+      setSaveError(`Failed to save the rule: ${error.message}`);
+      return;
     }
 
     closeModal();
@@ -110,9 +130,14 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: rule.commission_rate_min,
       commission_rate_max: rule.commission_rate_max,
       base_revenue_threshold: rule.base_revenue_threshold,
+      calculation_mode: rule.calculation_mode,
       is_active: rule.is_active,
+      // Changes can't start before the current version does
+      effective_from: [getCurrentMonth(), getMonthKey(rule.effective_from)].sort()[1],
+      effective_to: rule.effective_to ? getMonthKey(rule.effective_to) : '',
     });
     setTiers(rule.tiers.map(tier => ({
+      id: tier.id,
       revenue_threshold: tier.revenue_threshold,
       incentive_rate: tier.incentive_rate,
     })));
@@ -128,7 +153,10 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      calculation_mode: 'progressive',
       is_active: true,
+      effective_from: getCurrentMonth(),
+      effective_to: '',
     });
     setTiers([
       { revenue_threshold: 80000000, incentive_rate: 0.4 },
@@ -143,30 +171,21 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
 
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this incentive rule?')) {
-      const success = await deleteIncentiveRule(id);
-      if (success) {
-        const newRules = rules.filter(rule => rule.id !== id);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
+      deleteIncentiveRule(id);
     }
   };
 
   const toggleRuleStatus = async (id: string) => {
     const rule = rules.find(r => r.id === id);
     if (rule) {
-      const updatedRule = await updateIncentiveRule(id, { is_active: !rule.is_active });
-      if (updatedRule) {
-        const newRules = rules.map(r => r.id === id ? updatedRule : r);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
+      updateIncentiveRule(id, { is_active: !rule.is_active });
     }
   };
 
   const closeModal = () => {
     setShowModal(false);
     setEditingRule(null);
+    setSaveError(null);
     setFormData({
       name: '',
       description: '',
@@ -174,7 +193,10 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      calculation_mode: 'progressive',
       is_active: true,
+      effective_from: getCurrentMonth(),
+      effective_to: '',
     });
     setTiers([]);
   };
@@ -196,6 +218,8 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
   return (
     <>
       <div className="space-y-6">
+        <ScreenErrors />
+
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
@@ -221,7 +245,9 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                 <p>• Only accounts with commission above the minimum threshold will be counted</p>
                 <p>• Calculation is based on total revenue from qualifying accounts</p>
                 <p>• Different commission rate ranges have different revenue thresholds</p>
-                <p>• Incentive rates are applied progressively based on revenue tiers</p>
+                <p>• Flat rules pay the reached tier's rate on all qualifying revenue</p>
+                <p>• Progressive rules pay each tier's rate only on the revenue within that tier</p>
+                <p>• Changing rates, thresholds or tiers starts a new version from the month you choose; earlier months keep the version that was in force</p>
               </div>
             </div>
           </div>
@@ -244,7 +270,11 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                         {rule.is_active ? 'Active' : 'Inactive'}
                       </span>
                     </div>
-                    <p className="text-sm text-gray-600 mb-4">{rule.description}</p>
+                    <p className="text-sm text-gray-600 mb-1">{rule.description}</p>
+                    <p className="text-xs text-gray-500 mb-4">
+                      Current terms from {formatPeriodLabel(getMonthKey(rule.effective_from))}
+                      {rule.effective_to ? ` until ${formatPeriodLabel(getMonthKey(rule.effective_to))}` : ', ongoing'}
+                    </p>
                     
                     <div className="grid grid-cols-2 gap-4 mb-4">
                       <div className="bg-gray-50 rounded-lg p-3">
@@ -268,13 +298,25 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       </div>
                     </div>
 
-                    <div className="bg-purple-50 rounded-lg p-3 mb-4">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <Target className="w-4 h-4 text-purple-600" />
-                        <span className="text-xs font-medium text-purple-700">Base Threshold</span>
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div className="bg-purple-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Target className="w-4 h-4 text-purple-600" />
+                          <span className="text-xs font-medium text-purple-700">Base Threshold</span>
+                        </div>
+                        <div className="text-sm font-semibold text-purple-900">
+                          {formatCurrency(rule.base_revenue_threshold)}
+                        </div>
                       </div>
-                      <div className="text-sm font-semibold text-purple-900">
-                        {formatCurrency(rule.base_revenue_threshold)}
+
+                      <div className="bg-purple-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-2">
+                          <Calculator className="w-4 h-4 text-purple-600" />
+                          <span className="text-xs font-medium text-purple-700">Calculation Mode</span>
+                        </div>
+                        <div className="text-sm font-semibold text-purple-900">
+                          {rule.calculation_mode === 'flat' ? 'Flat on total' : 'Progressive brackets'}
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -332,6 +374,43 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                     ))}
                   </div>
                 </div>
+
+                {/* Version timeline, newest first */}
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-2">
+                    <History className="w-4 h-4" />
+                    <span>Version History</span>
+                  </h4>
+                  <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                    {[...rule.versions].reverse().map(version => {
+                      const status = getVersionStatus(version);
+                      const rates = version.tiers.map(tier => tier.incentive_rate);
+                      return (
+                        <li key={version.id} className="relative pl-4">
+                          <span className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full border-2 border-white ${
+                            status === 'current' ? 'bg-green-500' : status === 'scheduled' ? 'bg-blue-500' : 'bg-gray-300'
+                          }`} />
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm font-medium text-gray-900">Version {version.version}</span>
+                            <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${VERSION_STATUS_STYLES[status]}`}>
+                              {VERSION_STATUS_LABELS[status]}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {status === 'replaced'
+                              ? `Was to start ${formatPeriodLabel(getMonthKey(version.effective_from))}`
+                              : `${formatPeriodLabel(getMonthKey(version.effective_from))} – ${version.effective_to ? formatPeriodLabel(getMonthKey(version.effective_to)) : 'ongoing'}`}
+                          </p>
+                          <p className="text-xs text-gray-600 mt-1">
+                            {version.calculation_mode === 'flat' ? 'Flat' : 'Progressive'} · {version.commission_rate_min}% - {version.commission_rate_max === 100 ? '∞' : `${version.commission_rate_max}%`} commission
+                            · base {formatCurrency(version.base_revenue_threshold)}
+                            · {version.tiers.length} tiers{rates.length > 0 && ` (${Math.min(...rates)}% - ${Math.max(...rates)}%)`}
+                          </p>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
               </div>
             </div>
           ))}
@@ -368,6 +447,13 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                   <X className="w-5 h-5" />
                 </button>
               </div>
+
+              {saveError && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-6 flex items-start space-x-3">
+                  <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                  <p className="text-sm text-red-700">{saveError}</p>
+                </div>
+              )}
               
               <form onSubmit={handleSubmit} className="space-y-6">
                 {/* Basic Information */}
@@ -427,6 +513,54 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                     />
                   </div>
 
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Calculation Mode *
+                    </label>
+                    <select
+                      value={formData.calculation_mode}
+                      onChange={(e) => setFormData({ ...formData, calculation_mode: e.target.value as IncentiveCalculationMode })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      required
+                    >
+                      <option value="progressive">Progressive brackets (each tier's rate applies to revenue within that tier)</option>
+                      <option value="flat">Flat on total (reached tier's rate applies to all qualifying revenue)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {editingRule ? 'Changes Take Effect From *' : 'Effective From *'}
+                    </label>
+                    <input
+                      type="month"
+                      value={formData.effective_from}
+                      onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      min={editingRule ? getMonthKey(editingRule.effective_from) : undefined}
+                      required
+                    />
+                    {editingRule && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        New rates, thresholds or tiers apply from this month. Earlier months keep the version in force at the time.
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Effective Until
+                    </label>
+                    <input
+                      type="month"
+                      value={formData.effective_to}
+                      onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      min={formData.effective_from}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Leave empty to keep the rule in force</p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Commission Rate Min (%) *
@@ -549,10 +683,10 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                   </button>
                   <button
                     type="submit"
-                    disabled={loading}
+                    disabled={isSaving}
                     className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2"
                   >
-                    {loading ? (
+                    {isSaving ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                         <span>Saving...</span>
@@ -1,12 +1,12 @@
 import React, { useState } from 'react';
-import { Eye, EyeOff, LogIn, Shield, User, AlertCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Eye, EyeOff, LogIn, Shield, User, AlertCircle, CheckCircle, MailCheck, ArrowLeft, Send } from 'lucide-react';
+import { supabase, isDemoMode } from '../lib/supabase';
+import { getAuthRedirectUrl } from '../lib/auth';
+import { DEMO_AUTH_USERS, DEMO_PASSWORD } from '../lib/demo/seed';
 
-interface LoginProps {
-  onLogin: (user: { id: string; name: string; email: string; role: 'user' | 'superadmin'; managed_accounts: string[]; access_token?: string; refresh_token?: string }) => void;
-}
+type LoginMode = 'login' | 'forgot-password' | 'verify-email';
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC = () => {
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -14,6 +14,14 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [mode, setMode] = useState<LoginMode>('login');
+
+  const switchMode = (nextMode: LoginMode) => {
+    setMode(nextMode);
+    setError('');
+    setNotice('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,138 +29,70 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     setError('');
 
     try {
-      // Try to sign in with Supabase
-      const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
+      // Sign in with Supabase (or the offline demo backend when demo mode is on)
+      const { error: authError } = await supabase.auth.signInWithPassword({
         email: formData.email,
         password: formData.password,
       });
 
+      // On success App's auth listener loads the profile and replaces this screen
       if (authError) {
-        // If Supabase auth fails, fall back to demo users for development
-        const demoUsers = [
-          {
-            email: 'admin@kimostudio.com',
-            password: 'admin123',
-            userData: { id: '1', name: 'Super Admin', role: 'superadmin' as const, managed_accounts: [] }
-          },
-          {
-            email: 'john@kimostudio.com', 
-            password: 'user123',
-            userData: { id: '2', name: 'John Doe', role: 'user' as const, managed_accounts: ['1'] }
-          },
-          {
-            email: 'jane@kimostudio.com',
-            password: 'user123', 
-            userData: { id: '3', name: 'Jane Smith', role: 'user' as const, managed_accounts: [] }
-          }
-        ];
-
-        const demoUser = demoUsers.find(u => u.email === formData.email && u.password === formData.password);
-        
-        if (demoUser) {
-          // Create a demo session for development
-          await supabase.auth.setSession({
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
-          
-          onLogin({
-            ...demoUser.userData,
-            email: formData.email,
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
+        // Accounts that never confirmed their email get the option to resend the link
+        if (authError.code === 'email_not_confirmed') {
+          switchMode('verify-email');
+        } else if (authError.code === 'user_banned') {
+          setError('Akun Anda telah dinonaktifkan. Hubungi admin untuk mengaktifkannya kembali.');
         } else {
           setError('Email atau password tidak valid');
         }
-      } else if (authData.user) {
-        // Real Supabase authentication successful
-        try {
-          // Try to fetch user data from the users table
-          let userData = null;
-          try {
-            const { data, error: userError } = await supabase
-              .from('users')
-              .select('*')
-              .eq('email', authData.user.email)
-              .limit(1);
-            
-            if (userError) {
-              throw userError;
-            }
-            userData = data && data.length > 0 ? data[0] : null;
-          } catch (queryError: any) {
-            // If it's just a "no rows found" error, that's expected for new users
-            if (queryError.code !== 'PGRST116') {
-              throw queryError;
-            }
-          }
-
-          // If user doesn't exist in users table, create a default user entry
-          if (!userData) {
-            const newUser = {
-              id: authData.user.id,
-              name: authData.user.email?.split('@')[0] || 'User',
-              email: authData.user.email || '',
-              role: 'user' as const,
-              managed_accounts: [],
-            };
-
-            const { data: insertedUser, error: insertError } = await supabase
-              .from('users')
-              .insert([newUser])
-              .select()
-              .maybeSingle();
-
-            if (insertError) {
-              console.error('Could not create user record:', insertError);
-              // Fall back to basic user info from auth
-              onLogin({
-                ...newUser,
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            } else {
-              onLogin({
-                ...(insertedUser || newUser),
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            }
-          } else {
-            onLogin({
-              ...userData,
-              access_token: authData.session?.access_token,
-              refresh_token: authData.session?.refresh_token,
-            });
-          }
-        } catch (userFetchError) {
-          console.error('Error in user data handling:', userFetchError);
-          // Fall back to basic user info from auth
-          onLogin({
-            id: authData.user.id,
-            name: authData.user.email?.split('@')[0] || 'User',
-            email: authData.user.email || '',
-            role: 'user' as const,
-            managed_accounts: [],
-            access_token: authData.session?.access_token,
-            refresh_token: authData.session?.refresh_token,
-          });
-        }
+        setIsLoading(false);
       }
     } catch (err) {
       console.error('Login error:', err);
       setError('Terjadi kesalahan saat login. Silakan coba lagi.');
+      setIsLoading(false);
     }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+
+    const { error: resetError } = await supabase.auth.resetPasswordForEmail(formData.email, {
+      redirectTo: getAuthRedirectUrl('recovery'),
+    });
 
+    if (resetError) {
+      setError(resetError.message);
+    } else {
+      setNotice('Jika email terdaftar, link untuk mengatur ulang password telah dikirim. Silakan periksa kotak masuk Anda.');
+    }
     setIsLoading(false);
   };
 
-  const handleDemoLogin = (userType: 'admin' | 'user') => {    
-    setFormData({
-      email: userType === 'admin' ? 'admin@kimostudio.com' : 'john@kimostudio.com',
-      password: userType === 'admin' ? 'admin123' : 'user123',
+  const handleResendVerification = async () => {
+    setIsLoading(true);
+    setError('');
+    setNotice('');
+
+    const { error: resendError } = await supabase.auth.resend({
+      type: 'signup',
+      email: formData.email,
+      options: { emailRedirectTo: `${window.location.origin}${window.location.pathname}` },
     });
+
+    if (resendError) {
+      setError(resendError.message);
+    } else {
+      setNotice(`Email verifikasi telah dikirim ulang ke ${formData.email}.`);
+    }
+    setIsLoading(false);
+  };
+
+  const handleDemoLogin = (email: string) => {
+    setFormData({ email, password: DEMO_PASSWORD });
   };
 
   return (
@@ -170,77 +110,182 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
           <div className="mb-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Masuk ke Akun</h2>
-            <p className="text-gray-600">Silakan masuk untuk mengakses dashboard</p>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {mode === 'login' ? 'Masuk ke Akun' : mode === 'forgot-password' ? 'Lupa Password' : 'Verifikasi Email'}
+            </h2>
+            <p className="text-gray-600">
+              {mode === 'login'
+                ? 'Silakan masuk untuk mengakses dashboard'
+                : mode === 'forgot-password'
+                  ? 'Masukkan email Anda untuk menerima link reset password'
+                  : 'Email Anda belum diverifikasi'}
+            </p>
           </div>
 
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
               <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
               <div>
-                <h3 className="font-medium text-red-900">Login Gagal</h3>
+                <h3 className="font-medium text-red-900">{mode === 'login' ? 'Login Gagal' : 'Terjadi Kesalahan'}</h3>
                 <p className="text-sm text-red-700">{error}</p>
               </div>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
-              </label>
-              <input
-                type="email"
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
-                placeholder="Masukkan email Anda"
-                required
-              />
+          {notice && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-start space-x-3">
+              <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+              <p className="text-sm text-green-700">{notice}</p>
             </div>
+          )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
+          {mode === 'forgot-password' && (
+            <form onSubmit={handleResetPassword} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
                 <input
-                  type={showPassword ? "text" : "password"}
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
-                  placeholder="Masukkan password Anda"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                  placeholder="Masukkan email Anda"
                   required
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
-                >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
               </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                <Send className="w-5 h-5" />
+                <span>{isLoading ? 'Mengirim...' : 'Kirim Link Reset'}</span>
+              </button>
+            </form>
+          )}
+
+          {mode === 'verify-email' && (
+            <div className="space-y-6">
+              <div className="p-4 bg-blue-50 rounded-lg flex items-start space-x-3">
+                <MailCheck className="w-5 h-5 text-blue-600 mt-0.5" />
+                <p className="text-sm text-blue-800">
+                  Kami telah mengirim link verifikasi ke <strong>{formData.email}</strong>. Buka link tersebut, lalu masuk kembali.
+                </p>
+              </div>
+
+              <button
+                type="button"
+                onClick={handleResendVerification}
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                <Send className="w-5 h-5" />
+                <span>{isLoading ? 'Mengirim...' : 'Kirim Ulang Email Verifikasi'}</span>
+              </button>
             </div>
+          )}
 
+          {mode !== 'login' && (
             <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              type="button"
+              onClick={() => switchMode('login')}
+              className="mt-6 w-full flex items-center justify-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
             >
-              {isLoading ? (
-                <>
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  <span>Memproses...</span>
-                </>
-              ) : (
-                <>
-                  <LogIn className="w-5 h-5" />
-                  <span>Masuk</span>
-                </>
-              )}
+              <ArrowLeft className="w-4 h-4" />
+              <span>Kembali ke halaman masuk</span>
             </button>
-          </form>
+          )}
 
+          {mode === 'login' && (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                  placeholder="Masukkan email Anda"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                    placeholder="Masukkan password Anda"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+                <div className="text-right mt-2">
+                  <button
+                    type="button"
+                    onClick={() => switchMode('forgot-password')}
+                    className="text-sm text-purple-600 hover:text-purple-700 transition-colors"
+                  >
+                    Lupa password?
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Memproses...</span>
+                  </>
+                ) : (
+                  <>
+                    <LogIn className="w-5 h-5" />
+                    <span>Masuk</span>
+                  </>
+                )}
+              </button>
+            </form>
+          )}
+
+          {isDemoMode && mode === 'login' && (
+            <div className="mt-6 pt-6 border-t border-gray-100">
+              <p className="text-sm text-gray-600 mb-3">
+                Mode demo aktif: data disimpan di browser ini. Pilih akun demo untuk masuk.
+              </p>
+              <div className="space-y-2">
+                {DEMO_AUTH_USERS.map(demoUser => (
+                  <button
+                    key={demoUser.id}
+                    type="button"
+                    onClick={() => handleDemoLogin(demoUser.email)}
+                    className="w-full flex items-center space-x-2 px-4 py-2 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <User className="w-4 h-4 text-gray-400" />
+                    <span>{demoUser.email}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Wallet, CheckCircle, Clock, AlertTriangle } from 'lucide-react';
+import { PayoutLedgerEntry } from '../types';
+import { PAYOUT_STATUS_LABELS, PAYOUT_STATUS_STYLES, formatPeriodLabel, summarizePayouts } from '../lib/payouts';
+
+interface PayoutHistoryProps {
+  entries: PayoutLedgerEntry[];
+  title?: string;
+  className?: string;
+}
+
+const PayoutHistory: React.FC<PayoutHistoryProps> = ({
+  entries,
+  title = 'Riwayat Pembayaran Insentif',
+  className = ''
+}) => {
+  const sortedEntries = [...entries].sort((a, b) => b.period.localeCompare(a.period));
+  const summary = summarizePayouts(entries);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return new Date(date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' });
+  };
+
+  return (
+    <div className={`bg-white rounded-xl border border-gray-100 p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-2">
+          <Wallet className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-green-50 rounded-lg p-4">
+          <div className="flex items-center space-x-2 text-sm font-medium text-green-700 mb-1">
+            <CheckCircle className="w-4 h-4" />
+            <span>Dibayar</span>
+          </div>
+          <div className="text-lg font-semibold text-green-900">{formatCurrency(summary.paid)}</div>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-4">
+          <div className="flex items-center space-x-2 text-sm font-medium text-blue-700 mb-1">
+            <Clock className="w-4 h-4" />
+            <span>Belum Dibayar</span>
+          </div>
+          <div className="text-lg font-semibold text-blue-900">{formatCurrency(summary.outstanding - summary.disputed)}</div>
+        </div>
+        <div className="bg-red-50 rounded-lg p-4">
+          <div className="flex items-center space-x-2 text-sm font-medium text-red-700 mb-1">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Disengketakan</span>
+          </div>
+          <div className="text-lg font-semibold text-red-900">{formatCurrency(summary.disputed)}</div>
+        </div>
+      </div>
+
+      {sortedEntries.length > 0 ? (
+        <div className="divide-y divide-gray-100">
+          {sortedEntries.map(entry => (
+            <div key={entry.id} className="py-3 flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900">{formatPeriodLabel(entry.period)}</div>
+                <div className="text-xs text-gray-500">
+                  {entry.status === 'paid'
+                    ? `Dibayar ${formatDate(entry.paid_at)}${entry.payment_reference ? ` · Ref ${entry.payment_reference}` : ''}`
+                    : entry.note || `Diperbarui ${formatDate(entry.updated_at)}`}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="font-semibold text-gray-900">{formatCurrency(entry.amount)}</div>
+                <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${PAYOUT_STATUS_STYLES[entry.status]}`}>
+                  {PAYOUT_STATUS_LABELS[entry.status]}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 text-center py-6">Belum ada pembayaran insentif yang tercatat.</p>
+      )}
+    </div>
+  );
+};
+
+export default PayoutHistory;
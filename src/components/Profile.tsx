@@ -1,34 +1,42 @@
-import React, { useState } from 'react';
-import { User, Mail, Building, Calendar, Save, Edit2, Lock, Eye, EyeOff, Phone, MapPin, FileText } from 'lucide-react';
-
-interface ProfileProps {
-  currentUser?: {
-    id: string;
-    name: string;
-    email: string;
-    role: 'user' | 'superadmin';
-  };
-}
+import React, { useRef, useState } from 'react';
+import { User, Mail, Calendar, Save, Edit2, Lock, Eye, EyeOff, Phone, MapPin, FileText, Camera, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+import PayoutHistory from './PayoutHistory';
+import ScreenErrors from './ScreenErrors';
+import { User as UserType } from '../types';
+import { useCurrentUser, usePayoutLedger, useUserActions } from '../hooks/useStore';
+import { supabase } from '../lib/supabase';
+import { ROLE_LABELS } from '../lib/permissions';
+
+const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+const getProfileData = (user: UserType) => ({
+  name: user.name,
+  phone: user.phone || '',
+  address: user.address || '',
+  bio: user.bio || '',
+});
 
-const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
+const Profile: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const payoutLedger = usePayoutLedger();
   const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const [profileResult, setProfileResult] = useState<{ success: boolean; message: string } | null>(null);
   const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [passwordResult, setPasswordResult] = useState<{ success: boolean; message: string } | null>(null);
   const [showPasswords, setShowPasswords] = useState({
     current: false,
     new: false,
     confirm: false
   });
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  // Saving also updates the signed-in user everywhere it is shown
+  const { updateUser, updateAvatar, removeAvatar } = useUserActions();
   
-  const [profileData, setProfileData] = useState({
-    name: currentUser?.name || 'Admin User',
-    email: currentUser?.email || 'admin@kimostudio.com',
-    company: 'Kimo Studio',
-    role: currentUser?.role === 'superadmin' ? 'Super Administrator' : 'User',
-    joinDate: '2024-01-15',
-    phone: '+62 812-3456-7890',
-    address: 'Jakarta, Indonesia',
-    bio: 'Affiliate marketing specialist with 5+ years of experience in managing sales data and analytics.',
-  });
+  const [profileData, setProfileData] = useState(() => getProfileData(currentUser));
 
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
@@ -36,10 +44,66 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
     confirmPassword: ''
   });
 
-  const handleSave = () => {
-    // Here you would typically save to a backend
+  const roleLabel = ROLE_LABELS[currentUser.role];
+
+  const handleSave = async () => {
+    if (!profileData.name.trim()) {
+      setProfileResult({ success: false, message: 'Name cannot be empty.' });
+      return;
+    }
+
+    setIsSaving(true);
+    setProfileResult(null);
+
+    // Failures are listed at the top of the screen with a retry
+    const { data: updatedUser } = await updateUser(currentUser.id, {
+      name: profileData.name.trim(),
+      phone: profileData.phone.trim(),
+      address: profileData.address.trim(),
+      bio: profileData.bio.trim(),
+    });
+
+    if (updatedUser) {
+      setProfileData(getProfileData(updatedUser));
+      setIsEditing(false);
+      setProfileResult({ success: true, message: 'Profile updated successfully.' });
+    }
+    setIsSaving(false);
+  };
+
+  const handleCancelEdit = () => {
+    setProfileData(getProfileData(currentUser));
+    setProfileResult(null);
     setIsEditing(false);
-    // Show success message
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      setProfileResult({ success: false, message: 'Please choose an image file.' });
+      return;
+    }
+    if (file.size > MAX_AVATAR_SIZE) {
+      setProfileResult({ success: false, message: 'Profile photos can be at most 2 MB.' });
+      return;
+    }
+
+    setIsUploadingAvatar(true);
+    setProfileResult(null);
+
+    await updateAvatar(currentUser.id, file);
+    setIsUploadingAvatar(false);
+  };
+
+  const handleRemoveAvatar = async () => {
+    setIsUploadingAvatar(true);
+    setProfileResult(null);
+
+    await removeAvatar(currentUser.id);
+    setIsUploadingAvatar(false);
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -56,24 +120,48 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
     }));
   };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
+  const closePasswordForm = () => {
+    setShowPasswordForm(false);
+    setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setPasswordResult(null);
     
     if (passwordData.newPassword !== passwordData.confirmPassword) {
-      alert('New passwords do not match');
+      setPasswordResult({ success: false, message: 'New passwords do not match.' });
       return;
     }
     
     if (passwordData.newPassword.length < 8) {
-      alert('Password must be at least 8 characters long');
+      setPasswordResult({ success: false, message: 'Password must be at least 8 characters long.' });
       return;
     }
-    
-    // Here you would typically send to backend
-    console.log('Password change submitted');
-    setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
-    setShowPasswordForm(false);
-    alert('Password changed successfully');
+
+    setIsChangingPassword(true);
+
+    // Signing in again proves the current password before it is replaced
+    const { error: verifyError } = await supabase.auth.signInWithPassword({
+      email: currentUser.email,
+      password: passwordData.currentPassword,
+    });
+
+    if (verifyError) {
+      setPasswordResult({ success: false, message: 'Your current password is incorrect.' });
+      setIsChangingPassword(false);
+      return;
+    }
+
+    const { error: updateError } = await supabase.auth.updateUser({ password: passwordData.newPassword });
+
+    if (updateError) {
+      setPasswordResult({ success: false, message: updateError.message });
+    } else {
+      closePasswordForm();
+      setPasswordResult({ success: true, message: 'Password changed successfully.' });
+    }
+    setIsChangingPassword(false);
   };
 
   const togglePasswordVisibility = (field: 'current' | 'new' | 'confirm') => {
@@ -85,6 +173,8 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
 
   return (
     <div className="space-y-6">
+      <ScreenErrors />
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
@@ -93,7 +183,8 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
         </div>
         <button
           onClick={() => isEditing ? handleSave() : setIsEditing(true)}
-          className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          disabled={isSaving}
+          className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
         >
           {isEditing ? (
             <>
@@ -114,17 +205,49 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
         <div className="lg:col-span-1">
           <div className="bg-white rounded-xl border border-gray-100 p-6 h-fit">
             <div className="text-center">
-              <div className="w-24 h-24 bg-gradient-to-br from-purple-100 to-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                <User className="w-12 h-12 text-purple-600" />
+              <div className="relative w-24 h-24 mx-auto mb-4">
+                <div className="w-24 h-24 bg-gradient-to-br from-purple-100 to-blue-100 rounded-full flex items-center justify-center overflow-hidden">
+                  {currentUser.avatar_url ? (
+                    <img src={currentUser.avatar_url} alt={currentUser.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-12 h-12 text-purple-600" />
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => avatarInputRef.current?.click()}
+                  disabled={isUploadingAvatar}
+                  className="absolute bottom-0 right-0 w-8 h-8 bg-purple-600 text-white rounded-full flex items-center justify-center border-2 border-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+                  title="Change photo"
+                >
+                  <Camera className="w-4 h-4" />
+                </button>
+                <input
+                  ref={avatarInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleAvatarChange}
+                  className="hidden"
+                />
               </div>
-              <h2 className="text-xl font-bold text-gray-900 mb-1">{profileData.name}</h2>
-              <p className="text-gray-600 mb-2">{profileData.role}</p>
-              <p className="text-sm text-gray-500">{profileData.company}</p>
+              {isUploadingAvatar && <p className="text-xs text-gray-500 mb-2">Uploading photo...</p>}
+              {currentUser.avatar_url && !isUploadingAvatar && (
+                <button
+                  type="button"
+                  onClick={handleRemoveAvatar}
+                  className="inline-flex items-center space-x-1 text-xs text-red-600 hover:text-red-700 mb-2"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Remove photo</span>
+                </button>
+              )}
+              <h2 className="text-xl font-bold text-gray-900 mb-1">{currentUser.name}</h2>
+              <p className="text-gray-600 mb-2">{roleLabel}</p>
               
               <div className="mt-6 pt-6 border-t border-gray-100">
                 <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
                   <Calendar className="w-4 h-4" />
-                  <span>Joined {new Date(profileData.joinDate).toLocaleDateString('id-ID', { 
+                  <span>Joined {new Date(currentUser.created_at).toLocaleDateString('id-ID', { 
                     year: 'numeric', 
                     month: 'long' 
                   })}</span>
@@ -138,6 +261,19 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
         <div className="lg:col-span-2">
           <div className="bg-white rounded-xl border border-gray-100 p-6 mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-6">Personal Information</h3>
+
+            {profileResult && (
+              <div className={`mb-6 p-4 rounded-lg border flex items-start space-x-3 ${
+                profileResult.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              }`}>
+                {profileResult.success ? (
+                  <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                )}
+                <p className={`text-sm ${profileResult.success ? 'text-green-700' : 'text-red-700'}`}>{profileResult.message}</p>
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               <div>
@@ -163,37 +299,12 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Email Address
                 </label>
-                {isEditing ? (
-                  <input
-                    type="email"
-                    value={profileData.email}
-                    onChange={(e) => handleInputChange('email', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  />
-                ) : (
-                  <div className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
-                    <Mail className="w-4 h-4 text-gray-400" />
-                    <span className="text-gray-900">{profileData.email}</span>
-                  </div>
-                )}
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Company
-                </label>
-                {isEditing ? (
-                  <input
-                    type="text"
-                    value={profileData.company}
-                    onChange={(e) => handleInputChange('company', e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  />
-                ) : (
-                  <div className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
-                    <Building className="w-4 h-4 text-gray-400" />
-                    <span className="text-gray-900">{profileData.company}</span>
-                  </div>
+                <div className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
+                  <Mail className="w-4 h-4 text-gray-400" />
+                  <span className="text-gray-900">{currentUser.email}</span>
+                </div>
+                {isEditing && (
+                  <p className="text-xs text-gray-500 mt-1">Ask a super admin to change your sign-in email.</p>
                 )}
               </div>
 
@@ -211,7 +322,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 ) : (
                   <div className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
                     <Phone className="w-4 h-4 text-gray-400" />
-                    <span className="text-gray-900">{profileData.phone}</span>
+                    <span className={profileData.phone ? 'text-gray-900' : 'text-gray-400'}>{profileData.phone || 'Not set'}</span>
                   </div>
                 )}
               </div>
@@ -230,7 +341,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 ) : (
                   <div className="flex items-center space-x-2 p-3 bg-gray-50 rounded-lg">
                     <MapPin className="w-4 h-4 text-gray-400" />
-                    <span className="text-gray-900">{profileData.address}</span>
+                    <span className={profileData.address ? 'text-gray-900' : 'text-gray-400'}>{profileData.address || 'Not set'}</span>
                   </div>
                 )}
               </div>
@@ -249,7 +360,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 ) : (
                   <div className="flex items-start space-x-2 p-3 bg-gray-50 rounded-lg">
                     <FileText className="w-4 h-4 text-gray-400 mt-0.5" />
-                    <span className="text-gray-900">{profileData.bio}</span>
+                    <span className={profileData.bio ? 'text-gray-900' : 'text-gray-400'}>{profileData.bio || 'Not set'}</span>
                   </div>
                 )}
               </div>
@@ -258,21 +369,28 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
             {isEditing && (
               <div className="flex space-x-3 pt-6 mt-6 border-t border-gray-100">
                 <button
-                  onClick={() => setIsEditing(false)}
+                  onClick={handleCancelEdit}
+                  disabled={isSaving}
                   className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={handleSave}
-                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
                 >
-                  Save Changes
+                  {isSaving ? 'Saving...' : 'Save Changes'}
                 </button>
               </div>
             )}
           </div>
 
+          {/* Incentive Payouts */}
+          <PayoutHistory
+            entries={payoutLedger.filter(entry => entry.user_id === currentUser.id)}
+            className="mb-6"
+          />
           
           {/* Security Settings */}
           <div className="bg-white rounded-xl border border-gray-100 p-6">
@@ -282,6 +400,19 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                 <p className="text-sm text-gray-600">Manage your account security settings</p>
               </div>
             </div>
+
+            {passwordResult && (
+              <div className={`mb-4 p-4 rounded-lg border flex items-start space-x-3 ${
+                passwordResult.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+              }`}>
+                {passwordResult.success ? (
+                  <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+                ) : (
+                  <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                )}
+                <p className={`text-sm ${passwordResult.success ? 'text-green-700' : 'text-red-700'}`}>{passwordResult.message}</p>
+              </div>
+            )}
             
             {!showPasswordForm ? (
               <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
@@ -291,11 +422,14 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                   </div>
                   <div>
                     <h4 className="font-medium text-gray-900">Password</h4>
-                    <p className="text-sm text-gray-600">Last changed 3 months ago</p>
+                    <p className="text-sm text-gray-600">Confirm your current password to set a new one</p>
                   </div>
                 </div>
                 <button
-                  onClick={() => setShowPasswordForm(true)}
+                  onClick={() => {
+                    setPasswordResult(null);
+                    setShowPasswordForm(true);
+                  }}
                   className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm"
                 >
                   Change Password
@@ -375,18 +509,20 @@ const Profile: React.FC<ProfileProps> = ({ currentUser }) => {
                   <button
                     type="button"
                     onClick={() => {
-                      setShowPasswordForm(false);
-                      setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+                      closePasswordForm();
+                      setPasswordResult(null);
                     }}
+                    disabled={isChangingPassword}
                     className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
                   >
                     Cancel
                   </button>
                   <button
                     type="submit"
-                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                    disabled={isChangingPassword}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
                   >
-                    Update Password
+                    {isChangingPassword ? 'Updating...' : 'Update Password'}
                   </button>
                 </div>
               </form>
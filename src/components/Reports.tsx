@@ -1,83 +1,94 @@
-import React, { useState, useMemo } from 'react';
-import { BarChart3, Download, Calendar, Filter } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { BarChart3, Download, Calendar, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+import { SalesData, SalesTotals } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useAccounts, useCategories, useCurrentUser, useDateFilter, useLoadReporter, useSalesData } from '../hooks/useStore';
+import { EMPTY_SALES_TOTALS, getDateFilterRange, getSalesQueryKey } from '../lib/salesQuery';
+import { can } from '../lib/permissions';
+import ScreenErrors from './ScreenErrors';
 
-interface DateFilter {
-  startDate: string;
-  endDate: string;
-  preset: string;
-}
-
-interface ReportsProps {
-  accounts: Account[];
-  salesData: SalesData[];
-  categories: Category[];
-  dateFilter: DateFilter;
-  onDateFilterChange: (filter: DateFilter) => void;
-  currentUser?: {
-    id: string;
-    name: string;
-    email: string;
-    role: 'user' | 'superadmin';
-    managed_accounts: string[];
-  };
-}
-
-const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, dateFilter, onDateFilterChange, currentUser }) => {
-  // Filter accounts and sales data based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
-
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
-    }
-  }, [salesData, currentUser]);
+const TABLE_PAGE_SIZE = 50;
 
+const Reports: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const categories = useCategories();
+  const [dateFilter, setDateFilter] = useDateFilter();
+  const dateRange = useMemo(() => getDateFilterRange(dateFilter), [dateFilter]);
+  const { salesData } = useSalesData(dateRange);
   const [selectedAccount, setSelectedAccount] = useState('all');
   
+  // The date range is already applied by the selector
   const filteredData = useMemo(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    // Filter by account
-    if (selectedAccount !== 'all') {
-      filtered = filtered.filter(data => data.account_id === selectedAccount);
-    }
-    
-    // Filter by date range
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filtered.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
-      });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filtered.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    return filtered;
-  }, [filteredSalesDataByUser, selectedAccount, dateFilter]);
+    return selectedAccount !== 'all'
+      ? salesData.filter(data => data.account_id === selectedAccount)
+      : salesData;
+  }, [salesData, selectedAccount]);
+
+  // The daily table pages through the database instead of the rows held in memory
+  const { fetchSalesDataPage, fetchSalesTotals } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
+  const [tablePage, setTablePage] = useState(0);
+  const [tableRows, setTableRows] = useState<SalesData[]>([]);
+  const [tableTotal, setTableTotal] = useState(0);
+
+  const tableQuery = useMemo(() => ({
+    ...dateRange,
+    accountIds: selectedAccount !== 'all' ? [selectedAccount] : undefined,
+  }), [dateRange, selectedAccount]);
+
+  const tableQueryKey = getSalesQueryKey(tableQuery);
+
+  useEffect(() => {
+    setTablePage(0);
+  }, [tableQueryKey]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchSalesDataPage(tableQuery, tablePage, TABLE_PAGE_SIZE).then(({ data, error }) => {
+      if (!isCurrent) return;
+
+      reportLoad('Failed to load daily sales', error);
+      if (data) {
+        setTableRows(data.rows);
+        setTableTotal(data.total);
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [tableQuery, tablePage, salesData, fetchSalesDataPage, reportLoad, reloadKey]);
+
+  const tablePageCount = Math.max(Math.ceil(tableTotal / TABLE_PAGE_SIZE), 1);
+
+  // Summary cards use the same database totals as the dashboard
+  const [reportTotals, setReportTotals] = useState<SalesTotals>(EMPTY_SALES_TOTALS);
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchSalesTotals('all', 'all', tableQuery).then(({ data, error }) => {
+      if (!isCurrent) return;
+
+      reportLoad('Failed to load sales totals', error);
+      if (data) setReportTotals(data[0] || EMPTY_SALES_TOTALS);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [tableQuery, salesData, fetchSalesTotals, reportLoad, reloadKey]);
+
+  const reportMetrics = {
+    totalCommission: reportTotals.gross_commission,
+    totalRevenue: reportTotals.total_purchases,
+    totalOrders: reportTotals.orders,
+    totalClicks: reportTotals.clicks,
+    totalProductsSold: reportTotals.products_sold,
+    totalNewBuyers: reportTotals.new_buyers,
+    avgCommissionRate: reportTotals.commission_rate,
+    conversionRate: reportTotals.conversion_rate,
+  };
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -88,28 +99,8 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
       newFilter.endDate = '';
     }
     
-    onDateFilterChange(newFilter);
+    setDateFilter(newFilter);
   };
-  const reportMetrics = useMemo(() => {
-    const totalCommission = filteredData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredData.reduce((sum, data) => sum + data.clicks, 0);
-    const totalProductsSold = filteredData.reduce((sum, data) => sum + data.products_sold, 0);
-    const totalNewBuyers = filteredData.reduce((sum, data) => sum + data.new_buyers, 0);
-    
-    return {
-      totalCommission,
-      totalRevenue,
-      totalOrders,
-      totalClicks,
-      totalProductsSold,
-      totalNewBuyers,
-      avgCommissionRate: totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0,
-      conversionRate: totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0,
-    };
-  }, [filteredData]);
-
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -165,14 +156,16 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
 
   return (
     <div className="space-y-6">
+      <ScreenErrors />
+
       {/* Header */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
           <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
+            {can(currentUser, 'accounts.view_all')
               ? 'Detailed sales and commission reports for all accounts'
-              : `Detailed sales and commission reports for your ${filteredAccountsByRole.length} accounts`}
+              : `Detailed sales and commission reports for your ${accounts.length} accounts`}
           </p>
         </div>
         <button
@@ -200,7 +193,7 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
               className="px-3 py-1 border border-gray-300 rounded text-sm"
             >
               <option value="all">All Accounts</option>
-              {filteredAccountsByRole.map((account) => (
+              {accounts.map((account) => (
                 <option key={account.id} value={account.id}>
                   {account.username} ({account.account_code}) - {getCategoryName(account.category_id)}
                 </option>
@@ -296,44 +289,41 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredData
-                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                .slice(0, 50)
-                .map((data, index) => {
-                  const account = filteredAccountsByRole.find(acc => acc.id === data.account_id);
-                  const convRate = data.clicks > 0 ? (data.orders / data.clicks) * 100 : 0;
-                  
-                  return (
-                    <tr key={`${data.account_id}-${data.date}-${index}`} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {new Date(data.date).toLocaleDateString('id-ID')}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{account?.username}</div>
-                        <div className="text-sm text-gray-500">{account?.account_code}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {data.clicks.toLocaleString()}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {data.orders.toLocaleString()}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
-                        {formatCurrency(data.gross_commission)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {formatCurrency(data.total_purchases)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {convRate.toFixed(2)}%
-                      </td>
-                    </tr>
-                  );
-                })}
+              {tableRows.map((data, index) => {
+                const account = accounts.find(acc => acc.id === data.account_id);
+                const convRate = data.clicks > 0 ? (data.orders / data.clicks) * 100 : 0;
+                
+                return (
+                  <tr key={`${data.account_id}-${data.date}-${index}`} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(data.date).toLocaleDateString('id-ID')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{account?.username}</div>
+                      <div className="text-sm text-gray-500">{account?.account_code}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {data.clicks.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {data.orders.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-green-600">
+                      {formatCurrency(data.gross_commission)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(data.total_purchases)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {convRate.toFixed(2)}%
+                    </td>
+                  </tr>
+                );
+              })}
             </tbody>
           </table>
           
-          {filteredData.length === 0 && (
+          {tableTotal === 0 && (
             <div className="text-center py-12">
               <BarChart3 className="w-16 h-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">No data found</h3>
@@ -341,6 +331,31 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
             </div>
           )}
         </div>
+
+        {tableTotal > TABLE_PAGE_SIZE && (
+          <div className="px-6 py-4 border-t border-gray-100 flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {tablePage * TABLE_PAGE_SIZE + 1}-{Math.min((tablePage + 1) * TABLE_PAGE_SIZE, tableTotal)} of {tableTotal.toLocaleString()} rows
+            </span>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setTablePage(page => page - 1)}
+                disabled={tablePage === 0}
+                className="p-1.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span>Page {tablePage + 1} of {tablePageCount}</span>
+              <button
+                onClick={() => setTablePage(page => page + 1)}
+                disabled={tablePage + 1 >= tablePageCount}
+                className="p-1.5 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
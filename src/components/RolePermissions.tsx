@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound, Lock, AlertCircle } from 'lucide-react';
+import { Permission, SupabaseError, UserRole } from '../types';
+import { useSupabase } from '../hooks/useSupabase';
+import { useLoadReporter } from '../hooks/useStore';
+import { PERMISSION_GROUPS, ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES } from '../lib/permissions';
+
+// Keyed as `${role}:${permission}` so a toggle only touches one entry
+const toKey = (role: UserRole, permission: Permission) => `${role}:${permission}`;
+
+const RolePermissions: React.FC = () => {
+  const [granted, setGranted] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  // Shown next to the matrix rather than at the top of the screen, where the toggle happened
+  const [saveError, setSaveError] = useState<{ role: UserRole; permission: Permission; error: SupabaseError } | null>(null);
+
+  const { fetchRolePermissions, setRolePermission } = useSupabase();
+  const { reloadKey, reportLoad } = useLoadReporter();
+
+  useEffect(() => {
+    const loadPermissions = async () => {
+      const { data, error } = await fetchRolePermissions();
+      reportLoad('Failed to load role permissions', error);
+      if (data) setGranted(new Set(data.map(row => toKey(row.role, row.permission))));
+      setIsLoading(false);
+    };
+
+    loadPermissions();
+  }, [fetchRolePermissions, reportLoad, reloadKey]);
+
+  const handleToggle = async (role: UserRole, permission: Permission) => {
+    const key = toKey(role, permission);
+    const grant = !granted.has(key);
+
+    setSavingKey(key);
+    setSaveError(null);
+
+    const { error } = await setRolePermission(role, permission, grant);
+    if (!error) {
+      setGranted(prev => {
+        const next = new Set(prev);
+        if (grant) {
+          next.add(key);
+        } else {
+          next.delete(key);
+        }
+        return next;
+      });
+    } else {
+      setSaveError({ role, permission, error });
+    }
+
+    setSavingKey(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center space-x-2">
+          <KeyRound className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Roles & Permissions</h3>
+        </div>
+        <p className="text-sm text-gray-600 mt-1">
+          Changes apply the next time a member signs in or reloads the app. Super admins always have every permission.
+        </p>
+        {saveError && (
+          <div className="mt-3 flex items-center space-x-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4" />
+            <span>
+              Failed to update {ROLE_LABELS[saveError.role]}: {saveError.error.message}
+              {saveError.error.code && <span className="ml-1 font-mono text-xs text-red-500">[{saveError.error.code}]</span>}
+            </span>
+            <button
+              onClick={() => handleToggle(saveError.role, saveError.permission)}
+              className="font-medium text-red-700 underline hover:text-red-800"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="p-6 animate-pulse space-y-3">
+          {[1, 2, 3, 4].map(i => (
+            <div key={i} className="h-4 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permission</th>
+                {USER_ROLES.map(role => (
+                  <th
+                    key={role}
+                    className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    title={ROLE_DESCRIPTIONS[role]}
+                  >
+                    {ROLE_LABELS[role]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {PERMISSION_GROUPS.map(group => (
+              <tbody key={group.label} className="divide-y divide-gray-100">
+                <tr className="bg-gray-50">
+                  <td colSpan={USER_ROLES.length + 1} className="px-6 py-2 text-xs font-semibold text-gray-700">
+                    {group.label}
+                  </td>
+                </tr>
+                {group.permissions.map(({ key: permission, label }) => (
+                  <tr key={permission} className="hover:bg-gray-50">
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      <div>{label}</div>
+                      <div className="text-xs text-gray-500">{permission}</div>
+                    </td>
+                    {USER_ROLES.map(role => (
+                      <td key={role} className="px-4 py-3 text-center">
+                        {role === 'superadmin' ? (
+                          <Lock className="w-4 h-4 text-gray-400 mx-auto" aria-label="Always granted" />
+                        ) : (
+                          <input
+                            type="checkbox"
+                            checked={granted.has(toKey(role, permission))}
+                            onChange={() => handleToggle(role, permission)}
+                            disabled={savingKey !== null}
+                            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500 disabled:opacity-50"
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RolePermissions;
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { AlertCircle, RefreshCw, X } from 'lucide-react';
+import { SupabaseError } from '../types';
+import { useStore } from '../hooks/useStore';
+import { dismissError, dismissQueryError, retryQuery } from '../lib/store';
+
+interface ScreenErrorItem {
+  id: string;
+  title: string;
+  error: SupabaseError;
+  isRetrying: boolean;
+  retry?: () => void;
+  dismiss: () => void;
+}
+
+// What failed on the current screen: loads of the queries it uses, then its own writes and local loads
+const ScreenErrors: React.FC = () => {
+  const queries = useStore(state => state.queries);
+  const reported = useStore(state => state.errors);
+
+  const items = useMemo<ScreenErrorItem[]>(() => [
+    ...Object.entries(queries).flatMap(([key, query]) => (query.observers > 0 && query.error ? [{
+      id: `query|${key}`,
+      title: query.title,
+      error: query.error,
+      isRetrying: query.isFetching,
+      retry: () => retryQuery(key),
+      dismiss: () => dismissQueryError(key),
+    }] : [])),
+    ...reported.map(item => ({
+      id: `reported|${item.title}`,
+      title: item.title,
+      error: item.error,
+      isRetrying: false,
+      retry: item.retry && (() => {
+        dismissError(item.title);
+        item.retry?.();
+      }),
+      dismiss: () => dismissError(item.title),
+    })),
+  ], [queries, reported]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.id} className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            <AlertCircle className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="font-medium text-red-800">{item.title}</p>
+              <p className="text-sm text-red-700">
+                {item.error.message}
+                {item.error.code && <span className="ml-2 font-mono text-xs text-red-500">[{item.error.code}]</span>}
+              </p>
+              {item.error.hint && <p className="text-xs text-red-600 mt-1">{item.error.hint}</p>}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 ml-4 flex-shrink-0">
+            {item.retry && (
+              <button
+                onClick={item.retry}
+                disabled={item.isRetrying}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm text-red-700 bg-white border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50 transition-colors"
+              >
+                <RefreshCw className={`w-4 h-4 ${item.isRetrying ? 'animate-spin' : ''}`} />
+                <span>Retry</span>
+              </button>
+            )}
+            <button
+              onClick={item.dismiss}
+              className="p-1 text-red-400 hover:text-red-600 transition-colors"
+              title="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ScreenErrors;
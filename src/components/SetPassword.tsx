@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Eye, EyeOff, KeyRound, Shield, AlertCircle, LogOut } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { AuthFlow } from '../lib/auth';
+import { useCurrentUser } from '../hooks/useStore';
+
+interface SetPasswordProps {
+  flow: AuthFlow;
+  onComplete: () => void;
+  onLogout: () => void;
+}
+
+// Shown after following an invitation or password reset link: the user is signed in and picks a password
+const SetPassword: React.FC<SetPasswordProps> = ({ flow, onComplete, onLogout }) => {
+  const currentUser = useCurrentUser();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (password.length < 6) {
+      setError('Password minimal 6 karakter.');
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Konfirmasi password tidak cocok.');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error: updateError } = await supabase.auth.updateUser({ password });
+    setIsSaving(false);
+
+    if (updateError) {
+      setError(updateError.message);
+    } else {
+      onComplete();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-br from-purple-600 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Shield className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Kimo Studio</h1>
+          <p className="text-gray-600">Sales Report Dashboard</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {flow === 'invite' ? `Selamat datang, ${currentUser.name}!` : 'Atur Ulang Password'}
+            </h2>
+            <p className="text-gray-600">
+              {flow === 'invite'
+                ? 'Buat password untuk akun Anda agar bisa masuk kembali nanti.'
+                : `Masukkan password baru untuk ${currentUser.email}.`}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password Baru
+              </label>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                  placeholder="Minimal 6 karakter"
+                  minLength={6}
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                >
+                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                </button>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Konfirmasi Password
+              </label>
+              <input
+                type={showPassword ? 'text' : 'password'}
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                placeholder="Ulangi password baru"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              <KeyRound className="w-5 h-5" />
+              <span>{isSaving ? 'Menyimpan...' : 'Simpan Password'}</span>
+            </button>
+          </form>
+
+          <button
+            type="button"
+            onClick={onLogout}
+            className="mt-6 w-full flex items-center justify-center space-x-2 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            <span>Keluar</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetPassword;
@@ -9,32 +9,37 @@ import {
   FileText,
   Trophy,
   UserPlus,
-  Shield
+  Shield,
+  History,
+  LucideIcon
 } from 'lucide-react';
-import { User } from '../types';
+import { Permission } from '../types';
+import { can, ROLE_LABELS } from '../lib/permissions';
+import { useCurrentUser } from '../hooks/useStore';
 
 interface SidebarProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
-  currentUser: User;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }) => {
-  // Filter menu items based on user role
-  const allMenuItems = [
+const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
+  const currentUser = useCurrentUser();
+  // Filter menu items based on the permissions of the user's role
+  const allMenuItems: { id: string; label: string; icon: LucideIcon; permission?: Permission; adminOnly?: boolean }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'accounts', label: 'Accounts', icon: Users },
-    { id: 'upload', label: 'Upload Data', icon: Upload },
-    { id: 'reports', label: 'Reports', icon: FileText },
-    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3, adminOnly: true },
-    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy, userOnly: true },
-    { id: 'incentive-overview', label: 'Incentive Overview', icon: Trophy, adminOnly: true },
+    { id: 'upload', label: 'Upload Data', icon: Upload, permission: 'sales.upload' },
+    { id: 'reports', label: 'Reports', icon: FileText, permission: 'reports.view' },
+    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3, permission: 'incentives.manage' },
+    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy, permission: 'incentives.view' },
+    { id: 'incentive-overview', label: 'Incentive Overview', icon: Trophy, permission: 'incentives.overview' },
     { id: 'team', label: 'Team', icon: UserPlus, adminOnly: true },
+    { id: 'audit-log', label: 'Audit Log', icon: History, adminOnly: true },
   ];
   
   const menuItems = allMenuItems.filter(item => 
-    (!item.adminOnly || currentUser.role === 'superadmin') &&
-    (!item.userOnly || currentUser.role === 'user')
+    (!item.permission || can(currentUser, item.permission)) &&
+    (!item.adminOnly || currentUser.role === 'superadmin')
   );
 
   const bottomItems = [
@@ -56,7 +61,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
           <div>
             <h1 className="text-xl font-bold text-gray-900">Kimo Studio</h1>
             <p className="text-xs text-gray-500">
-              {currentUser.role === 'superadmin' ? 'Super Admin' : 'User'}
+              {ROLE_LABELS[currentUser.role]}
             </p>
           </div>
         </div>
@@ -66,8 +71,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
       <div className="px-4 pb-4">
         <div className="bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg p-3">
           <div className="flex items-center space-x-3">
-            <div className="w-8 h-8 bg-gradient-to-br from-purple-100 to-blue-100 rounded-lg flex items-center justify-center">
-              {currentUser.role === 'superadmin' ? (
+            <div className="w-8 h-8 bg-gradient-to-br from-purple-100 to-blue-100 rounded-lg flex items-center justify-center overflow-hidden">
+              {currentUser.avatar_url ? (
+                <img src={currentUser.avatar_url} alt="" className="w-full h-full object-cover" />
+              ) : currentUser.role === 'superadmin' ? (
                 <Shield className="w-4 h-4 text-purple-600" />
               ) : (
                 <UserProfile className="w-4 h-4 text-blue-600" />
@@ -12,74 +12,72 @@ import {
   Users,
   Mail,
   Calendar,
-  Eye,
-  EyeOff,
   UserCheck,
   UserX,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Send,
+  KeyRound,
+  Clock
 } from 'lucide-react';
-import { User as UserType, Account, Category } from '../types';
+import { User as UserType, UserInvitation, UserRole } from '../types';
 import { useSupabase } from '../hooks/useSupabase';
+import { useAccounts, useCategories, useCurrentUser, useLoadReporter, useTeams, useUserActions, useUsers } from '../hooks/useStore';
 import { supabase } from '../lib/supabase';
-
-interface TeamManagementProps {
-  accounts: Account[];
-  categories: Category[];
-  currentUser: UserType;
-}
-
-const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, currentUser }) => {
-  const [users, setUsers] = useState<UserType[]>([]);
+import { reportError } from '../lib/store';
+import { getAuthRedirectUrl } from '../lib/auth';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, ROLE_STYLES, USER_ROLES, hasManagedAccounts } from '../lib/permissions';
+import RolePermissions from './RolePermissions';
+import Teams from './Teams';
+import ScreenErrors from './ScreenErrors';
+
+const TeamManagement: React.FC = () => {
+  const currentUser = useCurrentUser();
+  const accounts = useAccounts();
+  const categories = useCategories();
+  const teams = useTeams();
+  const { users, isLoading: isLoadingUsers } = useUsers(currentUser.role === 'superadmin');
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<UserType | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState('all');
-  const [showPassword, setShowPassword] = useState(false);
+  const [isSendingReset, setIsSendingReset] = useState(false);
   const [accountSearchTerm, setAccountSearchTerm] = useState('');
   const [isCreatingUser, setIsCreatingUser] = useState(false);
   const [signupResult, setSignupResult] = useState<{ success: boolean; message: string } | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoadingInvitations, setIsLoadingInvitations] = useState(true);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: '',
-    role: 'user' as 'user' | 'superadmin',
+    role: 'user' as UserRole,
     managed_accounts: [] as string[],
   });
 
-  const {
-    fetchUsers,
-    addUser,
-    updateUser,
-    deleteUser,
-  } = useSupabase();
+  const { fetchInvitations, inviteUser, deleteInvitation } = useSupabase();
+  const { updateUser, setUserDisabled, deleteUser } = useUserActions();
+  const { reloadKey, reportLoad } = useLoadReporter();
 
-  // Load users from Supabase
+  // Users come from the shared cache; pending invitations only matter on this screen
   useEffect(() => {
-    const loadUsers = async () => {
+    const loadInvitations = async () => {
       if (currentUser.role !== 'superadmin') {
-        setIsLoading(false);
+        setIsLoadingInvitations(false);
         return;
       }
 
-      setIsLoading(true);
-      setLoadError(null);
-      
-      try {
-        const usersData = await fetchUsers();
-        setUsers(usersData);
-      } catch (err) {
-        console.error('Error loading users:', err);
-        setLoadError(err instanceof Error ? err.message : 'Failed to load users');
-      } finally {
-        setIsLoading(false);
-      }
+      setIsLoadingInvitations(true);
+
+      const { data, error } = await fetchInvitations();
+      reportLoad('Failed to load invitations', error);
+      if (data) setInvitations(data);
+      setIsLoadingInvitations(false);
     };
 
-    loadUsers();
-  }, []);
+    loadInvitations();
+  }, [currentUser.role, fetchInvitations, reportLoad, reloadKey]);
+
+  const isLoading = isLoadingInvitations || isLoadingUsers;
 
   // Check if current user is superadmin
   if (currentUser.role !== 'superadmin') {
@@ -147,35 +145,6 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     );
   }
 
-  // Show error state
-  if (loadError) {
-    return (
-      <div className="space-y-6">
-        {/* Header */}
-        <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-bold text-gray-900">Team Management</h1>
-            <p className="text-gray-600">Manage user accounts and permissions</p>
-          </div>
-        </div>
-
-        <div className="flex items-center justify-center min-h-[400px]">
-          <div className="text-center">
-            <AlertCircle className="w-16 h-16 text-red-300 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Users</h3>
-            <p className="text-gray-600 mb-4">{loadError}</p>
-            <button
-              onClick={() => window.location.reload()}
-              className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-            >
-              Retry
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          user.email.toLowerCase().includes(searchTerm.toLowerCase());
@@ -210,7 +179,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
         const updateData: Partial<UserType> = {
           name: formData.name,
           role: formData.role,
-          managed_accounts: formData.managed_accounts,
+          managed_accounts: hasManagedAccounts(formData.role) ? formData.managed_accounts : [],
         };
         
         // Only include email if it's different (though it shouldn't change)
@@ -218,80 +187,49 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
           updateData.email = formData.email;
         }
         
-        const updatedUser = await updateUser(editingUser.id, updateData);
-        if (updatedUser) {
-          setUsers(prev => prev.map(user => user.id === editingUser.id ? updatedUser : user));
-          setSignupResult({ success: true, message: 'User updated successfully!' });
-          setTimeout(() => {
-            closeModal();
-          }, 2000);
-        } else {
-          throw new Error('Failed to update user - no data returned');
-        }
+        const { error } = await updateUser(editingUser.id, updateData);
+        if (error) throw error;
+
+        setSignupResult({ success: true, message: 'User updated successfully!' });
+        setTimeout(() => {
+          closeModal();
+        }, 2000);
       } else {
-        // Create user with Supabase Auth (same as sign up)
-        const { data: authData, error: authError } = await supabase.auth.signUp({
-          email: formData.email,
-          password: formData.password,
-          options: {
-            emailRedirectTo: undefined, // Disable email confirmation
-            data: {
-              name: formData.name,
-              role: formData.role,
-            }
-          }
+        // Invite the user; they choose their own password from the emailed link
+        const email = formData.email.trim().toLowerCase();
+        if (users.some(user => user.email.toLowerCase() === email)) {
+          throw new Error('A user with this email address already exists.');
+        }
+
+        const { data: invitation, error } = await inviteUser({
+          email,
+          name: formData.name,
+          role: formData.role,
+          managed_accounts: hasManagedAccounts(formData.role) ? formData.managed_accounts : [],
         });
 
-        if (authError) {
-          throw authError;
-        }
+        if (error) throw error;
 
-        if (authData.user) {
-          // Create user record in users table
-          const newUserData = {
-            id: authData.user.id,
-            name: formData.name,
-            email: formData.email,
-            role: formData.role,
-            managed_accounts: formData.managed_accounts,
-          };
-          
-          const newUser = await addUser(newUserData);
-          if (newUser) {
-            setUsers(prev => [...prev, newUser]);
-            setSignupResult({ 
-              success: true, 
-              message: `User account created successfully! Login credentials have been set up for ${formData.email}` 
-            });
-            
-            // Auto-close modal after success
-            setTimeout(() => {
-              closeModal();
-            }, 3000);
-          } else {
-            // If user creation in database fails, we should clean up the auth user
-            try {
-              await supabase.auth.admin.deleteUser(authData.user.id);
-            } catch (cleanupError) {
-              console.warn('Could not clean up auth user:', cleanupError);
-            }
-            throw new Error('Failed to create user record in database');
-          }
-        } else {
-          throw new Error('Failed to create authentication account');
-        }
+        setInvitations(prev => [invitation, ...prev.filter(item => item.id !== invitation.id)]);
+        setSignupResult({
+          success: true,
+          message: `An invitation link has been sent to ${email}. The account becomes active once they sign in and set a password.`
+        });
+
+        setTimeout(() => {
+          closeModal();
+        }, 3000);
       }
     } catch (err: any) {
       console.error('Error saving user:', err);
-      let errorMessage = 'An error occurred while saving the user.';
+      let errorMessage = editingUser ? 'An error occurred while saving the user.' : 'An error occurred while sending the invitation.';
       
-      if (err.message?.includes('User already registered') || err.message?.includes('already been registered')) {
+      // Postgres and the admin-users function report the same conditions under different codes
+      if (['23505', '409', 'user_already_exists'].includes(err.code) || err.message?.includes('already been registered')) {
         errorMessage = 'A user with this email address already exists.';
-      } else if (err.message?.includes('Password')) {
-        errorMessage = 'Password must be at least 6 characters long.';
       } else if (err.message?.includes('Invalid email')) {
         errorMessage = 'Please enter a valid email address.';
-      } else if (err.message?.includes('permission') || err.message?.includes('RLS')) {
+      } else if (['42501', '403'].includes(err.code)) {
         errorMessage = 'Permission denied. Please check your access rights.';
       } else if (err.message) {
         errorMessage = err.message;
@@ -308,7 +246,6 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: user.name,
       email: user.email,
-      password: '', // Don't show existing password
       role: user.role,
       managed_accounts: user.managed_accounts,
     });
@@ -316,12 +253,50 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setShowModal(true);
   };
 
+  const handleSendPasswordReset = async () => {
+    if (!editingUser) return;
+
+    setIsSendingReset(true);
+    setSignupResult(null);
+
+    const { error } = await supabase.auth.resetPasswordForEmail(editingUser.email, {
+      redirectTo: getAuthRedirectUrl('recovery'),
+    });
+
+    setSignupResult(error
+      ? { success: false, message: error.message }
+      : { success: true, message: `A password reset link has been sent to ${editingUser.email}.` });
+    setIsSendingReset(false);
+  };
+
+  const handleResendInvitation = async (invitation: UserInvitation) => {
+    const { data: resent, error } = await inviteUser(invitation);
+    if (error) {
+      reportError({ title: `Failed to resend the invitation to ${invitation.email}`, error, retry: () => handleResendInvitation(invitation) });
+      return;
+    }
+
+    setInvitations(prev => prev.map(item => item.id === resent.id ? resent : item));
+    alert(`Invitation resent to ${invitation.email}.`);
+  };
+
+  const handleCancelInvitation = async (invitation: UserInvitation) => {
+    if (!confirm(`Cancel the invitation for ${invitation.email}?`)) return;
+
+    const { error } = await deleteInvitation(invitation.id);
+    if (error) {
+      reportError({ title: `Failed to cancel the invitation for ${invitation.email}`, error });
+      return;
+    }
+
+    setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+  };
+
   const handleAdd = () => {
     setEditingUser(null);
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
       managed_accounts: [],
     });
@@ -335,27 +310,19 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
       return;
     }
     
+    // A failure is listed at the top of the screen with a retry
     if (confirm('Are you sure you want to delete this user? This will also delete their authentication account and cannot be undone.')) {
-      try {
-        // First delete from our users table
-        const success = await deleteUser(id);
-        if (success) {
-          // Then delete from Supabase Auth (if it exists)
-          try {
-            await supabase.auth.admin.deleteUser(id);
-          } catch (authError) {
-            console.warn('Could not delete auth user (may not exist):', authError);
-          }
-          
-          setUsers(prev => prev.filter(user => user.id !== id));
-        }
-      } catch (err) {
-        console.error('Error deleting user:', err);
-        alert('Failed to delete user. Please try again.');
-      }
+      await deleteUser(id);
     }
   };
 
+  const handleToggleDisabled = async (user: UserType) => {
+    const disable = !user.disabled_at;
+    if (disable && !confirm(`Disable ${user.name}? They will be signed out and cannot sign in until re-enabled.`)) return;
+
+    await setUserDisabled(user.id, disable);
+  };
+
   const closeModal = () => {
     setShowModal(false);
     setEditingUser(null);
@@ -365,11 +332,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
       managed_accounts: [],
     });
-    setShowPassword(false);
   };
 
   const handleAccountToggle = (accountId: string) => {
@@ -400,6 +365,8 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
   return (
     <>
       <div className="space-y-6">
+        <ScreenErrors />
+
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
@@ -411,7 +378,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
           >
             <Plus className="w-4 h-4" />
-            <span>Add User</span>
+            <span>Invite User</span>
           </button>
         </div>
 
@@ -436,9 +403,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
               </div>
               <div>
                 <div className="text-2xl font-bold text-gray-900">
-                  {users.filter(u => u.role === 'user').length}
+                  {users.filter(u => u.role !== 'superadmin').length}
                 </div>
-                <p className="text-sm text-gray-600">Regular Users</p>
+                <p className="text-sm text-gray-600">Team Members</p>
               </div>
             </div>
           </div>
@@ -481,13 +448,77 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
                 <option value="all">All Roles</option>
-                <option value="user">Users</option>
-                <option value="superadmin">Super Admins</option>
+                {USER_ROLES.map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
               </select>
             </div>
           </div>
         </div>
 
+        {/* Pending Invitations */}
+        {invitations.length > 0 && (
+          <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+            <div className="p-6 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Pending Invitations ({invitations.length})
+              </h3>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="p-6 flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="w-12 h-12 bg-gray-100 rounded-lg flex items-center justify-center">
+                      <Clock className="w-6 h-6 text-gray-500" />
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-3">
+                        <h3 className="font-semibold text-gray-900">{invitation.name || invitation.email}</h3>
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Invited
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
+                        <span className="flex items-center space-x-1">
+                          <Mail className="w-3 h-3" />
+                          <span>{invitation.email}</span>
+                        </span>
+                        <span>
+                          {hasManagedAccounts(invitation.role)
+                            ? `${ROLE_LABELS[invitation.role]} · ${invitation.managed_accounts.length} accounts`
+                            : ROLE_LABELS[invitation.role]}
+                        </span>
+                        <span className="flex items-center space-x-1">
+                          <Calendar className="w-3 h-3" />
+                          <span>
+                            Sent {new Date(invitation.created_at).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' })}
+                          </span>
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleResendInvitation(invitation)}
+                      className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+                    >
+                      <Send className="w-4 h-4" />
+                      <span>Resend</span>
+                    </button>
+                    <button
+                      onClick={() => handleCancelInvitation(invitation)}
+                      className="flex items-center space-x-2 text-red-600 hover:text-red-700 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                      <span>Cancel</span>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Users List */}
         <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
           <div className="p-6 border-b border-gray-100">
@@ -521,13 +552,20 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                                 You
                               </span>
                             )}
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              user.role === 'superadmin' 
-                                ? 'bg-purple-100 text-purple-800' 
-                                : 'bg-blue-100 text-blue-800'
-                            }`}>
-                              {user.role === 'superadmin' ? 'Super Admin' : 'User'}
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ROLE_STYLES[user.role]}`}>
+                              {ROLE_LABELS[user.role]}
                             </span>
+                            {user.team_id && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                                {teams.find(team => team.id === user.team_id)?.name || 'Team'}
+                                {teams.some(team => team.id === user.team_id && team.lead_id === user.id) && ' · Lead'}
+                              </span>
+                            )}
+                            {user.disabled_at && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                                Disabled
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
                             <span className="flex items-center space-x-1">
@@ -538,14 +576,14 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                               <Calendar className="w-3 h-3" />
                               <span>Joined {stats.joinDate}</span>
                             </span>
-                            {user.role === 'user' && (
+                            {hasManagedAccounts(user.role) && (
                               <span className="flex items-center space-x-1">
                                 <Users className="w-3 h-3" />
                                 <span>{stats.managedAccounts} accounts</span>
                               </span>
                             )}
                           </div>
-                          {user.role === 'user' && user.managed_accounts.length > 0 && (
+                          {hasManagedAccounts(user.role) && user.managed_accounts.length > 0 && (
                             <div className="mt-2">
                               {user.managed_accounts.length <= 5 ? (
                                 <div className="flex flex-wrap gap-1">
@@ -612,6 +650,18 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                           <span>Edit</span>
                         </button>
                         
+                        {!isCurrentUser && (
+                          <button
+                            onClick={() => handleToggleDisabled(user)}
+                            className={`flex items-center space-x-2 transition-colors ${
+                              user.disabled_at ? 'text-green-600 hover:text-green-700' : 'text-orange-600 hover:text-orange-700'
+                            }`}
+                          >
+                            {user.disabled_at ? <UserCheck className="w-4 h-4" /> : <UserX className="w-4 h-4" />}
+                            <span>{user.disabled_at ? 'Enable' : 'Disable'}</span>
+                          </button>
+                        )}
+                        
                         {!isCurrentUser && (
                           <button
                             onClick={() => handleDelete(user.id)}
@@ -635,7 +685,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
               </h3>
               <p className="text-gray-600 mb-4">
                 {users.length === 0 
-                  ? 'Get started by adding your first team member'
+                  ? 'Get started by inviting your first team member'
                   : 'Try adjusting your search or filter criteria'
                 }
               </p>
@@ -644,12 +694,16 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                   onClick={handleAdd}
                   className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors"
                 >
-                  Add Your First User
+                  Invite Your First User
                 </button>
               )}
             </div>
           )}
         </div>
+
+        <Teams />
+
+        <RolePermissions />
       </div>
 
       {/* Modal */}
@@ -659,7 +713,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-bold text-gray-900">
-                  {editingUser ? 'Edit User' : 'Create New User Account'}
+                  {editingUser ? 'Edit User' : 'Invite New User'}
                 </h2>
                 <button
                   onClick={closeModal}
@@ -683,20 +737,15 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     <h3 className={`font-medium ${
                       signupResult.success ? 'text-green-900' : 'text-red-900'
                     }`}>
-                      {signupResult.success ? 'Account Created Successfully!' : 'Account Creation Failed'}
+                      {editingUser
+                        ? (signupResult.success ? 'Done' : 'Update Failed')
+                        : (signupResult.success ? 'Invitation Sent!' : 'Invitation Failed')}
                     </h3>
                     <p className={`text-sm ${
                       signupResult.success ? 'text-green-700' : 'text-red-700'
                     }`}>
                       {signupResult.message}
                     </p>
-                    {signupResult.success && !editingUser && (
-                      <div className="mt-2 p-2 bg-green-100 rounded text-xs text-green-800">
-                        <strong>Login Details:</strong><br />
-                        Email: {formData.email}<br />
-                        Password: {formData.password}
-                      </div>
-                    )}
                   </div>
                 </div>
               )}
@@ -741,30 +790,22 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      {editingUser ? 'New Password (leave blank to keep current)' : 'Password *'}
+                      Password
                     </label>
-                    <div className="relative">
-                      <input
-                        type={showPassword ? "text" : "password"}
-                        value={formData.password}
-                        onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                        className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                        placeholder={editingUser ? "Enter new password" : "Enter password"}
-                        required={!editingUser}
-                        minLength={6}
-                        disabled={isCreatingUser}
-                      />
+                    {editingUser ? (
                       <button
                         type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isCreatingUser}
+                        onClick={handleSendPasswordReset}
+                        className="w-full flex items-center justify-center space-x-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                        disabled={isCreatingUser || isSendingReset}
                       >
-                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        <KeyRound className="w-4 h-4" />
+                        <span>{isSendingReset ? 'Sending...' : 'Send Password Reset Link'}</span>
                       </button>
-                    </div>
-                    {!editingUser && (
-                      <p className="text-xs text-gray-500 mt-1">Password must be at least 6 characters long</p>
+                    ) : (
+                      <p className="text-sm text-gray-600 py-2">
+                        The user chooses their own password from the invitation email.
+                      </p>
                     )}
                   </div>
                   
@@ -774,19 +815,21 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     </label>
                     <select
                       value={formData.role}
-                      onChange={(e) => setFormData({ ...formData, role: e.target.value as 'user' | 'superadmin' })}
+                      onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                       required
                       disabled={isCreatingUser}
                     >
-                      <option value="user">User</option>
-                      <option value="superadmin">Super Admin</option>
+                      {USER_ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
                     </select>
+                    <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[formData.role]}</p>
                   </div>
                 </div>
 
-                {/* Account Management (only for regular users) */}
-                {formData.role === 'user' && (
+                {/* Account Management (everyone except super admins) */}
+                {hasManagedAccounts(formData.role) && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">
                       Managed Accounts
@@ -887,12 +930,12 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     {isCreatingUser ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                        <span>{editingUser ? 'Updating...' : 'Creating Account...'}</span>
+                        <span>{editingUser ? 'Updating...' : 'Sending Invite...'}</span>
                       </>
                     ) : (
                       <>
-                        <Save className="w-4 h-4" />
-                        <span>{editingUser ? 'Update' : 'Create'} User</span>
+                        {editingUser ? <Save className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                        <span>{editingUser ? 'Update User' : 'Send Invite'}</span>
                       </>
                     )}
                   </button>
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Users, Target, Crown } from 'lucide-react';
+import { TeamRollup } from '../lib/teams';
+
+interface TeamPerformanceProps {
+  rollups: TeamRollup[];
+  title?: string;
+  subtitle?: string;
+  showIncentives?: boolean;
+  className?: string;
+}
+
+const TeamPerformance: React.FC<TeamPerformanceProps> = ({
+  rollups,
+  title = 'Performa Tim',
+  subtitle,
+  showIncentives = false,
+  className = ''
+}) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <div className={`bg-white rounded-xl border border-gray-100 p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-1">
+        <Users className="w-5 h-5 text-purple-600" />
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+      </div>
+      {subtitle && <p className="text-sm text-gray-600 mb-4">{subtitle}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        {rollups.map(rollup => (
+          <div key={rollup.team.id} className="border border-gray-100 rounded-lg p-4">
+            <div className="flex items-start justify-between mb-3">
+              <div>
+                <div className="font-semibold text-gray-900">{rollup.team.name}</div>
+                <div className="flex items-center space-x-1 text-xs text-gray-500 mt-0.5">
+                  <Crown className="w-3 h-3" />
+                  <span>{rollup.lead ? rollup.lead.name : 'Belum ada lead'} · {rollup.members.length} anggota</span>
+                </div>
+              </div>
+              {rollup.target_progress !== null && (
+                <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                  rollup.target_progress >= 100 ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+                }`}>
+                  {rollup.target_progress.toFixed(0)}%
+                </span>
+              )}
+            </div>
+
+            <div className={`grid ${showIncentives ? 'grid-cols-3' : 'grid-cols-2'} gap-3 text-sm`}>
+              <div>
+                <div className="text-xs text-gray-500">Omzet</div>
+                <div className="font-semibold text-gray-900">{formatCurrency(rollup.total_revenue)}</div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500">Komisi</div>
+                <div className="font-semibold text-gray-900">{formatCurrency(rollup.total_commission)}</div>
+              </div>
+              {showIncentives && (
+                <div>
+                  <div className="text-xs text-gray-500">Insentif</div>
+                  <div className="font-semibold text-green-700">{formatCurrency(rollup.incentive_amount)}</div>
+                </div>
+              )}
+            </div>
+
+            {rollup.target_progress !== null ? (
+              <div className="mt-3">
+                <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                  <span className="flex items-center space-x-1">
+                    <Target className="w-3 h-3" />
+                    <span>Target {formatCurrency(rollup.team.incentive_target)}</span>
+                  </span>
+                  <span>
+                    {rollup.target_progress >= 100
+                      ? 'Tercapai'
+                      : `Kurang ${formatCurrency(rollup.team.incentive_target - rollup.total_revenue)}`}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${rollup.target_progress >= 100 ? 'bg-green-500' : 'bg-purple-500'}`}
+                    style={{ width: `${Math.min(rollup.target_progress, 100)}%` }}
+                  ></div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400 mt-3">Belum ada target tim</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TeamPerformance;
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, X, Save, Users, Crown, Target, AlertCircle } from 'lucide-react';
+import { Team } from '../types';
+import { useTeamActions, useTeams, useUsers } from '../hooks/useStore';
+import { ROLE_LABELS, hasManagedAccounts } from '../lib/permissions';
+import { getTeamMembers } from '../lib/teams';
+
+const EMPTY_FORM = {
+  name: '',
+  lead_id: '',
+  incentive_target: 0,
+  member_ids: [] as string[],
+};
+
+const Teams: React.FC = () => {
+  const teams = useTeams();
+  const { users } = useUsers();
+  const [showModal, setShowModal] = useState(false);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const { saveTeam, deleteTeam, setTeamMembers } = useTeamActions();
+
+  // Super admins see everything already, so only members with managed accounts join teams
+  const candidates = users.filter(user => hasManagedAccounts(user.role));
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const getUserName = (userId: string | null) => {
+    if (!userId) return 'No lead';
+    return users.find(user => user.id === userId)?.name || 'Unknown User';
+  };
+
+  const getTeamName = (teamId: string | null | undefined) => {
+    return teams.find(team => team.id === teamId)?.name;
+  };
+
+  const handleAdd = () => {
+    setEditingTeam(null);
+    setFormData(EMPTY_FORM);
+    setSaveError(null);
+    setShowModal(true);
+  };
+
+  const handleEdit = (team: Team) => {
+    setEditingTeam(team);
+    setFormData({
+      name: team.name,
+      lead_id: team.lead_id || '',
+      incentive_target: team.incentive_target,
+      member_ids: getTeamMembers(team, users).map(user => user.id),
+    });
+    setSaveError(null);
+    setShowModal(true);
+  };
+
+  const closeModal = () => {
+    setShowModal(false);
+    setEditingTeam(null);
+    setFormData(EMPTY_FORM);
+    setSaveError(null);
+  };
+
+  const handleMemberToggle = (userId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      member_ids: prev.member_ids.includes(userId)
+        ? prev.member_ids.filter(id => id !== userId)
+        : [...prev.member_ids, userId],
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setSaveError(null);
+
+    const values = {
+      name: formData.name.trim(),
+      lead_id: formData.lead_id || null,
+      incentive_target: Number(formData.incentive_target) || 0,
+    };
+
+    const { data: team, error } = await saveTeam(editingTeam?.id || null, values);
+    if (error) {
+      setSaveError(error.code === '23505'
+        ? 'A team with this name already exists.'
+        : `Failed to save the team: ${error.message}`);
+      setIsSaving(false);
+      return;
+    }
+
+    // The lead counts towards their own team's numbers
+    const memberIds = values.lead_id && candidates.some(user => user.id === values.lead_id) && !formData.member_ids.includes(values.lead_id)
+      ? [...formData.member_ids, values.lead_id]
+      : formData.member_ids;
+
+    const { error: membersError } = await setTeamMembers(team.id, memberIds);
+    if (membersError) {
+      setSaveError(`The team was saved, but its members could not be updated: ${membersError.message}`);
+      setIsSaving(false);
+      return;
+    }
+
+    setIsSaving(false);
+    closeModal();
+  };
+
+  const handleDelete = async (team: Team) => {
+    if (!confirm(`Delete the team "${team.name}"? Its members stay, but no longer belong to a team.`)) return;
+
+    // A failure is listed at the top of the screen with a retry
+    await deleteTeam(team.id);
+  };
+
+  return (
+    <>
+      <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Teams ({teams.length})</h3>
+            <p className="text-sm text-gray-600">Group members into teams with a lead and a monthly revenue target</p>
+          </div>
+          <button
+            onClick={handleAdd}
+            className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Team</span>
+          </button>
+        </div>
+
+        {teams.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {teams.map(team => {
+              const members = getTeamMembers(team, users);
+
+              return (
+                <div key={team.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+                  <div>
+                    <h4 className="font-semibold text-gray-900">{team.name}</h4>
+                    <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
+                      <span className="flex items-center space-x-1">
+                        <Crown className="w-3 h-3" />
+                        <span>{getUserName(team.lead_id)}</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Users className="w-3 h-3" />
+                        <span>{members.length} members</span>
+                      </span>
+                      <span className="flex items-center space-x-1">
+                        <Target className="w-3 h-3" />
+                        <span>{team.incentive_target > 0 ? `${formatCurrency(team.incentive_target)} / month` : 'No target'}</span>
+                      </span>
+                    </div>
+                    {members.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {members.map(member => (
+                          <span key={member.id} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
+                            {member.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleEdit(team)}
+                      className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                      <span>Edit</span>
+                    </button>
+                    <button
+                      onClick={() => handleDelete(team)}
+                      className="flex items-center space-x-2 text-red-600 hover:text-red-700 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete</span>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 text-center py-8">No teams yet.</p>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gray-900">
+                  {editingTeam ? 'Edit Team' : 'New Team'}
+                </h2>
+                <button
+                  onClick={closeModal}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {saveError && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-6 flex items-start space-x-3">
+                  <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                  <p className="text-sm text-red-700">{saveError}</p>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Team Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    required
+                    disabled={isSaving}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Team Lead
+                  </label>
+                  <select
+                    value={formData.lead_id}
+                    onChange={(e) => setFormData({ ...formData, lead_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    disabled={isSaving}
+                  >
+                    <option value="">No lead</option>
+                    {candidates.map(user => (
+                      <option key={user.id} value={user.id}>{user.name} ({ROLE_LABELS[user.role]})</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">The lead sees the accounts and incentive progress of every member.</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Monthly Revenue Target (Rp)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.incentive_target}
+                    onChange={(e) => setFormData({ ...formData, incentive_target: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    disabled={isSaving}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave at 0 for no target.</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Members
+                  </label>
+                  <div className="border border-gray-300 rounded-lg p-3 max-h-48 overflow-y-auto space-y-1">
+                    {candidates.length > 0 ? candidates.map(user => {
+                      const otherTeam = user.team_id && user.team_id !== editingTeam?.id ? getTeamName(user.team_id) : undefined;
+
+                      return (
+                        <label key={user.id} className="flex items-center justify-between cursor-pointer hover:bg-gray-50 p-2 rounded">
+                          <span className="flex items-center space-x-3">
+                            <input
+                              type="checkbox"
+                              checked={formData.member_ids.includes(user.id)}
+                              onChange={() => handleMemberToggle(user.id)}
+                              className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                              disabled={isSaving}
+                            />
+                            <span className="text-sm text-gray-900">{user.name}</span>
+                          </span>
+                          {otherTeam && <span className="text-xs text-gray-500">Moves from {otherTeam}</span>}
+                        </label>
+                      );
+                    }) : (
+                      <p className="text-sm text-gray-500 text-center py-2">No members to add yet.</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={closeModal}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    disabled={isSaving}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex items-center space-x-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-400"
+                    disabled={isSaving}
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{isSaving ? 'Saving...' : 'Save Team'}</span>
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default Teams;
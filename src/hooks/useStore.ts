@@ -0,0 +1,465 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Account, Category, ImportBatch, IncentiveRule, IncentiveRuleInput, PayoutLedgerEntry, PayoutPeriod, SalesData, SalesDataQuery, SupabaseError, SupabaseResult, Team, User } from '../types';
+import { useSupabase } from './useSupabase';
+import {
+  StoreState,
+  dismissError,
+  fetchQuery,
+  getState,
+  invalidateQueries,
+  matchesSalesQuery,
+  mergeCurrentUser,
+  observeQuery,
+  optimisticUpdate,
+  patchRow,
+  removeRows,
+  reportError,
+  selectAll,
+  selectSalesInRange,
+  setRows,
+  setState,
+  subscribe,
+  upsertRows,
+} from '../lib/store';
+import { DateFilterInput, accountTotalsToSalesData, getSalesQueryKey, isInDateRange } from '../lib/salesQuery';
+import { getMonthPeriod } from '../lib/incentives';
+import { can } from '../lib/permissions';
+
+// Selectors must return the same object for unchanged data; the ones in lib/store are memoized for that
+export const useStore = <T>(selector: (state: StoreState) => T): T => {
+  return useSyncExternalStore(subscribe, () => selector(getState()));
+};
+
+// Loads the query when a screen mounts, and again whenever it goes stale while the screen is open.
+// Failures are listed by the screen's ScreenErrors under title.
+const useQuery = <T>(
+  key: string | null,
+  title: string,
+  fetcher: () => Promise<SupabaseResult<T>>,
+  apply: (data: T) => boolean
+) => {
+  const query = useStore(state => (key ? state.queries[key] : undefined));
+  const fetchedAt = query?.fetchedAt;
+  const isFetching = query?.isFetching;
+
+  // Callers pass new fetcher and apply functions on every render; loads use the latest ones
+  const latest = useRef({ fetcher, apply });
+  useEffect(() => {
+    latest.current = { fetcher, apply };
+  });
+
+  useEffect(() => {
+    if (key) return observeQuery(key, title);
+  }, [key, title]);
+
+  useEffect(() => {
+    if (key && !isFetching) fetchQuery(key, () => latest.current.fetcher(), data => latest.current.apply(data));
+  }, [key, fetchedAt, isFetching]);
+
+  return {
+    isLoading: Boolean(key) && query?.status === 'loading',
+    isFetching: Boolean(isFetching),
+    error: query?.error || null,
+  };
+};
+
+// Lists a failed write on the active screen; retry repeats the same call
+const reportFailure = <T>(title: string, result: SupabaseResult<T>, retry: () => unknown): SupabaseResult<T> => {
+  if (result.error) reportError({ title, error: result.error, retry: () => void retry() });
+  return result;
+};
+
+// For loads a screen makes itself (pages, totals) instead of through the cache. reloadKey belongs in the
+// loading effect's dependencies; reportLoad lists a failure whose retry bumps it, or clears it on success.
+export const useLoadReporter = () => {
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const reportLoad = useCallback((title: string, error: SupabaseError | null) => {
+    if (error) {
+      reportError({ title, error, retry: () => setReloadKey(key => key + 1) });
+    } else {
+      dismissError(title);
+    }
+  }, []);
+
+  return { reloadKey, reportLoad };
+};
+
+// Session
+// Screens only render after sign-in, so they can rely on the user being there
+export const useCurrentUser = (): User => {
+  const currentUser = useStore(state => state.currentUser);
+  if (!currentUser) throw new Error('useCurrentUser needs a signed-in user');
+  return currentUser;
+};
+
+export const useDateFilter = () => {
+  const dateFilter = useStore(state => state.dateFilter);
+  const setDateFilter = (filter: DateFilterInput) => setState({ dateFilter: filter });
+  return [dateFilter, setDateFilter] as const;
+};
+
+export const useIncentiveMonth = () => {
+  const incentiveMonth = useStore(state => state.incentiveMonth);
+  const setIncentiveMonth = (month: string) => setState({ incentiveMonth: month });
+  return [incentiveMonth, setIncentiveMonth] as const;
+};
+
+export const useDataUpdatedAt = () => useStore(state => state.dataUpdatedAt);
+
+// Reads
+export const useAccounts = () => {
+  const { fetchAccounts } = useSupabase();
+  useQuery('accounts', 'Failed to load accounts', fetchAccounts, rows => setRows('accounts', rows));
+  return useStore(state => selectAll(state.entities.accounts));
+};
+
+export const useCategories = () => {
+  const { fetchCategories } = useSupabase();
+  useQuery('categories', 'Failed to load categories', fetchCategories, rows => setRows('categories', rows));
+  return useStore(state => selectAll(state.entities.categories));
+};
+
+export const useIncentiveRules = () => {
+  const { fetchIncentiveRules } = useSupabase();
+  useQuery('incentive-rules', 'Failed to load incentive rules', fetchIncentiveRules, rows => setRows('incentiveRules', rows));
+  return useStore(state => selectAll(state.entities.incentiveRules));
+};
+
+export const useTeams = () => {
+  const { fetchTeams } = useSupabase();
+  useQuery('teams', 'Failed to load teams', fetchTeams, rows => setRows('teams', rows));
+  return useStore(state => selectAll(state.entities.teams));
+};
+
+// Row level security decides who comes back: everyone for accounts.view_all, members for leads, else just the user
+export const useUsers = (enabled = true) => {
+  const { fetchUsers } = useSupabase();
+  const { isLoading } = useQuery(enabled ? 'users' : null, 'Failed to load users', fetchUsers, rows => setRows('users', rows));
+  const users = useStore(state => selectAll(state.entities.users));
+  return { users, isLoading };
+};
+
+export const usePayoutPeriods = () => {
+  const { fetchPayoutPeriods } = useSupabase();
+  useQuery('payout-periods', 'Failed to load payout periods', fetchPayoutPeriods, rows => setRows('payoutPeriods', rows));
+  return useStore(state => selectAll(state.entities.payoutPeriods));
+};
+
+// Payout managers and approvers load every entry; everyone else only their own
+export const usePayoutLedger = () => {
+  const currentUser = useCurrentUser();
+  const { fetchPayoutLedger } = useSupabase();
+  const seesAllEntries = can(currentUser, 'payouts.manage') || can(currentUser, 'payouts.approve');
+
+  useQuery(
+    'payout-ledger',
+    'Failed to load payouts',
+    () => fetchPayoutLedger(seesAllEntries ? undefined : currentUser.id),
+    rows => setRows('payoutLedger', rows)
+  );
+  return useStore(state => selectAll(state.entities.payoutLedger));
+};
+
+// Daily rows for a date window. No account filter means row level security scopes them to the user's accounts.
+export const useSalesData = (query: SalesDataQuery) => {
+  const { fetchSalesData } = useSupabase();
+  const { isLoading } = useQuery(
+    `sales|${getSalesQueryKey(query)}`,
+    'Failed to load sales data',
+    () => fetchSalesData(query),
+    rows => setRows('salesData', rows, row => !matchesSalesQuery(row, query))
+  );
+  const salesData = useStore(state => selectSalesInRange(state.entities.salesData, query));
+  return { salesData, isLoading };
+};
+
+// The incentive engine only sums per account, so the incentive screens load one total per account for the month
+export const useMonthlySales = (month: string) => {
+  const { fetchSalesTotals } = useSupabase();
+  const monthPeriod = getMonthPeriod(month);
+  const query = { startDate: monthPeriod.start, endDate: monthPeriod.end };
+
+  const { isLoading } = useQuery(
+    `sales-monthly|${month}`,
+    'Failed to load monthly sales',
+    async () => {
+      const result = await fetchSalesTotals('account', 'month', query);
+      return result.error ? result : { data: accountTotalsToSalesData(result.data), error: null };
+    },
+    rows => setRows('monthlySales', rows, row => !isInDateRange(row.date, query))
+  );
+  const salesData = useStore(state => selectSalesInRange(state.entities.monthlySales, query));
+  return { salesData, isLoading };
+};
+
+// Writes
+// Every write updates the cache, so other screens show the change without reloading. Failures are
+// listed on the active screen with a retry and also returned, for screens that show them in a form.
+export const useAccountActions = () => {
+  const api = useSupabase();
+
+  // Reads the latest list from the database, for checks that must not rely on the cache
+  const reloadAccounts = async () => {
+    const result = await api.fetchAccounts();
+    if (result.data) setRows('accounts', result.data);
+    return result;
+  };
+
+  const addAccount = async (account: Omit<Account, 'id' | 'created_at' | 'account_code'>): Promise<SupabaseResult<Account>> => {
+    const result = await api.addAccount(account);
+    if (result.data) upsertRows('accounts', [result.data]);
+    return reportFailure('Failed to add account', result, () => addAccount(account));
+  };
+
+  const updateAccount = async (id: string, updates: Partial<Account>): Promise<SupabaseResult<Account>> => reportFailure(
+    'Failed to update account',
+    await optimisticUpdate(
+      () => patchRow('accounts', id, updates),
+      () => api.updateAccount(id, updates),
+      updated => upsertRows('accounts', [updated])
+    ),
+    () => updateAccount(id, updates)
+  );
+
+  // Sales data goes with the account
+  const deleteAccount = async (id: string): Promise<SupabaseResult<boolean>> => reportFailure(
+    'Failed to delete account',
+    await optimisticUpdate(
+      () => {
+        removeRows('accounts', account => account.id === id);
+        removeRows('salesData', row => row.account_id === id);
+        removeRows('monthlySales', row => row.account_id === id);
+      },
+      () => api.deleteAccount(id)
+    ),
+    () => deleteAccount(id)
+  );
+
+  return { reloadAccounts, addAccount, updateAccount, deleteAccount };
+};
+
+export const useCategoryActions = () => {
+  const api = useSupabase();
+
+  const addCategory = async (category: Omit<Category, 'id' | 'created_at'>): Promise<SupabaseResult<Category>> => {
+    const result = await api.addCategory(category);
+    if (result.data) upsertRows('categories', [result.data]);
+    return reportFailure('Failed to add category', result, () => addCategory(category));
+  };
+
+  const updateCategory = async (id: string, updates: Partial<Category>): Promise<SupabaseResult<Category>> => reportFailure(
+    'Failed to update category',
+    await optimisticUpdate(
+      () => patchRow('categories', id, updates),
+      () => api.updateCategory(id, updates),
+      updated => upsertRows('categories', [updated])
+    ),
+    () => updateCategory(id, updates)
+  );
+
+  const deleteCategory = async (id: string): Promise<SupabaseResult<boolean>> => reportFailure(
+    'Failed to delete category',
+    await optimisticUpdate(
+      () => removeRows('categories', category => category.id === id),
+      () => api.deleteCategory(id)
+    ),
+    () => deleteCategory(id)
+  );
+
+  return { addCategory, updateCategory, deleteCategory };
+};
+
+export const useSalesActions = () => {
+  const api = useSupabase();
+
+  // Uploaded rows replace whatever was cached for the same account and day; month totals are reloaded
+  const storeUploadedRows = (rows: SalesData[]) => {
+    const uploadedKeys = new Set(rows.map(row => `${row.account_id}|${row.date}`));
+    removeRows('salesData', row => uploadedKeys.has(`${row.account_id}|${row.date}`));
+    upsertRows('salesData', rows);
+    invalidateQueries(key => key.startsWith('sales-monthly|'));
+  };
+
+  // Combined exports are upserted in a single request so the whole batch succeeds or fails together
+  const uploadSalesData = async (
+    uploads: { accountId: string; data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[] }[],
+    fileName: string
+  ): Promise<SupabaseResult<SalesData[]>> => {
+    const rows = uploads.flatMap(upload =>
+      upload.data.map(item => ({
+        ...item,
+        account_id: upload.accountId,
+      }))
+    );
+
+    const result = await api.addSalesData(rows, fileName);
+    if (result.data && result.data.length > 0) storeUploadedRows(result.data);
+    return reportFailure('Failed to upload sales data', result, () => uploadSalesData(uploads, fileName));
+  };
+
+  // Rollback both restores and deletes rows, so reload instead of patching the cache
+  const rollbackImport = async (batchId: string): Promise<SupabaseResult<ImportBatch>> => {
+    const result = await api.rollbackImportBatch(batchId);
+    if (result.data) invalidateQueries(key => key.startsWith('sales'));
+    return reportFailure('Failed to roll back import', result, () => rollbackImport(batchId));
+  };
+
+  const deleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }): Promise<SupabaseResult<boolean>> => {
+    const matches = (row: SalesData) =>
+      row.account_id === accountId && (!dateRange || (row.date >= dateRange.start && row.date <= dateRange.end));
+
+    const result = await optimisticUpdate(
+      () => {
+        removeRows('salesData', matches);
+        removeRows('monthlySales', matches);
+      },
+      () => api.deleteSalesData(accountId, dateRange)
+    );
+    // A partial range only changes part of a month total
+    if (result.data) invalidateQueries(key => key.startsWith('sales-monthly|'));
+    return reportFailure('Failed to delete sales data', result, () => deleteSalesData(accountId, dateRange));
+  };
+
+  return { uploadSalesData, rollbackImport, deleteSalesData };
+};
+
+export const useIncentiveRuleActions = () => {
+  const api = useSupabase();
+
+  const addIncentiveRule = async (rule: IncentiveRuleInput): Promise<SupabaseResult<IncentiveRule>> => {
+    const result = await api.addIncentiveRule(rule);
+    if (result.data) upsertRows('incentiveRules', [result.data]);
+    return reportFailure('Failed to add incentive rule', result, () => addIncentiveRule(rule));
+  };
+
+  // Tiers get their ids and the rule its versions and start month from the database, so they show once the save returns
+  const updateIncentiveRule = async (id: string, updates: Partial<IncentiveRuleInput>): Promise<SupabaseResult<IncentiveRule>> => reportFailure(
+    'Failed to update incentive rule',
+    await optimisticUpdate(
+      () => {
+        const fields: Partial<Omit<IncentiveRuleInput, 'tiers'>> = { ...updates };
+        delete (fields as Partial<IncentiveRuleInput>).tiers;
+        delete fields.effective_from;
+        patchRow('incentiveRules', id, fields);
+      },
+      () => api.updateIncentiveRule(id, updates),
+      updated => upsertRows('incentiveRules', [updated])
+    ),
+    () => updateIncentiveRule(id, updates)
+  );
+
+  // Deleted rules stay in the store: months their versions cover still use them
+  const deleteIncentiveRule = async (id: string): Promise<SupabaseResult<IncentiveRule>> => reportFailure(
+    'Failed to delete incentive rule',
+    await optimisticUpdate(
+      () => patchRow('incentiveRules', id, { is_active: false, deleted_at: new Date().toISOString() }),
+      () => api.deleteIncentiveRule(id),
+      deleted => upsertRows('incentiveRules', [deleted])
+    ),
+    () => deleteIncentiveRule(id)
+  );
+
+  return { addIncentiveRule, updateIncentiveRule, deleteIncentiveRule };
+};
+
+// Newest periods and entries first, as the screens list them
+export const usePayoutActions = () => {
+  const api = useSupabase();
+
+  const closePayoutPeriod = async (...args: Parameters<typeof api.closePayoutPeriod>): Promise<SupabaseResult<PayoutPeriod>> => {
+    const result = await api.closePayoutPeriod(...args);
+    if (result.data) upsertRows('payoutPeriods', [result.data], { prepend: true });
+    return reportFailure('Failed to close payout period', result, () => closePayoutPeriod(...args));
+  };
+
+  const reopenPayoutPeriod = async (...args: Parameters<typeof api.reopenPayoutPeriod>): Promise<SupabaseResult<PayoutPeriod>> => {
+    const result = await api.reopenPayoutPeriod(...args);
+    if (result.data) upsertRows('payoutPeriods', [result.data], { prepend: true });
+    return reportFailure('Failed to reopen payout period', result, () => reopenPayoutPeriod(...args));
+  };
+
+  const createPayoutDraft = async (...args: Parameters<typeof api.createPayoutDraft>): Promise<SupabaseResult<PayoutLedgerEntry>> => {
+    const result = await api.createPayoutDraft(...args);
+    if (result.data) upsertRows('payoutLedger', [result.data], { prepend: true });
+    return reportFailure('Failed to create payout draft', result, () => createPayoutDraft(...args));
+  };
+
+  const updatePayoutAmount = async (...args: Parameters<typeof api.updatePayoutAmount>): Promise<SupabaseResult<PayoutLedgerEntry>> => {
+    const result = await api.updatePayoutAmount(...args);
+    if (result.data) upsertRows('payoutLedger', [result.data], { prepend: true });
+    return reportFailure('Failed to update payout', result, () => updatePayoutAmount(...args));
+  };
+
+  const updatePayoutStatus = async (...args: Parameters<typeof api.updatePayoutStatus>): Promise<SupabaseResult<PayoutLedgerEntry>> => {
+    const result = await api.updatePayoutStatus(...args);
+    if (result.data) upsertRows('payoutLedger', [result.data], { prepend: true });
+    return reportFailure('Failed to update payout status', result, () => updatePayoutStatus(...args));
+  };
+
+  return { closePayoutPeriod, reopenPayoutPeriod, createPayoutDraft, updatePayoutAmount, updatePayoutStatus };
+};
+
+export const useTeamActions = () => {
+  const api = useSupabase();
+
+  const saveTeam = async (id: string | null, values: Parameters<typeof api.addTeam>[0]): Promise<SupabaseResult<Team>> => {
+    const result = id ? await api.updateTeam(id, values) : await api.addTeam(values);
+    const team = result.data;
+    if (team) {
+      setRows('teams', [...selectAll(getState().entities.teams).filter(item => item.id !== team.id), team]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    }
+    return reportFailure('Failed to save team', result, () => saveTeam(id, values));
+  };
+
+  // Members of a deleted team are left without a team (users.team_id is ON DELETE SET NULL)
+  const deleteTeam = async (id: string): Promise<SupabaseResult<boolean>> => {
+    const result = await api.deleteTeam(id);
+    if (result.data) {
+      removeRows('teams', team => team.id === id);
+      upsertRows('users', selectAll(getState().entities.users)
+        .filter(user => user.team_id === id)
+        .map(user => ({ ...user, team_id: null })));
+    }
+    return reportFailure('Failed to delete team', result, () => deleteTeam(id));
+  };
+
+  const setTeamMembers = async (teamId: string, memberIds: string[]): Promise<SupabaseResult<User[]>> => {
+    const result = await api.setTeamMembers(teamId, memberIds);
+    if (result.data) upsertRows('users', result.data);
+    return reportFailure('Failed to update team members', result, () => setTeamMembers(teamId, memberIds));
+  };
+
+  return { saveTeam, deleteTeam, setTeamMembers };
+};
+
+// Changes to the signed-in user's own row also update the session, keeping its permissions
+export const useUserActions = () => {
+  const api = useSupabase();
+
+  const storeUser = (title: string, result: SupabaseResult<User>, retry: () => unknown) => {
+    if (result.data) {
+      if (getState().entities.users.byId[result.data.id]) upsertRows('users', [result.data]);
+      mergeCurrentUser(result.data);
+    }
+    return reportFailure(title, result, retry);
+  };
+
+  const updateUser = async (id: string, updates: Partial<User>): Promise<SupabaseResult<User>> =>
+    storeUser('Failed to update user', await api.updateUser(id, updates), () => updateUser(id, updates));
+  const setUserDisabled = async (id: string, disabled: boolean): Promise<SupabaseResult<User>> =>
+    storeUser('Failed to update user access', await api.setUserDisabled(id, disabled), () => setUserDisabled(id, disabled));
+  const updateAvatar = async (userId: string, file: File): Promise<SupabaseResult<User>> =>
+    storeUser('Failed to upload avatar', await api.updateAvatar(userId, file), () => updateAvatar(userId, file));
+  const removeAvatar = async (userId: string): Promise<SupabaseResult<User>> =>
+    storeUser('Failed to remove avatar', await api.removeAvatar(userId), () => removeAvatar(userId));
+
+  const deleteUser = async (id: string): Promise<SupabaseResult<boolean>> => {
+    const result = await api.deleteUser(id);
+    if (result.data) removeRows('users', user => user.id === id);
+    return reportFailure('Failed to delete user', result, () => deleteUser(id));
+  };
+
+  return { updateUser, setUserDisabled, deleteUser, updateAvatar, removeAvatar };
+};
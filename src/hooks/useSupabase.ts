@@ -1,16 +1,84 @@
-import { useState, useEffect } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
-import { Account, Category, SalesData, User, IncentiveRule } from '../types';
+import { Account, Category, SalesData, User, UserRole, Permission, RolePermission, Team, UserInvitation, IncentiveRule, IncentiveRuleInput, IncentiveTier, IncentiveCalculation, PayoutPeriod, PayoutSnapshot, PayoutLedgerEntry, PayoutStatus, ImportBatch, SalesDataQuery, SalesDataPage, SalesAccountSummary, SalesTotals, SalesTotalsGroup, SalesTotalsPeriod, AuditLogQuery, AuditLogPage, SupabaseError, SupabaseResult } from '../types';
+import { canTransitionPayout } from '../lib/payouts';
+import { getAuthRedirectUrl } from '../lib/auth';
 
-export const useSupabase = () => {
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+// PostgREST silently truncates responses at 1000 rows, so larger reads are paged with range()
+const SALES_PAGE_SIZE = 1000;
 
+const AVATAR_BUCKET = 'avatars';
+
+// Deletes everything in the user's avatar folder except keepPath
+const removeAvatarFiles = async (userId: string, keepPath?: string) => {
+  const { data: files, error } = await supabase.storage.from(AVATAR_BUCKET).list(userId);
+  if (error) throw error;
+
+  const paths = (files || []).map(file => `${userId}/${file.name}`).filter(path => path !== keepPath);
+  if (paths.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(AVATAR_BUCKET).remove(paths);
+  if (removeError) throw removeError;
+};
+
+const buildSalesDataRequest = (query: SalesDataQuery, count?: 'exact') => {
+  let request = supabase
+    .from('sales_data')
+    .select('*', { count });
+
+  if (query.accountIds) request = request.in('account_id', query.accountIds);
+  if (query.startDate) request = request.gte('date', query.startDate);
+  if (query.endDate) request = request.lte('date', query.endDate);
+
+  // id breaks ties between accounts on the same day so pages never overlap
+  return request
+    .order('date', { ascending: false })
+    .order('id', { ascending: true });
+};
+
+type AdminUsersRequest =
+  | { action: 'invite'; email: string; name: string; role: User['role']; managed_accounts: string[]; redirect_to: string }
+  | { action: 'disable' | 'enable' | 'delete'; user_id: string };
+
+// Auth administration needs the service role key, so it runs in the admin-users Edge Function.
+// Non-2xx responses carry { error } in the body; surface that instead of the generic invoke message.
+const invokeAdminUsers = async <T>(request: AdminUsersRequest): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke<T>('admin-users', { body: request });
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    throw Object.assign(new Error(body?.error || error.message), { code: String(error.context.status) });
+  }
+  if (error) throw error;
+
+  return data as T;
+};
+
+// PostgrestError, AuthError, StorageError and the demo backend's errors all carry message and
+// code; anything else (a thrown Error, a network failure) keeps just its message
+const toSupabaseError = (err: unknown, fallback: string): SupabaseError => {
+  const { message, code, details, hint } = (err && typeof err === 'object' ? err : {}) as Partial<Record<string, unknown>>;
+
+  return {
+    message: typeof message === 'string' && message ? message : fallback,
+    code: typeof code === 'string' || typeof code === 'number' ? String(code) : null,
+    details: typeof details === 'string' && details ? details : null,
+    hint: typeof hint === 'string' && hint ? hint : null,
+  };
+};
+
+const success = <T>(data: T): SupabaseResult<T> => ({ data, error: null });
+
+const failure = (err: unknown, fallback: string): SupabaseResult<never> => ({
+  data: null,
+  error: toSupabaseError(err, fallback),
+});
+
+// Operations hold no shared state and never throw: each call resolves to its own { data, error }.
+// Single-row writes use single(), so a row that RLS hides or that is gone fails with PGRST116.
+const createSupabaseApi = () => {
   // Categories
-  const fetchCategories = async (): Promise<Category[]> => {
-    setLoading(true);
-    setError(null);
-    
+  const fetchCategories = async (): Promise<SupabaseResult<Category[]>> => {
     try {
       const { data, error } = await supabase
         .from('categories')
@@ -19,64 +87,46 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return data || [];
+      return success(data || []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch categories');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch categories');
     }
   };
 
-  const addCategory = async (category: Omit<Category, 'id' | 'created_at'>): Promise<Category | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const addCategory = async (category: Omit<Category, 'id' | 'created_at'>): Promise<SupabaseResult<Category>> => {
     try {
       const { data, error } = await supabase
         .from('categories')
         .insert([category])
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add category');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to add category');
     }
   };
 
-  const updateCategory = async (id: string, updates: Partial<Category>): Promise<Category | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const updateCategory = async (id: string, updates: Partial<Category>): Promise<SupabaseResult<Category>> => {
     try {
       const { data, error } = await supabase
         .from('categories')
         .update(updates)
         .eq('id', id)
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update category');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to update category');
     }
   };
 
-  const deleteCategory = async (id: string): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    
+  const deleteCategory = async (id: string): Promise<SupabaseResult<boolean>> => {
     try {
       const { error } = await supabase
         .from('categories')
@@ -85,21 +135,16 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return true;
+      return success(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete category');
-      return false;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to delete category');
     }
   };
 
   // Accounts
-  const fetchAccounts = async (): Promise<Account[]> => {
-    setLoading(true);
-    setError(null);
-    
+  const fetchAccounts = async (): Promise<SupabaseResult<Account[]>> => {
     try {
+      // Row level security only returns the accounts the signed-in user manages
       const { data, error } = await supabase
         .from('accounts')
         .select('*')
@@ -107,19 +152,14 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return data || [];
+      return success(data || []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch accounts');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch accounts');
     }
   };
 
-  const addAccount = async (account: Omit<Account, 'id' | 'created_at'>): Promise<Account | null> => {
-    setLoading(true);
-    setError(null);
-    
+  // account_code is generated by the database unless one is given
+  const addAccount = async (account: Omit<Account, 'id' | 'created_at' | 'account_code'> & { account_code?: string }): Promise<SupabaseResult<Account>> => {
     try {
       // Handle category assignment - if no category specified, use "Belum Diatur"
       const accountData = {
@@ -131,46 +171,34 @@ export const useSupabase = () => {
         .from('accounts')
         .insert([accountData])
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add account');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to add account');
     }
   };
 
-  const updateAccount = async (id: string, updates: Partial<Account>): Promise<Account | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const updateAccount = async (id: string, updates: Partial<Account>): Promise<SupabaseResult<Account>> => {
     try {
       const { data, error } = await supabase
         .from('accounts')
         .update(updates)
         .eq('id', id)
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update account');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to update account');
     }
   };
 
-  const deleteAccount = async (id: string): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    
+  const deleteAccount = async (id: string): Promise<SupabaseResult<boolean>> => {
     try {
       const { error } = await supabase
         .from('accounts')
@@ -179,65 +207,127 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return true;
+      return success(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete account');
-      return false;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to delete account');
     }
   };
 
   // Sales Data
-  const fetchSalesData = async (): Promise<SalesData[]> => {
-    setLoading(true);
-    setError(null);
+  const fetchSalesData = async (query: SalesDataQuery = {}): Promise<SupabaseResult<SalesData[]>> => {
+    if (query.accountIds && query.accountIds.length === 0) return success([]);
     
     try {
-      const { data, error } = await supabase
-        .from('sales_data')
-        .select('*')
-        .order('date', { ascending: false });
+      const rows: SalesData[] = [];
+      
+      for (let from = 0; ; from += SALES_PAGE_SIZE) {
+        const { data, error } = await buildSalesDataRequest(query)
+          .range(from, from + SALES_PAGE_SIZE - 1);
+        
+        if (error) throw error;
+        
+        rows.push(...(data || []));
+        if (!data || data.length < SALES_PAGE_SIZE) break;
+      }
+      
+      return success(rows);
+    } catch (err) {
+      return failure(err, 'Failed to fetch sales data');
+    }
+  };
+
+  const fetchSalesDataPage = async (query: SalesDataQuery, page: number, pageSize: number): Promise<SupabaseResult<SalesDataPage>> => {
+    if (query.accountIds && query.accountIds.length === 0) return success({ rows: [], total: 0 });
+    
+    try {
+      const from = page * pageSize;
+      const { data, error, count } = await buildSalesDataRequest(query, 'exact')
+        .range(from, from + pageSize - 1);
       
       if (error) throw error;
       
-      return data || [];
+      return success({ rows: data || [], total: count || 0 });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch sales data');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch sales data');
     }
   };
 
-  const addSalesData = async (salesData: Omit<SalesData, 'id' | 'created_at'>[]): Promise<SalesData[]> => {
-    setLoading(true);
-    setError(null);
+  const fetchSalesAccountSummaries = async (accountIds?: string[]): Promise<SupabaseResult<SalesAccountSummary[]>> => {
+    if (accountIds && accountIds.length === 0) return success([]);
     
     try {
-      const { data, error } = await supabase
-        .from('sales_data')
-        .upsert(salesData, { 
-          onConflict: 'account_id,date',
-          ignoreDuplicates: false 
-        })
-        .select();
+      let request = supabase
+        .from('sales_data_account_summary')
+        .select('*');
+      
+      if (accountIds) request = request.in('account_id', accountIds);
+      
+      const { data, error } = await request;
       
       if (error) throw error;
       
-      return data || [];
+      return success(data || []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add sales data');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch sales data summary');
     }
   };
 
-  const deleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
+  // Aggregates are computed by get_sales_totals so every screen reports the same numbers
+  const fetchSalesTotals = async (
+    groupBy: SalesTotalsGroup,
+    period: SalesTotalsPeriod,
+    query: SalesDataQuery = {}
+  ): Promise<SupabaseResult<SalesTotals[]>> => {
+    if (query.accountIds && query.accountIds.length === 0) return success([]);
     
+    try {
+      const { data, error } = await supabase
+        .rpc('get_sales_totals', {
+          group_by: groupBy,
+          period,
+          start_date: query.startDate || null,
+          end_date: query.endDate || null,
+          account_ids: query.accountIds || null,
+        });
+      
+      if (error) throw error;
+      
+      // numeric columns can arrive as strings depending on their size
+      return success((data || []).map((row: SalesTotals) => ({
+        ...row,
+        clicks: Number(row.clicks),
+        orders: Number(row.orders),
+        gross_commission: Number(row.gross_commission),
+        total_purchases: Number(row.total_purchases),
+        products_sold: Number(row.products_sold),
+        new_buyers: Number(row.new_buyers),
+        commission_rate: Number(row.commission_rate),
+        conversion_rate: Number(row.conversion_rate),
+      })));
+    } catch (err) {
+      return failure(err, 'Failed to fetch sales totals');
+    }
+  };
+
+  // Upserts the rows and records them as one import batch in a single transaction, so the
+  // upload can be rolled back later
+  const addSalesData = async (
+    salesData: Omit<SalesData, 'id' | 'created_at'>[],
+    fileName: string
+  ): Promise<SupabaseResult<SalesData[]>> => {
+    try {
+      const { data, error } = await supabase
+        .rpc('import_sales_data', { file_name: fileName, sales_rows: salesData });
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to add sales data');
+    }
+  };
+
+  const deleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }): Promise<SupabaseResult<boolean>> => {
     try {
       let query = supabase
         .from('sales_data')
@@ -254,20 +344,14 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return true;
+      return success(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete sales data');
-      return false;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to delete sales data');
     }
   };
 
   // Users
-  const fetchUsers = async (): Promise<User[]> => {
-    setLoading(true);
-    setError(null);
-    
+  const fetchUsers = async (): Promise<SupabaseResult<User[]>> => {
     try {
       const { data, error } = await supabase
         .from('users')
@@ -276,41 +360,29 @@ export const useSupabase = () => {
       
       if (error) throw error;
       
-      return data || [];
+      return success(data || []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch users');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch users');
     }
   };
 
-  const addUser = async (user: Omit<User, 'id' | 'created_at'>): Promise<User | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const addUser = async (user: Omit<User, 'id' | 'created_at'>): Promise<SupabaseResult<User>> => {
     try {
       const { data, error } = await supabase
         .from('users')
         .insert([user])
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add user');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to add user');
     }
   };
 
-  const updateUser = async (id: string, updates: Partial<User>): Promise<User | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const updateUser = async (id: string, updates: Partial<User>): Promise<SupabaseResult<User>> => {
     try {
       // For superadmin operations, we need to ensure proper permissions
       const { data: currentUser } = await supabase.auth.getUser();
@@ -320,45 +392,267 @@ export const useSupabase = () => {
         .update(updates)
         .eq('id', id)
         .select()
-        .maybeSingle();
+        .single();
       
       if (error) throw error;
       
-      return data;
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update user');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to update user');
     }
   };
 
-  const deleteUser = async (id: string): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    
+  // Bans or unbans the auth user and stamps users.disabled_at
+  const setUserDisabled = async (id: string, disabled: boolean): Promise<SupabaseResult<User>> => {
     try {
-      const { error } = await supabase
+      return success(await invokeAdminUsers<User>({ action: disabled ? 'disable' : 'enable', user_id: id }));
+    } catch (err) {
+      return failure(err, 'Failed to update user access');
+    }
+  };
+
+  // Removes the auth user; the users row goes with it
+  const deleteUser = async (id: string): Promise<SupabaseResult<boolean>> => {
+    try {
+      await invokeAdminUsers({ action: 'delete', user_id: id });
+      
+      return success(true);
+    } catch (err) {
+      return failure(err, 'Failed to delete user');
+    }
+  };
+
+  // Profile
+  // Each upload gets a new path so browsers never show a cached old photo. Older files are
+  // removed only after users.avatar_url points at the new one.
+  const updateAvatar = async (userId: string, file: File): Promise<SupabaseResult<User>> => {
+    try {
+      const path = `${userId}/avatar-${Date.now()}`;
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      
+      if (uploadError) throw uploadError;
+      
+      const { data, error } = await supabase
         .from('users')
+        .update({ avatar_url: supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl })
+        .eq('id', userId)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      await removeAvatarFiles(userId, path);
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to upload avatar');
+    }
+  };
+
+  const removeAvatar = async (userId: string): Promise<SupabaseResult<User>> => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .update({ avatar_url: null })
+        .eq('id', userId)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      await removeAvatarFiles(userId);
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to remove avatar');
+    }
+  };
+
+  // Invitations
+  const fetchInvitations = async (): Promise<SupabaseResult<UserInvitation[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('*')
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch invitations');
+    }
+  };
+
+  // Records the invitation and emails a sign-in link; sending again for the same email resends it
+  const inviteUser = async (
+    invitation: Pick<UserInvitation, 'email' | 'name' | 'role' | 'managed_accounts'>
+  ): Promise<SupabaseResult<UserInvitation>> => {
+    try {
+      return success(await invokeAdminUsers<UserInvitation>({
+        action: 'invite',
+        email: invitation.email,
+        name: invitation.name,
+        role: invitation.role,
+        managed_accounts: invitation.managed_accounts,
+        redirect_to: getAuthRedirectUrl('invite'),
+      }));
+    } catch (err) {
+      return failure(err, 'Failed to send invitation');
+    }
+  };
+
+  const deleteInvitation = async (id: string): Promise<SupabaseResult<boolean>> => {
+    try {
+      const { error } = await supabase
+        .from('user_invitations')
         .delete()
         .eq('id', id);
       
       if (error) throw error;
       
-      return true;
+      return success(true);
+    } catch (err) {
+      return failure(err, 'Failed to cancel invitation');
+    }
+  };
+
+  // Role Permissions
+  const fetchRolePermissions = async (): Promise<SupabaseResult<RolePermission[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('role_permissions')
+        .select('*')
+        .order('role');
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch role permissions');
+    }
+  };
+
+  const setRolePermission = async (role: UserRole, permission: Permission, granted: boolean): Promise<SupabaseResult<boolean>> => {
+    try {
+      const { error } = granted
+        ? await supabase
+          .from('role_permissions')
+          .upsert([{ role, permission }], { onConflict: 'role,permission' })
+        : await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', role)
+          .eq('permission', permission);
+      
+      if (error) throw error;
+      
+      return success(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete user');
-      return false;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to update role permission');
+    }
+  };
+
+  // Teams
+  const fetchTeams = async (): Promise<SupabaseResult<Team[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .select('*')
+        .order('name');
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch teams');
+    }
+  };
+
+  const addTeam = async (team: Omit<Team, 'id' | 'created_at'>): Promise<SupabaseResult<Team>> => {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .insert([team])
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to add team');
+    }
+  };
+
+  const updateTeam = async (id: string, updates: Partial<Team>): Promise<SupabaseResult<Team>> => {
+    try {
+      const { data, error } = await supabase
+        .from('teams')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to update team');
+    }
+  };
+
+  // Members of a deleted team are left without a team (users.team_id is ON DELETE SET NULL)
+  const deleteTeam = async (id: string): Promise<SupabaseResult<boolean>> => {
+    try {
+      const { error } = await supabase
+        .from('teams')
+        .delete()
+        .eq('id', id);
+      
+      if (error) throw error;
+      
+      return success(true);
+    } catch (err) {
+      return failure(err, 'Failed to delete team');
+    }
+  };
+
+  // Makes exactly these users the members of the team; returns the users whose row changed
+  const setTeamMembers = async (teamId: string, memberIds: string[]): Promise<SupabaseResult<User[]>> => {
+    try {
+      let removeQuery = supabase
+        .from('users')
+        .update({ team_id: null })
+        .eq('team_id', teamId);
+      if (memberIds.length > 0) {
+        removeQuery = removeQuery.not('id', 'in', `(${memberIds.join(',')})`);
+      }
+
+      const { data: removed, error: removeError } = await removeQuery.select();
+      if (removeError) throw removeError;
+
+      if (memberIds.length === 0) return success(removed || []);
+
+      const { data: added, error: addError } = await supabase
+        .from('users')
+        .update({ team_id: teamId })
+        .in('id', memberIds)
+        .select();
+      
+      if (addError) throw addError;
+      
+      return success([...(removed || []), ...(added || [])]);
+    } catch (err) {
+      return failure(err, 'Failed to update team members');
     }
   };
 
   // Incentive Rules
-  const fetchIncentiveRules = async (): Promise<IncentiveRule[]> => {
-    setLoading(true);
-    setError(null);
-    
+  const fetchIncentiveRules = async (): Promise<SupabaseResult<IncentiveRule[]>> => {
     try {
       const { data: rulesData, error: rulesError } = await supabase
         .from('incentive_rules')
@@ -373,8 +667,15 @@ export const useSupabase = () => {
         .order('revenue_threshold');
       
       if (tiersError) throw tiersError;
+
+      const { data: versionsData, error: versionsError } = await supabase
+        .from('incentive_rule_versions')
+        .select('*')
+        .order('version');
+
+      if (versionsError) throw versionsError;
       
-      // Combine rules with their tiers
+      // Combine rules with their tiers and versions
       const rules: IncentiveRule[] = (rulesData || []).map(rule => ({
         ...rule,
         tiers: (tiersData || [])
@@ -384,182 +685,351 @@ export const useSupabase = () => {
             revenue_threshold: tier.revenue_threshold,
             incentive_rate: tier.incentive_rate,
             created_at: tier.created_at,
-          }))
+          })),
+        versions: (versionsData || []).filter(version => version.rule_id === rule.id),
       }));
       
-      return rules;
+      return success(rules);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch incentive rules');
-      return [];
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch incentive rules');
     }
   };
 
-  const addIncentiveRule = async (rule: Omit<IncentiveRule, 'id' | 'created_at'>): Promise<IncentiveRule | null> => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      // Insert the rule first
-      const { data: ruleData, error: ruleError } = await supabase
-        .from('incentive_rules')
-        .insert([{
+  // Rule functions return the rule with its tiers and versions
+  const toIncentiveRule = (data: IncentiveRule): IncentiveRule => ({
+    ...data,
+    tiers: data.tiers.map((tier: IncentiveTier) => ({
+      id: tier.id,
+      revenue_threshold: tier.revenue_threshold,
+      incentive_rate: tier.incentive_rate,
+      created_at: tier.created_at,
+    })),
+    versions: data.versions,
+  });
+
+  // Rules and their tiers are saved together by the save_incentive_rule function, which keeps the
+  // ids of tiers that are passed back with their id or an unchanged threshold. New terms take effect
+  // from rule.effective_from as a new version; earlier months keep the version they had.
+  const saveIncentiveRule = async (id: string | null, rule: Partial<IncentiveRuleInput>): Promise<IncentiveRule> => {
+    const { data, error } = await supabase
+      .rpc('save_incentive_rule', {
+        rule_id: id,
+        rule: {
           name: rule.name,
           description: rule.description,
           min_commission_threshold: rule.min_commission_threshold,
           commission_rate_min: rule.commission_rate_min,
           commission_rate_max: rule.commission_rate_max,
           base_revenue_threshold: rule.base_revenue_threshold,
+          calculation_mode: rule.calculation_mode,
           is_active: rule.is_active,
-        }])
+          effective_from: rule.effective_from,
+          effective_to: rule.effective_to,
+        },
+        tiers: rule.tiers?.map(tier => ({
+          id: tier.id || undefined,
+          revenue_threshold: tier.revenue_threshold,
+          incentive_rate: tier.incentive_rate,
+        })) ?? null,
+      });
+
+    if (error) throw error;
+
+    return toIncentiveRule(data);
+  };
+
+  const addIncentiveRule = async (rule: IncentiveRuleInput): Promise<SupabaseResult<IncentiveRule>> => {
+    try {
+      return success(await saveIncentiveRule(null, rule));
+    } catch (err) {
+      return failure(err, 'Failed to add incentive rule');
+    }
+  };
+
+  const updateIncentiveRule = async (id: string, updates: Partial<IncentiveRuleInput>): Promise<SupabaseResult<IncentiveRule>> => {
+    try {
+      return success(await saveIncentiveRule(id, updates));
+    } catch (err) {
+      return failure(err, 'Failed to update incentive rule');
+    }
+  };
+
+  // Deleted rules are kept with their versions ended, so months they applied to keep their incentives
+  const deleteIncentiveRule = async (id: string): Promise<SupabaseResult<IncentiveRule>> => {
+    try {
+      const { data, error } = await supabase
+        .rpc('delete_incentive_rule', { rule_id: id });
+
+      if (error) throw error;
+
+      return success(toIncentiveRule(data));
+    } catch (err) {
+      return failure(err, 'Failed to delete incentive rule');
+    }
+  };
+
+  // Import History
+  const fetchImportBatches = async (): Promise<SupabaseResult<ImportBatch[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('import_batches')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch import history');
+    }
+  };
+
+  // Restores overwritten rows and deletes inserted rows in a single transaction
+  const rollbackImportBatch = async (batchId: string): Promise<SupabaseResult<ImportBatch>> => {
+    try {
+      const { data, error } = await supabase
+        .rpc('rollback_import_batch', { batch_id: batchId });
+      
+      if (error) throw error;
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to roll back import');
+    }
+  };
+
+  // Payout Periods
+  const fetchPayoutPeriods = async (): Promise<SupabaseResult<PayoutPeriod[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('payout_periods')
+        .select('*')
+        .order('period', { ascending: false });
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch payout periods');
+    }
+  };
+
+  const fetchPayoutSnapshots = async (period: string): Promise<SupabaseResult<PayoutSnapshot[]>> => {
+    try {
+      const { data, error } = await supabase
+        .from('payout_snapshots')
+        .select('*')
+        .eq('period', period)
+        .order('incentive_amount', { ascending: false });
+      
+      if (error) throw error;
+      
+      return success(data || []);
+    } catch (err) {
+      return failure(err, 'Failed to fetch payout snapshots');
+    }
+  };
+
+  // Closes the period and freezes every user's result in one transaction; the database rejects the
+  // close when sales changed after these calculations were made
+  const closePayoutPeriod = async (
+    period: string,
+    calculations: IncentiveCalculation[]
+  ): Promise<SupabaseResult<PayoutPeriod>> => {
+    try {
+      const snapshots = calculations.map(calc => ({
+        user_id: calc.user_id,
+        user_name: calc.user_name,
+        total_revenue: calc.total_revenue,
+        total_commission: calc.total_commission,
+        commission_rate: calc.commission_rate,
+        qualifying_revenue: calc.qualifying_revenue,
+        rule_id: calc.applicable_rule?.id || null,
+        rule_name: calc.applicable_rule?.name || null,
+        tier_id: calc.current_tier?.id || null,
+        tier_rate: calc.current_tier?.incentive_rate ?? null,
+        incentive_amount: calc.incentive_amount,
+        qualifying_account_ids: calc.qualifying_account_ids,
+      }));
+      
+      const { data, error } = await supabase
+        .rpc('close_payout_period', { period, snapshots });
+      
+      if (error) throw error;
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to close payout period');
+    }
+  };
+
+  const reopenPayoutPeriod = async (period: string, reopenedBy: string): Promise<SupabaseResult<PayoutPeriod>> => {
+    try {
+      const { data, error } = await supabase
+        .from('payout_periods')
+        .update({
+          status: 'open',
+          reopened_at: new Date().toISOString(),
+          reopened_by: reopenedBy,
+        })
+        .eq('period', period)
         .select()
-        .maybeSingle();
+        .single();
       
-      if (ruleError) throw ruleError;
+      if (error) throw error;
       
-      // Insert the tiers
-      if (rule.tiers && rule.tiers.length > 0) {
-        const tiersToInsert = rule.tiers.map(tier => ({
-          rule_id: ruleData.id,
-          revenue_threshold: tier.revenue_threshold,
-          incentive_rate: tier.incentive_rate,
-        }));
-        
-        const { data: tiersData, error: tiersError } = await supabase
-          .from('incentive_tiers')
-          .insert(tiersToInsert)
-          .select();
-        
-        if (tiersError) throw tiersError;
-        
-        // Return the complete rule with tiers
-        return {
-          ...ruleData,
-          tiers: (tiersData || []).map(tier => ({
-            id: tier.id,
-            revenue_threshold: tier.revenue_threshold,
-            incentive_rate: tier.incentive_rate,
-            created_at: tier.created_at,
-          }))
-        };
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to reopen payout period');
+    }
+  };
+
+  // Payout Ledger
+  const fetchPayoutLedger = async (userId?: string): Promise<SupabaseResult<PayoutLedgerEntry[]>> => {
+    try {
+      let query = supabase
+        .from('payout_ledger')
+        .select('*')
+        .order('period', { ascending: false });
+      
+      if (userId) {
+        query = query.eq('user_id', userId);
       }
       
-      return { ...ruleData, tiers: [] };
+      const { data, error } = await query;
+      
+      if (error) throw error;
+      
+      return success(data || []);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add incentive rule');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch payout ledger');
     }
   };
 
-  const updateIncentiveRule = async (id: string, updates: Partial<IncentiveRule>): Promise<IncentiveRule | null> => {
-    setLoading(true);
-    setError(null);
-    
+  const createPayoutDraft = async (userId: string, period: string, amount: number, note?: string): Promise<SupabaseResult<PayoutLedgerEntry>> => {
     try {
-      // Update the rule
-      const { data: ruleData, error: ruleError } = await supabase
-        .from('incentive_rules')
+      const { data, error } = await supabase
+        .from('payout_ledger')
+        .insert([{
+          user_id: userId,
+          period,
+          amount,
+          status: 'draft',
+          note: note || null,
+        }])
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to create payout draft');
+    }
+  };
+
+  const updatePayoutAmount = async (entry: PayoutLedgerEntry, amount: number, note?: string): Promise<SupabaseResult<PayoutLedgerEntry>> => {
+    try {
+      if (entry.status !== 'draft') {
+        throw new Error('Only draft payouts can be edited');
+      }
+      
+      const { data, error } = await supabase
+        .from('payout_ledger')
         .update({
-          name: updates.name,
-          description: updates.description,
-          min_commission_threshold: updates.min_commission_threshold,
-          commission_rate_min: updates.commission_rate_min,
-          commission_rate_max: updates.commission_rate_max,
-          base_revenue_threshold: updates.base_revenue_threshold,
-          is_active: updates.is_active,
+          amount,
+          note: note ?? entry.note,
+          updated_at: new Date().toISOString(),
         })
-        .eq('id', id)
+        .eq('id', entry.id)
         .select()
-        .maybeSingle();
+        .single();
       
-      if (ruleError) throw ruleError;
+      if (error) throw error;
       
-      // Update tiers if provided
-      if (updates.tiers) {
-        // Delete existing tiers
-        await supabase
-          .from('incentive_tiers')
-          .delete()
-          .eq('rule_id', id);
-        
-        // Insert new tiers
-        if (updates.tiers.length > 0) {
-          const tiersToInsert = updates.tiers.map(tier => ({
-            rule_id: id,
-            revenue_threshold: tier.revenue_threshold,
-            incentive_rate: tier.incentive_rate,
-          }));
-          
-          const { data: tiersData, error: tiersError } = await supabase
-            .from('incentive_tiers')
-            .insert(tiersToInsert)
-            .select();
-          
-          if (tiersError) throw tiersError;
-          
-          return {
-            ...ruleData,
-            tiers: (tiersData || []).map(tier => ({
-              id: tier.id,
-              revenue_threshold: tier.revenue_threshold,
-              incentive_rate: tier.incentive_rate,
-              created_at: tier.created_at,
-            }))
-          };
-        }
+      return success(data);
+    } catch (err) {
+      return failure(err, 'Failed to update payout');
+    }
+  };
+
+  const updatePayoutStatus = async (
+    entry: PayoutLedgerEntry,
+    status: PayoutStatus,
+    actorId: string,
+    details: { note?: string; payment_reference?: string } = {}
+  ): Promise<SupabaseResult<PayoutLedgerEntry>> => {
+    try {
+      if (!canTransitionPayout(entry.status, status)) {
+        throw new Error(`Cannot move payout from ${entry.status} to ${status}`);
       }
       
-      // Fetch existing tiers if not updating them
-      const { data: tiersData } = await supabase
-        .from('incentive_tiers')
-        .select('*')
-        .eq('rule_id', id)
-        .order('revenue_threshold');
-      
-      return {
-        ...ruleData,
-        tiers: (tiersData || []).map(tier => ({
-          id: tier.id,
-          revenue_threshold: tier.revenue_threshold,
-          incentive_rate: tier.incentive_rate,
-          created_at: tier.created_at,
-        }))
+      const now = new Date().toISOString();
+      const updates: Partial<PayoutLedgerEntry> = {
+        status,
+        note: details.note ?? entry.note,
+        updated_at: now,
       };
+      
+      if (status === 'approved') {
+        updates.approved_at = now;
+        updates.approved_by = actorId;
+      } else if (status === 'paid') {
+        updates.paid_at = now;
+        updates.paid_by = actorId;
+        updates.payment_reference = details.payment_reference || null;
+      } else if (status === 'disputed') {
+        updates.disputed_at = now;
+      } else if (status === 'draft') {
+        updates.approved_at = null;
+        updates.approved_by = null;
+      }
+      
+      const { data, error } = await supabase
+        .from('payout_ledger')
+        .update(updates)
+        .eq('id', entry.id)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      return success(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to update incentive rule');
-      return null;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to update payout status');
     }
   };
 
-  const deleteIncentiveRule = async (id: string): Promise<boolean> => {
-    setLoading(true);
-    setError(null);
-    
+  // Audit Log
+  // Dates are local days, so they are turned into timestamps at the user's midnight
+  const fetchAuditLogPage = async (query: AuditLogQuery, page: number, pageSize: number): Promise<SupabaseResult<AuditLogPage>> => {
     try {
-      const { error } = await supabase
-        .from('incentive_rules')
-        .delete()
-        .eq('id', id);
+      let request = supabase
+        .from('audit_log')
+        .select('*', { count: 'exact' });
+      
+      if (query.actorId) request = request.eq('actor_id', query.actorId);
+      if (query.tableName) request = request.eq('table_name', query.tableName);
+      if (query.rowId) request = request.eq('row_id', query.rowId);
+      if (query.startDate) request = request.gte('created_at', new Date(`${query.startDate}T00:00:00`).toISOString());
+      if (query.endDate) request = request.lte('created_at', new Date(`${query.endDate}T23:59:59.999`).toISOString());
+      
+      const from = page * pageSize;
+      const { data, error, count } = await request
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1);
       
       if (error) throw error;
       
-      return true;
+      return success({ rows: data || [], total: count || 0 });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to delete incentive rule');
-      return false;
-    } finally {
-      setLoading(false);
+      return failure(err, 'Failed to fetch audit log');
     }
   };
 
   return {
-    loading,
-    error,
     // Categories
     fetchCategories,
     addCategory,
@@ -572,17 +1042,57 @@ export const useSupabase = () => {
     deleteAccount,
     // Sales Data
     fetchSalesData,
+    fetchSalesDataPage,
+    fetchSalesAccountSummaries,
+    fetchSalesTotals,
     addSalesData,
     deleteSalesData,
     // Users
     fetchUsers,
     addUser,
     updateUser,
+    setUserDisabled,
     deleteUser,
+    // Profile
+    updateAvatar,
+    removeAvatar,
+    // Invitations
+    fetchInvitations,
+    inviteUser,
+    deleteInvitation,
+    // Role Permissions
+    fetchRolePermissions,
+    setRolePermission,
+    // Teams
+    fetchTeams,
+    addTeam,
+    updateTeam,
+    deleteTeam,
+    setTeamMembers,
     // Incentive Rules
     fetchIncentiveRules,
     addIncentiveRule,
     updateIncentiveRule,
     deleteIncentiveRule,
+    // Import History
+    fetchImportBatches,
+    rollbackImportBatch,
+    // Payout Periods
+    fetchPayoutPeriods,
+    fetchPayoutSnapshots,
+    closePayoutPeriod,
+    reopenPayoutPeriod,
+    // Payout Ledger
+    fetchPayoutLedger,
+    createPayoutDraft,
+    updatePayoutAmount,
+    updatePayoutStatus,
+    // Audit Log
+    fetchAuditLogPage,
   };
-};
\ No newline at end of file
+};
+
+// Built once, so screens can list the operations in effect dependencies without refetching
+const api = createSupabaseApi();
+
+export const useSupabase = () => api;
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { Account, AuditAction, AuditLogEntry, User } from '../types';
+
+// Tables with a record_audit_log trigger, in the order the filter lists them
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  accounts: 'Accounts',
+  sales_data: 'Sales Data',
+  categories: 'Categories',
+  incentive_rules: 'Incentive Rules',
+  incentive_tiers: 'Incentive Tiers',
+  incentive_rule_versions: 'Incentive Rule Versions',
+  payout_periods: 'Payout Periods',
+  payout_snapshots: 'Payout Snapshots',
+  payout_ledger: 'Payout Ledger',
+  users: 'Users',
+  teams: 'Teams',
+  user_invitations: 'Invitations',
+  role_permissions: 'Role Permissions',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+};
+
+export const AUDIT_ACTION_STYLES: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+// Columns that change on their own and only add noise to a diff
+const IGNORED_COLUMNS = ['created_at', 'updated_at'];
+
+export interface AuditChange {
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Updates list the columns that changed; inserts and deletes list every column of the row
+export const getAuditChanges = (entry: AuditLogEntry): AuditChange[] => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+  const columns = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(column => !IGNORED_COLUMNS.includes(column));
+
+  return columns
+    .filter(column => entry.action !== 'update' || JSON.stringify(before[column]) !== JSON.stringify(after[column]))
+    .map(column => ({ column, before: before[column], after: after[column] }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// A readable name for the changed row, taken from whichever snapshot still has it
+export const describeAuditRow = (entry: AuditLogEntry, accounts: Account[], users: User[]): string => {
+  const row = entry.new_data || entry.old_data || {};
+  const accountName = (id: unknown) => accounts.find(account => account.id === id)?.username;
+  const userName = (id: unknown) => users.find(user => user.id === id)?.name;
+
+  switch (entry.table_name) {
+    case 'accounts':
+      return `${row.username} (${row.account_code})`;
+    case 'sales_data':
+      return `${accountName(row.account_id) || 'Unknown account'} · ${row.date}`;
+    case 'payout_periods':
+      return String(row.period);
+    case 'payout_snapshots':
+    case 'payout_ledger':
+      return `${userName(row.user_id) || 'Unknown user'} · ${row.period}`;
+    case 'incentive_tiers':
+      return `Tier from ${Number(row.revenue_threshold).toLocaleString('id-ID')}`;
+    case 'user_invitations':
+      return String(row.email);
+    case 'role_permissions':
+      return `${row.role} · ${row.permission}`;
+    default:
+      return String(row.name || row.email || entry.row_id);
+  }
+};
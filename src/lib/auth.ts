@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+import { Permission, User } from '../types';
+
+// Flows that finish in the app after following a link from an auth email
+export type AuthFlow = 'invite' | 'recovery';
+
+interface AuthIdentity {
+  id: string;
+  email?: string;
+}
+
+const getNewUserRow = (authUser: AuthIdentity): Omit<User, 'created_at'> => ({
+  id: authUser.id,
+  name: authUser.email?.split('@')[0] || 'User',
+  email: authUser.email || '',
+  role: 'user',
+  managed_accounts: [],
+});
+
+// Loads the users row (role and managed_accounts) for a signed-in auth user, creating a
+// default row on first sign-in. Falls back to basic auth info so a profile error never blocks login.
+const loadUserRow = async (authUser: AuthIdentity): Promise<User> => {
+  const newUser = getNewUserRow(authUser);
+  const defaultProfile: User = { ...newUser, created_at: new Date().toISOString() };
+
+  try {
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', authUser.id)
+      .maybeSingle();
+
+    if (userError) throw userError;
+    if (userData) return userData;
+
+    // Invitees get the name, role and accounts the superadmin chose for them
+    const { data: invitedUser, error: inviteError } = await supabase.rpc('accept_invitation');
+
+    if (inviteError) {
+      console.error('Could not accept invitation:', inviteError);
+    } else if (invitedUser?.id) {
+      return invitedUser;
+    }
+
+    const { data: insertedUser, error: insertError } = await supabase
+      .from('users')
+      .insert([newUser])
+      .select()
+      .maybeSingle();
+
+    if (insertError) {
+      console.error('Could not create user record:', insertError);
+      return defaultProfile;
+    }
+
+    return insertedUser || defaultProfile;
+  } catch (err) {
+    console.error('Error loading user profile:', err);
+    return defaultProfile;
+  }
+};
+
+// The profile plus the permissions its role is granted; without them every permission check fails closed
+export const loadUserProfile = async (authUser: AuthIdentity): Promise<User> => {
+  const profile = await loadUserRow(authUser);
+  if (profile.role === 'superadmin') return profile;
+
+  const { data, error } = await supabase
+    .from('role_permissions')
+    .select('permission')
+    .eq('role', profile.role);
+
+  if (error) {
+    console.error('Could not load permissions:', error);
+    return { ...profile, permissions: [] };
+  }
+
+  return { ...profile, permissions: (data || []).map(row => row.permission as Permission) };
+};
+
+// Auth emails link back with ?auth=<flow> so the app knows to ask for a new password
+export const getAuthRedirectUrl = (flow: AuthFlow): string => {
+  return `${window.location.origin}${window.location.pathname}?auth=${flow}`;
+};
+
+export const getPendingAuthFlow = (): AuthFlow | null => {
+  const flow = new URLSearchParams(window.location.search).get('auth');
+  return flow === 'invite' || flow === 'recovery' ? flow : null;
+};
+
+export const clearPendingAuthFlow = () => {
+  if (getPendingAuthFlow()) window.history.replaceState(null, '', window.location.pathname);
+};
@@ -0,0 +1,1522 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PayoutStatus } from '../../types';
+import { canTransitionPayout } from '../payouts';
+import { createDemoTables, DEMO_AUTH_USERS, DemoRow } from './seed';
+import { DemoState, loadDemoState, saveDemoState } from './storage';
+
+// Bump when the seed or table layout changes so stale browser copies are replaced
+const DEMO_STATE_VERSION = 9;
+
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+type Filter = (row: DemoRow) => boolean;
+
+// One row change: before is null for inserts, after is null for deletes
+type DemoChange = [table: string, before: DemoRow | null, after: DemoRow | null];
+type ChangeListener = (state: DemoState, changes: DemoChange[]) => void;
+
+// Other browser tabs stand in for other sessions and receive every saved change set here
+const CHANGES_CHANNEL = 'demo-database-changes';
+
+interface QueryResult {
+  data: unknown;
+  error: DemoError | null;
+  count: number | null;
+}
+
+// Shaped like PostgrestError so callers can keep reading message and code
+class DemoError extends Error {
+  code: string;
+  details = '';
+  hint = '';
+
+  constructor(message: string, code = 'P0001') {
+    super(message);
+    this.name = 'DemoError';
+    this.code = code;
+  }
+}
+
+// Column defaults and nullable columns from supabase/migrations
+const TABLE_DEFAULTS: Record<string, (now: string) => DemoRow> = {
+  categories: () => ({ description: null }),
+  users: () => ({ role: 'user', managed_accounts: [], disabled_at: null, phone: '', address: '', bio: '', avatar_url: null, team_id: null }),
+  teams: () => ({ lead_id: null, incentive_target: 0 }),
+  accounts: () => ({ email: '', phone: '', status: 'active', payment_data: 'belum diatur', category_id: null, user_id: null }),
+  sales_data: () => ({ clicks: 0, orders: 0, gross_commission: 0, products_sold: 0, total_purchases: 0, new_buyers: 0 }),
+  incentive_rules: now => ({
+    description: '', min_commission_threshold: 0, commission_rate_min: 0, commission_rate_max: 100,
+    base_revenue_threshold: 0, calculation_mode: 'progressive', is_active: true, effective_from: `${now.slice(0, 7)}-01`, effective_to: null,
+    deleted_at: null,
+  }),
+  incentive_tiers: () => ({}),
+  incentive_rule_versions: () => ({ effective_to: null, tiers: [], created_by: null }),
+  payout_periods: () => ({ status: 'open', closed_at: null, closed_by: null, reopened_at: null, reopened_by: null }),
+  payout_snapshots: () => ({
+    total_revenue: 0, total_commission: 0, commission_rate: 0, qualifying_revenue: 0, rule_id: null, rule_name: null,
+    tier_id: null, tier_rate: null, incentive_amount: 0, qualifying_account_ids: [],
+  }),
+  payout_ledger: now => ({
+    amount: 0, status: 'draft', note: null, payment_reference: null, approved_at: null, approved_by: null,
+    paid_at: null, paid_by: null, disputed_at: null, updated_at: now,
+  }),
+  import_batches: () => ({
+    uploaded_by: null, uploader_name: '', account_ids: [], row_count: 0, previous_rows: [], inserted_keys: [],
+    status: 'applied', rolled_back_at: null, rolled_back_by: null,
+  }),
+  user_invitations: () => ({ name: '', role: 'user', managed_accounts: [], invited_by: null, accepted_at: null }),
+};
+
+// Tables keyed by something other than a generated uuid id
+const PRIMARY_KEYS: Record<string, string[]> = {
+  payout_periods: ['period'],
+  role_permissions: ['role', 'permission'],
+};
+
+const UNIQUE_KEYS: Record<string, string[][]> = {
+  categories: [['name']],
+  users: [['email']],
+  teams: [['name']],
+  accounts: [['account_code']],
+  sales_data: [['account_id', 'date']],
+  payout_snapshots: [['period', 'user_id']],
+  payout_ledger: [['user_id', 'period']],
+  user_invitations: [['email']],
+  incentive_rule_versions: [['rule_id', 'version']],
+};
+
+// ON DELETE CASCADE foreign keys
+const CASCADES: Record<string, [string, string][]> = {
+  accounts: [['sales_data', 'account_id']],
+  incentive_rules: [['incentive_tiers', 'rule_id']],
+  users: [['payout_snapshots', 'user_id'], ['payout_ledger', 'user_id']],
+};
+
+// ON DELETE SET NULL foreign keys
+const SET_NULLS: Record<string, [string, string][]> = {
+  users: [['teams', 'lead_id'], ['incentive_rule_versions', 'created_by']],
+  teams: [['users', 'team_id']],
+};
+
+const SUPERADMIN_WRITE_TABLES = ['user_invitations', 'role_permissions', 'teams'];
+
+// Tables with a record_audit_log trigger
+const AUDITED_TABLES = [
+  'categories', 'accounts', 'sales_data', 'users', 'teams', 'incentive_rules', 'incentive_tiers', 'incentive_rule_versions',
+  'payout_periods', 'payout_snapshots', 'payout_ledger', 'user_invitations', 'role_permissions',
+];
+
+const getRowKey = (table: string, row: DemoRow): string => {
+  return (PRIMARY_KEYS[table] || ['id']).map(column => row[column]).join(':');
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+const clone = <T,>(value: T): T => structuredClone(value);
+
+const getPeriod = (date: unknown) => String(date).slice(0, 7);
+
+// Last day of the month a YYYY-MM-DD date falls in
+const getMonthEnd = (date: unknown) => {
+  const [year, month] = getPeriod(date).split('-').map(Number);
+  return `${getPeriod(date)}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`;
+};
+
+const getPreviousDay = (date: unknown) => {
+  const [year, month, day] = String(date).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+};
+
+const createState = (): DemoState => ({
+  version: DEMO_STATE_VERSION,
+  tables: createDemoTables(),
+  authUsers: DEMO_AUTH_USERS,
+  session: null,
+  files: {},
+});
+
+class DemoDatabase {
+  private ready: Promise<DemoState>;
+  private loaded: DemoState | null = null;
+  private pendingChanges: DemoChange[] = [];
+  private listeners = new Set<ChangeListener>();
+  private otherTabs = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGES_CHANNEL) : null;
+
+  constructor() {
+    this.ready = loadDemoState().then(saved => {
+      if (saved && saved.version === DEMO_STATE_VERSION) return saved;
+      const state = createState();
+      void saveDemoState(state);
+      return state;
+    }).then(state => (this.loaded = state));
+
+    if (this.otherTabs) {
+      this.otherTabs.onmessage = (event: MessageEvent<DemoChange[]>) => this.applyRemoteChanges(event.data);
+    }
+  }
+
+  async getState(): Promise<DemoState> {
+    return this.ready;
+  }
+
+  // For the few client calls that are synchronous (getPublicUrl); null until the state has loaded
+  getLoadedState(): DemoState | null {
+    return this.loaded;
+  }
+
+  // Saves the state, then hands the changes recorded since the last save to realtime subscribers
+  persist(state: DemoState) {
+    const changes = this.pendingChanges;
+    this.pendingChanges = [];
+
+    void saveDemoState(state).then(() => {
+      if (changes.length > 0) this.otherTabs?.postMessage(changes);
+    });
+    if (changes.length > 0) this.notify(state, changes);
+  }
+
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Delivered after the current call returns, as Realtime events arrive after the write completes
+  private notify(state: DemoState, changes: DemoChange[]) {
+    setTimeout(() => this.listeners.forEach(listener => listener(state, changes)), 0);
+  }
+
+  // Another tab already saved these changes; bring this tab's copy in line and tell its subscribers
+  private applyRemoteChanges(changes: DemoChange[]) {
+    const state = this.loaded;
+    if (!state) return;
+
+    for (const [table, before, after] of changes) {
+      const key = getRowKey(table, (after || before) as DemoRow);
+      state.tables[table] = (state.tables[table] || []).filter(row => getRowKey(table, row) !== key);
+      if (after) state.tables[table].push(after);
+    }
+    this.notify(state, changes);
+  }
+
+  getCurrentUser(state: DemoState): DemoRow | null {
+    if (!state.session) return null;
+    return state.tables.users.find(user => user.id === state.session?.user_id) || null;
+  }
+
+  // Mirrors manages_account(): superadmins, managed_accounts entries and owned accounts
+  managesAccount(state: DemoState, user: DemoRow, accountId: unknown): boolean {
+    if (user.role === 'superadmin') return true;
+    if ((user.managed_accounts as string[]).includes(accountId as string)) return true;
+    return state.tables.accounts.some(account => account.id === accountId && account.user_id === user.id);
+  }
+
+  // Mirrors leads_user(): the member belongs to a team the user leads
+  leadsUser(state: DemoState, user: DemoRow, memberId: unknown): boolean {
+    if (user.disabled_at) return false;
+    const member = state.tables.users.find(row => row.id === memberId);
+    return Boolean(member?.team_id) && state.tables.teams.some(team => team.id === member?.team_id && team.lead_id === user.id);
+  }
+
+  // Mirrors leads_account(): a member of a team the user leads manages the account
+  leadsAccount(state: DemoState, user: DemoRow, accountId: unknown): boolean {
+    if (user.disabled_at) return false;
+    const ledTeamIds = new Set(state.tables.teams.filter(team => team.lead_id === user.id).map(team => team.id));
+    return state.tables.users.some(member =>
+      ledTeamIds.has(member.team_id) && (member.managed_accounts as string[]).includes(accountId as string)
+    );
+  }
+
+  // Mirrors has_permission(): superadmins hold everything, others what role_permissions grants their role
+  hasPermission(state: DemoState, user: DemoRow, permission: string): boolean {
+    if (user.disabled_at) return false;
+    if (user.role === 'superadmin') return true;
+    return state.tables.role_permissions.some(row => row.role === user.role && row.permission === permission);
+  }
+
+  // Read side of the row level security policies
+  canRead(state: DemoState, table: string, row: DemoRow): boolean {
+    const user = this.getCurrentUser(state);
+    if (!user) return false;
+    if (user.role === 'superadmin') return true;
+
+    switch (table) {
+      case 'accounts':
+        return this.managesAccount(state, user, row.id)
+          || this.hasPermission(state, user, 'accounts.view_all')
+          || this.leadsAccount(state, user, row.id);
+      case 'sales_data':
+        return this.managesAccount(state, user, row.account_id)
+          || this.hasPermission(state, user, 'accounts.view_all')
+          || this.leadsAccount(state, user, row.account_id);
+      case 'users':
+        return row.id === user.id
+          || this.hasPermission(state, user, 'accounts.view_all')
+          || this.leadsUser(state, user, row.id);
+      case 'payout_snapshots':
+      case 'payout_ledger':
+        return row.user_id === user.id
+          || this.hasPermission(state, user, 'payouts.manage')
+          || this.hasPermission(state, user, 'payouts.approve');
+      case 'import_batches':
+        return row.uploaded_by === user.id || this.hasPermission(state, user, 'accounts.view_all');
+      case 'user_invitations':
+      case 'audit_log':
+        return false;
+      default:
+        return true;
+    }
+  }
+
+  // Write side of the row level security policies
+  canWrite(state: DemoState, table: string, action: Action, row: DemoRow): boolean {
+    const user = this.getCurrentUser(state);
+    if (!user) return false;
+    // Only the audit trigger writes the log
+    if (table === 'audit_log') return false;
+    // Members are removed through the admin-users function, which deletes the auth user
+    if (table === 'users' && action === 'delete') return false;
+    // Rules are deleted through delete_incentive_rule, which keeps them and their versions
+    if ((table === 'incentive_rules' || table === 'incentive_rule_versions') && action === 'delete') return false;
+    if (user.role === 'superadmin') return true;
+    if (SUPERADMIN_WRITE_TABLES.includes(table)) return false;
+
+    switch (table) {
+      case 'categories':
+        return this.hasPermission(state, user, 'categories.manage');
+      case 'accounts':
+        if (action === 'insert') return row.user_id === user.id && this.hasPermission(state, user, 'accounts.edit');
+        return this.managesAccount(state, user, row.id)
+          && this.hasPermission(state, user, action === 'delete' ? 'accounts.delete' : 'accounts.edit');
+      case 'sales_data':
+        return this.managesAccount(state, user, row.account_id) && this.hasPermission(state, user, 'sales.upload');
+      case 'incentive_rules':
+      case 'incentive_tiers':
+      case 'incentive_rule_versions':
+        return this.hasPermission(state, user, 'incentives.manage');
+      case 'payout_periods':
+      case 'payout_snapshots':
+        return this.hasPermission(state, user, 'payouts.manage');
+      case 'payout_ledger':
+        return this.hasPermission(state, user, 'payouts.manage')
+          || (action === 'update' && this.hasPermission(state, user, 'payouts.approve'));
+      case 'users':
+        if (action === 'insert') {
+          return row.id === user.id && row.role === 'user' && (row.managed_accounts as string[]).length === 0;
+        }
+        return action !== 'delete' && row.id === user.id;
+      case 'import_batches':
+        return row.uploaded_by === user.id || (action === 'update' && this.hasPermission(state, user, 'sales.upload')
+          && (row.account_ids as string[]).every(id => this.managesAccount(state, user, id)));
+      default:
+        return true;
+    }
+  }
+
+  // Mirrors the sales_data_closed_period_lock trigger
+  assertOpenPeriods(state: DemoState, table: string, rows: DemoRow[]) {
+    if (table !== 'sales_data') return;
+
+    const closed = new Set(state.tables.payout_periods
+      .filter(period => period.status === 'closed')
+      .map(period => period.period));
+    const locked = rows.find(row => closed.has(getPeriod(row.date)));
+
+    if (locked) throw new DemoError(`Payout period ${getPeriod(locked.date)} is closed`);
+  }
+
+  // Mirrors the payout_ledger_enforce_workflow trigger; existing is null for inserts
+  assertPayoutWorkflow(table: string, existing: DemoRow | null, row: DemoRow) {
+    if (table !== 'payout_ledger') return;
+
+    if (!existing) {
+      if (row.status !== 'draft') throw new DemoError('New payouts start as draft', '23514');
+      return;
+    }
+    if (row.user_id !== existing.user_id || row.period !== existing.period) {
+      throw new DemoError('The user and period of a payout cannot change', '23514');
+    }
+    if (row.status !== existing.status && !canTransitionPayout(existing.status as PayoutStatus, row.status as PayoutStatus)) {
+      throw new DemoError(`Cannot move payout from ${existing.status} to ${row.status}`, '23514');
+    }
+    if (Number(row.amount) !== Number(existing.amount) && (existing.status !== 'draft' || row.status !== 'draft')) {
+      throw new DemoError('Only draft payouts can be edited', '23514');
+    }
+  }
+
+  // Mirrors the users_protect_admin_columns, payout_ledger_protect_amount and incentive_rule_versions_protect_terms triggers
+  assertProtectedColumns(state: DemoState, table: string, existing: DemoRow, updated: DemoRow) {
+    const user = this.getCurrentUser(state);
+    const changed = (columns: string[]) => columns
+      .some(column => JSON.stringify(existing[column]) !== JSON.stringify(updated[column]));
+
+    if (table === 'users' && user?.role !== 'superadmin' && changed(['email', 'role', 'managed_accounts', 'disabled_at', 'team_id'])) {
+      throw new DemoError('Only super admins can change email, role, team, managed accounts or access', '42501');
+    }
+    if (table === 'payout_ledger' && !(user && this.hasPermission(state, user, 'payouts.manage')) && changed(['amount'])) {
+      throw new DemoError('Only payout managers can change payout amounts', '42501');
+    }
+    if (table === 'incentive_rule_versions' && changed(Object.keys(existing).filter(column => column !== 'effective_to' && column !== 'created_by'))) {
+      throw new DemoError('Incentive rule versions cannot be changed; save the rule to create a new version', '42501');
+    }
+  }
+
+  // Queues the change for realtime subscribers and mirrors the record_audit_log trigger;
+  // before is null for inserts and after is null for deletes
+  recordChange(state: DemoState, table: string, before: DemoRow | null, after: DemoRow | null) {
+    if (before && after && JSON.stringify(before) === JSON.stringify(after)) return;
+
+    this.pendingChanges.push([table, clone(before), clone(after)]);
+    if (!AUDITED_TABLES.includes(table)) return;
+
+    const actor = this.getCurrentUser(state);
+    const entry = this.buildRow('audit_log', {
+      actor_id: actor?.id || null,
+      actor_name: actor?.name || '',
+      table_name: table,
+      row_id: getRowKey(table, (after || before) as DemoRow),
+      action: !before ? 'insert' : !after ? 'delete' : 'update',
+      old_data: before,
+      new_data: after,
+    });
+    state.tables.audit_log.push(entry);
+    this.pendingChanges.push(['audit_log', null, clone(entry)]);
+  }
+
+  readRows(state: DemoState, table: string): DemoRow[] {
+    if (table === 'sales_data_account_summary') {
+      const summaries = new Map<string, DemoRow>();
+      for (const row of this.readRows(state, 'sales_data')) {
+        const summary = summaries.get(row.account_id as string);
+        if (!summary) {
+          summaries.set(row.account_id as string, { account_id: row.account_id, row_count: 1, first_date: row.date, last_date: row.date });
+        } else {
+          summary.row_count = (summary.row_count as number) + 1;
+          if (compareValues(row.date, summary.first_date) < 0) summary.first_date = row.date;
+          if (compareValues(row.date, summary.last_date) > 0) summary.last_date = row.date;
+        }
+      }
+      return [...summaries.values()];
+    }
+
+    const rows = state.tables[table];
+    if (!rows) throw new DemoError(`relation "public.${table}" does not exist`, '42P01');
+    return rows.filter(row => this.canRead(state, table, row));
+  }
+
+  buildRow(table: string, values: DemoRow): DemoRow {
+    const now = new Date().toISOString();
+    const defaults = TABLE_DEFAULTS[table] ? TABLE_DEFAULTS[table](now) : {};
+    const generated: DemoRow = PRIMARY_KEYS[table] ? { created_at: now } : { id: crypto.randomUUID(), created_at: now };
+    return { ...generated, ...defaults, ...clone(values) };
+  }
+
+  // Mirrors the next_account_code() column default; without a sequence, the next code after the highest taken
+  nextAccountCode(rows: DemoRow[]): string {
+    const taken = rows.map(row => Number(/^ACC(\d+)$/.exec(String(row.account_code))?.[1] || 0));
+    return `ACC${String(Math.max(0, ...taken) + 1).padStart(6, '0')}`;
+  }
+
+  findConflict(rows: DemoRow[], row: DemoRow, columns: string[]): DemoRow | undefined {
+    return rows.find(existing => existing !== row && columns.every(column => existing[column] === row[column]));
+  }
+
+  assertUnique(table: string, rows: DemoRow[], row: DemoRow) {
+    const keys = [PRIMARY_KEYS[table] || ['id'], ...(UNIQUE_KEYS[table] || [])];
+    for (const columns of keys) {
+      if (this.findConflict(rows, row, columns)) {
+        throw new DemoError(`duplicate key value violates unique constraint on ${table} (${columns.join(', ')})`, '23505');
+      }
+    }
+  }
+
+  deleteRows(state: DemoState, table: string, targets: DemoRow[]) {
+    const removed = new Set(targets);
+    state.tables[table] = state.tables[table].filter(row => !removed.has(row));
+    targets.forEach(row => this.recordChange(state, table, row, null));
+
+    const key = (PRIMARY_KEYS[table] || ['id'])[0];
+    for (const [childTable, column] of CASCADES[table] || []) {
+      const ids = new Set(targets.map(row => row[key]));
+      const children = state.tables[childTable].filter(row => ids.has(row[column]));
+      if (children.length > 0) this.deleteRows(state, childTable, children);
+    }
+    for (const [childTable, column] of SET_NULLS[table] || []) {
+      const ids = new Set(targets.map(row => row[key]));
+      state.tables[childTable].forEach(row => {
+        if (!ids.has(row[column])) return;
+        const before = clone(row);
+        row[column] = null;
+        this.recordChange(state, childTable, before, row);
+      });
+    }
+  }
+}
+
+class DemoQueryBuilder implements PromiseLike<QueryResult> {
+  private action: Action = 'select';
+  private values: DemoRow[] | DemoRow = [];
+  private onConflict: string[] | null = null;
+  private filters: Filter[] = [];
+  private orders: { column: string; ascending: boolean }[] = [];
+  private rowRange: [number, number] | null = null;
+  private rowLimit: number | null = null;
+  private countMode: 'exact' | null = null;
+  private returning = false;
+  private singleMode: 'single' | 'maybeSingle' | null = null;
+
+  constructor(private db: DemoDatabase, private table: string) {}
+
+  // Column lists are ignored: every query in the app selects whole rows
+  select(...args: [columns?: string, options?: { count?: 'exact' }]) {
+    if (this.action === 'select') {
+      this.countMode = args[1]?.count || null;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: DemoRow[] | DemoRow) {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  upsert(values: DemoRow[] | DemoRow, options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = values;
+    this.onConflict = options.onConflict ? options.onConflict.split(',').map(column => column.trim()) : null;
+    return this;
+  }
+
+  update(values: DemoRow) {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(row => compareValues(row[column], value) >= 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(row => compareValues(row[column], value) <= 0);
+    return this;
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  // Only the `not(column, 'in', '(a,b)')` form is used by the app
+  not(column: string, operator: string, value: string) {
+    if (operator !== 'in') throw new DemoError(`Demo backend does not support not.${operator}`);
+    const values = value.replace(/^\(|\)$/g, '').split(',').map(item => item.trim());
+    this.filters.push(row => !values.includes(String(row[column])));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orders.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rowRange = [from, to];
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<QueryResult> {
+    const state = await this.db.getState();
+
+    try {
+      let rows = this.action === 'select' ? this.runSelect(state) : this.runMutation(state);
+      const count = this.countMode ? rows.length : null;
+
+      for (const { column, ascending } of [...this.orders].reverse()) {
+        rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compareValues(a[column], b[column]));
+      }
+      if (this.rowRange) rows = rows.slice(this.rowRange[0], this.rowRange[1] + 1);
+      if (this.rowLimit !== null) rows = rows.slice(0, this.rowLimit);
+
+      const data = clone(rows);
+      if (this.action !== 'select' && !this.returning) return { data: null, error: null, count };
+
+      if (this.singleMode) {
+        if (data.length > 1 || (this.singleMode === 'single' && data.length === 0)) {
+          throw new DemoError('JSON object requested, multiple (or no) rows returned', 'PGRST116');
+        }
+        return { data: data[0] || null, error: null, count };
+      }
+
+      return { data, error: null, count };
+    } catch (err) {
+      const error = err instanceof DemoError ? err : new DemoError(err instanceof Error ? err.message : String(err));
+      return { data: null, error, count: null };
+    }
+  }
+
+  private runSelect(state: DemoState): DemoRow[] {
+    return this.db.readRows(state, this.table).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  // Works on a copy of the table so a failed statement leaves nothing half-applied
+  private runMutation(state: DemoState): DemoRow[] {
+    if (!state.tables[this.table]) throw new DemoError(`relation "public.${this.table}" does not exist`, '42P01');
+
+    const original = state.tables[this.table];
+    const rows = [...original];
+    const targets = this.action === 'insert' || this.action === 'upsert'
+      ? []
+      : this.db.readRows(state, this.table).filter(row => this.filters.every(filter => filter(row)));
+    let affected: DemoRow[] = [];
+    const changes: [DemoRow | null, DemoRow][] = [];
+
+    if (this.action === 'insert' || this.action === 'upsert') {
+      const values = Array.isArray(this.values) ? this.values : [this.values];
+      const conflictColumns = this.onConflict || PRIMARY_KEYS[this.table] || ['id'];
+
+      for (const value of values) {
+        const existing = this.action === 'upsert' ? this.db.findConflict(rows, value, conflictColumns) : undefined;
+
+        if (existing) {
+          const updated = { ...existing, ...clone(value) };
+          if (!this.db.canWrite(state, this.table, 'update', existing)) {
+            throw new DemoError(`new row violates row-level security policy for table "${this.table}"`, '42501');
+          }
+          this.db.assertOpenPeriods(state, this.table, [existing, updated]);
+          this.db.assertPayoutWorkflow(this.table, existing, updated);
+          this.db.assertProtectedColumns(state, this.table, existing, updated);
+          rows[rows.indexOf(existing)] = updated;
+          affected.push(updated);
+          changes.push([existing, updated]);
+        } else {
+          const row = this.db.buildRow(this.table, value);
+          if (this.table === 'accounts' && !row.account_code) row.account_code = this.db.nextAccountCode(rows);
+          if (!this.db.canWrite(state, this.table, 'insert', row)) {
+            throw new DemoError(`new row violates row-level security policy for table "${this.table}"`, '42501');
+          }
+          this.db.assertOpenPeriods(state, this.table, [row]);
+          this.db.assertPayoutWorkflow(this.table, null, row);
+          rows.push(row);
+          affected.push(row);
+          changes.push([null, row]);
+        }
+      }
+
+      affected.forEach(row => this.db.assertUnique(this.table, rows, row));
+    } else if (this.action === 'update') {
+      const writable = targets.filter(row => this.db.canWrite(state, this.table, 'update', row));
+      for (const existing of writable) {
+        const updated = { ...existing, ...clone(this.values as DemoRow) };
+        this.db.assertOpenPeriods(state, this.table, [existing, updated]);
+        this.db.assertPayoutWorkflow(this.table, existing, updated);
+        this.db.assertProtectedColumns(state, this.table, existing, updated);
+        rows[rows.indexOf(existing)] = updated;
+        affected.push(updated);
+        changes.push([existing, updated]);
+      }
+      affected.forEach(row => this.db.assertUnique(this.table, rows, row));
+    } else {
+      affected = targets.filter(row => this.db.canWrite(state, this.table, 'delete', row));
+      this.db.assertOpenPeriods(state, this.table, affected);
+    }
+
+    if (this.action === 'delete') {
+      this.db.deleteRows(state, this.table, affected);
+    } else {
+      state.tables[this.table] = rows;
+      changes.forEach(([before, after]) => this.db.recordChange(state, this.table, before, after));
+    }
+    this.db.persist(state);
+
+    return affected.filter(row => this.action === 'delete' || this.db.canRead(state, this.table, row));
+  }
+}
+
+const toAuthUser = (authUser: { id: string; email: string }) => ({
+  id: authUser.id,
+  email: authUser.email,
+  aud: 'authenticated',
+  role: 'authenticated',
+  app_metadata: { provider: 'email', providers: ['email'] },
+  user_metadata: {},
+  created_at: new Date(0).toISOString(),
+});
+
+const toSession = (state: DemoState) => {
+  const authUser = state.authUsers.find(user => user.id === state.session?.user_id);
+  if (!state.session || !authUser) return null;
+
+  return {
+    access_token: state.session.access_token,
+    refresh_token: state.session.refresh_token,
+    token_type: 'bearer',
+    expires_in: 3600,
+    user: toAuthUser(authUser),
+  };
+};
+
+type AuthListener = (event: string, session: ReturnType<typeof toSession>) => void;
+
+const createDemoAuth = (db: DemoDatabase) => {
+  const listeners = new Set<AuthListener>();
+
+  const notify = (event: string, state: DemoState) => {
+    const session = toSession(state);
+    listeners.forEach(listener => listener(event, session));
+  };
+
+  return {
+    signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+      const state = await db.getState();
+      const authUser = state.authUsers.find(user => user.email === email && user.password !== '' && user.password === password);
+
+      if (!authUser) {
+        return { data: { user: null, session: null }, error: new DemoError('Invalid login credentials', 'invalid_credentials') };
+      }
+      if (authUser.banned) {
+        return { data: { user: null, session: null }, error: new DemoError('User is banned', 'user_banned') };
+      }
+
+      state.session = {
+        access_token: `demo-access-${crypto.randomUUID()}`,
+        refresh_token: `demo-refresh-${crypto.randomUUID()}`,
+        user_id: authUser.id,
+      };
+      db.persist(state);
+      notify('SIGNED_IN', state);
+
+      return { data: { user: toAuthUser(authUser), session: toSession(state) }, error: null };
+    },
+
+    signOut: async () => {
+      const state = await db.getState();
+      state.session = null;
+      db.persist(state);
+      notify('SIGNED_OUT', state);
+      return { error: null };
+    },
+
+    onAuthStateChange: (callback: AuthListener) => {
+      listeners.add(callback);
+      db.getState().then(state => {
+        if (listeners.has(callback)) callback('INITIAL_SESSION', toSession(state));
+      });
+
+      return { data: { subscription: { unsubscribe: () => listeners.delete(callback) } } };
+    },
+
+    getUser: async () => {
+      const state = await db.getState();
+      const session = toSession(state);
+      return { data: { user: session ? session.user : null }, error: null };
+    },
+
+    getSession: async () => {
+      const state = await db.getState();
+      return { data: { session: toSession(state) }, error: null };
+    },
+
+    // No email is sent in demo mode; the auth user just exists without a password until it sets one
+    signInWithOtp: async ({ email, options = {} }: { email: string; options?: { shouldCreateUser?: boolean } }) => {
+      const state = await db.getState();
+
+      if (!state.authUsers.some(user => user.email === email)) {
+        if (options.shouldCreateUser === false) {
+          return { data: { user: null, session: null }, error: new DemoError('Signups not allowed for otp', 'otp_disabled') };
+        }
+        state.authUsers = [...state.authUsers, { id: crypto.randomUUID(), email, password: '' }];
+        db.persist(state);
+      }
+
+      return { data: { user: null, session: null }, error: null };
+    },
+
+    resetPasswordForEmail: async () => {
+      return { data: {}, error: null };
+    },
+
+    resend: async () => {
+      return { data: { user: null, session: null }, error: null };
+    },
+
+    updateUser: async ({ password }: { password?: string }) => {
+      const state = await db.getState();
+      const authUser = state.authUsers.find(user => user.id === state.session?.user_id);
+
+      if (!authUser) {
+        return { data: { user: null }, error: new DemoError('Auth session missing!', 'session_not_found') };
+      }
+      if (password !== undefined) {
+        if (password.length < 6) {
+          return { data: { user: null }, error: new DemoError('Password should be at least 6 characters', 'weak_password') };
+        }
+        authUser.password = password;
+      }
+      db.persist(state);
+      notify('USER_UPDATED', state);
+
+      return { data: { user: toAuthUser(authUser) }, error: null };
+    },
+
+    // Accounts are created already confirmed and the current session is kept
+    signUp: async ({ email, password }: { email: string; password: string }) => {
+      const state = await db.getState();
+
+      if (state.authUsers.some(user => user.email === email)) {
+        return { data: { user: null, session: null }, error: new DemoError('User already registered', 'user_already_exists') };
+      }
+      if (password.length < 6) {
+        return { data: { user: null, session: null }, error: new DemoError('Password should be at least 6 characters', 'weak_password') };
+      }
+
+      const authUser = { id: crypto.randomUUID(), email, password };
+      state.authUsers = [...state.authUsers, authUser];
+      db.persist(state);
+
+      return { data: { user: toAuthUser(authUser), session: null }, error: null };
+    },
+  };
+};
+
+interface SalesTotalsParams {
+  group_by: string;
+  period: string;
+  start_date: string | null;
+  end_date: string | null;
+  account_ids: string[] | null;
+}
+
+// Same grouping and rates as the get_sales_totals SQL function
+const getSalesTotals = (db: DemoDatabase, state: DemoState, params: SalesTotalsParams): DemoRow[] => {
+  const accounts = new Map(state.tables.accounts.map(account => [account.id, account]));
+  const users = params.group_by === 'user' ? db.readRows(state, 'users') : [];
+  const totals = new Map<string, DemoRow>();
+
+  const sales = db.readRows(state, 'sales_data').filter(row =>
+    (!params.start_date || compareValues(row.date, params.start_date) >= 0)
+    && (!params.end_date || compareValues(row.date, params.end_date) <= 0)
+    && (!params.account_ids || params.account_ids.includes(row.account_id as string))
+    && accounts.has(row.account_id)
+  );
+
+  for (const row of sales) {
+    const bucket = params.period === 'day' ? row.date : params.period === 'month' ? `${getPeriod(row.date)}-01` : null;
+    const groupIds = params.group_by === 'account' ? [row.account_id]
+      : params.group_by === 'category' ? [accounts.get(row.account_id)?.category_id ?? null]
+      : params.group_by === 'user' ? users.filter(user => (user.managed_accounts as string[]).includes(row.account_id as string)).map(user => user.id)
+      : [null];
+
+    for (const groupId of groupIds) {
+      const key = `${bucket}|${groupId}`;
+      const total = totals.get(key) || {
+        bucket, group_id: groupId, clicks: 0, orders: 0, gross_commission: 0, total_purchases: 0, products_sold: 0, new_buyers: 0,
+      };
+      for (const column of ['clicks', 'orders', 'gross_commission', 'total_purchases', 'products_sold', 'new_buyers']) {
+        total[column] = (total[column] as number) + Number(row[column]);
+      }
+      totals.set(key, total);
+    }
+  }
+
+  return [...totals.values()]
+    .map((total): DemoRow => ({
+      ...total,
+      commission_rate: (total.total_purchases as number) > 0 ? (total.gross_commission as number) / (total.total_purchases as number) * 100 : 0,
+      conversion_rate: (total.clicks as number) > 0 ? (total.orders as number) / (total.clicks as number) * 100 : 0,
+    }))
+    .sort((a, b) => compareValues(a.bucket, b.bucket) || compareValues(a.group_id, b.group_id));
+};
+
+interface ImportSalesDataParams {
+  file_name: string;
+  sales_rows: DemoRow[];
+}
+
+// Same batch bookkeeping as the import_sales_data SQL function; every row is checked before the first write
+const importSalesData = (db: DemoDatabase, state: DemoState, params: ImportSalesDataParams): DemoRow[] => {
+  if (params.sales_rows.length === 0) return [];
+
+  const user = db.getCurrentUser(state);
+  const uploaded = params.sales_rows.map(row => {
+    const existing = state.tables.sales_data.find(current => current.account_id === row.account_id && current.date === row.date) || null;
+    const saved = existing ? { ...existing, ...clone(row) } : db.buildRow('sales_data', row);
+    return { existing, saved };
+  });
+
+  for (const { existing, saved } of uploaded) {
+    if (!db.canWrite(state, 'sales_data', existing ? 'update' : 'insert', existing || saved)) {
+      throw new DemoError('new row violates row-level security policy for table "sales_data"', '42501');
+    }
+    db.assertOpenPeriods(state, 'sales_data', existing ? [existing, saved] : [saved]);
+  }
+
+  const dates = params.sales_rows.map(row => String(row.date)).sort();
+  const batch = db.buildRow('import_batches', {
+    file_name: params.file_name,
+    uploaded_by: user?.id || null,
+    uploader_name: user?.name || '',
+    account_ids: [...new Set(params.sales_rows.map(row => row.account_id))],
+    row_count: params.sales_rows.length,
+    date_start: dates[0],
+    date_end: dates[dates.length - 1],
+    previous_rows: uploaded.filter(({ existing }) => existing).map(({ existing }) => clone(existing)),
+    inserted_keys: uploaded.filter(({ existing }) => !existing).map(({ saved }) => ({ account_id: saved.account_id, date: saved.date })),
+  });
+  if (!db.canWrite(state, 'import_batches', 'insert', batch)) {
+    throw new DemoError('new row violates row-level security policy for table "import_batches"', '42501');
+  }
+
+  state.tables.import_batches = [...state.tables.import_batches, batch];
+  db.recordChange(state, 'import_batches', null, batch);
+
+  const replaced = new Set(uploaded.map(({ existing }) => existing));
+  state.tables.sales_data = [...state.tables.sales_data.filter(row => !replaced.has(row)), ...uploaded.map(({ saved }) => saved)];
+  uploaded.forEach(({ existing, saved }) => db.recordChange(state, 'sales_data', existing, saved));
+  db.persist(state);
+
+  return clone(uploaded.map(({ saved }) => saved));
+};
+
+// Same checks and restore order as the rollback_import_batch SQL function
+const rollbackImportBatch = (db: DemoDatabase, state: DemoState, batchId: string): DemoRow => {
+  // SELECT ... FOR UPDATE only finds batches the update policy allows
+  const batch = db.readRows(state, 'import_batches').find(row => row.id === batchId);
+  if (!batch || !db.canWrite(state, 'import_batches', 'update', batch)) throw new DemoError(`Import batch ${batchId} not found`);
+  if (batch.status === 'rolled_back') throw new DemoError(`Import batch ${batchId} has already been rolled back`);
+
+  const overlaps = state.tables.import_batches.some(newer =>
+    newer.id !== batch.id
+    && newer.status === 'applied'
+    && compareValues(newer.created_at, batch.created_at) > 0
+    && (newer.account_ids as string[]).some(id => (batch.account_ids as string[]).includes(id))
+    && compareValues(newer.date_start, batch.date_end) <= 0
+    && compareValues(newer.date_end, batch.date_start) >= 0
+  );
+  if (overlaps) throw new DemoError('A newer import overlaps these accounts and dates; roll it back first');
+
+  const insertedKeys = new Set((batch.inserted_keys as DemoRow[]).map(key => `${key.account_id}|${key.date}`));
+  const previousRows = batch.previous_rows as DemoRow[];
+  const restoredKeys = new Set(previousRows.map(row => `${row.account_id}|${row.date}`));
+  const touched = state.tables.sales_data.filter(row =>
+    insertedKeys.has(`${row.account_id}|${row.date}`) || restoredKeys.has(`${row.account_id}|${row.date}`)
+  );
+
+  db.assertOpenPeriods(state, 'sales_data', [...touched, ...previousRows]);
+  if ([...touched, ...previousRows].some(row => !db.canWrite(state, 'sales_data', 'update', row))) {
+    throw new DemoError('new row violates row-level security policy for table "sales_data"', '42501');
+  }
+
+  const kept = state.tables.sales_data.filter(row =>
+    !insertedKeys.has(`${row.account_id}|${row.date}`) && !restoredKeys.has(`${row.account_id}|${row.date}`)
+  );
+  const user = db.getCurrentUser(state);
+  const rolledBack = { ...batch, status: 'rolled_back', rolled_back_at: new Date().toISOString(), rolled_back_by: user?.id || null };
+
+  state.tables.sales_data = [...kept, ...clone(previousRows)];
+  state.tables.import_batches = state.tables.import_batches.map(row => (row.id === batch.id ? rolledBack : row));
+  db.recordChange(state, 'import_batches', batch, rolledBack);
+
+  // Inserted rows are deleted, overwritten rows are updated back to their earlier values
+  for (const row of touched) {
+    if (insertedKeys.has(`${row.account_id}|${row.date}`)) db.recordChange(state, 'sales_data', row, null);
+  }
+  for (const previous of previousRows) {
+    const current = touched.find(row => row.account_id === previous.account_id && row.date === previous.date) || null;
+    db.recordChange(state, 'sales_data', current, previous);
+  }
+  db.persist(state);
+
+  return clone(rolledBack);
+};
+
+interface ClosePayoutPeriodParams {
+  period: string;
+  snapshots: DemoRow[];
+}
+
+// Same checks as the close_payout_period SQL function; they run before the first write, so a rejected close changes nothing
+const closePayoutPeriod = (db: DemoDatabase, state: DemoState, params: ClosePayoutPeriodParams): DemoRow => {
+  const user = db.getCurrentUser(state);
+  if (!user || !db.hasPermission(state, user, 'payouts.manage')) {
+    throw new DemoError('Only payout managers can close payout periods', '42501');
+  }
+
+  const sales = db.readRows(state, 'sales_data').filter(row => getPeriod(row.date) === params.period);
+  const users = db.readRows(state, 'users');
+  const toCents = (value: unknown) => Math.round(Number(value) * 100);
+  const stale = params.snapshots.some(snapshot => {
+    const managed = (users.find(row => row.id === snapshot.user_id)?.managed_accounts || []) as string[];
+    const userSales = sales.filter(row => managed.includes(row.account_id as string));
+    const revenue = userSales.reduce((sum, row) => sum + Number(row.total_purchases), 0);
+    const commission = userSales.reduce((sum, row) => sum + Number(row.gross_commission), 0);
+    return toCents(snapshot.total_revenue) !== toCents(revenue) || toCents(snapshot.total_commission) !== toCents(commission);
+  });
+  if (stale) {
+    throw new DemoError(`Sales data for ${params.period} changed after the incentives were calculated; reload and close the period again`);
+  }
+
+  const existingPeriod = state.tables.payout_periods.find(row => row.period === params.period);
+  const closed = {
+    ...(existingPeriod || db.buildRow('payout_periods', { period: params.period })),
+    status: 'closed',
+    closed_at: new Date().toISOString(),
+    closed_by: user.id,
+  };
+  state.tables.payout_periods = [...state.tables.payout_periods.filter(row => row !== existingPeriod), closed];
+  db.recordChange(state, 'payout_periods', existingPeriod || null, closed);
+
+  const userIds = new Set(params.snapshots.map(snapshot => snapshot.user_id));
+  db.deleteRows(state, 'payout_snapshots', state.tables.payout_snapshots.filter(row =>
+    row.period === params.period && !userIds.has(row.user_id)
+  ));
+
+  for (const snapshot of params.snapshots) {
+    const existing = state.tables.payout_snapshots.find(row => row.period === params.period && row.user_id === snapshot.user_id);
+    const saved = existing
+      ? { ...existing, ...clone(snapshot), period: params.period }
+      : db.buildRow('payout_snapshots', { ...snapshot, period: params.period });
+    state.tables.payout_snapshots = [...state.tables.payout_snapshots.filter(row => row !== existing), saved];
+    db.recordChange(state, 'payout_snapshots', existing || null, saved);
+  }
+  db.persist(state);
+
+  return clone(closed);
+};
+
+// Same as the accept_invitation SQL function: turns the caller's pending invitation into their users row
+const acceptInvitation = (db: DemoDatabase, state: DemoState): DemoRow | null => {
+  const authUser = state.authUsers.find(user => user.id === state.session?.user_id);
+  const invitation = authUser && state.tables.user_invitations.find(row =>
+    row.email === authUser.email.toLowerCase() && row.accepted_at === null
+  );
+  if (!authUser || !invitation) return null;
+
+  const existing = state.tables.users.find(user => user.id === authUser.id);
+  const profile: DemoRow = {
+    id: authUser.id,
+    name: invitation.name || String(invitation.email).split('@')[0],
+    email: invitation.email,
+    created_at: new Date().toISOString(),
+    ...existing,
+    role: invitation.role,
+    managed_accounts: invitation.managed_accounts,
+  };
+
+  const accepted = { ...invitation, accepted_at: new Date().toISOString() };
+
+  state.tables.users = [...state.tables.users.filter(user => user.id !== authUser.id), profile];
+  state.tables.user_invitations = state.tables.user_invitations.map(row => (row.id === invitation.id ? accepted : row));
+  db.recordChange(state, 'users', existing || null, profile);
+  db.recordChange(state, 'user_invitations', invitation, accepted);
+
+  return clone(profile);
+};
+
+// Last day of the month before the current one: rules ended now still apply to earlier months
+const getLastEndedDay = (): string => getPreviousDay(`${getPeriod(new Date().toISOString())}-01`);
+
+// The rule's end date once it is deactivated, never before the day before it takes effect
+const getRuleEnd = (rule: DemoRow): string => {
+  const ended = getLastEndedDay();
+  const end = rule.effective_to && compareValues(rule.effective_to, ended) < 0 ? rule.effective_to as string : ended;
+  const beforeStart = getPreviousDay(rule.effective_from as string);
+  return compareValues(end, beforeStart) < 0 ? beforeStart : end;
+};
+
+// Ends every version of the rule still in force after the previous month
+const endRuleVersions = (db: DemoDatabase, state: DemoState, ruleId: string) => {
+  const ended = getLastEndedDay();
+
+  state.tables.incentive_rule_versions
+    .filter(row => row.rule_id === ruleId && (!row.effective_to || compareValues(row.effective_to, ended) > 0))
+    .forEach(version => {
+      const beforeStart = getPreviousDay(version.effective_from as string);
+      const closed = { ...version, effective_to: compareValues(ended, beforeStart) < 0 ? beforeStart : ended };
+      state.tables.incentive_rule_versions = state.tables.incentive_rule_versions.map(row => (row === version ? closed : row));
+      db.recordChange(state, 'incentive_rule_versions', version, closed);
+    });
+};
+
+interface SaveIncentiveRuleParams {
+  rule_id: string | null;
+  rule: DemoRow;
+  tiers?: DemoRow[] | null;
+}
+
+// Same checks, tier matching and versioning as the save_incentive_rule SQL function; everything is
+// validated before the first write, so a rejected save changes nothing
+const saveIncentiveRule = (db: DemoDatabase, state: DemoState, params: SaveIncentiveRuleParams): DemoRow => {
+  const user = db.getCurrentUser(state);
+  if (!user || !db.hasPermission(state, user, 'incentives.manage')) {
+    throw new DemoError('Only incentive managers can change incentive rules', '42501');
+  }
+
+  // Keys left undefined are dropped when the request is sent as JSON
+  const fields = Object.fromEntries(Object.entries(params.rule).filter(([column, value]) =>
+    value !== undefined && column !== 'id' && column !== 'created_at' && column !== 'deleted_at'
+  ));
+
+  const existing = params.rule_id
+    ? db.readRows(state, 'incentive_rules').find(row => row.id === params.rule_id && !row.deleted_at)
+    : undefined;
+  if (params.rule_id && !existing) throw new DemoError(`Incentive rule ${params.rule_id} not found`);
+
+  const latestVersion = existing && state.tables.incentive_rule_versions
+    .filter(row => row.rule_id === existing.id)
+    .sort((a, b) => (b.version as number) - (a.version as number))[0];
+
+  const saved = existing ? { ...existing, ...clone(fields) } : db.buildRow('incentive_rules', fields);
+  if (existing && !('effective_from' in fields)) {
+    const currentMonth = `${getPeriod(new Date().toISOString())}-01`;
+    saved.effective_from = compareValues(currentMonth, existing.effective_from) > 0 ? currentMonth : existing.effective_from;
+  }
+  saved.effective_from = `${getPeriod(saved.effective_from)}-01`;
+  saved.effective_to = saved.effective_to ? getMonthEnd(saved.effective_to) : null;
+
+  const deactivating = !saved.is_active && (!existing || !!existing.is_active);
+  const reactivating = !!existing && !existing.is_active && !!saved.is_active;
+
+  const tiers = params.tiers;
+  const currentTiers = state.tables.incentive_tiers
+    .filter(row => row.rule_id === saved.id)
+    .sort((a, b) => compareValues(a.revenue_threshold, b.revenue_threshold));
+
+  if (tiers) {
+    tiers.forEach((tier, index) => {
+      if (Number(tier.revenue_threshold) < 0 || Number(tier.incentive_rate) < 0) {
+        throw new DemoError('Tier thresholds and rates cannot be negative');
+      }
+      if (index > 0 && Number(tier.revenue_threshold) <= Number(tiers[index - 1].revenue_threshold)) {
+        throw new DemoError('Tier thresholds must be in ascending order');
+      }
+    });
+  }
+
+  const thresholds = (tiers || currentTiers).map(tier => Number(tier.revenue_threshold));
+  if (thresholds.length > 0 && Number(saved.base_revenue_threshold) > Math.min(...thresholds)) {
+    throw new DemoError('The base revenue threshold cannot be above the first tier threshold');
+  }
+
+  // Only the terms used in calculations start a new version
+  const toTerms = (tierRows: DemoRow[]) => tierRows.map(tier => [Number(tier.revenue_threshold), Number(tier.incentive_rate)]);
+  const termsChanged = !existing || !latestVersion
+    // The versions of an inactive rule have all ended, so reactivating it starts a new one
+    || reactivating
+    || ['min_commission_threshold', 'commission_rate_min', 'commission_rate_max', 'base_revenue_threshold', 'calculation_mode']
+      .some(column => saved[column] !== existing[column])
+    || (!!tiers && JSON.stringify(toTerms(tiers)) !== JSON.stringify(toTerms(currentTiers)));
+
+  if (deactivating && termsChanged && existing) {
+    throw new DemoError('Deactivate the rule without changing its terms');
+  }
+
+  if (!termsChanged) {
+    saved.effective_from = existing.effective_from;
+  } else if (latestVersion && compareValues(saved.effective_from, latestVersion.effective_from) < 0) {
+    throw new DemoError(`Changes cannot take effect before ${getPeriod(latestVersion.effective_from)}, when the current version starts`);
+  }
+
+  if (reactivating && saved.effective_to && compareValues(saved.effective_to, saved.effective_from) < 0) {
+    saved.effective_to = null;
+  }
+
+  // A deactivated rule stops applying from the current month; months before keep their incentives
+  if (deactivating) {
+    saved.effective_to = getRuleEnd(saved);
+  } else if (saved.effective_to && compareValues(saved.effective_to, saved.effective_from) < 0) {
+    throw new DemoError('The rule cannot end before it takes effect');
+  }
+
+  if (existing) {
+    state.tables.incentive_rules = state.tables.incentive_rules.map(row => (row === existing ? saved : row));
+  } else {
+    state.tables.incentive_rules = [...state.tables.incentive_rules, saved];
+  }
+  db.recordChange(state, 'incentive_rules', existing || null, saved);
+
+  if (tiers) {
+    const kept: DemoRow[] = [];
+
+    for (const tier of tiers) {
+      const values = { revenue_threshold: Number(tier.revenue_threshold), incentive_rate: Number(tier.incentive_rate) };
+      const matched = currentTiers.find(row => !kept.includes(row) && (
+        tier.id ? row.id === tier.id : row.revenue_threshold === values.revenue_threshold
+      ));
+
+      if (matched) {
+        const updated = { ...matched, ...values };
+        state.tables.incentive_tiers = state.tables.incentive_tiers.map(row => (row === matched ? updated : row));
+        db.recordChange(state, 'incentive_tiers', matched, updated);
+        kept.push(matched);
+      } else {
+        const inserted = db.buildRow('incentive_tiers', { rule_id: saved.id, ...values });
+        state.tables.incentive_tiers = [...state.tables.incentive_tiers, inserted];
+        db.recordChange(state, 'incentive_tiers', null, inserted);
+      }
+    }
+
+    db.deleteRows(state, 'incentive_tiers', currentTiers.filter(row => !kept.includes(row)));
+  }
+
+  const savedTiers = state.tables.incentive_tiers
+    .filter(row => row.rule_id === saved.id)
+    .sort((a, b) => compareValues(a.revenue_threshold, b.revenue_threshold));
+
+  const setVersionEnd = (version: DemoRow, effectiveTo: string | null) => {
+    const closed = { ...version, effective_to: effectiveTo };
+    state.tables.incentive_rule_versions = state.tables.incentive_rule_versions.map(row => (row === version ? closed : row));
+    db.recordChange(state, 'incentive_rule_versions', version, closed);
+  };
+
+  if (termsChanged) {
+    // A version that had already ended earlier keeps its end date
+    const previousDay = getPreviousDay(saved.effective_from);
+    if (latestVersion && (!latestVersion.effective_to || compareValues(latestVersion.effective_to, saved.effective_from) >= 0)) {
+      setVersionEnd(latestVersion, previousDay);
+    }
+
+    const version = db.buildRow('incentive_rule_versions', {
+      rule_id: saved.id,
+      version: ((latestVersion?.version as number) || 0) + 1,
+      effective_from: saved.effective_from,
+      effective_to: saved.effective_to,
+      min_commission_threshold: saved.min_commission_threshold,
+      commission_rate_min: saved.commission_rate_min,
+      commission_rate_max: saved.commission_rate_max,
+      base_revenue_threshold: saved.base_revenue_threshold,
+      calculation_mode: saved.calculation_mode,
+      tiers: savedTiers.map(tier => {
+        const values = { ...tier };
+        delete values.rule_id;
+        return values;
+      }),
+      created_by: user.id,
+    });
+    state.tables.incentive_rule_versions = [...state.tables.incentive_rule_versions, version];
+    db.recordChange(state, 'incentive_rule_versions', null, version);
+  } else if (deactivating) {
+    endRuleVersions(db, state, saved.id as string);
+  } else if (latestVersion && saved.effective_to !== existing.effective_to) {
+    setVersionEnd(latestVersion, saved.effective_to as string | null);
+  }
+  db.persist(state);
+
+  const savedVersions = state.tables.incentive_rule_versions
+    .filter(row => row.rule_id === saved.id)
+    .sort((a, b) => (a.version as number) - (b.version as number));
+
+  return clone({ ...saved, tiers: savedTiers, versions: savedVersions });
+};
+
+// Same checks and end dates as the delete_incentive_rule SQL function
+const deleteIncentiveRule = (db: DemoDatabase, state: DemoState, ruleId: string): DemoRow => {
+  const user = db.getCurrentUser(state);
+  if (!user || !db.hasPermission(state, user, 'incentives.manage')) {
+    throw new DemoError('Only incentive managers can change incentive rules', '42501');
+  }
+
+  const existing = db.readRows(state, 'incentive_rules').find(row => row.id === ruleId && !row.deleted_at);
+  if (!existing) throw new DemoError(`Incentive rule ${ruleId} not found`);
+
+  endRuleVersions(db, state, ruleId);
+
+  const deleted = { ...existing, is_active: false, effective_to: getRuleEnd(existing), deleted_at: new Date().toISOString() };
+  state.tables.incentive_rules = state.tables.incentive_rules.map(row => (row === existing ? deleted : row));
+  db.recordChange(state, 'incentive_rules', existing, deleted);
+  db.persist(state);
+
+  const tiers = state.tables.incentive_tiers
+    .filter(row => row.rule_id === ruleId)
+    .sort((a, b) => compareValues(a.revenue_threshold, b.revenue_threshold));
+  const versions = state.tables.incentive_rule_versions
+    .filter(row => row.rule_id === ruleId)
+    .sort((a, b) => (a.version as number) - (b.version as number));
+
+  return clone({ ...deleted, tiers, versions });
+};
+
+type AdminUsersRequest =
+  | { action: 'invite'; email: string; name: string; role: string; managed_accounts: string[] }
+  | { action: 'disable' | 'enable' | 'delete'; user_id: string };
+
+// Same checks and steps as supabase/functions/admin-users, without sending email
+const adminUsers = (db: DemoDatabase, state: DemoState, request: AdminUsersRequest): DemoRow => {
+  const caller = db.getCurrentUser(state);
+  if (!caller || caller.role !== 'superadmin' || caller.disabled_at) {
+    throw new DemoError('Only super admins can manage team members', '403');
+  }
+
+  if (request.action === 'invite') {
+    const email = request.email.trim().toLowerCase();
+    if (state.tables.users.some(user => user.email === email)) {
+      throw new DemoError('A user with this email address already exists.', '409');
+    }
+
+    const existing = state.tables.user_invitations.find(row => row.email === email);
+    const invitation = db.buildRow('user_invitations', {
+      ...existing,
+      email,
+      name: request.name,
+      role: request.role,
+      managed_accounts: request.role !== 'superadmin' ? request.managed_accounts : [],
+      invited_by: caller.id,
+      accepted_at: null,
+    });
+    state.tables.user_invitations = [...state.tables.user_invitations.filter(row => row !== existing), invitation];
+    db.recordChange(state, 'user_invitations', existing || null, invitation);
+    if (!state.authUsers.some(user => user.email === email)) {
+      state.authUsers = [...state.authUsers, { id: crypto.randomUUID(), email, password: '' }];
+    }
+    return clone(invitation);
+  }
+
+  if (request.user_id === caller.id) throw new DemoError('You cannot disable or delete your own account.', '400');
+  const profile = state.tables.users.find(user => user.id === request.user_id);
+
+  if (request.action === 'delete') {
+    // auth.users cascades into the users table
+    state.authUsers = state.authUsers.filter(user => user.id !== request.user_id);
+    if (profile) {
+      db.deleteRows(state, 'users', [profile]);
+      db.deleteRows(state, 'user_invitations', state.tables.user_invitations.filter(row => row.email === String(profile.email).toLowerCase()));
+    }
+    return { id: request.user_id };
+  }
+
+  if (!profile) throw new DemoError('User not found', '404');
+  const disabled = request.action === 'disable';
+  state.authUsers = state.authUsers.map(user => (user.id === request.user_id ? { ...user, banned: disabled } : user));
+  const before = clone(profile);
+  profile.disabled_at = disabled ? new Date().toISOString() : null;
+  db.recordChange(state, 'users', before, profile);
+  return clone(profile);
+};
+
+const readAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+// Files are kept as data URLs so their "public URLs" work offline and survive reloads.
+// Writes follow the avatars bucket policies: only inside the folder named after the caller's id.
+const createDemoStorage = (db: DemoDatabase) => ({
+  from: (bucket: string) => {
+    const canWriteFolder = (state: DemoState, path: string) => {
+      return !!state.session && path.split('/')[0] === state.session.user_id;
+    };
+
+    return {
+      upload: async (path: string, file: Blob, options: { upsert?: boolean } = {}) => {
+        const state = await db.getState();
+        const key = `${bucket}/${path}`;
+
+        if (!canWriteFolder(state, path)) {
+          return { data: null, error: new DemoError('new row violates row-level security policy', '403') };
+        }
+        if (state.files[key] && !options.upsert) {
+          return { data: null, error: new DemoError('The resource already exists', '409') };
+        }
+
+        state.files[key] = await readAsDataUrl(file);
+        db.persist(state);
+        return { data: { path, fullPath: key }, error: null };
+      },
+
+      list: async (folder: string) => {
+        const state = await db.getState();
+        const prefix = `${bucket}/${folder}/`;
+        const names = Object.keys(state.files)
+          .filter(key => key.startsWith(prefix))
+          .map(key => key.slice(prefix.length))
+          .filter(name => !name.includes('/'));
+        return { data: names.map(name => ({ name })), error: null };
+      },
+
+      remove: async (paths: string[]) => {
+        const state = await db.getState();
+        const removable = paths.filter(path => canWriteFolder(state, path) && state.files[`${bucket}/${path}`]);
+        removable.forEach(path => delete state.files[`${bucket}/${path}`]);
+        db.persist(state);
+        return { data: removable.map(name => ({ name })), error: null };
+      },
+
+      getPublicUrl: (path: string) => {
+        return { data: { publicUrl: db.getLoadedState()?.files[`${bucket}/${path}`] || '' } };
+      },
+    };
+  },
+});
+
+// Offline stand-in for the Supabase client, covering the query builder, RPCs, auth, storage and Edge Function calls the app makes
+interface RealtimeBinding {
+  event: string;
+  table: string;
+  callback: (payload: DemoRow) => void;
+}
+
+// postgres_changes only. Like Realtime, inserts and updates reach subscribers that can read the row,
+// and deletes carry just the primary key.
+class DemoChannel {
+  private bindings: RealtimeBinding[] = [];
+  private stopListening: (() => void) | null = null;
+
+  constructor(private db: DemoDatabase) {}
+
+  on(_type: 'postgres_changes', filter: { event: string; schema?: string; table: string }, callback: (payload: DemoRow) => void) {
+    this.bindings.push({ event: filter.event, table: filter.table, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void) {
+    this.stopListening = this.db.subscribe((state, changes) => this.deliver(state, changes));
+    callback?.('SUBSCRIBED');
+    return this;
+  }
+
+  async unsubscribe() {
+    this.stopListening?.();
+    this.stopListening = null;
+    return 'ok';
+  }
+
+  private deliver(state: DemoState, changes: DemoChange[]) {
+    for (const [table, before, after] of changes) {
+      const bindings = this.bindings.filter(binding => binding.table === table);
+      if (bindings.length === 0 || (after && !this.db.canRead(state, table, after))) continue;
+
+      const eventType = !before ? 'INSERT' : !after ? 'DELETE' : 'UPDATE';
+      const payload: DemoRow = {
+        schema: 'public',
+        table,
+        commit_timestamp: new Date().toISOString(),
+        errors: [],
+        eventType,
+        new: after ? clone(after) : {},
+        old: before ? Object.fromEntries((PRIMARY_KEYS[table] || ['id']).map(column => [column, before[column]])) : {},
+      };
+
+      bindings
+        .filter(binding => binding.event === '*' || binding.event === eventType)
+        .forEach(binding => binding.callback(payload));
+    }
+  }
+}
+
+export const createDemoClient = (): SupabaseClient => {
+  const db = new DemoDatabase();
+
+  const rpc = async (name: string, params: Record<string, unknown> = {}) => {
+    const state = await db.getState();
+
+    try {
+      if (name === 'get_sales_totals') {
+        return { data: getSalesTotals(db, state, params as unknown as SalesTotalsParams), error: null };
+      }
+      if (name === 'accept_invitation') {
+        const profile = acceptInvitation(db, state);
+        db.persist(state);
+        return { data: profile, error: null };
+      }
+      if (name === 'import_sales_data') {
+        return { data: importSalesData(db, state, params as unknown as ImportSalesDataParams), error: null };
+      }
+      if (name === 'rollback_import_batch') {
+        return { data: rollbackImportBatch(db, state, params.batch_id as string), error: null };
+      }
+      if (name === 'close_payout_period') {
+        return { data: closePayoutPeriod(db, state, params as unknown as ClosePayoutPeriodParams), error: null };
+      }
+      if (name === 'save_incentive_rule') {
+        return { data: saveIncentiveRule(db, state, params as unknown as SaveIncentiveRuleParams), error: null };
+      }
+      if (name === 'delete_incentive_rule') {
+        return { data: deleteIncentiveRule(db, state, params.rule_id as string), error: null };
+      }
+      throw new DemoError(`Could not find the function public.${name}`, 'PGRST202');
+    } catch (err) {
+      return { data: null, error: err instanceof DemoError ? err : new DemoError(String(err)) };
+    }
+  };
+
+  const functions = {
+    invoke: async (name: string, { body }: { body: AdminUsersRequest }) => {
+      const state = await db.getState();
+
+      try {
+        if (name !== 'admin-users') throw new DemoError(`Function ${name} not found`, '404');
+        const data = adminUsers(db, state, body);
+        db.persist(state);
+        return { data, error: null };
+      } catch (err) {
+        return { data: null, error: err instanceof DemoError ? err : new DemoError(String(err)) };
+      }
+    },
+  };
+
+  const client = {
+    from: (table: string) => new DemoQueryBuilder(db, table),
+    rpc,
+    auth: createDemoAuth(db),
+    storage: createDemoStorage(db),
+    functions,
+    channel: () => new DemoChannel(db),
+    removeChannel: (channel: DemoChannel) => channel.unsubscribe(),
+  };
+
+  return client as unknown as SupabaseClient;
+};
@@ -0,0 +1,187 @@
+// Sample data for demo mode; mirrors supabase/seed.sql so both setups show the same studio
+export type DemoRow = Record<string, unknown>;
+export type DemoTables = Record<string, DemoRow[]>;
+
+export interface DemoAuthUser {
+  id: string;
+  email: string;
+  password: string;
+  banned?: boolean;
+}
+
+export const DEMO_PASSWORD = 'password123';
+
+export const DEMO_AUTH_USERS: DemoAuthUser[] = [
+  { id: '10000000-0000-0000-0000-000000000001', email: 'admin@kimostudio.com', password: DEMO_PASSWORD },
+  { id: '10000000-0000-0000-0000-000000000002', email: 'rina@kimostudio.com', password: DEMO_PASSWORD },
+  { id: '10000000-0000-0000-0000-000000000003', email: 'budi@kimostudio.com', password: DEMO_PASSWORD },
+];
+
+const DEMO_TEAM_ID = '60000000-0000-0000-0000-000000000001';
+
+const ACCOUNT_PROFILES = [
+  { accountId: '30000000-0000-0000-0000-000000000001', dailyClicks: 1400, conversion: 0.045, avgOrder: 165000, commissionRate: 0.065 },
+  { accountId: '30000000-0000-0000-0000-000000000002', dailyClicks: 900, conversion: 0.040, avgOrder: 185000, commissionRate: 0.060 },
+  { accountId: '30000000-0000-0000-0000-000000000003', dailyClicks: 1100, conversion: 0.055, avgOrder: 120000, commissionRate: 0.075 },
+  { accountId: '30000000-0000-0000-0000-000000000004', dailyClicks: 700, conversion: 0.020, avgOrder: 950000, commissionRate: 0.030 },
+  { accountId: '30000000-0000-0000-0000-000000000005', dailyClicks: 400, conversion: 0.018, avgOrder: 780000, commissionRate: 0.035 },
+  { accountId: '30000000-0000-0000-0000-000000000006', dailyClicks: 250, conversion: 0.035, avgOrder: 210000, commissionRate: 0.055 },
+];
+
+// Same defaults as the role_permissions seed in supabase/migrations
+const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  user: ['accounts.edit', 'sales.upload', 'reports.view', 'incentives.view'],
+  team_lead: ['accounts.edit', 'sales.upload', 'reports.view', 'incentives.view', 'incentives.overview'],
+  finance: ['accounts.view_all', 'reports.view', 'incentives.overview', 'payouts.approve'],
+  viewer: ['accounts.view_all', 'reports.view'],
+};
+
+const SALES_DAYS = 120;
+
+// Small seeded generator (mulberry32) so every fresh demo database has the same numbers
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const buildSalesData = (createdAt: string): DemoRow[] => {
+  const random = createRandom(42);
+  const rows: DemoRow[] = [];
+  const today = new Date();
+
+  ACCOUNT_PROFILES.forEach((profile, accountIndex) => {
+    for (let offset = SALES_DAYS - 1; offset >= 0; offset--) {
+      const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset);
+      const clicks = Math.round(profile.dailyClicks * (0.6 + random() * 0.8));
+      const conversion = profile.conversion * (0.7 + random() * 0.6);
+      const avgOrder = profile.avgOrder * (0.85 + random() * 0.3);
+      const orders = Math.round(clicks * conversion);
+
+      rows.push({
+        id: `50000000-0000-0000-${String(accountIndex + 1).padStart(4, '0')}-${String(offset).padStart(12, '0')}`,
+        account_id: profile.accountId,
+        date: toDateString(date),
+        clicks,
+        orders,
+        gross_commission: Math.round(orders * avgOrder * profile.commissionRate),
+        products_sold: Math.round(orders * 1.3),
+        total_purchases: Math.round(orders * avgOrder),
+        new_buyers: Math.round(orders * 0.35),
+        created_at: createdAt,
+      });
+    }
+  });
+
+  return rows;
+};
+
+export const createDemoTables = (): DemoTables => {
+  const createdAt = new Date().toISOString();
+  const withCreatedAt = (rows: DemoRow[]): DemoRow[] => rows.map(row => ({ ...row, created_at: createdAt }));
+  const salesData = buildSalesData(createdAt);
+  // The seeded rules have applied since the first month of sales data
+  const effectiveFrom = `${String(salesData[0].date).slice(0, 7)}-01`;
+
+  const incentiveRules = withCreatedAt([
+    { id: '40000000-0000-0000-0000-000000000001', name: 'Komisi 5% - 7.99%', description: 'Insentif untuk akun dengan rata-rata komisi 5% sampai 7.99%',
+      min_commission_threshold: 50000, commission_rate_min: 5, commission_rate_max: 7.99, base_revenue_threshold: 80000000,
+      calculation_mode: 'progressive', is_active: true, effective_from: effectiveFrom, effective_to: null, deleted_at: null },
+    { id: '40000000-0000-0000-0000-000000000002', name: 'Komisi 8% ke atas', description: 'Insentif untuk akun dengan rata-rata komisi 8% atau lebih',
+      min_commission_threshold: 50000, commission_rate_min: 8, commission_rate_max: 100, base_revenue_threshold: 60000000,
+      calculation_mode: 'flat', is_active: true, effective_from: effectiveFrom, effective_to: null, deleted_at: null },
+  ]);
+  const incentiveTiers = withCreatedAt([
+    { id: '41000000-0000-0000-0000-000000000001', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 80000000, incentive_rate: 0.4 },
+    { id: '41000000-0000-0000-0000-000000000002', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 90000000, incentive_rate: 0.6 },
+    { id: '41000000-0000-0000-0000-000000000003', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 100000000, incentive_rate: 0.8 },
+    { id: '41000000-0000-0000-0000-000000000004', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 110000000, incentive_rate: 1.0 },
+    { id: '41000000-0000-0000-0000-000000000005', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 120000000, incentive_rate: 1.2 },
+    { id: '41000000-0000-0000-0000-000000000006', rule_id: '40000000-0000-0000-0000-000000000001', revenue_threshold: 130000000, incentive_rate: 1.5 },
+    { id: '41000000-0000-0000-0000-000000000007', rule_id: '40000000-0000-0000-0000-000000000002', revenue_threshold: 60000000, incentive_rate: 0.5 },
+    { id: '41000000-0000-0000-0000-000000000008', rule_id: '40000000-0000-0000-0000-000000000002', revenue_threshold: 90000000, incentive_rate: 0.8 },
+    { id: '41000000-0000-0000-0000-000000000009', rule_id: '40000000-0000-0000-0000-000000000002', revenue_threshold: 120000000, incentive_rate: 1.2 },
+  ]);
+
+  return {
+    categories: withCreatedAt([
+      { id: '20000000-0000-0000-0000-000000000001', name: 'Fashion', description: 'Pakaian, sepatu dan aksesoris' },
+      { id: '20000000-0000-0000-0000-000000000002', name: 'Kecantikan', description: 'Skincare dan kosmetik' },
+      { id: '20000000-0000-0000-0000-000000000003', name: 'Elektronik', description: 'Gadget dan aksesoris elektronik' },
+      { id: '20000000-0000-0000-0000-000000000004', name: 'Rumah Tangga', description: 'Perlengkapan rumah dan dapur' },
+    ]),
+    accounts: withCreatedAt([
+      { id: '30000000-0000-0000-0000-000000000001', username: 'kimo.fashion', email: 'fashion@kimostudio.com', phone: '081200000001',
+        status: 'active', payment_data: 'sah', account_code: 'ACC000001',
+        category_id: '20000000-0000-0000-0000-000000000001', user_id: DEMO_AUTH_USERS[0].id },
+      { id: '30000000-0000-0000-0000-000000000002', username: 'kimo.style', email: 'style@kimostudio.com', phone: '081200000002',
+        status: 'active', payment_data: 'disetujui', account_code: 'ACC000002',
+        category_id: '20000000-0000-0000-0000-000000000001', user_id: DEMO_AUTH_USERS[0].id },
+      { id: '30000000-0000-0000-0000-000000000003', username: 'kimo.glow', email: 'glow@kimostudio.com', phone: '081200000003',
+        status: 'active', payment_data: 'dimasukkan', account_code: 'ACC000003',
+        category_id: '20000000-0000-0000-0000-000000000002', user_id: DEMO_AUTH_USERS[0].id },
+      { id: '30000000-0000-0000-0000-000000000004', username: 'kimo.gadget', email: 'gadget@kimostudio.com', phone: '081200000004',
+        status: 'active', payment_data: 'utamakan', account_code: 'ACC000004',
+        category_id: '20000000-0000-0000-0000-000000000003', user_id: DEMO_AUTH_USERS[0].id },
+      { id: '30000000-0000-0000-0000-000000000005', username: 'kimo.techdeals', email: 'techdeals@kimostudio.com', phone: '081200000005',
+        status: 'violation', payment_data: 'belum diatur', account_code: 'ACC000005',
+        category_id: '20000000-0000-0000-0000-000000000003', user_id: DEMO_AUTH_USERS[0].id },
+      { id: '30000000-0000-0000-0000-000000000006', username: 'kimo.rumah', email: 'rumah@kimostudio.com', phone: '081200000006',
+        status: 'inactive', payment_data: 'belum diatur', account_code: 'ACC000006',
+        category_id: '20000000-0000-0000-0000-000000000004', user_id: DEMO_AUTH_USERS[0].id },
+    ]),
+    users: withCreatedAt([
+      { id: DEMO_AUTH_USERS[0].id, name: 'Super Admin', email: DEMO_AUTH_USERS[0].email, role: 'superadmin', managed_accounts: [] },
+      { id: DEMO_AUTH_USERS[1].id, name: 'Rina Wulandari', email: DEMO_AUTH_USERS[1].email, role: 'team_lead', team_id: DEMO_TEAM_ID, managed_accounts: [
+        '30000000-0000-0000-0000-000000000001',
+        '30000000-0000-0000-0000-000000000002',
+        '30000000-0000-0000-0000-000000000003',
+      ] },
+      { id: DEMO_AUTH_USERS[2].id, name: 'Budi Santoso', email: DEMO_AUTH_USERS[2].email, role: 'user', team_id: DEMO_TEAM_ID, managed_accounts: [
+        '30000000-0000-0000-0000-000000000004',
+        '30000000-0000-0000-0000-000000000005',
+        '30000000-0000-0000-0000-000000000006',
+      ] },
+    ]).map(user => ({ phone: '', address: '', bio: '', avatar_url: null, disabled_at: null, team_id: null, ...user })),
+    teams: withCreatedAt([
+      { id: DEMO_TEAM_ID, name: 'Tim Kimo', lead_id: DEMO_AUTH_USERS[1].id, incentive_target: 1500000000 },
+    ]),
+    sales_data: salesData,
+    incentive_rules: incentiveRules,
+    incentive_tiers: incentiveTiers,
+    incentive_rule_versions: incentiveRules.map((rule, index) => ({
+      id: `42000000-0000-0000-0000-00000000000${index + 1}`,
+      rule_id: rule.id,
+      version: 1,
+      effective_from: rule.effective_from,
+      effective_to: null,
+      min_commission_threshold: rule.min_commission_threshold,
+      commission_rate_min: rule.commission_rate_min,
+      commission_rate_max: rule.commission_rate_max,
+      base_revenue_threshold: rule.base_revenue_threshold,
+      calculation_mode: rule.calculation_mode,
+      tiers: incentiveTiers
+        .filter(tier => tier.rule_id === rule.id)
+        .map(tier => ({ id: tier.id, revenue_threshold: tier.revenue_threshold, incentive_rate: tier.incentive_rate, created_at: createdAt })),
+      created_by: null,
+      created_at: createdAt,
+    })),
+    payout_periods: [],
+    payout_snapshots: [],
+    payout_ledger: [],
+    import_batches: [],
+    user_invitations: [],
+    role_permissions: withCreatedAt(Object.entries(DEFAULT_ROLE_PERMISSIONS).flatMap(([role, permissions]) =>
+      permissions.map(permission => ({ role, permission }))
+    )),
+    audit_log: [],
+  };
+};
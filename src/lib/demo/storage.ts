@@ -0,0 +1,62 @@
+import { DemoAuthUser, DemoTables } from './seed';
+
+export interface DemoSession {
+  access_token: string;
+  refresh_token: string;
+  user_id: string;
+}
+
+export interface DemoState {
+  version: number;
+  tables: DemoTables;
+  authUsers: DemoAuthUser[];
+  session: DemoSession | null;
+  // Storage objects as data URLs, keyed by "bucket/path"
+  files: Record<string, string>;
+}
+
+const DB_NAME = 'kimo-studio-demo';
+const STORE_NAME = 'state';
+const STATE_KEY = 'current';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Without IndexedDB (private windows, some test runners) the demo still works in memory
+export const loadDemoState = async (): Promise<DemoState | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+
+  try {
+    const db = await openDatabase();
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(STATE_KEY);
+      request.onsuccess = () => resolve((request.result as DemoState | undefined) || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (err) {
+    console.warn('Could not load demo data, starting from the seed:', err);
+    return null;
+  }
+};
+
+export const saveDemoState = async (state: DemoState): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put(state, STATE_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (err) {
+    console.warn('Could not save demo data:', err);
+  }
+};
@@ -0,0 +1,331 @@
+import { describe, expect, it } from 'vitest';
+import { Account, IncentiveRule, IncentiveRuleVersion, IncentiveTier, SalesData } from '../types';
+import {
+  calculateIncentive,
+  calculateTierIncentive,
+  findApplicableRule,
+  getMonthPeriod,
+  getQualifyingAccountIds,
+  getRuleInForce,
+  getRulesInForce,
+  isRateInRange,
+} from './incentives';
+
+const CREATED_AT = '2026-01-01T00:00:00.000Z';
+
+const tier = (id: string, revenueThreshold: number, incentiveRate: number): IncentiveTier => ({
+  id,
+  revenue_threshold: revenueThreshold,
+  incentive_rate: incentiveRate,
+  created_at: CREATED_AT,
+});
+
+const TIERS = [tier('tier-1', 1000, 1), tier('tier-2', 5000, 2), tier('tier-3', 10000, 3)];
+
+const buildRule = (overrides: Partial<IncentiveRule> = {}): IncentiveRule => {
+  const rule: IncentiveRule = {
+    id: 'rule-1',
+    name: 'Rule',
+    description: '',
+    min_commission_threshold: 0,
+    commission_rate_min: 0,
+    commission_rate_max: 100,
+    base_revenue_threshold: 0,
+    calculation_mode: 'progressive',
+    tiers: TIERS,
+    is_active: true,
+    effective_from: '2026-01-01',
+    effective_to: null,
+    versions: [],
+    deleted_at: null,
+    created_at: CREATED_AT,
+    ...overrides,
+  };
+
+  // A single open-ended version carrying the rule's own terms
+  return {
+    ...rule,
+    versions: overrides.versions || [{
+      id: `${rule.id}-v1`,
+      rule_id: rule.id,
+      version: 1,
+      effective_from: rule.effective_from,
+      effective_to: rule.effective_to,
+      min_commission_threshold: rule.min_commission_threshold,
+      commission_rate_min: rule.commission_rate_min,
+      commission_rate_max: rule.commission_rate_max,
+      base_revenue_threshold: rule.base_revenue_threshold,
+      calculation_mode: rule.calculation_mode,
+      tiers: rule.tiers,
+      created_by: null,
+      created_at: CREATED_AT,
+    }],
+  };
+};
+
+const version = (
+  number: number,
+  effectiveFrom: string,
+  effectiveTo: string | null,
+  overrides: Partial<IncentiveRuleVersion> = {}
+): IncentiveRuleVersion => ({
+  id: `rule-1-v${number}`,
+  rule_id: 'rule-1',
+  version: number,
+  effective_from: effectiveFrom,
+  effective_to: effectiveTo,
+  min_commission_threshold: 0,
+  commission_rate_min: 0,
+  commission_rate_max: 100,
+  base_revenue_threshold: 0,
+  calculation_mode: 'flat',
+  tiers: TIERS,
+  created_by: null,
+  created_at: CREATED_AT,
+  ...overrides,
+});
+
+const account = (id: string): Account => ({
+  id,
+  username: id,
+  email: '',
+  phone: '',
+  status: 'active',
+  payment_data: 'belum diatur',
+  account_code: id,
+  category_id: '',
+  user_id: null,
+  created_at: CREATED_AT,
+});
+
+const sale = (accountId: string, date: string, totalPurchases: number, grossCommission: number): SalesData => ({
+  id: `${accountId}-${date}`,
+  account_id: accountId,
+  date,
+  clicks: 0,
+  orders: 0,
+  gross_commission: grossCommission,
+  products_sold: 0,
+  total_purchases: totalPurchases,
+  new_buyers: 0,
+  created_at: CREATED_AT,
+});
+
+describe('calculateTierIncentive', () => {
+  it('pays nothing below the base revenue threshold', () => {
+    const result = calculateTierIncentive(buildRule({ base_revenue_threshold: 2000 }), 1500);
+
+    expect(result.currentTier).toBeNull();
+    expect(result.nextTier?.id).toBe('tier-2');
+    expect(result.incentiveAmount).toBe(0);
+  });
+
+  it('pays nothing below the first tier threshold', () => {
+    const result = calculateTierIncentive(buildRule(), 999);
+
+    expect(result.currentTier).toBeNull();
+    expect(result.nextTier?.id).toBe('tier-1');
+    expect(result.incentiveAmount).toBe(0);
+  });
+
+  it('reaches a tier exactly at its threshold', () => {
+    const result = calculateTierIncentive(buildRule(), 5000);
+
+    expect(result.currentTier?.id).toBe('tier-2');
+    expect(result.nextTier?.id).toBe('tier-3');
+  });
+
+  it('has no next tier past the last threshold', () => {
+    const result = calculateTierIncentive(buildRule(), 20000);
+
+    expect(result.currentTier?.id).toBe('tier-3');
+    expect(result.nextTier).toBeNull();
+  });
+
+  it('sorts tiers by threshold before matching', () => {
+    const result = calculateTierIncentive(buildRule({ tiers: [...TIERS].reverse() }), 6000);
+
+    expect(result.currentTier?.id).toBe('tier-2');
+    expect(result.nextTier?.id).toBe('tier-3');
+  });
+
+  it('pays the current tier rate on all revenue in flat mode', () => {
+    const result = calculateTierIncentive(buildRule({ calculation_mode: 'flat' }), 6000);
+
+    expect(result.incentiveAmount).toBeCloseTo(120);
+  });
+
+  it('pays each tier rate on the revenue inside its bracket in progressive mode', () => {
+    const result = calculateTierIncentive(buildRule({ calculation_mode: 'progressive' }), 12000);
+
+    // 4000 at 1%, 5000 at 2% and 2000 at 3%
+    expect(result.incentiveAmount).toBeCloseTo(40 + 100 + 60);
+  });
+});
+
+describe('commission rate ranges', () => {
+  it('treats a commission_rate_max of 100 as unbounded', () => {
+    const rule = buildRule({ commission_rate_min: 5, commission_rate_max: 100 });
+
+    expect(isRateInRange(rule, 4.9)).toBe(false);
+    expect(isRateInRange(rule, 5)).toBe(true);
+    expect(isRateInRange(rule, 150)).toBe(true);
+  });
+
+  it('keeps other maximums inclusive', () => {
+    const rule = buildRule({ commission_rate_min: 5, commission_rate_max: 10 });
+
+    expect(isRateInRange(rule, 10)).toBe(true);
+    expect(isRateInRange(rule, 10.1)).toBe(false);
+  });
+
+  it('picks the first rule whose range covers the rate', () => {
+    const rules = [
+      buildRule({ id: 'low', commission_rate_min: 0, commission_rate_max: 5 }),
+      buildRule({ id: 'high', commission_rate_min: 5, commission_rate_max: 100 }),
+    ];
+
+    expect(findApplicableRule(rules, 3)?.id).toBe('low');
+    expect(findApplicableRule(rules, 120)?.id).toBe('high');
+  });
+});
+
+describe('min_commission_threshold', () => {
+  const salesData = [
+    sale('acc-1', '2026-03-01', 8000, 800),
+    sale('acc-2', '2026-03-02', 4000, 40),
+    sale('acc-2', '2026-03-03', 2000, 50),
+  ];
+
+  it('keeps accounts whose commission reaches the minimum', () => {
+    const rule = buildRule({ min_commission_threshold: 90 });
+
+    expect(getQualifyingAccountIds(['acc-1', 'acc-2'], salesData, rule)).toEqual(['acc-1', 'acc-2']);
+  });
+
+  it('drops accounts below the minimum from the qualifying revenue', () => {
+    const calculation = calculateIncentive({
+      userId: 'user-1',
+      userName: 'User',
+      accounts: [account('acc-1'), account('acc-2')],
+      salesData,
+      rules: [buildRule({ min_commission_threshold: 100, calculation_mode: 'flat' })],
+      period: getMonthPeriod('2026-03'),
+    });
+
+    // The commission rate is measured over every managed account
+    expect(calculation.total_revenue).toBe(14000);
+    expect(calculation.total_commission).toBe(890);
+    expect(calculation.qualifying_account_ids).toEqual(['acc-1']);
+    expect(calculation.qualifying_revenue).toBe(8000);
+    expect(calculation.current_tier?.id).toBe('tier-2');
+    expect(calculation.incentive_amount).toBeCloseTo(160);
+  });
+
+  it('ignores sales outside the period', () => {
+    const calculation = calculateIncentive({
+      userId: 'user-1',
+      userName: 'User',
+      accounts: [account('acc-1')],
+      salesData: [...salesData, sale('acc-1', '2026-04-01', 50000, 5000)],
+      rules: [buildRule()],
+      period: getMonthPeriod('2026-03'),
+    });
+
+    expect(calculation.total_revenue).toBe(8000);
+  });
+});
+
+describe('rules in force', () => {
+  it('judges a deactivated rule by its version dates', () => {
+    const rule = buildRule({ is_active: false, effective_to: '2026-03-31' });
+
+    expect(getRulesInForce([rule], getMonthPeriod('2026-03')).map(r => r.id)).toEqual(['rule-1']);
+    expect(getRulesInForce([rule], getMonthPeriod('2026-04'))).toEqual([]);
+  });
+
+  it('keeps paying a past month under a rule deactivated since', () => {
+    const calculation = calculateIncentive({
+      userId: 'user-1',
+      userName: 'User',
+      accounts: [account('acc-1')],
+      salesData: [sale('acc-1', '2026-03-01', 6000, 600)],
+      rules: [buildRule({ is_active: false, effective_to: '2026-03-31', calculation_mode: 'flat' })],
+      period: getMonthPeriod('2026-03'),
+    });
+
+    expect(calculation.applicable_rule?.id).toBe('rule-1');
+    expect(calculation.incentive_amount).toBeCloseTo(120);
+  });
+
+  describe('with a second version from April', () => {
+    const V2_TIERS = [tier('tier-4', 2000, 5)];
+    const rule = buildRule({
+      min_commission_threshold: 100,
+      base_revenue_threshold: 1000,
+      calculation_mode: 'flat',
+      tiers: V2_TIERS,
+      effective_from: '2026-04-01',
+      versions: [
+        version(1, '2026-01-01', '2026-03-31'),
+        version(2, '2026-04-01', null, { min_commission_threshold: 100, base_revenue_threshold: 1000, tiers: V2_TIERS }),
+      ],
+    });
+
+    const calculateMonth = (month: string, commission: number) => calculateIncentive({
+      userId: 'user-1',
+      userName: 'User',
+      accounts: [account('acc-1')],
+      salesData: [sale('acc-1', `${month}-10`, 6000, commission)],
+      rules: [rule],
+      period: getMonthPeriod(month),
+    });
+
+    it('uses the terms of the version whose months cover the period', () => {
+      expect(getRuleInForce(rule, getMonthPeriod('2025-12'))).toBeNull();
+      expect(getRuleInForce(rule, getMonthPeriod('2026-03'))).toMatchObject({ min_commission_threshold: 0, base_revenue_threshold: 0, tiers: TIERS });
+      expect(getRuleInForce(rule, getMonthPeriod('2026-04'))).toMatchObject({ min_commission_threshold: 100, base_revenue_threshold: 1000, tiers: V2_TIERS });
+      expect(getRuleInForce(rule, getMonthPeriod('2027-01'))?.tiers).toEqual(V2_TIERS);
+    });
+
+    it('calculates months before and after the cutover with different tiers', () => {
+      const march = calculateMonth('2026-03', 600);
+      const april = calculateMonth('2026-04', 600);
+
+      expect(march.current_tier?.id).toBe('tier-2');
+      expect(march.incentive_amount).toBeCloseTo(120);
+      expect(april.current_tier?.id).toBe('tier-4');
+      expect(april.incentive_amount).toBeCloseTo(300);
+    });
+
+    it('applies the minimum commission of the version in force', () => {
+      // 60 is enough under version 1 but below the 100 version 2 requires
+      expect(calculateMonth('2026-03', 60).qualifying_revenue).toBe(6000);
+      expect(calculateMonth('2026-04', 60).qualifying_revenue).toBe(0);
+    });
+  });
+
+  it('keeps applying a deleted rule to the months before its deletion', () => {
+    // delete_incentive_rule in April ends the rule and its versions at the end of March
+    const rule = buildRule({
+      is_active: false,
+      deleted_at: '2026-04-10T08:00:00.000Z',
+      effective_to: '2026-03-31',
+      calculation_mode: 'flat',
+    });
+
+    const calculate = (month: string) => calculateIncentive({
+      userId: 'user-1',
+      userName: 'User',
+      accounts: [account('acc-1')],
+      salesData: [sale('acc-1', `${month}-10`, 6000, 600)],
+      rules: [rule],
+      period: getMonthPeriod(month),
+    });
+
+    expect(calculate('2026-03').applicable_rule?.id).toBe('rule-1');
+    expect(calculate('2026-03').incentive_amount).toBeCloseTo(120);
+    expect(calculate('2026-04').applicable_rule).toBeNull();
+    expect(calculate('2026-04').incentive_amount).toBe(0);
+  });
+});
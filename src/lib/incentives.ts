@@ -0,0 +1,223 @@
+import { Account, SalesData, IncentiveRule, IncentiveRuleVersion, IncentiveTier, IncentiveCalculation } from '../types';
+
+export interface IncentivePeriod {
+  start: string; // inclusive, YYYY-MM-DD
+  end: string;   // inclusive, YYYY-MM-DD
+}
+
+export interface IncentiveInput {
+  userId: string;
+  userName: string;
+  accounts: Account[];
+  salesData: SalesData[];
+  rules: IncentiveRule[];
+  period: IncentivePeriod;
+}
+
+interface TierResult {
+  currentTier: IncentiveTier | null;
+  nextTier: IncentiveTier | null;
+  incentiveAmount: number;
+}
+
+// Build the inclusive date range for a month in YYYY-MM format
+export const getMonthPeriod = (month: string): IncentivePeriod => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(year, monthIndex, 0).getDate();
+
+  return {
+    start: `${month}-01`,
+    end: `${month}-${String(lastDay).padStart(2, '0')}`,
+  };
+};
+
+export const getCurrentMonth = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Payout periods are keyed by month in YYYY-MM format
+export const getMonthKey = (date: string): string => date.slice(0, 7);
+
+export const isInPeriod = (date: string, period: IncentivePeriod): boolean => {
+  // Sales dates are stored as YYYY-MM-DD so string comparison is timezone safe
+  const day = date.slice(0, 10);
+  return day >= period.start && day <= period.end;
+};
+
+// A commission_rate_max of 100 means the rule has no upper bound
+export const isRateInRange = (rule: IncentiveRule, commissionRate: number): boolean => {
+  return commissionRate >= rule.commission_rate_min &&
+    (rule.commission_rate_max === 100 || commissionRate <= rule.commission_rate_max);
+};
+
+// Versions start and end on month boundaries, so the period's first day decides
+export const isVersionInForce = (version: IncentiveRuleVersion, period: IncentivePeriod): boolean => {
+  return version.effective_from <= period.start && (!version.effective_to || version.effective_to >= period.start);
+};
+
+// The rule with the terms of its version in force during the period, or null when no version covers it
+export const getRuleInForce = (rule: IncentiveRule, period: IncentivePeriod): IncentiveRule | null => {
+  const version = rule.versions.find(v => isVersionInForce(v, period));
+  if (!version) return null;
+
+  return {
+    ...rule,
+    min_commission_threshold: version.min_commission_threshold,
+    commission_rate_min: version.commission_rate_min,
+    commission_rate_max: version.commission_rate_max,
+    base_revenue_threshold: version.base_revenue_threshold,
+    calculation_mode: version.calculation_mode,
+    tiers: version.tiers,
+  };
+};
+
+export const getRulesInForce = (rules: IncentiveRule[], period: IncentivePeriod): IncentiveRule[] => {
+  return rules
+    .map(rule => getRuleInForce(rule, period))
+    .filter((rule): rule is IncentiveRule => rule !== null);
+};
+
+// Expects the rules in force for the period: their version dates, not is_active, decide whether they apply
+export const findApplicableRule = (rules: IncentiveRule[], commissionRate: number): IncentiveRule | null => {
+  return rules.find(rule => isRateInRange(rule, commissionRate)) || null;
+};
+
+export const sortTiers = (tiers: IncentiveTier[]): IncentiveTier[] => {
+  return [...tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
+};
+
+// Accounts only count towards an incentive when their own commission reaches the rule minimum
+export const getQualifyingAccountIds = (
+  accountIds: string[],
+  salesData: SalesData[],
+  rule: IncentiveRule
+): string[] => {
+  return accountIds.filter(accountId => {
+    const accountCommission = salesData
+      .filter(data => data.account_id === accountId)
+      .reduce((sum, data) => sum + (data.gross_commission || 0), 0);
+
+    return accountCommission >= rule.min_commission_threshold;
+  });
+};
+
+export const calculateTierIncentive = (rule: IncentiveRule, revenue: number): TierResult => {
+  const sortedTiers = sortTiers(rule.tiers);
+
+  if (revenue < rule.base_revenue_threshold) {
+    return {
+      currentTier: null,
+      nextTier: sortedTiers.find(tier => tier.revenue_threshold > revenue) || sortedTiers[0] || null,
+      incentiveAmount: 0,
+    };
+  }
+
+  let currentIndex = -1;
+  for (let i = 0; i < sortedTiers.length; i++) {
+    if (revenue >= sortedTiers[i].revenue_threshold) {
+      currentIndex = i;
+    } else {
+      break;
+    }
+  }
+
+  const currentTier = currentIndex >= 0 ? sortedTiers[currentIndex] : null;
+  const nextTier = sortedTiers[currentIndex + 1] || null;
+
+  if (!currentTier) {
+    return { currentTier, nextTier, incentiveAmount: 0 };
+  }
+
+  if (rule.calculation_mode === 'flat') {
+    return {
+      currentTier,
+      nextTier,
+      incentiveAmount: (revenue * currentTier.incentive_rate) / 100,
+    };
+  }
+
+  // Progressive: every reached bracket pays its own rate on the revenue inside it
+  let incentiveAmount = 0;
+  for (let i = 0; i <= currentIndex; i++) {
+    const tier = sortedTiers[i];
+    const bracketEnd = sortedTiers[i + 1] ? Math.min(revenue, sortedTiers[i + 1].revenue_threshold) : revenue;
+    incentiveAmount += (bracketEnd - tier.revenue_threshold) * (tier.incentive_rate / 100);
+  }
+
+  return { currentTier, nextTier, incentiveAmount };
+};
+
+export const calculateIncentive = ({
+  userId,
+  userName,
+  accounts,
+  salesData,
+  rules,
+  period,
+}: IncentiveInput): IncentiveCalculation => {
+  const accountIds = accounts.map(acc => acc.id);
+  const periodSalesData = salesData.filter(data =>
+    accountIds.includes(data.account_id) && isInPeriod(data.date, period)
+  );
+
+  // The commission rate that selects a rule is measured over all managed accounts
+  const totalRevenue = periodSalesData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
+  const totalCommission = periodSalesData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
+  const commissionRate = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
+
+  const applicableRule = findApplicableRule(getRulesInForce(rules, period), commissionRate);
+
+  const calculation: IncentiveCalculation = {
+    user_id: userId,
+    user_name: userName,
+    total_revenue: totalRevenue,
+    total_commission: totalCommission,
+    commission_rate: commissionRate,
+    qualifying_revenue: 0,
+    qualifying_account_ids: [],
+    applicable_rule: applicableRule,
+    current_tier: null,
+    next_tier: null,
+    incentive_amount: 0,
+    progress_percentage: 0,
+    remaining_to_next_tier: 0,
+    managed_accounts_count: accounts.length,
+  };
+
+  if (!applicableRule) {
+    return calculation;
+  }
+
+  const qualifyingAccountIds = getQualifyingAccountIds(accountIds, periodSalesData, applicableRule);
+  const qualifyingRevenue = periodSalesData
+    .filter(data => qualifyingAccountIds.includes(data.account_id))
+    .reduce((sum, data) => sum + (data.total_purchases || 0), 0);
+
+  const { currentTier, nextTier, incentiveAmount } = calculateTierIncentive(applicableRule, qualifyingRevenue);
+
+  let progressPercentage = 0;
+  let remainingToNextTier = 0;
+
+  if (nextTier) {
+    const from = currentTier ? currentTier.revenue_threshold : 0;
+    const to = currentTier ? nextTier.revenue_threshold : Math.max(nextTier.revenue_threshold, applicableRule.base_revenue_threshold);
+    const span = to - from;
+
+    progressPercentage = span > 0 ? ((qualifyingRevenue - from) / span) * 100 : 0;
+    remainingToNextTier = Math.max(to - qualifyingRevenue, 0);
+  } else if (currentTier) {
+    progressPercentage = 100;
+  }
+
+  return {
+    ...calculation,
+    qualifying_revenue: qualifyingRevenue,
+    qualifying_account_ids: qualifyingAccountIds,
+    current_tier: currentTier,
+    next_tier: nextTier,
+    incentive_amount: incentiveAmount,
+    progress_percentage: Math.min(Math.max(progressPercentage, 0), 100),
+    remaining_to_next_tier: remainingToNextTier,
+  };
+};
@@ -0,0 +1,55 @@
+import { PayoutLedgerEntry, PayoutStatus } from '../types';
+
+export interface PayoutSummary {
+  draft: number;
+  approved: number;
+  paid: number;
+  disputed: number;
+  outstanding: number;
+}
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  draft: 'Draft',
+  approved: 'Disetujui',
+  paid: 'Dibayar',
+  disputed: 'Disengketakan',
+};
+
+export const PAYOUT_STATUS_STYLES: Record<PayoutStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  approved: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+  disputed: 'bg-red-100 text-red-700',
+};
+
+// draft → approved → paid, with disputes sent back through draft or approval.
+// The enforce_payout_ledger_workflow trigger applies the same transitions in the database.
+export const PAYOUT_STATUS_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  draft: ['approved'],
+  approved: ['paid', 'draft', 'disputed'],
+  paid: ['disputed'],
+  disputed: ['draft', 'approved'],
+};
+
+export const canTransitionPayout = (from: PayoutStatus, to: PayoutStatus): boolean => {
+  return PAYOUT_STATUS_TRANSITIONS[from].includes(to);
+};
+
+// Everything not yet paid counts as outstanding, including disputed amounts
+export const summarizePayouts = (entries: PayoutLedgerEntry[]): PayoutSummary => {
+  const summary: PayoutSummary = { draft: 0, approved: 0, paid: 0, disputed: 0, outstanding: 0 };
+
+  entries.forEach(entry => {
+    summary[entry.status] += entry.amount;
+    if (entry.status !== 'paid') {
+      summary.outstanding += entry.amount;
+    }
+  });
+
+  return summary;
+};
+
+export const formatPeriodLabel = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+};
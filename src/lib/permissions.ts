@@ -0,0 +1,83 @@
+import { Account, Permission, User, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  superadmin: 'Super Admin',
+  team_lead: 'Team Lead',
+  finance: 'Finance',
+  user: 'User',
+  viewer: 'Viewer',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  superadmin: 'Full access, including team management and this permission matrix',
+  team_lead: 'Works their own accounts and follows incentive performance',
+  finance: 'Sees all accounts and approves payouts, but does not edit accounts',
+  user: 'Manages the accounts assigned to them',
+  viewer: 'Read-only access to accounts and reports',
+};
+
+export const ROLE_STYLES: Record<UserRole, string> = {
+  superadmin: 'bg-purple-100 text-purple-800',
+  team_lead: 'bg-indigo-100 text-indigo-800',
+  finance: 'bg-green-100 text-green-800',
+  user: 'bg-blue-100 text-blue-800',
+  viewer: 'bg-gray-100 text-gray-800',
+};
+
+// Order used in role pickers and matrix columns
+export const USER_ROLES: UserRole[] = ['superadmin', 'team_lead', 'finance', 'user', 'viewer'];
+
+export interface PermissionGroup {
+  label: string;
+  permissions: { key: Permission; label: string }[];
+}
+
+// Same keys as the role_permissions rows checked by has_permission() in the database
+export const PERMISSION_GROUPS: PermissionGroup[] = [
+  {
+    label: 'Accounts',
+    permissions: [
+      { key: 'accounts.view_all', label: 'See all accounts, sales and team members' },
+      { key: 'accounts.edit', label: 'Add and edit managed accounts' },
+      { key: 'accounts.delete', label: 'Delete managed accounts' },
+      { key: 'categories.manage', label: 'Manage categories' },
+    ],
+  },
+  {
+    label: 'Sales Data',
+    permissions: [
+      { key: 'sales.upload', label: 'Upload, delete and roll back sales data' },
+      { key: 'reports.view', label: 'View reports' },
+    ],
+  },
+  {
+    label: 'Incentives',
+    permissions: [
+      { key: 'incentives.view', label: 'Open Incentive Quest' },
+      { key: 'incentives.overview', label: 'Open Incentive Overview' },
+      { key: 'incentives.manage', label: 'Edit incentive rules' },
+    ],
+  },
+  {
+    label: 'Payouts',
+    permissions: [
+      { key: 'payouts.manage', label: 'Close periods, create drafts and edit amounts' },
+      { key: 'payouts.approve', label: 'Approve, pay and dispute payouts' },
+    ],
+  },
+];
+
+// Superadmins hold every permission whatever the matrix says
+export const can = (user: Pick<User, 'role' | 'permissions'> | null | undefined, permission: Permission): boolean => {
+  if (!user) return false;
+  if (user.role === 'superadmin') return true;
+  return user.permissions?.includes(permission) ?? false;
+};
+
+// Mirrors manages_account() in the database: superadmins, managed_accounts entries and owned accounts
+export const managesAccount = (user: Pick<User, 'id' | 'role' | 'managed_accounts'>, account: Pick<Account, 'id' | 'user_id'>): boolean => {
+  return user.role === 'superadmin' || user.managed_accounts.includes(account.id) || account.user_id === user.id;
+};
+
+// Everyone except superadmins works through an explicit list of managed accounts
+export const hasManagedAccounts = (role: UserRole): boolean => role !== 'superadmin';
@@ -0,0 +1,53 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Account } from '../types';
+import { supabase } from './supabase';
+import { getState, invalidateQueries, isSameData, removeRows, selectById, setState, upsertRows } from './store';
+
+// Bulk uploads send one event per row, so reloads wait until the events stop arriving
+export const REALTIME_RELOAD_DELAY = 1000;
+
+// Merges one accounts event into the cache; returns whether it changed anything
+const applyAccountChange = (payload: RealtimePostgresChangesPayload<Account>): boolean => {
+  if (payload.eventType === 'DELETE') {
+    return removeRows('accounts', account => account.id === payload.old.id);
+  }
+
+  const existing = selectById(getState().entities.accounts, payload.new.id);
+  if (existing && isSameData(existing, payload.new)) return false;
+
+  upsertRows('accounts', [payload.new], { prepend: !existing });
+  return true;
+};
+
+// Follows changes from other sessions. Accounts are merged row by row; sales data and rules are
+// reloaded once the events settle, because screens hold aggregates and rules are nested with tiers.
+export const subscribeToDataChanges = (userId: string) => {
+  let salesTimer: ReturnType<typeof setTimeout> | undefined;
+  let rulesTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const reloadSales = () => {
+    clearTimeout(salesTimer);
+    salesTimer = setTimeout(() => invalidateQueries(key => key.startsWith('sales'), true), REALTIME_RELOAD_DELAY);
+  };
+
+  const reloadRules = () => {
+    clearTimeout(rulesTimer);
+    rulesTimer = setTimeout(() => invalidateQueries(key => key === 'incentive-rules', true), REALTIME_RELOAD_DELAY);
+  };
+
+  const channel = supabase
+    .channel(`app-data-${userId}`)
+    .on<Account>('postgres_changes', { event: '*', schema: 'public', table: 'accounts' }, payload => {
+      if (applyAccountChange(payload)) setState({ dataUpdatedAt: Date.now() });
+    })
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'sales_data' }, reloadSales)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'incentive_rules' }, reloadRules)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'incentive_tiers' }, reloadRules)
+    .subscribe();
+
+  return () => {
+    clearTimeout(salesTimer);
+    clearTimeout(rulesTimer);
+    supabase.removeChannel(channel);
+  };
+};
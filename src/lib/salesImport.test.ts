@@ -0,0 +1,199 @@
+import { describe, expect, it } from 'vitest';
+import { SalesData } from '../types';
+import {
+  ParsedRow,
+  buildSalesImport,
+  diffSalesRows,
+  mapHeaders,
+  parseDelimitedText,
+  parseImportDate,
+  parseLocaleNumber,
+  parseSalesCSV,
+  resolveSalesDiff,
+} from './salesImport';
+
+const HEADER = 'Tanggal,Klik,Pesanan,Komisi Kotor(Rp),Total Pembelian yang Dibuat(Rp)';
+
+const parsedRow = (date: string, overrides: Partial<ParsedRow> = {}): ParsedRow => ({
+  date,
+  clicks: 10,
+  orders: 2,
+  gross_commission: 5000,
+  products_sold: 0,
+  total_purchases: 100000,
+  new_buyers: 0,
+  ...overrides,
+});
+
+const stored = (date: string, overrides: Partial<SalesData> = {}): SalesData => ({
+  id: `stored-${date}`,
+  account_id: 'acc-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  ...parsedRow(date),
+  ...overrides,
+});
+
+describe('parseDelimitedText', () => {
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    const text = 'a,"b, c","line\nbreak"\n1,"say ""hi""",3';
+
+    expect(parseDelimitedText(text)).toEqual([
+      ['a', 'b, c', 'line\nbreak'],
+      ['1', 'say "hi"', '3'],
+    ]);
+  });
+
+  it('splits CRLF lines without keeping the carriage return', () => {
+    expect(parseDelimitedText('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('detects semicolon delimited exports', () => {
+    expect(parseDelimitedText('Tanggal;Klik\n2026-03-01;"1,5"')).toEqual([['Tanggal', 'Klik'], ['2026-03-01', '1,5']]);
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads the last separator as the decimal separator', () => {
+    expect(parseLocaleNumber('1.234,56')).toBeCloseTo(1234.56);
+    expect(parseLocaleNumber('1,234.56')).toBeCloseTo(1234.56);
+  });
+
+  it('reads a single separator followed by three digits as thousands', () => {
+    expect(parseLocaleNumber('1.234')).toBe(1234);
+    expect(parseLocaleNumber('1,234')).toBe(1234);
+    expect(parseLocaleNumber('Rp 1.234.567')).toBe(1234567);
+  });
+
+  it('reads other single separators as decimals', () => {
+    expect(parseLocaleNumber('12,5')).toBe(12.5);
+    expect(parseLocaleNumber('0.125')).toBe(0.125);
+  });
+
+  it('reads negative numbers and rejects text', () => {
+    expect(parseLocaleNumber('(1.000)')).toBe(-1000);
+    expect(parseLocaleNumber('-')).toBeNull();
+    expect(parseLocaleNumber('abc')).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads ISO dates, with or without a time', () => {
+    expect(parseImportDate('2026-03-05')).toBe('2026-03-05');
+    expect(parseImportDate('2026/3/5 00:00:00')).toBe('2026-03-05');
+  });
+
+  it('reads other dates day first', () => {
+    expect(parseImportDate('05/03/2026')).toBe('2026-03-05');
+    expect(parseImportDate('5-3-26')).toBe('2026-03-05');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseImportDate('31/02/2026')).toBeNull();
+    expect(parseImportDate('2026-13-01')).toBeNull();
+    expect(parseImportDate('kemarin')).toBeNull();
+  });
+});
+
+describe('mapHeaders', () => {
+  it('matches aliases regardless of case, spacing and currency suffixes', () => {
+    const { mapping, missingColumns, unknownColumns } = mapHeaders(
+      ['TANGGAL', 'Clicks', 'Jumlah  Pesanan', 'Estimasi Komisi (Rp)', 'Omset', 'Catatan']
+    );
+
+    expect(mapping).toEqual({ date: 0, clicks: 1, orders: 2, gross_commission: 3, total_purchases: 4 });
+    expect(missingColumns).toEqual([]);
+    expect(unknownColumns).toEqual(['Catatan']);
+  });
+
+  it('lists required columns that are missing', () => {
+    expect(mapHeaders(['Date', 'Clicks']).missingColumns).toEqual(['Pesanan', 'Komisi Kotor(Rp)', 'Total Pembelian yang Dibuat(Rp)']);
+  });
+
+  it('needs an account column for multi-account imports', () => {
+    expect(mapHeaders(HEADER.split(','), { multiAccount: true }).missingColumns).toEqual(['Username / Account Code']);
+    expect(mapHeaders(['Kode Akun', ...HEADER.split(',')], { multiAccount: true }).mapping.account).toBe(0);
+  });
+});
+
+describe('parseSalesCSV', () => {
+  it('skips a title block and reads Indonesian number formats', () => {
+    const text = [
+      'Laporan Affiliate Maret',
+      HEADER.split(',').join(';'),
+      '01/03/2026;1.200;15;"Rp 150.000,50";1.500.000',
+      '32/03/2026;1;1;1;1',
+      '',
+    ].join('\r\n');
+
+    const result = parseSalesCSV(text);
+
+    expect(result.rows).toEqual([{
+      date: '2026-03-01',
+      clicks: 1200,
+      orders: 15,
+      gross_commission: 150000.5,
+      products_sold: 0,
+      total_purchases: 1500000,
+      new_buyers: 0,
+    }]);
+    expect(result.report.map(report => [report.line, report.status])).toEqual([[3, 'valid'], [4, 'error']]);
+    expect(result.report[1].messages).toEqual(['Tanggal tidak valid: "32/03/2026"']);
+  });
+
+  it('rejects a date that appears twice', () => {
+    const result = parseSalesCSV([HEADER, '2026-03-01,1,1,1,1', '2026-03-01,2,2,2,2'].join('\n'));
+
+    expect(result.rows).toHaveLength(1);
+    expect(result.report[1].messages).toEqual(['Tanggal 2026-03-01 duplikat dengan baris 2']);
+  });
+});
+
+describe('buildSalesImport with multiple accounts', () => {
+  it('groups rows by account and allows the same date for different accounts', () => {
+    const table = parseDelimitedText([
+      `Username,${HEADER}`,
+      '@Kimo.Fashion,2026-03-01,1,1,1,1',
+      'kimo.gadget,2026-03-01,2,2,2,2',
+      ',2026-03-02,3,3,3,3',
+    ].join('\n'));
+
+    const result = buildSalesImport(table, 0, { multiAccount: true });
+
+    expect(Object.keys(result.rowsByAccount)).toEqual(['kimo.fashion', 'kimo.gadget']);
+    expect(result.rows).toHaveLength(2);
+    expect(result.report[2]).toMatchObject({ status: 'error', messages: ['Username / account code kosong'] });
+  });
+});
+
+describe('diffSalesRows', () => {
+  const diffs = diffSalesRows(
+    [parsedRow('2026-03-01'), parsedRow('2026-03-02', { clicks: 12 }), parsedRow('2026-03-03')],
+    [stored('2026-03-01'), stored('2026-03-02T00:00:00')]
+  );
+
+  it('marks rows as new, changed or identical', () => {
+    expect(diffs.map(diff => [diff.date, diff.status])).toEqual([
+      ['2026-03-01', 'identical'],
+      ['2026-03-02', 'changed'],
+      ['2026-03-03', 'new'],
+    ]);
+  });
+
+  it('lists the fields that changed', () => {
+    expect(diffs[1].changes).toEqual([{ field: 'clicks', label: 'Klik', before: 10, after: 12 }]);
+  });
+
+  it('uploads new rows and resolves changed ones', () => {
+    expect(resolveSalesDiff(diffs, () => 'skip').map(row => row.date)).toEqual(['2026-03-03']);
+    expect(resolveSalesDiff(diffs, () => 'overwrite').map(row => row.date)).toEqual(['2026-03-02', '2026-03-03']);
+  });
+
+  it('keeps the higher of each value with keep_higher', () => {
+    const [merged] = resolveSalesDiff(
+      diffSalesRows([parsedRow('2026-03-01', { clicks: 12, orders: 1 })], [stored('2026-03-01')]),
+      () => 'keep_higher'
+    );
+
+    expect(merged).toMatchObject({ clicks: 12, orders: 2 });
+  });
+});
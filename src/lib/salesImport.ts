@@ -0,0 +1,481 @@
+import { Account, SalesData } from '../types';
+
+export type ParsedRow = Omit<SalesData, 'id' | 'account_id' | 'created_at'>;
+
+type SalesField = keyof ParsedRow;
+type NumericField = Exclude<SalesField, 'date'>;
+
+// Spreadsheet cells keep their native type; CSV cells are always strings
+export type ImportCell = string | number | boolean | Date | null;
+
+export type RowStatus = 'valid' | 'warning' | 'error';
+
+export interface RowReport {
+  line: number; // 1-based line in the source file
+  status: RowStatus;
+  date: string | null;
+  account: string | null;
+  messages: string[];
+}
+
+export interface SalesImportOptions {
+  // Combined exports carry a username or account_code column that routes each row to an account
+  multiAccount?: boolean;
+}
+
+export interface SalesImportResult {
+  rows: ParsedRow[];
+  rowsByAccount: Record<string, ParsedRow[]>; // keyed by normalizeAccountKey, only filled for multi-account imports
+  report: RowReport[];
+  headers: string[];
+  missingColumns: string[];
+  unknownColumns: string[];
+}
+
+interface ColumnDefinition {
+  field: SalesField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+// Header aliases are compared after normalizeHeader, so case, spacing and "(Rp)" suffixes don't matter
+export const SALES_COLUMNS: ColumnDefinition[] = [
+  { field: 'date', label: 'Tanggal', required: true, aliases: ['tanggal', 'date', 'tgl', 'day', 'hari'] },
+  { field: 'clicks', label: 'Klik', required: true, aliases: ['klik', 'clicks', 'click', 'jumlah klik'] },
+  { field: 'orders', label: 'Pesanan', required: true, aliases: ['pesanan', 'orders', 'order', 'jumlah pesanan'] },
+  {
+    field: 'gross_commission',
+    label: 'Komisi Kotor(Rp)',
+    required: true,
+    aliases: ['komisi kotor', 'komisi', 'gross commission', 'commission', 'estimasi komisi'],
+  },
+  {
+    field: 'products_sold',
+    label: 'Produk Terjual',
+    required: false,
+    aliases: ['produk terjual', 'products sold', 'items sold', 'item terjual', 'jumlah produk terjual'],
+  },
+  {
+    field: 'total_purchases',
+    label: 'Total Pembelian yang Dibuat(Rp)',
+    required: true,
+    aliases: ['total pembelian yang dibuat', 'total pembelian', 'total purchases', 'purchase value', 'omset', 'revenue', 'sales'],
+  },
+  { field: 'new_buyers', label: 'Pembeli Baru', required: false, aliases: ['pembeli baru', 'new buyers', 'new buyer', 'new customers'] },
+];
+
+const ACCOUNT_COLUMN = {
+  label: 'Username / Account Code',
+  aliases: ['username', 'user name', 'account code', 'account', 'akun', 'kode akun', 'nama akun', 'affiliate', 'affiliate username'],
+};
+
+const INTEGER_FIELDS: NumericField[] = ['clicks', 'orders', 'products_sold', 'new_buyers'];
+
+export const normalizeHeader = (header: string): string => {
+  return header
+    .replace(/^\uFEFF/, '')
+    .toLowerCase()
+    .replace(/\((rp|idr|%)\)/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// RFC 4180 style parsing: quoted fields may contain delimiters, quotes ("") and line breaks
+export const parseDelimitedText = (text: string, delimiter?: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Spreadsheet apps with an Indonesian locale export CSV with semicolons. Title lines above the header
+// may have no delimiter at all, so the first line that has one decides.
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/).find(line => /[,;\t]/.test(line)) || '';
+  const counts = [',', ';', '\t'].map(candidate => ({
+    candidate,
+    count: firstLine.split(candidate).length - 1,
+  }));
+  const best = counts.sort((a, b) => b.count - a.count)[0];
+  return best.count > 0 ? best.candidate : ',';
+};
+
+// Accepts "Rp 1.234.567", "1,234,567.50", "1.234,5" and plain numbers
+export const parseLocaleNumber = (value: string): number | null => {
+  let cleaned = value
+    .trim()
+    .replace(/^rp\.?/i, '')
+    .replace(/^idr/i, '')
+    .replace(/[\s\u00A0]/g, '')
+    .replace(/%$/, '');
+
+  if (cleaned === '' || cleaned === '-') return null;
+
+  const negative = /^\(.*\)$/.test(cleaned) || cleaned.startsWith('-');
+  cleaned = cleaned.replace(/^[-(]|\)$/g, '');
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Whichever separator comes last is the decimal separator
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    cleaned = cleaned.split(thousands).join('').replace(decimal, '.');
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const groups = cleaned.split(separator);
+    const isThousands = groups.length > 2 || (groups[0].length <= 3 && groups[0] !== '0' && groups[1].length === 3);
+    cleaned = isThousands ? groups.join('') : groups.join('.');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+
+  const number = parseFloat(cleaned);
+  return negative ? -number : number;
+};
+
+const toISODate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Returns YYYY-MM-DD for yyyy-mm-dd and dd/mm/yyyy style dates, or null when the date is invalid
+export const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+
+  const isoMatch = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T].*)?$/);
+  if (isoMatch) {
+    return toISODate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+  }
+
+  const dayFirstMatch = trimmed.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (dayFirstMatch) {
+    const year = Number(dayFirstMatch[3]);
+    return toISODate(year < 100 ? 2000 + year : year, Number(dayFirstMatch[2]), Number(dayFirstMatch[1]));
+  }
+
+  return null;
+};
+
+export const mapHeaders = (headers: string[], options: SalesImportOptions = {}) => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: Partial<Record<SalesField | 'account', number>> = {};
+
+  SALES_COLUMNS.forEach(column => {
+    const index = normalized.findIndex(header => column.aliases.includes(header));
+    if (index >= 0) {
+      mapping[column.field] = index;
+    }
+  });
+
+  if (options.multiAccount) {
+    const index = normalized.findIndex(header => ACCOUNT_COLUMN.aliases.includes(header));
+    if (index >= 0) {
+      mapping.account = index;
+    }
+  }
+
+  const mappedIndexes = Object.values(mapping);
+  const missingColumns = SALES_COLUMNS
+    .filter(column => column.required && mapping[column.field] === undefined)
+    .map(column => column.label);
+  if (options.multiAccount && mapping.account === undefined) {
+    missingColumns.unshift(ACCOUNT_COLUMN.label);
+  }
+  const unknownColumns = headers.filter((header, index) => header.trim() !== '' && !mappedIndexes.includes(index));
+
+  return { mapping, missingColumns, unknownColumns };
+};
+
+const isBlankCell = (cell: ImportCell | undefined): boolean => {
+  return cell === null || cell === undefined || (typeof cell === 'string' && cell.trim() === '');
+};
+
+export const cellToText = (cell: ImportCell | undefined): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+// Excel stores dates at UTC midnight, so read the UTC components
+const cellToDate = (cell: ImportCell | undefined): string | null => {
+  if (cell instanceof Date) {
+    return isNaN(cell.getTime())
+      ? null
+      : toISODate(cell.getUTCFullYear(), cell.getUTCMonth() + 1, cell.getUTCDate());
+  }
+  return parseImportDate(cellToText(cell));
+};
+
+const cellToNumber = (cell: ImportCell | undefined): number | null => {
+  if (typeof cell === 'number') return isFinite(cell) ? cell : null;
+  return parseLocaleNumber(cellToText(cell));
+};
+
+// Exports often start with a title block, so use the first row that contains every required column
+export const detectHeaderRow = (table: ImportCell[][], options: SalesImportOptions = {}, maxRows = 20): number => {
+  const limit = Math.min(table.length, maxRows);
+  for (let i = 0; i < limit; i++) {
+    if (mapHeaders(table[i].map(cellToText), options).missingColumns.length === 0) {
+      return i;
+    }
+  }
+  return 0;
+};
+
+export const normalizeAccountKey = (value: string): string => {
+  return value.trim().replace(/^@/, '').toLowerCase();
+};
+
+// Rows from combined exports may name an account by username or by account_code
+export const findAccountByKey = (accounts: Account[], key: string): Account | undefined => {
+  const normalized = normalizeAccountKey(key);
+  return accounts.find(account =>
+    normalizeAccountKey(account.username) === normalized ||
+    normalizeAccountKey(account.account_code) === normalized
+  );
+};
+
+export const buildSalesImport = (
+  table: ImportCell[][],
+  headerRowIndex = 0,
+  options: SalesImportOptions = {}
+): SalesImportResult => {
+  const headers = (table[headerRowIndex] || []).map(cellToText);
+  const { mapping, missingColumns, unknownColumns } = mapHeaders(headers, options);
+  const result: SalesImportResult = { rows: [], rowsByAccount: {}, report: [], headers, missingColumns, unknownColumns };
+
+  if (missingColumns.length > 0) {
+    return result;
+  }
+
+  const seenDates = new Map<string, number>();
+
+  for (let i = headerRowIndex + 1; i < table.length; i++) {
+    const cells = table[i];
+    const line = i + 1;
+
+    // Skip blank lines and trailing summary rows without any values
+    if (cells.every(isBlankCell)) continue;
+
+    const messages: string[] = [];
+    let hasError = false;
+    const cell = (field: SalesField | 'account'): ImportCell => {
+      const index = mapping[field];
+      return index === undefined ? null : cells[index] ?? null;
+    };
+
+    const account = options.multiAccount ? cellToText(cell('account')) : null;
+    if (account === '') {
+      messages.push('Username / account code kosong');
+      hasError = true;
+    }
+
+    // Dates must be unique per account, otherwise the upsert would touch the same row twice
+    const rawDate = cellToText(cell('date'));
+    const date = cellToDate(cell('date'));
+    const dateKey = account ? `${normalizeAccountKey(account)}|${date}` : `${date}`;
+    if (!date) {
+      messages.push(rawDate ? `Tanggal tidak valid: "${rawDate}"` : 'Tanggal kosong');
+      hasError = true;
+    } else if (seenDates.has(dateKey)) {
+      messages.push(`Tanggal ${date} duplikat dengan baris ${seenDates.get(dateKey)}`);
+      hasError = true;
+    }
+
+    const row: ParsedRow = {
+      date: date || '',
+      clicks: 0,
+      orders: 0,
+      gross_commission: 0,
+      products_sold: 0,
+      total_purchases: 0,
+      new_buyers: 0,
+    };
+
+    SALES_COLUMNS.filter(column => column.field !== 'date').forEach(column => {
+      const raw = cell(column.field);
+      if (isBlankCell(raw)) {
+        if (mapping[column.field] !== undefined) {
+          messages.push(`${column.label} kosong, dianggap 0`);
+        }
+        return;
+      }
+
+      const value = cellToNumber(raw);
+      if (value === null) {
+        messages.push(`${column.label} bukan angka: "${cellToText(raw)}"`);
+        hasError = true;
+      } else if (value < 0) {
+        messages.push(`${column.label} tidak boleh negatif`);
+        hasError = true;
+      } else {
+        const field = column.field as NumericField;
+        row[field] = INTEGER_FIELDS.includes(field) ? Math.round(value) : value;
+      }
+    });
+
+    if (!hasError && date) {
+      seenDates.set(dateKey, line);
+      result.rows.push(row);
+
+      if (account) {
+        const key = normalizeAccountKey(account);
+        if (!result.rowsByAccount[key]) {
+          result.rowsByAccount[key] = [];
+        }
+        result.rowsByAccount[key].push(row);
+      }
+    }
+
+    result.report.push({
+      line,
+      status: hasError ? 'error' : messages.length > 0 ? 'warning' : 'valid',
+      date,
+      account,
+      messages,
+    });
+  }
+
+  return result;
+};
+
+export const parseSalesCSV = (text: string): SalesImportResult => {
+  const table = parseDelimitedText(text);
+  return buildSalesImport(table, detectHeaderRow(table));
+};
+
+export const isExcelFile = (file: File): boolean => {
+  return file.name.toLowerCase().endsWith('.xlsx') ||
+    file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+};
+
+// Loaded on demand so the spreadsheet parser is only downloaded when a workbook is uploaded
+export const readWorkbookSheetNames = async (file: File): Promise<string[]> => {
+  const { readSheetNames } = await import('read-excel-file');
+  return readSheetNames(file);
+};
+
+export const readWorkbookSheet = async (file: File, sheet: string): Promise<ImportCell[][]> => {
+  const { default: readXlsxFile } = await import('read-excel-file');
+  const rows = await readXlsxFile(file, { sheet });
+  return rows.map(row => row.map(cell => cell as unknown as ImportCell));
+};
+
+export type SalesRowDiffStatus = 'new' | 'changed' | 'identical';
+
+export type ConflictResolution = 'overwrite' | 'skip' | 'keep_higher';
+
+export interface FieldChange {
+  field: NumericField;
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface SalesRowDiff {
+  date: string;
+  status: SalesRowDiffStatus;
+  incoming: ParsedRow;
+  existing: SalesData | null;
+  changes: FieldChange[];
+}
+
+const NUMERIC_COLUMNS = SALES_COLUMNS.filter(column => column.field !== 'date') as (ColumnDefinition & { field: NumericField })[];
+
+// Compare uploaded rows with what is already stored for the same account
+export const diffSalesRows = (rows: ParsedRow[], existingData: SalesData[]): SalesRowDiff[] => {
+  const existingByDate = new Map(existingData.map(data => [data.date.slice(0, 10), data]));
+
+  return rows.map(row => {
+    const existing = existingByDate.get(row.date) || null;
+    if (!existing) {
+      return { date: row.date, status: 'new', incoming: row, existing: null, changes: [] };
+    }
+
+    const changes = NUMERIC_COLUMNS
+      .filter(column => Math.abs((existing[column.field] || 0) - row[column.field]) > 0.000001)
+      .map(column => ({
+        field: column.field,
+        label: column.label,
+        before: existing[column.field] || 0,
+        after: row[column.field],
+      }));
+
+    return {
+      date: row.date,
+      status: changes.length > 0 ? 'changed' : 'identical',
+      incoming: row,
+      existing,
+      changes,
+    };
+  });
+};
+
+// Build the rows to upsert: new rows always go in, identical rows are left alone
+export const resolveSalesDiff = (
+  diffs: SalesRowDiff[],
+  getResolution: (diff: SalesRowDiff) => ConflictResolution
+): ParsedRow[] => {
+  return diffs.flatMap(diff => {
+    if (diff.status === 'new') return [diff.incoming];
+    if (diff.status === 'identical' || !diff.existing) return [];
+
+    const resolution = getResolution(diff);
+    if (resolution === 'skip') return [];
+    if (resolution === 'overwrite') return [diff.incoming];
+
+    // keep_higher keeps the larger of the stored and uploaded value for every field
+    const existing = diff.existing;
+    const merged = { ...diff.incoming };
+    NUMERIC_COLUMNS.forEach(column => {
+      merged[column.field] = Math.max(existing[column.field] || 0, diff.incoming[column.field]);
+    });
+    return [merged];
+  });
+};
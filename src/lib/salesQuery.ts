@@ -0,0 +1,70 @@
+import { SalesData, SalesDataQuery, SalesTotals } from '../types';
+
+export interface DateFilterInput {
+  startDate: string;
+  endDate: string;
+  preset: string;
+}
+
+const toDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Translate the dashboard/report date filter into the inclusive range sent to the database
+export const getDateFilterRange = (filter: DateFilterInput): Pick<SalesDataQuery, 'startDate' | 'endDate'> => {
+  if (filter.preset === 'custom') {
+    // An incomplete custom range does not filter, matching the behaviour before a date is picked
+    return filter.startDate && filter.endDate
+      ? { startDate: filter.startDate, endDate: filter.endDate }
+      : {};
+  }
+
+  if (filter.preset === 'all') {
+    return {};
+  }
+
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - parseInt(filter.preset));
+  return { startDate: toDateString(cutoffDate) };
+};
+
+export const isInDateRange = (date: string, range: Pick<SalesDataQuery, 'startDate' | 'endDate'>): boolean => {
+  const day = date.slice(0, 10);
+  return (!range.startDate || day >= range.startDate) && (!range.endDate || day <= range.endDate);
+};
+
+// Stable key so effects only refetch when the window actually changes
+export const getSalesQueryKey = (query: SalesDataQuery): string => {
+  return [query.accountIds ? [...query.accountIds].sort().join(',') : '*', query.startDate || '', query.endDate || ''].join('|');
+};
+
+export const EMPTY_SALES_TOTALS: SalesTotals = {
+  bucket: null,
+  group_id: null,
+  clicks: 0,
+  orders: 0,
+  gross_commission: 0,
+  total_purchases: 0,
+  products_sold: 0,
+  new_buyers: 0,
+  commission_rate: 0,
+  conversion_rate: 0,
+};
+
+// Per-account totals shaped as sales rows, one per account and bucket, for the incentive engine
+export const accountTotalsToSalesData = (totals: SalesTotals[]): SalesData[] => {
+  return totals
+    .filter((row): row is SalesTotals & { bucket: string; group_id: string } => row.bucket !== null && row.group_id !== null)
+    .map(row => ({
+      id: `${row.group_id}|${row.bucket}`,
+      account_id: row.group_id,
+      date: row.bucket,
+      clicks: row.clicks,
+      orders: row.orders,
+      gross_commission: row.gross_commission,
+      products_sold: row.products_sold,
+      total_purchases: row.total_purchases,
+      new_buyers: row.new_buyers,
+      created_at: row.bucket,
+    }));
+};
@@ -0,0 +1,430 @@
+import { Account, Category, SalesData, SalesDataQuery, User, IncentiveRule, PayoutPeriod, PayoutLedgerEntry, Team, SupabaseError, SupabaseResult } from '../types';
+import { getCurrentMonth } from './incentives';
+import { DateFilterInput, getSalesQueryKey, isInDateRange } from './salesQuery';
+
+// Loaded data counts as fresh this long; after that screens keep showing it while it reloads
+export const STALE_TIME = 30 * 1000;
+
+export interface EntityTable<T> {
+  byId: Record<string, T>;
+  ids: string[];
+}
+
+export interface Entities {
+  accounts: EntityTable<Account>;
+  categories: EntityTable<Category>;
+  salesData: EntityTable<SalesData>;
+  // Per-account month totals shaped as sales rows, which is all the incentive engine needs
+  monthlySales: EntityTable<SalesData>;
+  incentiveRules: EntityTable<IncentiveRule>;
+  teams: EntityTable<Team>;
+  users: EntityTable<User>;
+  payoutPeriods: EntityTable<PayoutPeriod>;
+  payoutLedger: EntityTable<PayoutLedgerEntry>;
+}
+
+export type EntityName = keyof Entities;
+export type EntityRow<K extends EntityName> = Entities[K] extends EntityTable<infer T> ? T : never;
+
+export interface QueryState {
+  // 'error' keeps whatever rows an earlier load stored; screens show them next to the error
+  status: 'loading' | 'success' | 'error';
+  isFetching: boolean;
+  // When the last load finished, whether it succeeded or failed
+  fetchedAt: number;
+  error: SupabaseError | null;
+  // Set when another session changed the data, so the reload can tell the user about it
+  isRemoteChange: boolean;
+  // Mounted screens using the query; only their failures are listed, under this title
+  observers: number;
+  title: string;
+}
+
+// A failed write or screen-local load, listed on the active screen until it is retried or dismissed
+export interface ReportedError {
+  title: string;
+  error: SupabaseError;
+  retry?: () => void;
+}
+
+export interface StoreState {
+  currentUser: User | null;
+  dateFilter: DateFilterInput;
+  incentiveMonth: string;
+  // When another session's changes last reached this one
+  dataUpdatedAt: number | null;
+  // Failures of the active screen's writes and local loads, one per title
+  errors: ReportedError[];
+  entities: Entities;
+  queries: Record<string, QueryState>;
+}
+
+// Payout periods are keyed by their month; every other table by id
+const ENTITY_KEYS: Partial<Record<EntityName, string>> = {
+  payoutPeriods: 'period',
+};
+
+const getRowKey = (name: EntityName, row: unknown): string => {
+  return String((row as Record<string, unknown>)[ENTITY_KEYS[name] || 'id']);
+};
+
+const createTable = <T>(name: EntityName, rows: T[]): EntityTable<T> => {
+  const byId: Record<string, T> = {};
+  rows.forEach(row => {
+    byId[getRowKey(name, row)] = row;
+  });
+  return { byId, ids: Object.keys(byId) };
+};
+
+const createEntities = (): Entities => ({
+  accounts: { byId: {}, ids: [] },
+  categories: { byId: {}, ids: [] },
+  salesData: { byId: {}, ids: [] },
+  monthlySales: { byId: {}, ids: [] },
+  incentiveRules: { byId: {}, ids: [] },
+  teams: { byId: {}, ids: [] },
+  users: { byId: {}, ids: [] },
+  payoutPeriods: { byId: {}, ids: [] },
+  payoutLedger: { byId: {}, ids: [] },
+});
+
+let state: StoreState = {
+  currentUser: null,
+  dateFilter: { startDate: '', endDate: '', preset: '30' },
+  incentiveMonth: getCurrentMonth(),
+  dataUpdatedAt: null,
+  errors: [],
+  entities: createEntities(),
+  queries: {},
+};
+
+const listeners = new Set<() => void>();
+
+// Reloads and realtime echoes of the session's own writes often bring nothing new; comparing keeps those from re-rendering
+export const isSameData = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const getState = (): StoreState => state;
+
+export const setState = (update: Partial<StoreState> | ((current: StoreState) => Partial<StoreState>)) => {
+  const changes = typeof update === 'function' ? update(state) : update;
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setTable = <K extends EntityName>(name: K, table: Entities[K]) => {
+  setState(current => ({ entities: { ...current.entities, [name]: table } }));
+};
+
+// Selectors are memoized per table and row list, so screens re-render only when their rows change
+const allRows = new WeakMap<object, unknown[]>();
+const derivedRows = new WeakMap<unknown[], Map<string, unknown[]>>();
+
+export const selectAll = <T>(table: EntityTable<T>): T[] => {
+  let rows = allRows.get(table) as T[] | undefined;
+  if (!rows) {
+    rows = table.ids.map(id => table.byId[id]);
+    allRows.set(table, rows);
+  }
+  return rows;
+};
+
+export const selectById = <T>(table: EntityTable<T>, id: string | null | undefined): T | undefined => {
+  return id ? table.byId[id] : undefined;
+};
+
+const selectDerived = <T>(source: T[], key: string, compute: (rows: T[]) => T[]): T[] => {
+  let cache = derivedRows.get(source);
+  if (!cache) {
+    cache = new Map();
+    derivedRows.set(source, cache);
+  }
+
+  let rows = cache.get(key) as T[] | undefined;
+  if (!rows) {
+    rows = compute(source);
+    cache.set(key, rows);
+  }
+  return rows;
+};
+
+// Takes the list from selectAll, so one account list serves every user in a leaderboard
+export const selectAccountsManagedBy = (accounts: Account[], user: Pick<User, 'managed_accounts'>): Account[] => {
+  return selectDerived(accounts, `managed|${user.managed_accounts.join(',')}`, () => {
+    const managedIds = new Set(user.managed_accounts);
+    return accounts.filter(account => managedIds.has(account.id));
+  });
+};
+
+export const matchesSalesQuery = (row: SalesData, query: SalesDataQuery): boolean => {
+  return (!query.accountIds || query.accountIds.includes(row.account_id)) && isInDateRange(row.date, query);
+};
+
+export const selectSalesInRange = (table: EntityTable<SalesData>, query: SalesDataQuery): SalesData[] => {
+  return selectDerived(selectAll(table), getSalesQueryKey(query), rows => rows.filter(row => matchesSalesQuery(row, query)));
+};
+
+// Replaces the rows a query covers with what it returned; keep() marks rows outside it. Returns whether anything changed.
+export const setRows = <K extends EntityName>(name: K, rows: EntityRow<K>[], keep?: (row: EntityRow<K>) => boolean): boolean => {
+  const table = state.entities[name] as EntityTable<EntityRow<K>>;
+  const current = selectAll(table);
+  const kept = keep ? current.filter(keep) : [];
+  const replaced = keep ? current.filter(row => !keep(row)) : current;
+
+  // Compared by key, so rows this session already upserted in another order don't count as a change
+  const isUnchanged = replaced.length === rows.length && rows.every(row => {
+    const existing = table.byId[getRowKey(name, row)];
+    return existing !== undefined && !keep?.(existing) && isSameData(existing, row);
+  });
+  if (isUnchanged) return false;
+
+  setTable(name, createTable(name, [...kept, ...rows]) as Entities[K]);
+  return true;
+};
+
+// Inserts or replaces rows by key; prepend moves them to the top like a newest-first list
+export const upsertRows = <K extends EntityName>(name: K, rows: EntityRow<K>[], options: { prepend?: boolean } = {}) => {
+  if (rows.length === 0) return;
+
+  const table = state.entities[name] as EntityTable<EntityRow<K>>;
+  const byId = { ...table.byId };
+  const keys = rows.map(row => getRowKey(name, row));
+  rows.forEach((row, index) => {
+    byId[keys[index]] = row;
+  });
+
+  const upserted = new Set(keys);
+  const ids = options.prepend
+    ? [...keys, ...table.ids.filter(id => !upserted.has(id))]
+    : [...table.ids, ...keys.filter(key => !(key in table.byId))];
+
+  setTable(name, { byId, ids: [...new Set(ids)] } as Entities[K]);
+};
+
+export const patchRow = <K extends EntityName>(name: K, key: string, updates: Partial<EntityRow<K>>) => {
+  const row = state.entities[name].byId[key] as EntityRow<K> | undefined;
+  if (row) upsertRows(name, [{ ...row, ...updates }]);
+};
+
+export const removeRows = <K extends EntityName>(name: K, matches: (row: EntityRow<K>) => boolean): boolean => {
+  const table = state.entities[name] as EntityTable<EntityRow<K>>;
+  const ids = table.ids.filter(id => !matches(table.byId[id]));
+  if (ids.length === table.ids.length) return false;
+
+  const byId: Record<string, EntityRow<K>> = {};
+  ids.forEach(id => {
+    byId[id] = table.byId[id];
+  });
+  setTable(name, { byId, ids } as Entities[K]);
+  return true;
+};
+
+// Puts back only the rows the optimistic update touched, so changes that arrived meanwhile survive
+const rollbackTable = <T>(current: EntityTable<T>, before: EntityTable<T>, applied: EntityTable<T>): EntityTable<T> => {
+  const touched = [...new Set([...before.ids, ...applied.ids])].filter(id => before.byId[id] !== applied.byId[id]);
+  if (touched.length === 0) return current;
+
+  const byId = { ...current.byId };
+  touched.forEach(id => {
+    if (id in before.byId) {
+      byId[id] = before.byId[id];
+    } else {
+      delete byId[id];
+    }
+  });
+
+  const ids = [
+    ...before.ids.filter(id => id in byId),
+    ...current.ids.filter(id => id in byId && !(id in before.byId)),
+  ];
+  return { byId, ids };
+};
+
+// Shows a change right away and undoes it when the request fails
+export const optimisticUpdate = async <T>(
+  apply: () => void,
+  request: () => Promise<SupabaseResult<T>>,
+  onSuccess?: (data: T) => void
+): Promise<SupabaseResult<T>> => {
+  const before = state.entities;
+  apply();
+  const applied = state.entities;
+
+  const result = await request();
+  if (result.error) {
+    setState(current => {
+      const entities = { ...current.entities };
+      (Object.keys(entities) as EntityName[])
+        .filter(name => before[name] !== applied[name])
+        .forEach(name => {
+          Object.assign(entities, { [name]: rollbackTable(entities[name] as EntityTable<object>, before[name], applied[name]) });
+        });
+      return { entities };
+    });
+  } else {
+    onSuccess?.(result.data);
+  }
+  return result;
+};
+
+// Queries
+// Requests are shared while in flight; the generation drops responses that arrive after a user switch
+let generation = 0;
+const inFlight = new Map<string, Promise<void>>();
+// The last request made for each query, so a failed one can be retried from anywhere
+const retries = new Map<string, () => Promise<void>>();
+
+const NEW_QUERY: QueryState = {
+  status: 'loading',
+  isFetching: false,
+  fetchedAt: 0,
+  error: null,
+  isRemoteChange: false,
+  observers: 0,
+  title: '',
+};
+
+const setQuery = (key: string, updates: Partial<QueryState>) => {
+  setState(current => ({
+    queries: { ...current.queries, [key]: { ...NEW_QUERY, ...current.queries[key], ...updates } },
+  }));
+};
+
+// Loads a query unless it is still fresh. apply() stores the data and reports whether it changed anything.
+// A failed load keeps the stored rows and is not retried on its own until it goes stale.
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: () => Promise<SupabaseResult<T>>,
+  apply: (data: T) => boolean,
+  force = false
+): Promise<void> => {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const query = state.queries[key];
+  if (!force && query && Date.now() - query.fetchedAt < STALE_TIME) return Promise.resolve();
+
+  const startedIn = generation;
+  retries.set(key, () => fetchQuery(key, fetcher, apply, true));
+  setQuery(key, { isFetching: true });
+
+  const promise: Promise<void> = fetcher()
+    .then(result => {
+      if (startedIn !== generation || inFlight.get(key) !== promise) return;
+
+      if (result.error) {
+        setQuery(key, { status: 'error', isFetching: false, fetchedAt: Date.now(), error: result.error });
+        return;
+      }
+
+      const changed = apply(result.data);
+      const isRemoteChange = state.queries[key]?.isRemoteChange;
+      setQuery(key, { status: 'success', isFetching: false, fetchedAt: Date.now(), error: null, isRemoteChange: false });
+      if (isRemoteChange && changed) setState({ dataUpdatedAt: Date.now() });
+    })
+    .catch(err => {
+      console.error(`Error loading ${key}:`, err);
+      if (startedIn === generation && inFlight.get(key) === promise) {
+        setQuery(key, {
+          status: 'error',
+          isFetching: false,
+          fetchedAt: Date.now(),
+          error: { message: err instanceof Error ? err.message : String(err), code: null, details: null, hint: null },
+        });
+      }
+    })
+    .finally(() => {
+      if (inFlight.get(key) === promise) inFlight.delete(key);
+    });
+
+  inFlight.set(key, promise);
+  return promise;
+};
+
+// Marks queries stale; mounted screens reload them at once and the rest when they are next opened
+export const invalidateQueries = (matches: (key: string) => boolean, isRemoteChange = false) => {
+  const keys = Object.keys(state.queries).filter(matches);
+  if (keys.length === 0) return;
+
+  keys.forEach(key => inFlight.delete(key));
+  setState(current => {
+    const queries = { ...current.queries };
+    keys.forEach(key => {
+      queries[key] = { ...queries[key], isFetching: false, fetchedAt: 0, isRemoteChange: isRemoteChange || queries[key].isRemoteChange };
+    });
+    return { queries };
+  });
+};
+
+export const retryQuery = (key: string) => {
+  retries.get(key)?.();
+};
+
+// Counts the screens using a query; returns the function that stops counting. Screens unmount
+// after a user switch has already reset the counts, hence the floor at zero.
+export const observeQuery = (key: string, title: string) => {
+  const update = (change: number) => {
+    setState(current => ({
+      queries: {
+        ...current.queries,
+        [key]: {
+          ...NEW_QUERY,
+          ...current.queries[key],
+          observers: Math.max(0, (current.queries[key]?.observers || 0) + change),
+          title,
+        },
+      },
+    }));
+  };
+
+  update(1);
+  return () => update(-1);
+};
+
+// Errors
+export const reportError = (report: ReportedError) => {
+  setState(current => ({ errors: [...current.errors.filter(item => item.title !== report.title), report] }));
+};
+
+export const dismissError = (title: string) => {
+  if (state.errors.some(item => item.title === title)) {
+    setState(current => ({ errors: current.errors.filter(item => item.title !== title) }));
+  }
+};
+
+// Called when the user leaves a screen; its failed queries stay on the queries themselves
+export const clearReportedErrors = () => {
+  if (state.errors.length > 0) setState({ errors: [] });
+};
+
+// A query's error stays until its next load; dismissing only hides it
+export const dismissQueryError = (key: string) => {
+  if (state.queries[key]?.error) setQuery(key, { error: null });
+};
+
+// Session
+// Signing in as someone else starts from an empty cache; a token refresh for the same user keeps it
+export const setCurrentUser = (user: User | null) => {
+  if (user?.id === state.currentUser?.id) {
+    // Keep the same object when nothing changed so a token refresh doesn't re-render every screen
+    if (!isSameData(user, state.currentUser)) setState({ currentUser: user });
+    return;
+  }
+
+  generation++;
+  inFlight.clear();
+  retries.clear();
+  setState({ currentUser: user, entities: createEntities(), queries: {}, dataUpdatedAt: null, errors: [] });
+};
+
+// Rows returned by profile updates don't carry the role's permissions, so keep the loaded ones
+export const mergeCurrentUser = (user: User) => {
+  if (state.currentUser?.id !== user.id) return;
+  setState(current => ({ currentUser: current.currentUser ? { ...current.currentUser, ...user } : user }));
+};
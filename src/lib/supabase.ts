@@ -1,15 +1,21 @@
-import { createClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { createDemoClient } from './demo/client'
+
+// Demo mode is opt-in and dev-only: production builds fold this to false and drop the demo backend
+export const isDemoMode = import.meta.env.DEV && import.meta.env.VITE_DEMO_MODE === 'true'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
+if (!isDemoMode && (!supabaseUrl || !supabaseAnonKey)) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+export const supabase: SupabaseClient = isDemoMode ? createDemoClient() : createClient(supabaseUrl, supabaseAnonKey)
 
 // Database types
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
+
 export interface Database {
   public: {
     Tables: {
@@ -42,7 +48,7 @@ export interface Database {
           status: 'active' | 'violation' | 'inactive'
           payment_data: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
           account_code: string
-          category_id: string
+          category_id: string | null
           user_id: string | null
           created_at: string
         }
@@ -53,8 +59,8 @@ export interface Database {
           phone: string
           status?: 'active' | 'violation' | 'inactive'
           payment_data?: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
-          account_code: string
-          category_id: string
+          account_code?: string
+          category_id: string | null
           user_id?: string | null
           created_at?: string
         }
@@ -66,7 +72,7 @@ export interface Database {
           status?: 'active' | 'violation' | 'inactive'
           payment_data?: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
           account_code?: string
-          category_id?: string
+          category_id?: string | null
           user_id?: string | null
           created_at?: string
         }
@@ -114,24 +120,65 @@ export interface Database {
           id: string
           name: string
           email: string
-          role: 'user' | 'superadmin'
+          role: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
           managed_accounts: string[]
+          disabled_at: string | null
+          phone: string
+          address: string
+          bio: string
+          avatar_url: string | null
+          team_id: string | null
           created_at: string
         }
         Insert: {
-          id?: string
+          id: string
           name: string
           email: string
-          role?: 'user' | 'superadmin'
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
           managed_accounts?: string[]
+          disabled_at?: string | null
+          phone?: string
+          address?: string
+          bio?: string
+          avatar_url?: string | null
+          team_id?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
           email?: string
-          role?: 'user' | 'superadmin'
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
           managed_accounts?: string[]
+          disabled_at?: string | null
+          phone?: string
+          address?: string
+          bio?: string
+          avatar_url?: string | null
+          team_id?: string | null
+          created_at?: string
+        }
+      }
+      teams: {
+        Row: {
+          id: string
+          name: string
+          lead_id: string | null
+          incentive_target: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          lead_id?: string | null
+          incentive_target?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          lead_id?: string | null
+          incentive_target?: number
           created_at?: string
         }
       }
@@ -144,7 +191,11 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          calculation_mode: 'flat' | 'progressive'
           is_active: boolean
+          effective_from: string
+          effective_to: string | null
+          deleted_at: string | null
           created_at: string
         }
         Insert: {
@@ -155,7 +206,11 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          calculation_mode?: 'flat' | 'progressive'
           is_active?: boolean
+          effective_from?: string
+          effective_to?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
         Update: {
@@ -166,7 +221,11 @@ export interface Database {
           commission_rate_min?: number
           commission_rate_max?: number
           base_revenue_threshold?: number
+          calculation_mode?: 'flat' | 'progressive'
           is_active?: boolean
+          effective_from?: string
+          effective_to?: string | null
+          deleted_at?: string | null
           created_at?: string
         }
       }
@@ -193,17 +252,404 @@ export interface Database {
           created_at?: string
         }
       }
+      incentive_rule_versions: {
+        Row: {
+          id: string
+          rule_id: string
+          version: number
+          effective_from: string
+          effective_to: string | null
+          min_commission_threshold: number
+          commission_rate_min: number
+          commission_rate_max: number
+          base_revenue_threshold: number
+          calculation_mode: 'flat' | 'progressive'
+          tiers: Json
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          rule_id: string
+          version: number
+          effective_from: string
+          effective_to?: string | null
+          min_commission_threshold: number
+          commission_rate_min: number
+          commission_rate_max: number
+          base_revenue_threshold: number
+          calculation_mode: 'flat' | 'progressive'
+          tiers?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          rule_id?: string
+          version?: number
+          effective_from?: string
+          effective_to?: string | null
+          min_commission_threshold?: number
+          commission_rate_min?: number
+          commission_rate_max?: number
+          base_revenue_threshold?: number
+          calculation_mode?: 'flat' | 'progressive'
+          tiers?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      payout_periods: {
+        Row: {
+          period: string
+          status: 'open' | 'closed'
+          closed_at: string | null
+          closed_by: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          created_at: string
+        }
+        Insert: {
+          period: string
+          status?: 'open' | 'closed'
+          closed_at?: string | null
+          closed_by?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          period?: string
+          status?: 'open' | 'closed'
+          closed_at?: string | null
+          closed_by?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          created_at?: string
+        }
+      }
+      payout_snapshots: {
+        Row: {
+          id: string
+          period: string
+          user_id: string
+          user_name: string
+          total_revenue: number
+          total_commission: number
+          commission_rate: number
+          qualifying_revenue: number
+          rule_id: string | null
+          rule_name: string | null
+          tier_id: string | null
+          tier_rate: number | null
+          incentive_amount: number
+          qualifying_account_ids: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          period: string
+          user_id: string
+          user_name: string
+          total_revenue?: number
+          total_commission?: number
+          commission_rate?: number
+          qualifying_revenue?: number
+          rule_id?: string | null
+          rule_name?: string | null
+          tier_id?: string | null
+          tier_rate?: number | null
+          incentive_amount?: number
+          qualifying_account_ids?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          period?: string
+          user_id?: string
+          user_name?: string
+          total_revenue?: number
+          total_commission?: number
+          commission_rate?: number
+          qualifying_revenue?: number
+          rule_id?: string | null
+          rule_name?: string | null
+          tier_id?: string | null
+          tier_rate?: number | null
+          incentive_amount?: number
+          qualifying_account_ids?: string[]
+          created_at?: string
+        }
+      }
+      payout_ledger: {
+        Row: {
+          id: string
+          user_id: string
+          period: string
+          amount: number
+          status: 'draft' | 'approved' | 'paid' | 'disputed'
+          note: string | null
+          payment_reference: string | null
+          approved_at: string | null
+          approved_by: string | null
+          paid_at: string | null
+          paid_by: string | null
+          disputed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          period: string
+          amount?: number
+          status?: 'draft' | 'approved' | 'paid' | 'disputed'
+          note?: string | null
+          payment_reference?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          disputed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          period?: string
+          amount?: number
+          status?: 'draft' | 'approved' | 'paid' | 'disputed'
+          note?: string | null
+          payment_reference?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          paid_at?: string | null
+          paid_by?: string | null
+          disputed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      import_batches: {
+        Row: {
+          id: string
+          file_name: string
+          uploaded_by: string | null
+          uploader_name: string
+          account_ids: string[]
+          row_count: number
+          date_start: string
+          date_end: string
+          previous_rows: Json
+          inserted_keys: Json
+          status: 'applied' | 'rolled_back'
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          file_name: string
+          uploaded_by?: string | null
+          uploader_name: string
+          account_ids: string[]
+          row_count?: number
+          date_start: string
+          date_end: string
+          previous_rows?: Json
+          inserted_keys?: Json
+          status?: 'applied' | 'rolled_back'
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          file_name?: string
+          uploaded_by?: string | null
+          uploader_name?: string
+          account_ids?: string[]
+          row_count?: number
+          date_start?: string
+          date_end?: string
+          previous_rows?: Json
+          inserted_keys?: Json
+          status?: 'applied' | 'rolled_back'
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          created_at?: string
+        }
+      }
+      user_invitations: {
+        Row: {
+          id: string
+          email: string
+          name: string
+          role: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          managed_accounts: string[]
+          invited_by: string | null
+          accepted_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          email: string
+          name?: string
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          managed_accounts?: string[]
+          invited_by?: string | null
+          accepted_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          email?: string
+          name?: string
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          managed_accounts?: string[]
+          invited_by?: string | null
+          accepted_at?: string | null
+          created_at?: string
+        }
+      }
+      role_permissions: {
+        Row: {
+          role: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          permission: string
+          created_at: string
+        }
+        Insert: {
+          role: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          permission: string
+          created_at?: string
+        }
+        Update: {
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+          permission?: string
+          created_at?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_name: string
+          table_name: string
+          row_id: string
+          action: 'insert' | 'update' | 'delete'
+          old_data: Json | null
+          new_data: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_name?: string
+          table_name: string
+          row_id: string
+          action: 'insert' | 'update' | 'delete'
+          old_data?: Json | null
+          new_data?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          actor_id?: string | null
+          actor_name?: string
+          table_name?: string
+          row_id?: string
+          action?: 'insert' | 'update' | 'delete'
+          old_data?: Json | null
+          new_data?: Json | null
+          created_at?: string
+        }
+      }
     }
     Views: {
-      [_ in never]: never
+      sales_data_account_summary: {
+        Row: {
+          account_id: string
+          row_count: number
+          first_date: string
+          last_date: string
+        }
+      }
     }
     Functions: {
-      [_ in never]: never
+      rollback_import_batch: {
+        Args: {
+          batch_id: string
+        }
+        Returns: Database['public']['Tables']['import_batches']['Row']
+      }
+      get_sales_totals: {
+        Args: {
+          group_by?: 'account' | 'category' | 'user' | 'all'
+          period?: 'day' | 'month' | 'all'
+          start_date?: string | null
+          end_date?: string | null
+          account_ids?: string[] | null
+        }
+        Returns: {
+          bucket: string | null
+          group_id: string | null
+          clicks: number
+          orders: number
+          gross_commission: number
+          total_purchases: number
+          products_sold: number
+          new_buyers: number
+          commission_rate: number
+          conversion_rate: number
+        }[]
+      }
+      accept_invitation: {
+        Args: Record<string, never>
+        Returns: Database['public']['Tables']['users']['Row'] | null
+      }
+      save_incentive_rule: {
+        Args: {
+          rule_id: string | null
+          rule: Database['public']['Tables']['incentive_rules']['Update']
+          tiers?: {
+            id?: string
+            revenue_threshold: number
+            incentive_rate: number
+          }[] | null
+        }
+        Returns: Database['public']['Tables']['incentive_rules']['Row'] & { tiers: Database['public']['Tables']['incentive_tiers']['Row'][]; versions: Database['public']['Tables']['incentive_rule_versions']['Row'][] }
+      }
+      delete_incentive_rule: {
+        Args: {
+          rule_id: string
+        }
+        Returns: Database['public']['Tables']['incentive_rules']['Row'] & { tiers: Database['public']['Tables']['incentive_tiers']['Row'][]; versions: Database['public']['Tables']['incentive_rule_versions']['Row'][] }
+      }
+      import_sales_data: {
+        Args: {
+          file_name: string
+          sales_rows: Omit<Database['public']['Tables']['sales_data']['Insert'], 'id' | 'created_at'>[]
+        }
+        Returns: Database['public']['Tables']['sales_data']['Row'][]
+      }
+      close_payout_period: {
+        Args: {
+          period: string
+          snapshots: Omit<Database['public']['Tables']['payout_snapshots']['Insert'], 'period'>[]
+        }
+        Returns: Database['public']['Tables']['payout_periods']['Row']
+      }
     }
     Enums: {
       account_status: 'active' | 'violation' | 'inactive'
       payment_status: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
-      user_role: 'user' | 'superadmin'
+      user_role: 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer'
+      incentive_calculation_mode: 'flat' | 'progressive'
+      payout_period_status: 'open' | 'closed'
+      payout_status: 'draft' | 'approved' | 'paid' | 'disputed'
+      import_batch_status: 'applied' | 'rolled_back'
+      audit_action: 'insert' | 'update' | 'delete'
     }
   }
 }
\ No newline at end of file
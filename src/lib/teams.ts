@@ -0,0 +1,51 @@
+import { Team, User } from '../types';
+import { can } from './permissions';
+
+// What a rollup adds up per member: incentive calculations, payout snapshots or sales totals
+export interface MemberFigures {
+  user_id: string;
+  total_revenue: number;
+  total_commission: number;
+  incentive_amount?: number;
+}
+
+export interface TeamRollup {
+  team: Team;
+  lead: User | null;
+  members: User[];
+  total_revenue: number;
+  total_commission: number;
+  incentive_amount: number;
+  target_progress: number | null; // percentage of incentive_target, null when the team has no target
+}
+
+export const getTeamMembers = (team: Team, users: User[]): User[] => {
+  return users.filter(user => user.team_id === team.id);
+};
+
+export const leadsTeam = (teams: Team[], user: Pick<User, 'id'>): boolean => {
+  return teams.some(team => team.lead_id === user.id);
+};
+
+// accounts.view_all follows every team; leads follow the teams they lead
+export const getVisibleTeams = (teams: Team[], user: Pick<User, 'id' | 'role' | 'permissions'>): Team[] => {
+  return can(user, 'accounts.view_all') ? teams : teams.filter(team => team.lead_id === user.id);
+};
+
+export const rollupTeam = (team: Team, users: User[], figures: MemberFigures[]): TeamRollup => {
+  const members = getTeamMembers(team, users);
+  const memberIds = new Set(members.map(member => member.id));
+  const memberFigures = figures.filter(row => memberIds.has(row.user_id));
+
+  const totalRevenue = memberFigures.reduce((sum, row) => sum + row.total_revenue, 0);
+
+  return {
+    team,
+    lead: users.find(user => user.id === team.lead_id) || null,
+    members,
+    total_revenue: totalRevenue,
+    total_commission: memberFigures.reduce((sum, row) => sum + row.total_commission, 0),
+    incentive_amount: memberFigures.reduce((sum, row) => sum + (row.incentive_amount || 0), 0),
+    target_progress: team.incentive_target > 0 ? (totalRevenue / team.incentive_target) * 100 : null,
+  };
+};
@@ -46,6 +46,10 @@ export interface IncentiveTier {
   created_at: string;
 }
 
+// 'flat' pays the current tier's rate on all qualifying revenue,
+// 'progressive' pays each tier's rate only on the revenue inside that bracket
+export type IncentiveCalculationMode = 'flat' | 'progressive';
+
 export interface IncentiveRule {
   id: string;
   name: string;
@@ -54,8 +58,60 @@ export interface IncentiveRule {
   commission_rate_min: number;
   commission_rate_max: number;
   base_revenue_threshold: number;
+  calculation_mode: IncentiveCalculationMode;
   tiers: IncentiveTier[];
   is_active: boolean;
+  effective_from: string; // first day of the month the current terms take effect, YYYY-MM-DD
+  effective_to: string | null; // last day of the last month the rule applies; null while open-ended
+  versions: IncentiveRuleVersion[];
+  deleted_at: string | null; // deleted rules stay in force for the months their versions cover
+  created_at: string;
+}
+
+// A tier as a rule is saved with it; tiers loaded from the rule keep their id so the save updates them
+export type IncentiveTierInput = Omit<IncentiveTier, 'id' | 'created_at'> & { id?: string };
+
+// What the rule form saves; ids, versions and tier timestamps come back from the database
+export type IncentiveRuleInput = Omit<IncentiveRule, 'id' | 'created_at' | 'deleted_at' | 'versions' | 'tiers'> & {
+  tiers: IncentiveTierInput[];
+};
+
+// The terms of a rule for a range of months. Versions are never edited: saving new terms closes
+// the latest one and starts another. A version replaced in its first month ends before it starts.
+export interface IncentiveRuleVersion {
+  id: string;
+  rule_id: string;
+  version: number;
+  effective_from: string;
+  effective_to: string | null;
+  min_commission_threshold: number;
+  commission_rate_min: number;
+  commission_rate_max: number;
+  base_revenue_threshold: number;
+  calculation_mode: IncentiveCalculationMode;
+  tiers: IncentiveTier[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export type UserRole = 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer';
+
+export type Permission =
+  | 'accounts.view_all'
+  | 'accounts.edit'
+  | 'accounts.delete'
+  | 'categories.manage'
+  | 'sales.upload'
+  | 'reports.view'
+  | 'incentives.view'
+  | 'incentives.overview'
+  | 'incentives.manage'
+  | 'payouts.manage'
+  | 'payouts.approve';
+
+export interface RolePermission {
+  role: UserRole;
+  permission: Permission;
   created_at: string;
 }
 
@@ -63,11 +119,36 @@ export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'superadmin';
+  role: UserRole;
   managed_accounts: string[]; // Array of account IDs
+  disabled_at?: string | null;
+  phone?: string;
+  address?: string;
+  bio?: string;
+  avatar_url?: string | null;
+  team_id?: string | null;
+  created_at: string;
+  permissions?: Permission[]; // Granted to the role; loaded for the signed-in user only
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  lead_id: string | null;
+  incentive_target: number; // Monthly revenue the team aims for; 0 means no target
+  created_at: string;
+}
+
+// A pending team member; the users row is created from it when the invitee first signs in
+export interface UserInvitation {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  managed_accounts: string[];
+  invited_by: string | null;
+  accepted_at: string | null;
   created_at: string;
-  access_token?: string;
-  refresh_token?: string;
 }
 
 export interface IncentiveCalculation {
@@ -76,6 +157,8 @@ export interface IncentiveCalculation {
   total_revenue: number;
   total_commission: number;
   commission_rate: number;
+  qualifying_revenue: number;
+  qualifying_account_ids: string[];
   applicable_rule: IncentiveRule | null;
   current_tier: IncentiveTier | null;
   next_tier: IncentiveTier | null;
@@ -83,4 +166,152 @@ export interface IncentiveCalculation {
   progress_percentage: number;
   remaining_to_next_tier: number;
   managed_accounts_count: number;
-}
\ No newline at end of file
+}
+
+export interface PayoutPeriod {
+  period: string; // YYYY-MM
+  status: 'open' | 'closed';
+  closed_at: string | null;
+  closed_by: string | null;
+  reopened_at: string | null;
+  reopened_by: string | null;
+  created_at: string;
+}
+
+// Incentive result frozen when a payout period is closed
+export interface PayoutSnapshot {
+  id: string;
+  period: string;
+  user_id: string;
+  user_name: string;
+  total_revenue: number;
+  total_commission: number;
+  commission_rate: number;
+  qualifying_revenue: number;
+  rule_id: string | null;
+  rule_name: string | null;
+  tier_id: string | null;
+  tier_rate: number | null;
+  incentive_amount: number;
+  qualifying_account_ids: string[];
+  created_at: string;
+}
+
+export type PayoutStatus = 'draft' | 'approved' | 'paid' | 'disputed';
+
+// Incentive actually owed or paid to a team member for one month
+export interface PayoutLedgerEntry {
+  id: string;
+  user_id: string;
+  period: string; // YYYY-MM
+  amount: number;
+  status: PayoutStatus;
+  note: string | null;
+  payment_reference: string | null;
+  approved_at: string | null;
+  approved_by: string | null;
+  paid_at: string | null;
+  paid_by: string | null;
+  disputed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ImportBatchStatus = 'applied' | 'rolled_back';
+
+// One sales data upload, with enough history to undo it
+export interface ImportBatch {
+  id: string;
+  file_name: string;
+  uploaded_by: string | null;
+  uploader_name: string;
+  account_ids: string[];
+  row_count: number;
+  date_start: string;
+  date_end: string;
+  previous_rows: SalesData[]; // rows the upload overwrote, restored on rollback
+  inserted_keys: { account_id: string; date: string }[]; // rows the upload created, deleted on rollback
+  status: ImportBatchStatus;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+  created_at: string;
+}
+
+// Server-side filter for sales_data; omitted fields are not constrained
+export interface SalesDataQuery {
+  accountIds?: string[];
+  startDate?: string; // inclusive, YYYY-MM-DD
+  endDate?: string;   // inclusive, YYYY-MM-DD
+}
+
+export interface SalesDataPage {
+  rows: SalesData[];
+  total: number;
+}
+
+export interface SalesAccountSummary {
+  account_id: string;
+  row_count: number;
+  first_date: string;
+  last_date: string;
+}
+
+export type SalesTotalsGroup = 'account' | 'category' | 'user' | 'all';
+
+export type SalesTotalsPeriod = 'day' | 'month' | 'all';
+
+// One bucket from get_sales_totals; rates are percentages computed from the sums
+export interface SalesTotals {
+  bucket: string | null;   // day or first day of month, null for period 'all'
+  group_id: string | null; // account, category or user id, null for group 'all'
+  clicks: number;
+  orders: number;
+  gross_commission: number;
+  total_purchases: number;
+  products_sold: number;
+  new_buyers: number;
+  commission_rate: number;
+  conversion_rate: number;
+}
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// One recorded change, written by the record_audit_log trigger
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null; // null for changes made by the system
+  actor_name: string;
+  table_name: string;
+  row_id: string;
+  action: AuditAction;
+  old_data: Record<string, unknown> | null; // null for inserts
+  new_data: Record<string, unknown> | null; // null for deletes
+  created_at: string;
+}
+
+// Server-side filter for audit_log; omitted fields are not constrained
+export interface AuditLogQuery {
+  actorId?: string;
+  tableName?: string;
+  rowId?: string;
+  startDate?: string; // inclusive, YYYY-MM-DD
+  endDate?: string;   // inclusive, YYYY-MM-DD
+}
+
+export interface AuditLogPage {
+  rows: AuditLogEntry[];
+  total: number;
+}
+
+// A failed Supabase call. code is the Postgres SQLSTATE or PostgREST/Auth/Storage error code
+// (e.g. '23505', 'PGRST116'), or the HTTP status for Edge Functions; null when there is none.
+export interface SupabaseError {
+  message: string;
+  code: string | null;
+  details: string | null;
+  hint: string | null;
+}
+
+// Every useSupabase operation resolves to exactly one of data or error
+export type SupabaseResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: SupabaseError };
@@ -0,0 +1,185 @@
+// Team administration that needs the service role key: inviting, disabling and deleting auth users.
+// The browser calls it through supabase.functions.invoke('admin-users'), which forwards the caller's JWT;
+// every request is checked against the users table before the service role client is used.
+//
+// Deploy with `supabase functions deploy admin-users`. SUPABASE_URL, SUPABASE_ANON_KEY and
+// SUPABASE_SERVICE_ROLE_KEY are provided by the Edge Runtime.
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+type UserRole = 'superadmin' | 'team_lead' | 'finance' | 'user' | 'viewer';
+
+type AdminUsersRequest =
+  | { action: 'invite'; email: string; name: string; role: UserRole; managed_accounts: string[]; redirect_to?: string }
+  | { action: 'disable' | 'enable' | 'delete'; user_id: string };
+
+// Long enough to act as permanent; 'none' lifts the ban again
+const BAN_DURATION = '876000h';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const admin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { autoRefreshToken: false, persistSession: false },
+});
+
+// Service role client for the caller's changes; record_audit_log reads x-actor-id to attribute them
+const adminActingAs = (callerId: string) => {
+  return createClient(supabaseUrl, serviceRoleKey, {
+    global: { headers: { 'x-actor-id': callerId } },
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+};
+
+// Resolves the JWT to an auth user, then requires an active superadmin profile
+const requireSuperadmin = async (authorization: string | null) => {
+  if (!authorization) throw new HttpError(401, 'Missing authorization header');
+
+  const caller = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const { data: { user }, error } = await caller.auth.getUser();
+  if (error || !user) throw new HttpError(401, 'Invalid or expired session');
+
+  const { data: profile, error: profileError } = await admin
+    .from('users')
+    .select('id, role, disabled_at')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile || profile.role !== 'superadmin' || profile.disabled_at) {
+    throw new HttpError(403, 'Only super admins can manage team members');
+  }
+
+  return profile.id as string;
+};
+
+// Records the invitation and emails a link; an auth user that already exists gets a fresh magic link instead
+const inviteUser = async (db: SupabaseClient, request: Extract<AdminUsersRequest, { action: 'invite' }>, callerId: string) => {
+  const email = request.email.trim().toLowerCase();
+  if (!email) throw new HttpError(400, 'Email is required');
+
+  const { data: existingUser, error: existingError } = await db
+    .from('users')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existingUser) throw new HttpError(409, 'A user with this email address already exists.');
+
+  const { data: invitation, error } = await db
+    .from('user_invitations')
+    .upsert([{
+      email,
+      name: request.name,
+      role: request.role,
+      managed_accounts: request.role !== 'superadmin' ? request.managed_accounts : [],
+      invited_by: callerId,
+      accepted_at: null,
+    }], { onConflict: 'email' })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { error: inviteError } = await db.auth.admin.inviteUserByEmail(email, {
+    redirectTo: request.redirect_to,
+    data: { name: request.name },
+  });
+
+  if (inviteError?.code === 'email_exists') {
+    const { error: otpError } = await db.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: request.redirect_to },
+    });
+    if (otpError) throw otpError;
+  } else if (inviteError) {
+    throw inviteError;
+  }
+
+  return invitation;
+};
+
+const setDisabled = async (db: SupabaseClient, userId: string, disabled: boolean) => {
+  const { error: banError } = await db.auth.admin.updateUserById(userId, {
+    ban_duration: disabled ? BAN_DURATION : 'none',
+  });
+  if (banError) throw banError;
+
+  const { data, error } = await db
+    .from('users')
+    .update({ disabled_at: disabled ? new Date().toISOString() : null })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Deleting the auth user cascades into users; the invitation is removed so the email can be invited again
+const deleteUser = async (db: SupabaseClient, userId: string) => {
+  const { data: profile } = await db.from('users').select('email').eq('id', userId).maybeSingle();
+
+  const { error } = await db.auth.admin.deleteUser(userId);
+  if (error && error.status !== 404) throw error;
+
+  await db.from('users').delete().eq('id', userId);
+  if (profile?.email) {
+    await db.from('user_invitations').delete().eq('email', profile.email.toLowerCase());
+  }
+
+  return { id: userId };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  try {
+    const callerId = await requireSuperadmin(req.headers.get('Authorization'));
+    const request = await req.json() as AdminUsersRequest;
+    const db = adminActingAs(callerId);
+
+    switch (request.action) {
+      case 'invite':
+        return json(await inviteUser(db, request, callerId));
+      case 'disable':
+      case 'enable':
+      case 'delete':
+        if (request.user_id === callerId) throw new HttpError(400, 'You cannot disable or delete your own account.');
+        return json(request.action === 'delete'
+          ? await deleteUser(db, request.user_id)
+          : await setDisabled(db, request.user_id, request.action === 'disable'));
+      default:
+        throw new HttpError(400, 'Unknown action');
+    }
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    const message = err instanceof Error ? err.message : (err as { message?: string })?.message || 'Unexpected error';
+    return json({ error: message }, status);
+  }
+});
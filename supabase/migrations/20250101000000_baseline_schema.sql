@@ -0,0 +1,190 @@
+/*
+  # Baseline schema
+
+  Recreates the schema the app was originally built against, so a fresh project can be
+  set up from migrations alone. Later migrations build on these tables.
+
+  1. New Types
+    - `account_status` enum: `active` | `violation` | `inactive`
+    - `payment_status` enum: `belum diatur` | `utamakan` | `dimasukkan` | `disetujui` | `sah`
+    - `user_role` enum: `user` | `superadmin`
+
+  2. New Tables
+    - `categories`: account categories, `name` is unique
+    - `accounts`: affiliate accounts
+      - `account_code` is unique
+      - `category_id` is optional, shown as "Belum Diatur" when empty
+      - `user_id` is the team member who created the account
+    - `users`: app profile for each auth user, with `role` and `managed_accounts`
+    - `sales_data`: one row per account and day, unique on `(account_id, date)` so uploads can upsert
+    - `incentive_rules`: commission rate bands with the revenue and commission thresholds
+    - `incentive_tiers`: revenue tiers of a rule with their incentive rate
+
+  3. Security
+    - RLS enabled on every table
+    - Authenticated users can read and write all business data
+    - Users can create their own profile on first login; superadmins manage all profiles
+    - `is_superadmin()` checks the caller's role for policies on `users` without recursing
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'account_status') THEN
+    CREATE TYPE account_status AS ENUM ('active', 'violation', 'inactive');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payment_status') THEN
+    CREATE TYPE payment_status AS ENUM ('belum diatur', 'utamakan', 'dimasukkan', 'disetujui', 'sah');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'user_role') THEN
+    CREATE TYPE user_role AS ENUM ('user', 'superadmin');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS users (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  email text NOT NULL UNIQUE,
+  role user_role NOT NULL DEFAULT 'user',
+  managed_accounts uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  username text NOT NULL,
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  status account_status NOT NULL DEFAULT 'active',
+  payment_data payment_status NOT NULL DEFAULT 'belum diatur',
+  account_code text NOT NULL UNIQUE,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sales_data (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  clicks integer NOT NULL DEFAULT 0,
+  orders integer NOT NULL DEFAULT 0,
+  gross_commission numeric NOT NULL DEFAULT 0,
+  products_sold integer NOT NULL DEFAULT 0,
+  total_purchases numeric NOT NULL DEFAULT 0,
+  new_buyers integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (account_id, date)
+);
+
+CREATE TABLE IF NOT EXISTS incentive_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  min_commission_threshold numeric NOT NULL DEFAULT 0,
+  commission_rate_min numeric NOT NULL DEFAULT 0,
+  commission_rate_max numeric NOT NULL DEFAULT 100,
+  base_revenue_threshold numeric NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  CHECK (commission_rate_min <= commission_rate_max)
+);
+
+CREATE TABLE IF NOT EXISTS incentive_tiers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES incentive_rules(id) ON DELETE CASCADE,
+  revenue_threshold numeric NOT NULL,
+  incentive_rate numeric NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounts_category_id ON accounts(category_id);
+CREATE INDEX IF NOT EXISTS idx_accounts_user_id ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS idx_sales_data_account_id ON sales_data(account_id);
+CREATE INDEX IF NOT EXISTS idx_incentive_tiers_rule_id ON incentive_tiers(rule_id);
+
+ALTER TABLE categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_data ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incentive_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON categories;
+CREATE POLICY "Authenticated users can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage accounts" ON accounts;
+CREATE POLICY "Authenticated users can manage accounts"
+  ON accounts FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage sales data" ON sales_data;
+CREATE POLICY "Authenticated users can manage sales data"
+  ON sales_data FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage incentive rules" ON incentive_rules;
+CREATE POLICY "Authenticated users can manage incentive rules"
+  ON incentive_rules FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Authenticated users can manage incentive tiers" ON incentive_tiers;
+CREATE POLICY "Authenticated users can manage incentive tiers"
+  ON incentive_tiers FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Policies on users cannot query users directly without recursing into themselves
+CREATE OR REPLACE FUNCTION is_superadmin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'superadmin');
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can read users" ON users;
+CREATE POLICY "Authenticated users can read users"
+  ON users FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Users can create own profile" ON users;
+CREATE POLICY "Users can create own profile"
+  ON users FOR INSERT
+  TO authenticated
+  WITH CHECK ((id = auth.uid() AND role = 'user') OR is_superadmin());
+
+DROP POLICY IF EXISTS "Superadmins can update users" ON users;
+CREATE POLICY "Superadmins can update users"
+  ON users FOR UPDATE
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+DROP POLICY IF EXISTS "Superadmins can delete users" ON users;
+CREATE POLICY "Superadmins can delete users"
+  ON users FOR DELETE
+  TO authenticated
+  USING (is_superadmin());
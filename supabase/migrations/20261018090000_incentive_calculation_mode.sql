@@ -0,0 +1,22 @@
+/*
+  # Incentive rule calculation mode
+
+  1. New Types
+    - `incentive_calculation_mode` enum: `flat` | `progressive`
+
+  2. Changes
+    - `incentive_rules.calculation_mode`
+      - `flat`: the reached tier's rate is applied to all qualifying revenue
+      - `progressive`: each tier's rate is applied only to the revenue inside that tier
+      - Existing rules default to `progressive`, matching the behaviour described on the Incentive Rules screen
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'incentive_calculation_mode') THEN
+    CREATE TYPE incentive_calculation_mode AS ENUM ('flat', 'progressive');
+  END IF;
+END $$;
+
+ALTER TABLE incentive_rules
+  ADD COLUMN IF NOT EXISTS calculation_mode incentive_calculation_mode NOT NULL DEFAULT 'progressive';
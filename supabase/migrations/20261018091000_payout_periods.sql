@@ -0,0 +1,127 @@
+/*
+  # Payout periods and frozen payout snapshots
+
+  1. New Types
+    - `payout_period_status` enum: `open` | `closed`
+
+  2. New Tables
+    - `payout_periods`
+      - `period` (text, YYYY-MM, primary key)
+      - `status`, `closed_at`, `closed_by`, `reopened_at`, `reopened_by`
+    - `payout_snapshots`
+      - One row per user and period, written when the period is closed
+      - Stores revenue, commission, rule/tier used, incentive amount and the qualifying account ids
+
+  3. Locking
+    - A trigger on `sales_data` rejects inserts, updates and deletes for rows whose month is closed,
+      so a late CSV re-upload cannot change an incentive that has already been paid
+
+  4. Security
+    - RLS enabled on both tables
+    - Authenticated users can read payout periods and their own snapshots
+    - Only superadmins can close/reopen periods and write snapshots
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payout_period_status') THEN
+    CREATE TYPE payout_period_status AS ENUM ('open', 'closed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS payout_periods (
+  period text PRIMARY KEY CHECK (period ~ '^\d{4}-\d{2}$'),
+  status payout_period_status NOT NULL DEFAULT 'open',
+  closed_at timestamptz,
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  reopened_at timestamptz,
+  reopened_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payout_snapshots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period text NOT NULL CHECK (period ~ '^\d{4}-\d{2}$'),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_name text NOT NULL,
+  total_revenue numeric NOT NULL DEFAULT 0,
+  total_commission numeric NOT NULL DEFAULT 0,
+  commission_rate numeric NOT NULL DEFAULT 0,
+  qualifying_revenue numeric NOT NULL DEFAULT 0,
+  rule_id uuid REFERENCES incentive_rules(id) ON DELETE SET NULL,
+  rule_name text,
+  tier_id uuid,
+  tier_rate numeric,
+  incentive_amount numeric NOT NULL DEFAULT 0,
+  qualifying_account_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (period, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_snapshots_user_id ON payout_snapshots(user_id);
+
+ALTER TABLE payout_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read payout periods" ON payout_periods;
+CREATE POLICY "Authenticated users can read payout periods"
+  ON payout_periods FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Superadmins can manage payout periods" ON payout_periods;
+CREATE POLICY "Superadmins can manage payout periods"
+  ON payout_periods FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+DROP POLICY IF EXISTS "Users can read own payout snapshots" ON payout_snapshots;
+CREATE POLICY "Users can read own payout snapshots"
+  ON payout_snapshots FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin')
+  );
+
+DROP POLICY IF EXISTS "Superadmins can manage payout snapshots" ON payout_snapshots;
+CREATE POLICY "Superadmins can manage payout snapshots"
+  ON payout_snapshots FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+-- Reject sales_data changes that fall inside a closed payout period
+CREATE OR REPLACE FUNCTION prevent_closed_period_sales_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND EXISTS (
+    SELECT 1 FROM payout_periods
+    WHERE period = to_char(OLD.date, 'YYYY-MM') AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Payout period % is closed', to_char(OLD.date, 'YYYY-MM') USING ERRCODE = 'P0001';
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND EXISTS (
+    SELECT 1 FROM payout_periods
+    WHERE period = to_char(NEW.date, 'YYYY-MM') AND status = 'closed'
+  ) THEN
+    RAISE EXCEPTION 'Payout period % is closed', to_char(NEW.date, 'YYYY-MM') USING ERRCODE = 'P0001';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sales_data_closed_period_lock ON sales_data;
+CREATE TRIGGER sales_data_closed_period_lock
+  BEFORE INSERT OR UPDATE OR DELETE ON sales_data
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_closed_period_sales_changes();
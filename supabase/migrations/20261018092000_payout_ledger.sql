@@ -0,0 +1,64 @@
+/*
+  # Incentive payout ledger
+
+  1. New Types
+    - `payout_status` enum: `draft` | `approved` | `paid` | `disputed`
+
+  2. New Tables
+    - `payout_ledger`
+      - One row per user and month (`period`, YYYY-MM)
+      - `amount` owed to the team member, editable while the entry is a draft
+      - `approved_at`/`approved_by`, `paid_at`/`paid_by`/`payment_reference`, `disputed_at` record each step
+      - `note` keeps adjustment or dispute reasons
+
+  3. Security
+    - RLS enabled
+    - Users can read their own payouts
+    - Only superadmins can create and update payouts
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payout_status') THEN
+    CREATE TYPE payout_status AS ENUM ('draft', 'approved', 'paid', 'disputed');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS payout_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  period text NOT NULL CHECK (period ~ '^\d{4}-\d{2}$'),
+  amount numeric NOT NULL DEFAULT 0 CHECK (amount >= 0),
+  status payout_status NOT NULL DEFAULT 'draft',
+  note text,
+  payment_reference text,
+  approved_at timestamptz,
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  paid_at timestamptz,
+  paid_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  disputed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_ledger_period ON payout_ledger(period);
+CREATE INDEX IF NOT EXISTS idx_payout_ledger_status ON payout_ledger(status);
+
+ALTER TABLE payout_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own payouts" ON payout_ledger;
+CREATE POLICY "Users can read own payouts"
+  ON payout_ledger FOR SELECT
+  TO authenticated
+  USING (
+    user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin')
+  );
+
+DROP POLICY IF EXISTS "Superadmins can manage payouts" ON payout_ledger;
+CREATE POLICY "Superadmins can manage payouts"
+  ON payout_ledger FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
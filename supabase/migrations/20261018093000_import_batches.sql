@@ -0,0 +1,133 @@
+/*
+  # Sales data import batches
+
+  1. New Types
+    - `import_batch_status` enum: `applied` | `rolled_back`
+
+  2. New Tables
+    - `import_batches`
+      - One row per upload with the file name, uploader, touched accounts and date range
+      - `previous_rows` holds the `sales_data` rows the upload overwrote
+      - `inserted_keys` holds the `(account_id, date)` pairs the upload created
+      - `rolled_back_at`/`rolled_back_by` record who undid the upload
+
+  3. Functions
+    - `rollback_import_batch(batch_id)` deletes the inserted rows and restores the
+      overwritten rows in one transaction. It refuses when a newer applied batch
+      touches the same accounts and dates, since rolling back would discard that data.
+
+  4. Security
+    - RLS enabled
+    - Users can read and record their own imports
+    - Superadmins can read and roll back every import
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'import_batch_status') THEN
+    CREATE TYPE import_batch_status AS ENUM ('applied', 'rolled_back');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_name text NOT NULL,
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  uploader_name text NOT NULL DEFAULT '',
+  account_ids uuid[] NOT NULL DEFAULT '{}',
+  row_count integer NOT NULL DEFAULT 0,
+  date_start date NOT NULL,
+  date_end date NOT NULL,
+  previous_rows jsonb NOT NULL DEFAULT '[]',
+  inserted_keys jsonb NOT NULL DEFAULT '[]',
+  status import_batch_status NOT NULL DEFAULT 'applied',
+  rolled_back_at timestamptz,
+  rolled_back_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (date_start <= date_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_created_at ON import_batches(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_batches_uploaded_by ON import_batches(uploaded_by);
+CREATE INDEX IF NOT EXISTS idx_import_batches_account_ids ON import_batches USING GIN (account_ids);
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own imports" ON import_batches;
+CREATE POLICY "Users can read own imports"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (
+    uploaded_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin')
+  );
+
+DROP POLICY IF EXISTS "Users can record own imports" ON import_batches;
+CREATE POLICY "Users can record own imports"
+  ON import_batches FOR INSERT
+  TO authenticated
+  WITH CHECK (uploaded_by = auth.uid());
+
+DROP POLICY IF EXISTS "Uploaders and superadmins can update imports" ON import_batches;
+CREATE POLICY "Uploaders and superadmins can update imports"
+  ON import_batches FOR UPDATE
+  TO authenticated
+  USING (
+    uploaded_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin')
+  );
+
+-- Runs with the caller's privileges so the policies above and on sales_data still apply
+CREATE OR REPLACE FUNCTION rollback_import_batch(batch_id uuid)
+RETURNS import_batches
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  batch import_batches;
+BEGIN
+  SELECT * INTO batch FROM import_batches WHERE id = batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', batch_id;
+  END IF;
+
+  IF batch.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import batch % has already been rolled back', batch_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM import_batches newer
+    WHERE newer.id <> batch.id
+      AND newer.status = 'applied'
+      AND newer.created_at > batch.created_at
+      AND newer.account_ids && batch.account_ids
+      AND newer.date_start <= batch.date_end
+      AND newer.date_end >= batch.date_start
+  ) THEN
+    RAISE EXCEPTION 'A newer import overlaps these accounts and dates; roll it back first';
+  END IF;
+
+  DELETE FROM sales_data s
+  USING jsonb_to_recordset(batch.inserted_keys) AS k(account_id uuid, date date)
+  WHERE s.account_id = k.account_id AND s.date = k.date;
+
+  INSERT INTO sales_data
+  SELECT * FROM jsonb_populate_recordset(NULL::sales_data, batch.previous_rows)
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers;
+
+  UPDATE import_batches
+  SET status = 'rolled_back',
+      rolled_back_at = now(),
+      rolled_back_by = auth.uid()
+  WHERE id = batch.id
+  RETURNING * INTO batch;
+
+  RETURN batch;
+END;
+$$;
@@ -0,0 +1,31 @@
+/*
+  # Date-scoped sales data queries
+
+  1. Indexes
+    - `sales_data(date)` for date-window reads across all accounts
+    - `sales_data(account_id, date)` for date-window reads of managed accounts
+
+  2. New Views
+    - `sales_data_account_summary`
+      - One row per account with `row_count`, `first_date` and `last_date`
+      - Lets the upload screen show per-account coverage without loading every row
+
+  3. Security
+    - The view uses `security_invoker` so the `sales_data` policies of the caller apply
+*/
+
+CREATE INDEX IF NOT EXISTS idx_sales_data_date ON sales_data(date);
+CREATE INDEX IF NOT EXISTS idx_sales_data_account_date ON sales_data(account_id, date);
+
+CREATE OR REPLACE VIEW sales_data_account_summary
+WITH (security_invoker = true)
+AS
+SELECT
+  account_id,
+  count(*)::integer AS row_count,
+  min(date) AS first_date,
+  max(date) AS last_date
+FROM sales_data
+GROUP BY account_id;
+
+GRANT SELECT ON sales_data_account_summary TO authenticated;
@@ -0,0 +1,76 @@
+/*
+  # Database-side sales aggregates
+
+  1. Functions
+    - `get_sales_totals(group_by, period, start_date, end_date, account_ids)`
+      - `group_by`: `account` | `category` | `user` | `all`
+      - `period`: `day` | `month` | `all`; `bucket` is the day or the first day of the month
+      - Sums clicks, orders, gross commission, total purchases, products sold and new buyers
+      - `commission_rate` (commission / revenue) and `conversion_rate` (orders / clicks) are
+        percentages computed from the sums, so every screen reports the same numbers
+      - Grouping by `user` counts an account for each user whose `managed_accounts` contains it
+
+  2. Security
+    - Runs with the caller's privileges so the `sales_data` policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION get_sales_totals(
+  group_by text DEFAULT 'all',
+  period text DEFAULT 'all',
+  start_date date DEFAULT NULL,
+  end_date date DEFAULT NULL,
+  account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket date,
+  group_id uuid,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  total_purchases numeric,
+  products_sold bigint,
+  new_buyers bigint,
+  commission_rate numeric,
+  conversion_rate numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    CASE get_sales_totals.period
+      WHEN 'day' THEN s.date
+      WHEN 'month' THEN date_trunc('month', s.date)::date
+    END AS bucket,
+    CASE get_sales_totals.group_by
+      WHEN 'account' THEN s.account_id
+      WHEN 'category' THEN a.category_id
+      WHEN 'user' THEN u.id
+    END AS group_id,
+    coalesce(sum(s.clicks), 0)::bigint,
+    coalesce(sum(s.orders), 0)::bigint,
+    coalesce(sum(s.gross_commission), 0)::numeric,
+    coalesce(sum(s.total_purchases), 0)::numeric,
+    coalesce(sum(s.products_sold), 0)::bigint,
+    coalesce(sum(s.new_buyers), 0)::bigint,
+    CASE WHEN sum(s.total_purchases) > 0
+      THEN sum(s.gross_commission)::numeric / sum(s.total_purchases) * 100
+      ELSE 0
+    END,
+    CASE WHEN sum(s.clicks) > 0
+      THEN sum(s.orders)::numeric / sum(s.clicks) * 100
+      ELSE 0
+    END
+  FROM sales_data s
+  JOIN accounts a ON a.id = s.account_id
+  LEFT JOIN users u
+    ON get_sales_totals.group_by = 'user'
+    AND s.account_id = ANY(u.managed_accounts)
+  WHERE (get_sales_totals.start_date IS NULL OR s.date >= get_sales_totals.start_date)
+    AND (get_sales_totals.end_date IS NULL OR s.date <= get_sales_totals.end_date)
+    AND (get_sales_totals.account_ids IS NULL OR s.account_id = ANY(get_sales_totals.account_ids))
+    AND (get_sales_totals.group_by <> 'user' OR u.id IS NOT NULL)
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_sales_totals(text, text, date, date, uuid[]) TO authenticated;
@@ -0,0 +1,126 @@
+/*
+  # Enforce managed accounts with row level security
+
+  Until now any authenticated user could read and write every account through the anon key,
+  and screens filtered by `users.managed_accounts` in the browser. These policies move that
+  filtering to the database.
+
+  1. Functions
+    - `manages_account(account_id)`: true for superadmins, for accounts listed in the caller's
+      `managed_accounts`, and for accounts the caller created (`accounts.user_id`)
+
+  2. Security
+    - `accounts`: users read, create and update only the accounts they manage; only superadmins delete
+    - `sales_data`: users read and write only rows of accounts they manage
+    - `users`: users read their own profile and may create it on first login as a plain `user`
+      with no managed accounts; superadmins read and manage everyone
+    - `incentive_rules`, `incentive_tiers`: everyone reads, only superadmins write
+*/
+
+-- SECURITY DEFINER so policies can read users.managed_accounts regardless of the users policies
+CREATE OR REPLACE FUNCTION manages_account(account_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_superadmin()
+    OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+        AND manages_account.account_id = ANY(users.managed_accounts)
+    )
+    OR EXISTS (
+      SELECT 1 FROM accounts
+      WHERE accounts.id = manages_account.account_id
+        AND accounts.user_id = auth.uid()
+    );
+$$;
+
+-- Accounts
+DROP POLICY IF EXISTS "Authenticated users can manage accounts" ON accounts;
+
+DROP POLICY IF EXISTS "Users can read managed accounts" ON accounts;
+CREATE POLICY "Users can read managed accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (manages_account(id));
+
+DROP POLICY IF EXISTS "Users can create own accounts" ON accounts;
+CREATE POLICY "Users can create own accounts"
+  ON accounts FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() OR is_superadmin());
+
+DROP POLICY IF EXISTS "Users can update managed accounts" ON accounts;
+CREATE POLICY "Users can update managed accounts"
+  ON accounts FOR UPDATE
+  TO authenticated
+  USING (manages_account(id))
+  WITH CHECK (manages_account(id));
+
+DROP POLICY IF EXISTS "Superadmins can delete accounts" ON accounts;
+CREATE POLICY "Superadmins can delete accounts"
+  ON accounts FOR DELETE
+  TO authenticated
+  USING (is_superadmin());
+
+-- Sales data
+DROP POLICY IF EXISTS "Authenticated users can manage sales data" ON sales_data;
+
+DROP POLICY IF EXISTS "Users can manage sales data of managed accounts" ON sales_data;
+CREATE POLICY "Users can manage sales data of managed accounts"
+  ON sales_data FOR ALL
+  TO authenticated
+  USING (manages_account(account_id))
+  WITH CHECK (manages_account(account_id));
+
+-- Users
+DROP POLICY IF EXISTS "Authenticated users can read users" ON users;
+
+DROP POLICY IF EXISTS "Users can read own profile" ON users;
+CREATE POLICY "Users can read own profile"
+  ON users FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR is_superadmin());
+
+DROP POLICY IF EXISTS "Users can create own profile" ON users;
+CREATE POLICY "Users can create own profile"
+  ON users FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    (id = auth.uid() AND role = 'user' AND managed_accounts = '{}')
+    OR is_superadmin()
+  );
+
+-- Incentive rules and tiers
+DROP POLICY IF EXISTS "Authenticated users can manage incentive rules" ON incentive_rules;
+
+DROP POLICY IF EXISTS "Authenticated users can read incentive rules" ON incentive_rules;
+CREATE POLICY "Authenticated users can read incentive rules"
+  ON incentive_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Superadmins can manage incentive rules" ON incentive_rules;
+CREATE POLICY "Superadmins can manage incentive rules"
+  ON incentive_rules FOR ALL
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+DROP POLICY IF EXISTS "Authenticated users can manage incentive tiers" ON incentive_tiers;
+
+DROP POLICY IF EXISTS "Authenticated users can read incentive tiers" ON incentive_tiers;
+CREATE POLICY "Authenticated users can read incentive tiers"
+  ON incentive_tiers FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Superadmins can manage incentive tiers" ON incentive_tiers;
+CREATE POLICY "Superadmins can manage incentive tiers"
+  ON incentive_tiers FOR ALL
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
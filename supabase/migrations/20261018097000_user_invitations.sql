@@ -0,0 +1,84 @@
+/*
+  # Invite-based onboarding
+
+  Superadmins no longer type a password for new team members. They record an invitation and
+  Supabase emails the invitee a magic link; the invitee signs in with it and sets their own password.
+
+  1. New Tables
+    - `user_invitations`
+      - `email` (unique, stored lower-case): address the magic link was sent to
+      - `name`, `role`, `managed_accounts`: copied to the invitee's `users` row on first sign-in
+      - `invited_by`: superadmin who sent the invitation
+      - `accepted_at`: set when the invitee first signs in
+
+  2. Functions
+    - `accept_invitation()` creates (or updates) the caller's `users` row from the pending
+      invitation for their email and marks it accepted. Returns NULL when there is none.
+      SECURITY DEFINER because the `users` insert policy only allows plain users without accounts.
+
+  3. Security
+    - RLS enabled; only superadmins read and manage invitations
+*/
+
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL UNIQUE CHECK (email = lower(email)),
+  name text NOT NULL DEFAULT '',
+  role user_role NOT NULL DEFAULT 'user',
+  managed_accounts uuid[] NOT NULL DEFAULT '{}',
+  invited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  accepted_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Superadmins can manage invitations" ON user_invitations;
+CREATE POLICY "Superadmins can manage invitations"
+  ON user_invitations FOR ALL
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+CREATE OR REPLACE FUNCTION accept_invitation()
+RETURNS users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation user_invitations;
+  profile users;
+BEGIN
+  SELECT * INTO invitation
+  FROM user_invitations
+  WHERE email = lower(auth.jwt() ->> 'email')
+    AND accepted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO users (id, name, email, role, managed_accounts)
+  VALUES (
+    auth.uid(),
+    coalesce(nullif(invitation.name, ''), split_part(invitation.email, '@', 1)),
+    invitation.email,
+    invitation.role,
+    invitation.managed_accounts
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    role = EXCLUDED.role,
+    managed_accounts = EXCLUDED.managed_accounts
+  RETURNING * INTO profile;
+
+  UPDATE user_invitations
+  SET accepted_at = now()
+  WHERE id = invitation.id;
+
+  RETURN profile;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_invitation() TO authenticated;
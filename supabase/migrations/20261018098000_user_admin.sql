@@ -0,0 +1,68 @@
+/*
+  # Disable team members and keep auth administration on the server
+
+  Creating, disabling and deleting auth users needs the service role key, so those actions now
+  go through the `admin-users` Edge Function (supabase/functions/admin-users), which checks that
+  the caller is an active superadmin before using its service role client.
+
+  1. Modified Tables
+    - `users`
+      - `disabled_at` (timestamptz, nullable): set while the member is disabled. The Edge Function
+        also bans the auth user so they cannot sign in or refresh their session.
+
+  2. Functions
+    - `is_superadmin()` and `manages_account()` ignore disabled users, so an access token issued
+      before the ban stops granting access straight away
+
+  3. Security
+    - `users`: the delete policy is dropped. Removing a member deletes their auth user from the
+      Edge Function, which cascades into `users`; deleting only the row left a working login behind.
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at timestamptz;
+
+CREATE OR REPLACE FUNCTION is_superadmin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+      AND role = 'superadmin'
+      AND disabled_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION manages_account(account_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_superadmin()
+    OR (
+      NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid()
+          AND users.disabled_at IS NOT NULL
+      )
+      AND (
+        EXISTS (
+          SELECT 1 FROM users
+          WHERE users.id = auth.uid()
+            AND manages_account.account_id = ANY(users.managed_accounts)
+        )
+        OR EXISTS (
+          SELECT 1 FROM accounts
+          WHERE accounts.id = manages_account.account_id
+            AND accounts.user_id = auth.uid()
+        )
+      )
+    );
+$$;
+
+DROP POLICY IF EXISTS "Superadmins can delete users" ON users;
@@ -0,0 +1,85 @@
+/*
+  # Editable user profiles and avatars
+
+  The Profile screen showed placeholder details and saved nothing. Members can now edit their own
+  name, phone, address, bio and avatar; everything that controls access stays superadmin-only.
+
+  1. Modified Tables
+    - `users`
+      - `phone`, `address`, `bio` (text, default ''): contact details shown on the Profile screen
+      - `avatar_url` (text, nullable): public URL of the avatar in the `avatars` bucket
+
+  2. Storage
+    - Public `avatars` bucket; each member writes only inside the folder named after their user id
+
+  3. Security
+    - `users`: members may update their own row
+    - Trigger `users_protect_admin_columns` rejects changes to `email`, `role`, `managed_accounts`
+      and `disabled_at` unless the caller is a superadmin. SECURITY DEFINER functions and the
+      service role (admin-users Edge Function) do not run as `authenticated` and are not affected.
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone text NOT NULL DEFAULT '';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS address text NOT NULL DEFAULT '';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS bio text NOT NULL DEFAULT '';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_url text;
+
+DROP POLICY IF EXISTS "Users can update own profile" ON users;
+CREATE POLICY "Users can update own profile"
+  ON users FOR UPDATE
+  TO authenticated
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+CREATE OR REPLACE FUNCTION protect_user_admin_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT is_superadmin() AND (
+    NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.managed_accounts IS DISTINCT FROM OLD.managed_accounts
+    OR NEW.disabled_at IS DISTINCT FROM OLD.disabled_at
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can change email, role, managed accounts or access' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_protect_admin_columns ON users;
+CREATE TRIGGER users_protect_admin_columns
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_admin_columns();
+
+-- Avatars
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Anyone can read avatars" ON storage.objects;
+CREATE POLICY "Anyone can read avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+DROP POLICY IF EXISTS "Users can upload own avatar" ON storage.objects;
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can replace own avatar" ON storage.objects;
+CREATE POLICY "Users can replace own avatar"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete own avatar" ON storage.objects;
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,13 @@
+/*
+  # Additional user roles
+
+  New values are added on their own because Postgres cannot use an enum value in the
+  transaction that adds it; the permission matrix that refers to them follows in the next migration.
+
+  1. Modified Types
+    - `user_role` gains `team_lead`, `finance` and `viewer`
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'team_lead';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'finance';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'viewer';
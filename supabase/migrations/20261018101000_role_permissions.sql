@@ -0,0 +1,240 @@
+/*
+  # Permission matrix per role
+
+  What a role may do is no longer hard-coded as "superadmin or not". Each role is granted a set of
+  permissions, superadmins edit the grants from Team Management, and the policies below check them.
+  Superadmins always hold every permission; team administration stays superadmin-only.
+
+  Permissions:
+    - `accounts.view_all`: read every account, its sales data and team member profiles
+    - `accounts.edit`: add accounts and edit the accounts the user manages
+    - `accounts.delete`: delete the accounts the user manages
+    - `categories.manage`: add, rename and delete categories
+    - `sales.upload`: upload, delete and roll back sales data of managed accounts
+    - `reports.view`: open the Reports screen
+    - `incentives.view`: open Incentive Quest
+    - `incentives.overview`: open Incentive Overview
+    - `incentives.manage`: edit incentive rules and tiers
+    - `payouts.manage`: close and reopen payout periods, create payout drafts and edit amounts
+    - `payouts.approve`: approve, pay and dispute payouts
+
+  1. New Tables
+    - `role_permissions` (`role`, `permission`): one row per granted permission, seeded with the defaults
+
+  2. Functions
+    - `has_permission(permission)`: true for active superadmins and for active users whose role holds it
+
+  3. Security
+    - `role_permissions`: everyone signed in reads the matrix, only superadmins change it
+    - `categories`, `accounts`, `sales_data`, `users`, `incentive_rules`, `incentive_tiers`,
+      `payout_periods`, `payout_snapshots`, `payout_ledger`: writes and cross-user reads now check permissions
+    - Trigger `payout_ledger_protect_amount` keeps approvers without `payouts.manage` from changing amounts
+*/
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role user_role NOT NULL,
+  permission text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read role permissions" ON role_permissions;
+CREATE POLICY "Authenticated users can read role permissions"
+  ON role_permissions FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Superadmins can manage role permissions" ON role_permissions;
+CREATE POLICY "Superadmins can manage role permissions"
+  ON role_permissions FOR ALL
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('user', 'accounts.edit'),
+  ('user', 'sales.upload'),
+  ('user', 'reports.view'),
+  ('user', 'incentives.view'),
+  ('team_lead', 'accounts.edit'),
+  ('team_lead', 'sales.upload'),
+  ('team_lead', 'reports.view'),
+  ('team_lead', 'incentives.view'),
+  ('team_lead', 'incentives.overview'),
+  ('finance', 'accounts.view_all'),
+  ('finance', 'reports.view'),
+  ('finance', 'incentives.overview'),
+  ('finance', 'payouts.approve'),
+  ('viewer', 'accounts.view_all'),
+  ('viewer', 'reports.view')
+ON CONFLICT (role, permission) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION has_permission(permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT is_superadmin()
+    OR EXISTS (
+      SELECT 1 FROM users
+      JOIN role_permissions ON role_permissions.role = users.role
+      WHERE users.id = auth.uid()
+        AND users.disabled_at IS NULL
+        AND role_permissions.permission = has_permission.permission
+    );
+$$;
+
+-- Categories
+DROP POLICY IF EXISTS "Authenticated users can manage categories" ON categories;
+
+DROP POLICY IF EXISTS "Authenticated users can read categories" ON categories;
+CREATE POLICY "Authenticated users can read categories"
+  ON categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Category managers can manage categories" ON categories;
+CREATE POLICY "Category managers can manage categories"
+  ON categories FOR ALL
+  TO authenticated
+  USING (has_permission('categories.manage'))
+  WITH CHECK (has_permission('categories.manage'));
+
+-- Accounts
+DROP POLICY IF EXISTS "Users can read managed accounts" ON accounts;
+CREATE POLICY "Users can read managed accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (manages_account(id) OR has_permission('accounts.view_all'));
+
+DROP POLICY IF EXISTS "Users can create own accounts" ON accounts;
+CREATE POLICY "Users can create own accounts"
+  ON accounts FOR INSERT
+  TO authenticated
+  WITH CHECK ((user_id = auth.uid() AND has_permission('accounts.edit')) OR is_superadmin());
+
+DROP POLICY IF EXISTS "Users can update managed accounts" ON accounts;
+CREATE POLICY "Users can update managed accounts"
+  ON accounts FOR UPDATE
+  TO authenticated
+  USING (manages_account(id) AND has_permission('accounts.edit'))
+  WITH CHECK (manages_account(id) AND has_permission('accounts.edit'));
+
+DROP POLICY IF EXISTS "Superadmins can delete accounts" ON accounts;
+DROP POLICY IF EXISTS "Users can delete managed accounts" ON accounts;
+CREATE POLICY "Users can delete managed accounts"
+  ON accounts FOR DELETE
+  TO authenticated
+  USING (manages_account(id) AND has_permission('accounts.delete'));
+
+-- Sales data
+DROP POLICY IF EXISTS "Users can manage sales data of managed accounts" ON sales_data;
+
+DROP POLICY IF EXISTS "Users can read sales data of managed accounts" ON sales_data;
+CREATE POLICY "Users can read sales data of managed accounts"
+  ON sales_data FOR SELECT
+  TO authenticated
+  USING (manages_account(account_id) OR has_permission('accounts.view_all'));
+
+DROP POLICY IF EXISTS "Uploaders can write sales data of managed accounts" ON sales_data;
+CREATE POLICY "Uploaders can write sales data of managed accounts"
+  ON sales_data FOR ALL
+  TO authenticated
+  USING (manages_account(account_id) AND has_permission('sales.upload'))
+  WITH CHECK (manages_account(account_id) AND has_permission('sales.upload'));
+
+-- Users
+DROP POLICY IF EXISTS "Users can read own profile" ON users;
+CREATE POLICY "Users can read own profile"
+  ON users FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR has_permission('accounts.view_all'));
+
+-- Incentive rules and tiers
+DROP POLICY IF EXISTS "Superadmins can manage incentive rules" ON incentive_rules;
+DROP POLICY IF EXISTS "Incentive managers can manage incentive rules" ON incentive_rules;
+CREATE POLICY "Incentive managers can manage incentive rules"
+  ON incentive_rules FOR ALL
+  TO authenticated
+  USING (has_permission('incentives.manage'))
+  WITH CHECK (has_permission('incentives.manage'));
+
+DROP POLICY IF EXISTS "Superadmins can manage incentive tiers" ON incentive_tiers;
+DROP POLICY IF EXISTS "Incentive managers can manage incentive tiers" ON incentive_tiers;
+CREATE POLICY "Incentive managers can manage incentive tiers"
+  ON incentive_tiers FOR ALL
+  TO authenticated
+  USING (has_permission('incentives.manage'))
+  WITH CHECK (has_permission('incentives.manage'));
+
+-- Payout periods and snapshots
+DROP POLICY IF EXISTS "Superadmins can manage payout periods" ON payout_periods;
+DROP POLICY IF EXISTS "Payout managers can manage payout periods" ON payout_periods;
+CREATE POLICY "Payout managers can manage payout periods"
+  ON payout_periods FOR ALL
+  TO authenticated
+  USING (has_permission('payouts.manage'))
+  WITH CHECK (has_permission('payouts.manage'));
+
+DROP POLICY IF EXISTS "Users can read own payout snapshots" ON payout_snapshots;
+CREATE POLICY "Users can read own payout snapshots"
+  ON payout_snapshots FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission('payouts.manage') OR has_permission('payouts.approve'));
+
+DROP POLICY IF EXISTS "Superadmins can manage payout snapshots" ON payout_snapshots;
+DROP POLICY IF EXISTS "Payout managers can manage payout snapshots" ON payout_snapshots;
+CREATE POLICY "Payout managers can manage payout snapshots"
+  ON payout_snapshots FOR ALL
+  TO authenticated
+  USING (has_permission('payouts.manage'))
+  WITH CHECK (has_permission('payouts.manage'));
+
+-- Payout ledger
+DROP POLICY IF EXISTS "Users can read own payouts" ON payout_ledger;
+CREATE POLICY "Users can read own payouts"
+  ON payout_ledger FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR has_permission('payouts.manage') OR has_permission('payouts.approve'));
+
+DROP POLICY IF EXISTS "Superadmins can manage payouts" ON payout_ledger;
+DROP POLICY IF EXISTS "Payout managers can manage payouts" ON payout_ledger;
+CREATE POLICY "Payout managers can manage payouts"
+  ON payout_ledger FOR ALL
+  TO authenticated
+  USING (has_permission('payouts.manage'))
+  WITH CHECK (has_permission('payouts.manage'));
+
+DROP POLICY IF EXISTS "Payout approvers can update payouts" ON payout_ledger;
+CREATE POLICY "Payout approvers can update payouts"
+  ON payout_ledger FOR UPDATE
+  TO authenticated
+  USING (has_permission('payouts.approve'))
+  WITH CHECK (has_permission('payouts.approve'));
+
+-- Approvers move entries through their statuses; amounts stay with payout managers
+CREATE OR REPLACE FUNCTION protect_payout_ledger_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated'
+    AND NEW.amount IS DISTINCT FROM OLD.amount
+    AND NOT has_permission('payouts.manage')
+  THEN
+    RAISE EXCEPTION 'Only payout managers can change payout amounts' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payout_ledger_protect_amount ON payout_ledger;
+CREATE TRIGGER payout_ledger_protect_amount
+  BEFORE UPDATE ON payout_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_payout_ledger_amount();
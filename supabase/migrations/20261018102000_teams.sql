@@ -0,0 +1,126 @@
+/*
+  # Teams with leads and a team target
+
+  Members were a flat list. They can now be grouped into teams (squads), each with a lead and a
+  monthly revenue target, so performance can be rolled up per team and leads can follow their members.
+
+  1. New Tables
+    - `teams`
+      - `name` (text, unique)
+      - `lead_id` (uuid, nullable): the member who leads the team
+      - `incentive_target` (numeric, default 0): revenue the team aims for each month; 0 means no target
+
+  2. Modified Tables
+    - `users`
+      - `team_id` (uuid, nullable): the team the member belongs to; a lead usually belongs to their own team
+
+  3. Functions
+    - `leads_user(member_id)`: true when the caller leads the team of that member
+    - `leads_account(account_id)`: true when the account is managed by a member of a team the caller leads
+
+  4. Security
+    - `teams`: everyone signed in reads teams, only superadmins change them
+    - `users`, `accounts`, `sales_data`: leads also read their members and their members' accounts and sales
+    - `team_id` joins the columns only superadmins may change (trigger `users_protect_admin_columns`)
+*/
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  lead_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  incentive_target numeric NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS users_team_id_idx ON users (team_id);
+CREATE INDEX IF NOT EXISTS teams_lead_id_idx ON teams (lead_id);
+
+CREATE OR REPLACE FUNCTION leads_user(member_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users member
+    JOIN teams ON teams.id = member.team_id
+    JOIN users lead ON lead.id = teams.lead_id
+    WHERE member.id = leads_user.member_id
+      AND lead.id = auth.uid()
+      AND lead.disabled_at IS NULL
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION leads_account(account_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users member
+    JOIN teams ON teams.id = member.team_id
+    JOIN users lead ON lead.id = teams.lead_id
+    WHERE lead.id = auth.uid()
+      AND lead.disabled_at IS NULL
+      AND leads_account.account_id = ANY(member.managed_accounts)
+  );
+$$;
+
+-- Teams
+DROP POLICY IF EXISTS "Authenticated users can read teams" ON teams;
+CREATE POLICY "Authenticated users can read teams"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Superadmins can manage teams" ON teams;
+CREATE POLICY "Superadmins can manage teams"
+  ON teams FOR ALL
+  TO authenticated
+  USING (is_superadmin())
+  WITH CHECK (is_superadmin());
+
+-- Leads read their members, their accounts and sales
+DROP POLICY IF EXISTS "Users can read own profile" ON users;
+CREATE POLICY "Users can read own profile"
+  ON users FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR has_permission('accounts.view_all') OR leads_user(id));
+
+DROP POLICY IF EXISTS "Users can read managed accounts" ON accounts;
+CREATE POLICY "Users can read managed accounts"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (manages_account(id) OR has_permission('accounts.view_all') OR leads_account(id));
+
+DROP POLICY IF EXISTS "Users can read sales data of managed accounts" ON sales_data;
+CREATE POLICY "Users can read sales data of managed accounts"
+  ON sales_data FOR SELECT
+  TO authenticated
+  USING (manages_account(account_id) OR has_permission('accounts.view_all') OR leads_account(account_id));
+
+CREATE OR REPLACE FUNCTION protect_user_admin_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND NOT is_superadmin() AND (
+    NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.managed_accounts IS DISTINCT FROM OLD.managed_accounts
+    OR NEW.disabled_at IS DISTINCT FROM OLD.disabled_at
+    OR NEW.team_id IS DISTINCT FROM OLD.team_id
+  ) THEN
+    RAISE EXCEPTION 'Only super admins can change email, role, team, managed accounts or access' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
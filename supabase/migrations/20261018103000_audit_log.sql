@@ -0,0 +1,164 @@
+/*
+  # Audit log for data changes
+
+  Nobody could tell who changed an account's payment data, deleted sales data or edited an incentive tier.
+  Every insert, update and delete on the business tables is now recorded by a trigger, whichever way the
+  change arrives (app, SQL functions such as rollback_import_batch, or the admin-users Edge Function).
+
+  1. New Types
+    - `audit_action` enum: `insert` | `update` | `delete`
+
+  2. New Tables
+    - `audit_log`
+      - `actor_id` (uuid, nullable): who made the change; no foreign key so entries outlive deleted users
+      - `actor_name` (text): the actor's name at the time of the change
+      - `table_name`, `row_id`: what changed; `row_id` is the primary key as text (`role:permission` for role_permissions)
+      - `action`, `old_data`, `new_data`: the row before and after (null for inserts and deletes respectively)
+
+  3. Functions
+    - `record_audit_log()`: AFTER trigger; arguments name the primary key columns (default `id`).
+      Updates that change nothing are skipped. Service role requests may name the actor in the
+      `x-actor-id` header, which the admin-users Edge Function sets to the calling superadmin.
+      Deletes cascading from auth.users run outside PostgREST and are recorded without an actor.
+
+  4. Audited Tables
+    - categories, accounts, sales_data, users, teams, incentive_rules, incentive_tiers, payout_periods,
+      payout_snapshots, payout_ledger, user_invitations, role_permissions
+    - import_batches is not audited: it is itself the history of each upload and rollback, and its
+      previous_rows would repeat the sales_data entries
+
+  5. Security
+    - RLS enabled; only superadmins read the log
+    - Nobody inserts, updates or deletes entries directly; only the trigger function writes them
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'audit_action') THEN
+    CREATE TYPE audit_action AS ENUM ('insert', 'update', 'delete');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid,
+  actor_name text NOT NULL DEFAULT '',
+  table_name text NOT NULL,
+  row_id text NOT NULL,
+  action audit_action NOT NULL,
+  old_data jsonb,
+  new_data jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_row ON audit_log(table_name, row_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Superadmins can read audit log" ON audit_log;
+CREATE POLICY "Superadmins can read audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (is_superadmin());
+
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  key_columns text[] := CASE WHEN TG_NARGS > 0 THEN TG_ARGV ELSE ARRAY['id'] END;
+  actor uuid := auth.uid();
+  row_key text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  IF actor IS NULL AND auth.role() = 'service_role' THEN
+    actor := nullif(current_setting('request.headers', true)::jsonb ->> 'x-actor-id', '')::uuid;
+  END IF;
+
+  SELECT string_agg(COALESCE(new_row, old_row) ->> key_column, ':' ORDER BY ordinality)
+  INTO row_key
+  FROM unnest(key_columns) WITH ORDINALITY AS key_column;
+
+  INSERT INTO audit_log (actor_id, actor_name, table_name, row_id, action, old_data, new_data)
+  VALUES (
+    actor,
+    COALESCE((SELECT name FROM users WHERE id = actor), ''),
+    TG_TABLE_NAME,
+    row_key,
+    lower(TG_OP)::audit_action,
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS categories_audit ON categories;
+CREATE TRIGGER categories_audit
+  AFTER INSERT OR UPDATE OR DELETE ON categories
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS accounts_audit ON accounts;
+CREATE TRIGGER accounts_audit
+  AFTER INSERT OR UPDATE OR DELETE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS sales_data_audit ON sales_data;
+CREATE TRIGGER sales_data_audit
+  AFTER INSERT OR UPDATE OR DELETE ON sales_data
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS users_audit ON users;
+CREATE TRIGGER users_audit
+  AFTER INSERT OR UPDATE OR DELETE ON users
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS teams_audit ON teams;
+CREATE TRIGGER teams_audit
+  AFTER INSERT OR UPDATE OR DELETE ON teams
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS incentive_rules_audit ON incentive_rules;
+CREATE TRIGGER incentive_rules_audit
+  AFTER INSERT OR UPDATE OR DELETE ON incentive_rules
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS incentive_tiers_audit ON incentive_tiers;
+CREATE TRIGGER incentive_tiers_audit
+  AFTER INSERT OR UPDATE OR DELETE ON incentive_tiers
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS payout_periods_audit ON payout_periods;
+CREATE TRIGGER payout_periods_audit
+  AFTER INSERT OR UPDATE OR DELETE ON payout_periods
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('period');
+
+DROP TRIGGER IF EXISTS payout_snapshots_audit ON payout_snapshots;
+CREATE TRIGGER payout_snapshots_audit
+  AFTER INSERT OR UPDATE OR DELETE ON payout_snapshots
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS payout_ledger_audit ON payout_ledger;
+CREATE TRIGGER payout_ledger_audit
+  AFTER INSERT OR UPDATE OR DELETE ON payout_ledger
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS user_invitations_audit ON user_invitations;
+CREATE TRIGGER user_invitations_audit
+  AFTER INSERT OR UPDATE OR DELETE ON user_invitations
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+DROP TRIGGER IF EXISTS role_permissions_audit ON role_permissions;
+CREATE TRIGGER role_permissions_audit
+  AFTER INSERT OR UPDATE OR DELETE ON role_permissions
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log('role', 'permission');
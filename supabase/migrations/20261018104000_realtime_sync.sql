@@ -0,0 +1,29 @@
+/*
+  # Realtime sync of accounts, sales data and incentive rules
+
+  Open sessions kept the data they loaded at sign-in until the user logged out and back in. The app now
+  subscribes to Supabase Realtime changes on these tables and merges them into what is on screen.
+
+  1. Realtime Publication
+    - `accounts`, `sales_data`, `incentive_rules` and `incentive_tiers` join `supabase_realtime`
+    - Realtime checks the existing select policies, so subscribers only receive rows they may read.
+      Deletes carry just the primary key and reach every subscriber.
+*/
+
+DO $$
+DECLARE
+  realtime_table text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH realtime_table IN ARRAY ARRAY['accounts', 'sales_data', 'incentive_rules', 'incentive_tiers'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = realtime_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,144 @@
+/*
+  # Transactional incentive rule saves
+
+  Editing a rule deleted all of its tiers and inserted them again in separate requests. A failure in
+  between left the rule without tiers, and every edit gave the tiers new ids, breaking the `tier_id`
+  references kept in `payout_snapshots`.
+
+  1. Functions
+    - `save_incentive_rule(rule_id, rule, tiers)` creates the rule when `rule_id` is null, otherwise
+      updates the columns present in `rule`. When `tiers` is given it replaces the rule's tiers in the
+      same transaction:
+      - Tiers are matched to existing ones by `id`, or by `revenue_threshold` when they have no id,
+        and updated in place so their ids stay the same
+      - Unmatched tiers are inserted and existing tiers missing from the list are deleted
+      - Returns the saved rule with a `tiers` array ordered by threshold
+    - Rejects the save when tier thresholds are not strictly ascending, a threshold or rate is
+      negative, or `base_revenue_threshold` is above the first tier's threshold
+
+  2. Security
+    - Runs with the caller's privileges, so the incentive policies still apply
+    - Callers without the `incentives.manage` permission get a 42501 error
+*/
+
+CREATE OR REPLACE FUNCTION save_incentive_rule(rule_id uuid, rule jsonb, tiers jsonb DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved incentive_rules;
+  tier jsonb;
+  previous_threshold numeric;
+  first_threshold numeric;
+  matched_id uuid;
+  kept_ids uuid[] := '{}';
+BEGIN
+  IF NOT has_permission('incentives.manage') THEN
+    RAISE EXCEPTION 'Only incentive managers can change incentive rules' USING ERRCODE = '42501';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    saved := jsonb_populate_record(NULL::incentive_rules, rule - 'id' - 'created_at');
+  ELSE
+    SELECT * INTO saved FROM incentive_rules WHERE id = save_incentive_rule.rule_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Incentive rule % not found', save_incentive_rule.rule_id;
+    END IF;
+
+    saved := jsonb_populate_record(saved, rule - 'id' - 'created_at');
+  END IF;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      IF (tier->>'revenue_threshold')::numeric < 0 OR (tier->>'incentive_rate')::numeric < 0 THEN
+        RAISE EXCEPTION 'Tier thresholds and rates cannot be negative';
+      END IF;
+
+      IF previous_threshold IS NOT NULL AND (tier->>'revenue_threshold')::numeric <= previous_threshold THEN
+        RAISE EXCEPTION 'Tier thresholds must be in ascending order';
+      END IF;
+
+      previous_threshold := (tier->>'revenue_threshold')::numeric;
+    END LOOP;
+
+    first_threshold := (tiers->0->>'revenue_threshold')::numeric;
+  ELSE
+    SELECT min(t.revenue_threshold) INTO first_threshold
+    FROM incentive_tiers t
+    WHERE t.rule_id = save_incentive_rule.rule_id;
+  END IF;
+
+  IF first_threshold IS NOT NULL AND COALESCE(saved.base_revenue_threshold, 0) > first_threshold THEN
+    RAISE EXCEPTION 'The base revenue threshold cannot be above the first tier threshold';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    INSERT INTO incentive_rules (
+      name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+      base_revenue_threshold, calculation_mode, is_active
+    )
+    VALUES (
+      saved.name,
+      COALESCE(saved.description, ''),
+      COALESCE(saved.min_commission_threshold, 0),
+      COALESCE(saved.commission_rate_min, 0),
+      COALESCE(saved.commission_rate_max, 100),
+      COALESCE(saved.base_revenue_threshold, 0),
+      COALESCE(saved.calculation_mode, 'progressive'),
+      COALESCE(saved.is_active, true)
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE incentive_rules
+    SET name = saved.name,
+        description = saved.description,
+        min_commission_threshold = saved.min_commission_threshold,
+        commission_rate_min = saved.commission_rate_min,
+        commission_rate_max = saved.commission_rate_max,
+        base_revenue_threshold = saved.base_revenue_threshold,
+        calculation_mode = saved.calculation_mode,
+        is_active = saved.is_active
+    WHERE id = saved.id
+    RETURNING * INTO saved;
+  END IF;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      SELECT t.id INTO matched_id
+      FROM incentive_tiers t
+      WHERE t.rule_id = saved.id
+        AND NOT t.id = ANY(kept_ids)
+        AND (
+          t.id::text = tier->>'id'
+          OR (tier->>'id' IS NULL AND t.revenue_threshold = (tier->>'revenue_threshold')::numeric)
+        )
+      LIMIT 1;
+
+      IF matched_id IS NULL THEN
+        INSERT INTO incentive_tiers (rule_id, revenue_threshold, incentive_rate)
+        VALUES (saved.id, (tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric)
+        RETURNING id INTO matched_id;
+      ELSE
+        UPDATE incentive_tiers
+        SET revenue_threshold = (tier->>'revenue_threshold')::numeric,
+            incentive_rate = (tier->>'incentive_rate')::numeric
+        WHERE id = matched_id
+          AND (revenue_threshold, incentive_rate) IS DISTINCT FROM
+            ((tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric);
+      END IF;
+
+      kept_ids := kept_ids || matched_id;
+    END LOOP;
+
+    DELETE FROM incentive_tiers t
+    WHERE t.rule_id = saved.id AND NOT t.id = ANY(kept_ids);
+  END IF;
+
+  RETURN to_jsonb(saved) || jsonb_build_object('tiers', COALESCE((
+    SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue_threshold)
+    FROM incentive_tiers t
+    WHERE t.rule_id = saved.id
+  ), '[]'::jsonb));
+END;
+$$;
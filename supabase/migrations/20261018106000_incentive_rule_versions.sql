@@ -0,0 +1,338 @@
+/*
+  # Incentive rule versions with effective dates
+
+  Rules only had `is_active`, so changing a rule's rates or tiers also changed the incentives shown
+  for every past month. Rules now keep immutable versions, each in force for a range of months, and
+  calculations for a month use the version in force during that month.
+
+  1. Changes
+    - `incentive_rules.effective_from`: first day of the month the rule's current terms take effect
+    - `incentive_rules.effective_to`: last day of the last month the rule applies; null while open-ended
+    - Existing rules start at the earlier of their creation month and the first month of sales data,
+      so months that were already calculated keep their incentives
+
+  2. New Tables
+    - `incentive_rule_versions`
+      - One row per version of a rule, numbered from 1
+      - Copies the terms used in calculations: commission thresholds and range, base revenue threshold,
+        calculation mode, and the tiers as a JSON array that keeps the tier ids
+      - `effective_from`/`effective_to` are month boundaries. A version replaced in the month it started
+        ends the day before it starts and never applies.
+    - Existing rules get a first version from their current terms and tiers
+
+  3. Functions
+    - `save_incentive_rule(rule_id, rule, tiers)` now records versions. When the terms or tiers change,
+      the latest version ends the day before `rule.effective_from` (default: the current month) and a
+      new version starts then; changes cannot take effect before the latest version starts. Changing
+      only `effective_to` moves the end of the latest version. Name, description and `is_active` are
+      not versioned. The returned rule includes its `versions`.
+    - `protect_incentive_rule_versions()` trigger: only `effective_to` of a version can change
+
+  4. Security
+    - RLS enabled
+    - Authenticated users can read versions
+    - Incentive managers can record and close versions; nobody can delete them except through the rule
+*/
+
+ALTER TABLE incentive_rules
+  ADD COLUMN IF NOT EXISTS effective_from date,
+  ADD COLUMN IF NOT EXISTS effective_to date;
+
+UPDATE incentive_rules
+SET effective_from = LEAST(
+  date_trunc('month', COALESCE(created_at, now())),
+  (SELECT date_trunc('month', min(date)) FROM sales_data)
+)::date
+WHERE effective_from IS NULL;
+
+ALTER TABLE incentive_rules
+  ALTER COLUMN effective_from SET DEFAULT date_trunc('month', now())::date,
+  ALTER COLUMN effective_from SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS incentive_rule_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id uuid NOT NULL REFERENCES incentive_rules(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  effective_from date NOT NULL,
+  effective_to date,
+  min_commission_threshold numeric NOT NULL,
+  commission_rate_min numeric NOT NULL,
+  commission_rate_max numeric NOT NULL,
+  base_revenue_threshold numeric NOT NULL,
+  calculation_mode incentive_calculation_mode NOT NULL,
+  tiers jsonb NOT NULL DEFAULT '[]',
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (rule_id, version),
+  CHECK (effective_from = date_trunc('month', effective_from)),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from - 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incentive_rule_versions_rule_id ON incentive_rule_versions(rule_id);
+
+INSERT INTO incentive_rule_versions (
+  rule_id, version, effective_from, effective_to, min_commission_threshold, commission_rate_min,
+  commission_rate_max, base_revenue_threshold, calculation_mode, tiers
+)
+SELECT
+  r.id, 1, r.effective_from, r.effective_to, r.min_commission_threshold, r.commission_rate_min,
+  r.commission_rate_max, r.base_revenue_threshold, r.calculation_mode,
+  COALESCE((
+    SELECT jsonb_agg(to_jsonb(t) - 'rule_id' ORDER BY t.revenue_threshold)
+    FROM incentive_tiers t
+    WHERE t.rule_id = r.id
+  ), '[]'::jsonb)
+FROM incentive_rules r
+WHERE NOT EXISTS (SELECT 1 FROM incentive_rule_versions v WHERE v.rule_id = r.id);
+
+ALTER TABLE incentive_rule_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read incentive rule versions" ON incentive_rule_versions;
+CREATE POLICY "Authenticated users can read incentive rule versions"
+  ON incentive_rule_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Incentive managers can record incentive rule versions" ON incentive_rule_versions;
+CREATE POLICY "Incentive managers can record incentive rule versions"
+  ON incentive_rule_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('incentives.manage'));
+
+DROP POLICY IF EXISTS "Incentive managers can close incentive rule versions" ON incentive_rule_versions;
+CREATE POLICY "Incentive managers can close incentive rule versions"
+  ON incentive_rule_versions FOR UPDATE
+  TO authenticated
+  USING (has_permission('incentives.manage'))
+  WITH CHECK (has_permission('incentives.manage'));
+
+-- created_by is cleared when its user is deleted, everything else but the end date is fixed
+CREATE OR REPLACE FUNCTION protect_incentive_rule_versions()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF to_jsonb(NEW) - 'effective_to' - 'created_by' IS DISTINCT FROM to_jsonb(OLD) - 'effective_to' - 'created_by' THEN
+    RAISE EXCEPTION 'Incentive rule versions cannot be changed; save the rule to create a new version' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS incentive_rule_versions_protect_terms ON incentive_rule_versions;
+CREATE TRIGGER incentive_rule_versions_protect_terms
+  BEFORE UPDATE ON incentive_rule_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_incentive_rule_versions();
+
+-- Runs with the caller's privileges so the incentive policies still apply
+CREATE OR REPLACE FUNCTION save_incentive_rule(rule_id uuid, rule jsonb, tiers jsonb DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  previous incentive_rules;
+  saved incentive_rules;
+  latest_version incentive_rule_versions;
+  terms_changed boolean;
+  tier jsonb;
+  previous_threshold numeric;
+  first_threshold numeric;
+  matched_id uuid;
+  kept_ids uuid[] := '{}';
+BEGIN
+  IF NOT has_permission('incentives.manage') THEN
+    RAISE EXCEPTION 'Only incentive managers can change incentive rules' USING ERRCODE = '42501';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    saved := jsonb_populate_record(NULL::incentive_rules, rule - 'id' - 'created_at');
+  ELSE
+    SELECT * INTO previous FROM incentive_rules WHERE id = save_incentive_rule.rule_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Incentive rule % not found', save_incentive_rule.rule_id;
+    END IF;
+
+    SELECT * INTO latest_version
+    FROM incentive_rule_versions v
+    WHERE v.rule_id = previous.id
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    saved := jsonb_populate_record(previous, rule - 'id' - 'created_at');
+    IF NOT rule ? 'effective_from' THEN
+      saved.effective_from := GREATEST(date_trunc('month', now())::date, previous.effective_from);
+    END IF;
+  END IF;
+
+  saved.effective_from := date_trunc('month', COALESCE(saved.effective_from, now()))::date;
+  saved.effective_to := (date_trunc('month', saved.effective_to) + interval '1 month - 1 day')::date;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      IF (tier->>'revenue_threshold')::numeric < 0 OR (tier->>'incentive_rate')::numeric < 0 THEN
+        RAISE EXCEPTION 'Tier thresholds and rates cannot be negative';
+      END IF;
+
+      IF previous_threshold IS NOT NULL AND (tier->>'revenue_threshold')::numeric <= previous_threshold THEN
+        RAISE EXCEPTION 'Tier thresholds must be in ascending order';
+      END IF;
+
+      previous_threshold := (tier->>'revenue_threshold')::numeric;
+    END LOOP;
+
+    first_threshold := (tiers->0->>'revenue_threshold')::numeric;
+  ELSE
+    SELECT min(t.revenue_threshold) INTO first_threshold
+    FROM incentive_tiers t
+    WHERE t.rule_id = save_incentive_rule.rule_id;
+  END IF;
+
+  IF first_threshold IS NOT NULL AND COALESCE(saved.base_revenue_threshold, 0) > first_threshold THEN
+    RAISE EXCEPTION 'The base revenue threshold cannot be above the first tier threshold';
+  END IF;
+
+  -- Only the terms used in calculations start a new version
+  terms_changed := save_incentive_rule.rule_id IS NULL
+    OR latest_version.id IS NULL
+    OR (saved.min_commission_threshold, saved.commission_rate_min, saved.commission_rate_max,
+        saved.base_revenue_threshold, saved.calculation_mode)
+      IS DISTINCT FROM
+       (previous.min_commission_threshold, previous.commission_rate_min, previous.commission_rate_max,
+        previous.base_revenue_threshold, previous.calculation_mode)
+    OR (tiers IS NOT NULL AND (
+      SELECT jsonb_agg(jsonb_build_array(t.revenue_threshold, t.incentive_rate) ORDER BY t.revenue_threshold)
+      FROM incentive_tiers t
+      WHERE t.rule_id = previous.id
+    ) IS DISTINCT FROM (
+      SELECT jsonb_agg(jsonb_build_array((e->>'revenue_threshold')::numeric, (e->>'incentive_rate')::numeric))
+      FROM jsonb_array_elements(tiers) e
+    ));
+
+  IF NOT terms_changed THEN
+    saved.effective_from := previous.effective_from;
+  ELSIF latest_version.id IS NOT NULL AND saved.effective_from < latest_version.effective_from THEN
+    RAISE EXCEPTION 'Changes cannot take effect before %, when the current version starts',
+      to_char(latest_version.effective_from, 'YYYY-MM');
+  END IF;
+
+  IF saved.effective_to < saved.effective_from THEN
+    RAISE EXCEPTION 'The rule cannot end before it takes effect';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    INSERT INTO incentive_rules (
+      name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+      base_revenue_threshold, calculation_mode, is_active, effective_from, effective_to
+    )
+    VALUES (
+      saved.name,
+      COALESCE(saved.description, ''),
+      COALESCE(saved.min_commission_threshold, 0),
+      COALESCE(saved.commission_rate_min, 0),
+      COALESCE(saved.commission_rate_max, 100),
+      COALESCE(saved.base_revenue_threshold, 0),
+      COALESCE(saved.calculation_mode, 'progressive'),
+      COALESCE(saved.is_active, true),
+      saved.effective_from,
+      saved.effective_to
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE incentive_rules
+    SET name = saved.name,
+        description = saved.description,
+        min_commission_threshold = saved.min_commission_threshold,
+        commission_rate_min = saved.commission_rate_min,
+        commission_rate_max = saved.commission_rate_max,
+        base_revenue_threshold = saved.base_revenue_threshold,
+        calculation_mode = saved.calculation_mode,
+        is_active = saved.is_active,
+        effective_from = saved.effective_from,
+        effective_to = saved.effective_to
+    WHERE id = saved.id
+    RETURNING * INTO saved;
+  END IF;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      SELECT t.id INTO matched_id
+      FROM incentive_tiers t
+      WHERE t.rule_id = saved.id
+        AND NOT t.id = ANY(kept_ids)
+        AND (
+          t.id::text = tier->>'id'
+          OR (tier->>'id' IS NULL AND t.revenue_threshold = (tier->>'revenue_threshold')::numeric)
+        )
+      LIMIT 1;
+
+      IF matched_id IS NULL THEN
+        INSERT INTO incentive_tiers (rule_id, revenue_threshold, incentive_rate)
+        VALUES (saved.id, (tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric)
+        RETURNING id INTO matched_id;
+      ELSE
+        UPDATE incentive_tiers
+        SET revenue_threshold = (tier->>'revenue_threshold')::numeric,
+            incentive_rate = (tier->>'incentive_rate')::numeric
+        WHERE id = matched_id
+          AND (revenue_threshold, incentive_rate) IS DISTINCT FROM
+            ((tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric);
+      END IF;
+
+      kept_ids := kept_ids || matched_id;
+    END LOOP;
+
+    DELETE FROM incentive_tiers t
+    WHERE t.rule_id = saved.id AND NOT t.id = ANY(kept_ids);
+  END IF;
+
+  IF terms_changed THEN
+    -- A version that had already ended earlier keeps its end date
+    UPDATE incentive_rule_versions
+    SET effective_to = saved.effective_from - 1
+    WHERE id = latest_version.id
+      AND (effective_to IS NULL OR effective_to >= saved.effective_from);
+
+    INSERT INTO incentive_rule_versions (
+      rule_id, version, effective_from, effective_to, min_commission_threshold, commission_rate_min,
+      commission_rate_max, base_revenue_threshold, calculation_mode, tiers, created_by
+    )
+    VALUES (
+      saved.id,
+      COALESCE(latest_version.version, 0) + 1,
+      saved.effective_from,
+      saved.effective_to,
+      saved.min_commission_threshold,
+      saved.commission_rate_min,
+      saved.commission_rate_max,
+      saved.base_revenue_threshold,
+      saved.calculation_mode,
+      COALESCE((
+        SELECT jsonb_agg(to_jsonb(t) - 'rule_id' ORDER BY t.revenue_threshold)
+        FROM incentive_tiers t
+        WHERE t.rule_id = saved.id
+      ), '[]'::jsonb),
+      auth.uid()
+    );
+  ELSIF saved.effective_to IS DISTINCT FROM previous.effective_to THEN
+    UPDATE incentive_rule_versions
+    SET effective_to = saved.effective_to
+    WHERE id = latest_version.id;
+  END IF;
+
+  RETURN to_jsonb(saved) || jsonb_build_object(
+    'tiers', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue_threshold)
+      FROM incentive_tiers t
+      WHERE t.rule_id = saved.id
+    ), '[]'::jsonb),
+    'versions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(v) ORDER BY v.version)
+      FROM incentive_rule_versions v
+      WHERE v.rule_id = saved.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,98 @@
+/*
+  # Transactional payout period close
+
+  Closing a period wrote the snapshots, removed stale ones and marked the period closed in three
+  requests. A failure in between left snapshots for a period that was still open, and sales uploaded
+  after the client calculated the incentives changed the month without changing what was frozen.
+
+  1. Functions
+    - `close_payout_period(period, snapshots)` closes the period and writes its snapshots in one
+      transaction, and returns the closed period:
+      - Takes a SHARE lock on `sales_data`, which waits for uploads in progress and holds off new ones
+        until the transaction ends; once the period is closed the `sales_data_closed_period_lock`
+        trigger rejects them for good
+      - Rejects the close when a snapshot's revenue or commission no longer matches the month's sales
+        for the accounts the user manages, so the client reloads and calculates again
+      - Replaces every snapshot of the period: users missing from `snapshots` lose theirs
+
+  2. Security
+    - Runs with the caller's privileges, so the payout policies still apply
+    - Callers without the `payouts.manage` permission get a 42501 error
+*/
+
+CREATE OR REPLACE FUNCTION close_payout_period(period text, snapshots jsonb)
+RETURNS payout_periods
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  closed payout_periods;
+  period_start date := to_date(close_payout_period.period || '-01', 'YYYY-MM-DD');
+  period_end date := (to_date(close_payout_period.period || '-01', 'YYYY-MM-DD') + interval '1 month - 1 day')::date;
+  stale_user uuid;
+BEGIN
+  IF NOT has_permission('payouts.manage') THEN
+    RAISE EXCEPTION 'Only payout managers can close payout periods' USING ERRCODE = '42501';
+  END IF;
+
+  LOCK TABLE sales_data IN SHARE MODE;
+
+  INSERT INTO payout_periods (period, status, closed_at, closed_by)
+  VALUES (close_payout_period.period, 'closed', now(), auth.uid())
+  ON CONFLICT ON CONSTRAINT payout_periods_pkey DO UPDATE SET
+    status = 'closed',
+    closed_at = EXCLUDED.closed_at,
+    closed_by = EXCLUDED.closed_by
+  RETURNING * INTO closed;
+
+  -- Amounts arrive as JavaScript numbers, so compare them to the cent
+  SELECT s.user_id INTO stale_user
+  FROM jsonb_to_recordset(snapshots) AS s(user_id uuid, total_revenue numeric, total_commission numeric)
+  LEFT JOIN users u ON u.id = s.user_id
+  LEFT JOIN LATERAL (
+    SELECT
+      coalesce(sum(d.total_purchases), 0) AS total_revenue,
+      coalesce(sum(d.gross_commission), 0) AS total_commission
+    FROM sales_data d
+    WHERE d.account_id = ANY(u.managed_accounts)
+      AND d.date BETWEEN period_start AND period_end
+  ) live ON true
+  WHERE round(s.total_revenue, 2) <> round(live.total_revenue, 2)
+    OR round(s.total_commission, 2) <> round(live.total_commission, 2)
+  LIMIT 1;
+
+  IF stale_user IS NOT NULL THEN
+    RAISE EXCEPTION 'Sales data for % changed after the incentives were calculated; reload and close the period again',
+      close_payout_period.period;
+  END IF;
+
+  DELETE FROM payout_snapshots ps
+  WHERE ps.period = close_payout_period.period
+    AND NOT ps.user_id IN (SELECT (value->>'user_id')::uuid FROM jsonb_array_elements(snapshots));
+
+  INSERT INTO payout_snapshots (
+    period, user_id, user_name, total_revenue, total_commission, commission_rate, qualifying_revenue,
+    rule_id, rule_name, tier_id, tier_rate, incentive_amount, qualifying_account_ids
+  )
+  SELECT
+    close_payout_period.period, s.user_id, s.user_name, s.total_revenue, s.total_commission, s.commission_rate,
+    s.qualifying_revenue, s.rule_id, s.rule_name, s.tier_id, s.tier_rate, s.incentive_amount,
+    coalesce(s.qualifying_account_ids, '{}')
+  FROM jsonb_populate_recordset(NULL::payout_snapshots, snapshots) AS s
+  ON CONFLICT ON CONSTRAINT payout_snapshots_period_user_id_key DO UPDATE SET
+    user_name = EXCLUDED.user_name,
+    total_revenue = EXCLUDED.total_revenue,
+    total_commission = EXCLUDED.total_commission,
+    commission_rate = EXCLUDED.commission_rate,
+    qualifying_revenue = EXCLUDED.qualifying_revenue,
+    rule_id = EXCLUDED.rule_id,
+    rule_name = EXCLUDED.rule_name,
+    tier_id = EXCLUDED.tier_id,
+    tier_rate = EXCLUDED.tier_rate,
+    incentive_amount = EXCLUDED.incentive_amount,
+    qualifying_account_ids = EXCLUDED.qualifying_account_ids;
+
+  RETURN closed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_payout_period(text, jsonb) TO authenticated;
@@ -0,0 +1,62 @@
+/*
+  # Payout ledger workflow in the database
+
+  The draft → approved → paid workflow was only checked by the app. Anyone allowed to update the
+  ledger could set any status (draft straight to paid), move an entry to another user or month, and
+  change the amount of an approved or paid payout.
+
+  1. Functions
+    - `enforce_payout_ledger_workflow()` BEFORE INSERT OR UPDATE trigger on `payout_ledger`:
+      - New entries start as `draft`
+      - Status changes follow `PAYOUT_STATUS_TRANSITIONS` in src/lib/payouts.ts:
+        draft → approved; approved → paid, draft or disputed; paid → disputed; disputed → draft or approved
+      - `user_id` and `period` never change
+      - `amount` only changes on a draft that stays a draft
+    - Applies to every caller, including the service role
+
+  2. Notes
+    - `payout_ledger_protect_amount` still keeps approvers without `payouts.manage` from changing amounts
+*/
+
+CREATE OR REPLACE FUNCTION enforce_payout_ledger_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft' THEN
+      RAISE EXCEPTION 'New payouts start as draft' USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.period IS DISTINCT FROM OLD.period THEN
+    RAISE EXCEPTION 'The user and period of a payout cannot change' USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.status <> OLD.status AND NOT (OLD.status, NEW.status) IN (
+    ('draft', 'approved'),
+    ('approved', 'paid'),
+    ('approved', 'draft'),
+    ('approved', 'disputed'),
+    ('paid', 'disputed'),
+    ('disputed', 'draft'),
+    ('disputed', 'approved')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move payout from % to %', OLD.status, NEW.status USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.amount IS DISTINCT FROM OLD.amount AND (OLD.status <> 'draft' OR NEW.status <> 'draft') THEN
+    RAISE EXCEPTION 'Only draft payouts can be edited' USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payout_ledger_enforce_workflow ON payout_ledger;
+CREATE TRIGGER payout_ledger_enforce_workflow
+  BEFORE INSERT OR UPDATE ON payout_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_payout_ledger_workflow();
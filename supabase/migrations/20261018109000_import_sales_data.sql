@@ -0,0 +1,83 @@
+/*
+  # Transactional sales data imports
+
+  An upload read the rows it was about to overwrite, upserted the new rows and recorded the import
+  batch in three requests. The read was cut off at the API row limit, so overwritten rows past it were
+  recorded as inserted and a rollback deleted them instead of restoring them. When recording the batch
+  failed, the overwrite had already happened with no history to roll back.
+
+  1. Functions
+    - `import_sales_data(file_name, sales_rows)` records the batch and upserts the rows in one
+      transaction, the way `rollback_import_batch` undoes it:
+      - `previous_rows` holds every existing row with the same account and day, read inside the
+        function so no row limit applies
+      - `inserted_keys` holds the `(account_id, date)` pairs that did not exist yet
+      - `uploaded_by` and `uploader_name` are the caller
+      - Returns the upserted `sales_data` rows as a JSON array
+
+  2. Security
+    - Runs with the caller's privileges, so the `sales_data` and `import_batches` policies and the
+      closed period lock still apply
+*/
+
+CREATE OR REPLACE FUNCTION import_sales_data(file_name text, sales_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved jsonb;
+BEGIN
+  IF jsonb_array_length(sales_rows) = 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  INSERT INTO import_batches (
+    file_name, uploaded_by, uploader_name, account_ids, row_count, date_start, date_end,
+    previous_rows, inserted_keys
+  )
+  SELECT
+    import_sales_data.file_name,
+    auth.uid(),
+    COALESCE((SELECT name FROM users WHERE id = auth.uid()), ''),
+    array_agg(DISTINCT r.account_id),
+    count(*),
+    min(r.date),
+    max(r.date),
+    COALESCE(jsonb_agg(to_jsonb(s)) FILTER (WHERE s.id IS NOT NULL), '[]'::jsonb),
+    COALESCE(
+      jsonb_agg(jsonb_build_object('account_id', r.account_id, 'date', r.date)) FILTER (WHERE s.id IS NULL),
+      '[]'::jsonb
+    )
+  FROM jsonb_to_recordset(sales_rows) AS r(account_id uuid, date date)
+  LEFT JOIN sales_data s ON s.account_id = r.account_id AND s.date = r.date;
+
+  WITH upserted AS (
+    INSERT INTO sales_data (
+      account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers
+    )
+    SELECT
+      r.account_id,
+      r.date,
+      COALESCE(r.clicks, 0),
+      COALESCE(r.orders, 0),
+      COALESCE(r.gross_commission, 0),
+      COALESCE(r.products_sold, 0),
+      COALESCE(r.total_purchases, 0),
+      COALESCE(r.new_buyers, 0)
+    FROM jsonb_populate_recordset(NULL::sales_data, sales_rows) AS r
+    ON CONFLICT (account_id, date) DO UPDATE SET
+      clicks = EXCLUDED.clicks,
+      orders = EXCLUDED.orders,
+      gross_commission = EXCLUDED.gross_commission,
+      products_sold = EXCLUDED.products_sold,
+      total_purchases = EXCLUDED.total_purchases,
+      new_buyers = EXCLUDED.new_buyers
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(upserted)), '[]'::jsonb) INTO saved FROM upserted;
+
+  RETURN saved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_sales_data(text, jsonb) TO authenticated;
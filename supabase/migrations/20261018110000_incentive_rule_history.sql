@@ -0,0 +1,341 @@
+/*
+  # Incentive rule history
+
+  Deactivating a rule only cleared `is_active`, which every screen used to drop the rule from all
+  months, so past months lost their incentives. Deleting a rule removed its versions and tiers with it.
+  Whether a rule applies to a month is now decided by its version dates alone.
+
+  1. Changes
+    - `incentive_rules.deleted_at`: set when the rule is deleted. Deleted rules are kept so the months
+      their versions cover keep their incentives.
+    - `incentive_rule_versions.rule_id` no longer cascades: versions cannot be removed with their rule
+
+  2. Functions
+    - `save_incentive_rule(rule_id, rule, tiers)`:
+      - Deactivating a rule ends it, and every version still in force, at the end of the previous month.
+        Its terms cannot change in the same save.
+      - Reactivating a rule starts a new version from `rule.effective_from` (default: the current
+        month); an end date before that is cleared
+      - Deleted rules cannot be saved
+    - `delete_incentive_rule(rule_id)` deactivates the rule as above, sets `deleted_at` and returns the
+      rule with its tiers and versions
+
+  3. Security
+    - Incentive managers can no longer delete incentive rules; they delete them through the function
+    - `incentive_rule_versions_audit` trigger records version changes in the audit log
+*/
+
+ALTER TABLE incentive_rules
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE incentive_rule_versions
+  DROP CONSTRAINT IF EXISTS incentive_rule_versions_rule_id_fkey,
+  ADD CONSTRAINT incentive_rule_versions_rule_id_fkey
+    FOREIGN KEY (rule_id) REFERENCES incentive_rules(id) ON DELETE RESTRICT;
+
+DROP POLICY IF EXISTS "Incentive managers can manage incentive rules" ON incentive_rules;
+
+DROP POLICY IF EXISTS "Incentive managers can add incentive rules" ON incentive_rules;
+CREATE POLICY "Incentive managers can add incentive rules"
+  ON incentive_rules FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('incentives.manage'));
+
+DROP POLICY IF EXISTS "Incentive managers can update incentive rules" ON incentive_rules;
+CREATE POLICY "Incentive managers can update incentive rules"
+  ON incentive_rules FOR UPDATE
+  TO authenticated
+  USING (has_permission('incentives.manage'))
+  WITH CHECK (has_permission('incentives.manage'));
+
+DROP TRIGGER IF EXISTS incentive_rule_versions_audit ON incentive_rule_versions;
+CREATE TRIGGER incentive_rule_versions_audit
+  AFTER INSERT OR UPDATE OR DELETE ON incentive_rule_versions
+  FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Runs with the caller's privileges so the incentive policies still apply
+CREATE OR REPLACE FUNCTION save_incentive_rule(rule_id uuid, rule jsonb, tiers jsonb DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  previous incentive_rules;
+  saved incentive_rules;
+  latest_version incentive_rule_versions;
+  terms_changed boolean;
+  deactivating boolean;
+  reactivating boolean;
+  ended date := date_trunc('month', now())::date - 1;
+  tier jsonb;
+  previous_threshold numeric;
+  first_threshold numeric;
+  matched_id uuid;
+  kept_ids uuid[] := '{}';
+BEGIN
+  IF NOT has_permission('incentives.manage') THEN
+    RAISE EXCEPTION 'Only incentive managers can change incentive rules' USING ERRCODE = '42501';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    saved := jsonb_populate_record(NULL::incentive_rules, rule - 'id' - 'created_at' - 'deleted_at');
+  ELSE
+    SELECT * INTO previous
+    FROM incentive_rules
+    WHERE id = save_incentive_rule.rule_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Incentive rule % not found', save_incentive_rule.rule_id;
+    END IF;
+
+    SELECT * INTO latest_version
+    FROM incentive_rule_versions v
+    WHERE v.rule_id = previous.id
+    ORDER BY v.version DESC
+    LIMIT 1;
+
+    saved := jsonb_populate_record(previous, rule - 'id' - 'created_at' - 'deleted_at');
+    IF NOT rule ? 'effective_from' THEN
+      saved.effective_from := GREATEST(date_trunc('month', now())::date, previous.effective_from);
+    END IF;
+  END IF;
+
+  saved.effective_from := date_trunc('month', COALESCE(saved.effective_from, now()))::date;
+  saved.effective_to := (date_trunc('month', saved.effective_to) + interval '1 month - 1 day')::date;
+
+  deactivating := NOT COALESCE(saved.is_active, true)
+    AND (save_incentive_rule.rule_id IS NULL OR previous.is_active);
+  reactivating := save_incentive_rule.rule_id IS NOT NULL AND NOT previous.is_active AND saved.is_active;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      IF (tier->>'revenue_threshold')::numeric < 0 OR (tier->>'incentive_rate')::numeric < 0 THEN
+        RAISE EXCEPTION 'Tier thresholds and rates cannot be negative';
+      END IF;
+
+      IF previous_threshold IS NOT NULL AND (tier->>'revenue_threshold')::numeric <= previous_threshold THEN
+        RAISE EXCEPTION 'Tier thresholds must be in ascending order';
+      END IF;
+
+      previous_threshold := (tier->>'revenue_threshold')::numeric;
+    END LOOP;
+
+    first_threshold := (tiers->0->>'revenue_threshold')::numeric;
+  ELSE
+    SELECT min(t.revenue_threshold) INTO first_threshold
+    FROM incentive_tiers t
+    WHERE t.rule_id = save_incentive_rule.rule_id;
+  END IF;
+
+  IF first_threshold IS NOT NULL AND COALESCE(saved.base_revenue_threshold, 0) > first_threshold THEN
+    RAISE EXCEPTION 'The base revenue threshold cannot be above the first tier threshold';
+  END IF;
+
+  -- Only the terms used in calculations start a new version
+  terms_changed := save_incentive_rule.rule_id IS NULL
+    OR latest_version.id IS NULL
+    OR (saved.min_commission_threshold, saved.commission_rate_min, saved.commission_rate_max,
+        saved.base_revenue_threshold, saved.calculation_mode)
+      IS DISTINCT FROM
+       (previous.min_commission_threshold, previous.commission_rate_min, previous.commission_rate_max,
+        previous.base_revenue_threshold, previous.calculation_mode)
+    -- The versions of an inactive rule have all ended, so reactivating it starts a new one
+    OR reactivating
+    OR (tiers IS NOT NULL AND (
+      SELECT jsonb_agg(jsonb_build_array(t.revenue_threshold, t.incentive_rate) ORDER BY t.revenue_threshold)
+      FROM incentive_tiers t
+      WHERE t.rule_id = previous.id
+    ) IS DISTINCT FROM (
+      SELECT jsonb_agg(jsonb_build_array((e->>'revenue_threshold')::numeric, (e->>'incentive_rate')::numeric))
+      FROM jsonb_array_elements(tiers) e
+    ));
+
+  IF deactivating AND terms_changed AND save_incentive_rule.rule_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Deactivate the rule without changing its terms';
+  END IF;
+
+  IF NOT terms_changed THEN
+    saved.effective_from := previous.effective_from;
+  ELSIF latest_version.id IS NOT NULL AND saved.effective_from < latest_version.effective_from THEN
+    RAISE EXCEPTION 'Changes cannot take effect before %, when the current version starts',
+      to_char(latest_version.effective_from, 'YYYY-MM');
+  END IF;
+
+  IF reactivating AND saved.effective_to < saved.effective_from THEN
+    saved.effective_to := NULL;
+  END IF;
+
+  -- A deactivated rule stops applying from the current month; months before keep their incentives
+  IF deactivating THEN
+    saved.effective_to := GREATEST(LEAST(COALESCE(saved.effective_to, ended), ended), saved.effective_from - 1);
+  ELSIF saved.effective_to < saved.effective_from THEN
+    RAISE EXCEPTION 'The rule cannot end before it takes effect';
+  END IF;
+
+  IF save_incentive_rule.rule_id IS NULL THEN
+    INSERT INTO incentive_rules (
+      name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+      base_revenue_threshold, calculation_mode, is_active, effective_from, effective_to
+    )
+    VALUES (
+      saved.name,
+      COALESCE(saved.description, ''),
+      COALESCE(saved.min_commission_threshold, 0),
+      COALESCE(saved.commission_rate_min, 0),
+      COALESCE(saved.commission_rate_max, 100),
+      COALESCE(saved.base_revenue_threshold, 0),
+      COALESCE(saved.calculation_mode, 'progressive'),
+      COALESCE(saved.is_active, true),
+      saved.effective_from,
+      saved.effective_to
+    )
+    RETURNING * INTO saved;
+  ELSE
+    UPDATE incentive_rules
+    SET name = saved.name,
+        description = saved.description,
+        min_commission_threshold = saved.min_commission_threshold,
+        commission_rate_min = saved.commission_rate_min,
+        commission_rate_max = saved.commission_rate_max,
+        base_revenue_threshold = saved.base_revenue_threshold,
+        calculation_mode = saved.calculation_mode,
+        is_active = saved.is_active,
+        effective_from = saved.effective_from,
+        effective_to = saved.effective_to
+    WHERE id = saved.id
+    RETURNING * INTO saved;
+  END IF;
+
+  IF tiers IS NOT NULL THEN
+    FOR tier IN SELECT value FROM jsonb_array_elements(tiers) LOOP
+      SELECT t.id INTO matched_id
+      FROM incentive_tiers t
+      WHERE t.rule_id = saved.id
+        AND NOT t.id = ANY(kept_ids)
+        AND (
+          t.id::text = tier->>'id'
+          OR (tier->>'id' IS NULL AND t.revenue_threshold = (tier->>'revenue_threshold')::numeric)
+        )
+      LIMIT 1;
+
+      IF matched_id IS NULL THEN
+        INSERT INTO incentive_tiers (rule_id, revenue_threshold, incentive_rate)
+        VALUES (saved.id, (tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric)
+        RETURNING id INTO matched_id;
+      ELSE
+        UPDATE incentive_tiers
+        SET revenue_threshold = (tier->>'revenue_threshold')::numeric,
+            incentive_rate = (tier->>'incentive_rate')::numeric
+        WHERE id = matched_id
+          AND (revenue_threshold, incentive_rate) IS DISTINCT FROM
+            ((tier->>'revenue_threshold')::numeric, (tier->>'incentive_rate')::numeric);
+      END IF;
+
+      kept_ids := kept_ids || matched_id;
+    END LOOP;
+
+    DELETE FROM incentive_tiers t
+    WHERE t.rule_id = saved.id AND NOT t.id = ANY(kept_ids);
+  END IF;
+
+  IF terms_changed THEN
+    -- A version that had already ended earlier keeps its end date
+    UPDATE incentive_rule_versions
+    SET effective_to = saved.effective_from - 1
+    WHERE id = latest_version.id
+      AND (effective_to IS NULL OR effective_to >= saved.effective_from);
+
+    INSERT INTO incentive_rule_versions (
+      rule_id, version, effective_from, effective_to, min_commission_threshold, commission_rate_min,
+      commission_rate_max, base_revenue_threshold, calculation_mode, tiers, created_by
+    )
+    VALUES (
+      saved.id,
+      COALESCE(latest_version.version, 0) + 1,
+      saved.effective_from,
+      saved.effective_to,
+      saved.min_commission_threshold,
+      saved.commission_rate_min,
+      saved.commission_rate_max,
+      saved.base_revenue_threshold,
+      saved.calculation_mode,
+      COALESCE((
+        SELECT jsonb_agg(to_jsonb(t) - 'rule_id' ORDER BY t.revenue_threshold)
+        FROM incentive_tiers t
+        WHERE t.rule_id = saved.id
+      ), '[]'::jsonb),
+      auth.uid()
+    );
+  ELSIF deactivating THEN
+    UPDATE incentive_rule_versions v
+    SET effective_to = GREATEST(ended, v.effective_from - 1)
+    WHERE v.rule_id = saved.id
+      AND (v.effective_to IS NULL OR v.effective_to > ended);
+  ELSIF saved.effective_to IS DISTINCT FROM previous.effective_to THEN
+    UPDATE incentive_rule_versions
+    SET effective_to = saved.effective_to
+    WHERE id = latest_version.id;
+  END IF;
+
+  RETURN to_jsonb(saved) || jsonb_build_object(
+    'tiers', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue_threshold)
+      FROM incentive_tiers t
+      WHERE t.rule_id = saved.id
+    ), '[]'::jsonb),
+    'versions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(v) ORDER BY v.version)
+      FROM incentive_rule_versions v
+      WHERE v.rule_id = saved.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_incentive_rule(rule_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  deleted incentive_rules;
+  ended date := date_trunc('month', now())::date - 1;
+BEGIN
+  IF NOT has_permission('incentives.manage') THEN
+    RAISE EXCEPTION 'Only incentive managers can change incentive rules' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO deleted
+  FROM incentive_rules
+  WHERE id = delete_incentive_rule.rule_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incentive rule % not found', delete_incentive_rule.rule_id;
+  END IF;
+
+  UPDATE incentive_rule_versions v
+  SET effective_to = GREATEST(ended, v.effective_from - 1)
+  WHERE v.rule_id = deleted.id
+    AND (v.effective_to IS NULL OR v.effective_to > ended);
+
+  UPDATE incentive_rules r
+  SET is_active = false,
+      effective_to = GREATEST(LEAST(COALESCE(r.effective_to, ended), ended), r.effective_from - 1),
+      deleted_at = now()
+  WHERE r.id = deleted.id
+  RETURNING * INTO deleted;
+
+  RETURN to_jsonb(deleted) || jsonb_build_object(
+    'tiers', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.revenue_threshold)
+      FROM incentive_tiers t
+      WHERE t.rule_id = deleted.id
+    ), '[]'::jsonb),
+    'versions', COALESCE((
+      SELECT jsonb_agg(to_jsonb(v) ORDER BY v.version)
+      FROM incentive_rule_versions v
+      WHERE v.rule_id = deleted.id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,40 @@
+/*
+  # Generated account codes
+
+  The client made up account codes from the last six digits of the current time, so accounts created
+  in one go (the upload screen's "create missing accounts") could get the same code and fail on the
+  unique constraint.
+
+  1. Changes
+    - `accounts.account_code` defaults to `next_account_code()`; clients leave it out
+
+  2. Functions
+    - `next_account_code()` returns the next `ACC000001`-style code from `account_code_seq`, skipping
+      codes already taken by seeded, imported or hand-written accounts
+
+  3. Security
+    - SECURITY DEFINER so the check sees accounts the caller's policies hide
+*/
+
+CREATE SEQUENCE IF NOT EXISTS account_code_seq;
+
+CREATE OR REPLACE FUNCTION next_account_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code text;
+BEGIN
+  LOOP
+    code := 'ACC' || lpad(nextval('account_code_seq')::text, 6, '0');
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM accounts WHERE account_code = code);
+  END LOOP;
+
+  RETURN code;
+END;
+$$;
+
+ALTER TABLE accounts
+  ALTER COLUMN account_code SET DEFAULT next_account_code();
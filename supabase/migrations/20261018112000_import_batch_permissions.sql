@@ -0,0 +1,32 @@
+/*
+  # Import history permissions
+
+  The import history policies still checked for the superadmin role, so granting a role permissions
+  in the matrix did not let it see or roll back other users' uploads.
+
+  1. Security
+    - `import_batches`: uploaders read and roll back their own uploads as before
+      - Reading other users' uploads needs `accounts.view_all`, like reading their sales data
+      - Rolling them back needs `sales.upload` and every account of the upload to be managed by the
+        caller, like writing their sales data. Without that the rollback's `sales_data` writes would
+        skip the rows the caller cannot change and still mark the upload rolled back.
+*/
+
+DROP POLICY IF EXISTS "Users can read own imports" ON import_batches;
+CREATE POLICY "Users can read own imports"
+  ON import_batches FOR SELECT
+  TO authenticated
+  USING (uploaded_by = auth.uid() OR has_permission('accounts.view_all'));
+
+DROP POLICY IF EXISTS "Uploaders and superadmins can update imports" ON import_batches;
+DROP POLICY IF EXISTS "Uploaders and sales managers can update imports" ON import_batches;
+CREATE POLICY "Uploaders and sales managers can update imports"
+  ON import_batches FOR UPDATE
+  TO authenticated
+  USING (
+    uploaded_by = auth.uid()
+    OR (
+      has_permission('sales.upload')
+      AND NOT EXISTS (SELECT 1 FROM unnest(account_ids) AS batch_account(id) WHERE NOT manages_account(batch_account.id))
+    )
+  );
@@ -0,0 +1,166 @@
+/*
+  # Demo seed data
+
+  Loaded by `supabase db reset` on a local project. Everything uses fixed ids and
+  ON CONFLICT DO NOTHING, so running it twice is harmless.
+
+  - Three auth users (password `password123`, local development only):
+    - admin@kimostudio.com: superadmin
+    - rina@kimostudio.com: team lead, manages the fashion and beauty accounts
+    - budi@kimostudio.com: manages the electronics and home accounts
+  - One team, led by Rina, with Rina and Budi as members
+  - Four categories and six affiliate accounts
+  - 120 days of daily sales data per account, generated with a fixed random seed
+  - Two incentive rules with their tiers, in force since the first month of sales data
+*/
+
+-- Auth users
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change_token_new, email_change
+)
+VALUES
+  ('00000000-0000-0000-0000-000000000000', '10000000-0000-0000-0000-000000000001', 'authenticated', 'authenticated',
+   'admin@kimostudio.com', crypt('password123', gen_salt('bf')), now(),
+   '{"provider":"email","providers":["email"]}', '{}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '10000000-0000-0000-0000-000000000002', 'authenticated', 'authenticated',
+   'rina@kimostudio.com', crypt('password123', gen_salt('bf')), now(),
+   '{"provider":"email","providers":["email"]}', '{}', now(), now(), '', '', '', ''),
+  ('00000000-0000-0000-0000-000000000000', '10000000-0000-0000-0000-000000000003', 'authenticated', 'authenticated',
+   'budi@kimostudio.com', crypt('password123', gen_salt('bf')), now(),
+   '{"provider":"email","providers":["email"]}', '{}', now(), now(), '', '', '', '')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.identities (id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT id, id, id::text, jsonb_build_object('sub', id::text, 'email', email), 'email', now(), now(), now()
+FROM auth.users
+WHERE id IN (
+  '10000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000002',
+  '10000000-0000-0000-0000-000000000003'
+)
+ON CONFLICT DO NOTHING;
+
+-- Categories
+INSERT INTO categories (id, name, description)
+VALUES
+  ('20000000-0000-0000-0000-000000000001', 'Fashion', 'Pakaian, sepatu dan aksesoris'),
+  ('20000000-0000-0000-0000-000000000002', 'Kecantikan', 'Skincare dan kosmetik'),
+  ('20000000-0000-0000-0000-000000000003', 'Elektronik', 'Gadget dan aksesoris elektronik'),
+  ('20000000-0000-0000-0000-000000000004', 'Rumah Tangga', 'Perlengkapan rumah dan dapur')
+ON CONFLICT (id) DO NOTHING;
+
+-- App users
+INSERT INTO users (id, name, email, role, managed_accounts)
+VALUES
+  ('10000000-0000-0000-0000-000000000001', 'Super Admin', 'admin@kimostudio.com', 'superadmin', '{}'),
+  ('10000000-0000-0000-0000-000000000002', 'Rina Wulandari', 'rina@kimostudio.com', 'team_lead', ARRAY[
+    '30000000-0000-0000-0000-000000000001',
+    '30000000-0000-0000-0000-000000000002',
+    '30000000-0000-0000-0000-000000000003'
+  ]::uuid[]),
+  ('10000000-0000-0000-0000-000000000003', 'Budi Santoso', 'budi@kimostudio.com', 'user', ARRAY[
+    '30000000-0000-0000-0000-000000000004',
+    '30000000-0000-0000-0000-000000000005',
+    '30000000-0000-0000-0000-000000000006'
+  ]::uuid[])
+ON CONFLICT (id) DO NOTHING;
+
+-- Accounts
+INSERT INTO accounts (id, username, email, phone, status, payment_data, account_code, category_id, user_id)
+VALUES
+  ('30000000-0000-0000-0000-000000000001', 'kimo.fashion', 'fashion@kimostudio.com', '081200000001', 'active', 'sah', 'ACC000001',
+   '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000002', 'kimo.style', 'style@kimostudio.com', '081200000002', 'active', 'disetujui', 'ACC000002',
+   '20000000-0000-0000-0000-000000000001', '10000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000003', 'kimo.glow', 'glow@kimostudio.com', '081200000003', 'active', 'dimasukkan', 'ACC000003',
+   '20000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000004', 'kimo.gadget', 'gadget@kimostudio.com', '081200000004', 'active', 'utamakan', 'ACC000004',
+   '20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000005', 'kimo.techdeals', 'techdeals@kimostudio.com', '081200000005', 'violation', 'belum diatur', 'ACC000005',
+   '20000000-0000-0000-0000-000000000003', '10000000-0000-0000-0000-000000000001'),
+  ('30000000-0000-0000-0000-000000000006', 'kimo.rumah', 'rumah@kimostudio.com', '081200000006', 'inactive', 'belum diatur', 'ACC000006',
+   '20000000-0000-0000-0000-000000000004', '10000000-0000-0000-0000-000000000001')
+ON CONFLICT (id) DO NOTHING;
+
+-- Teams
+INSERT INTO teams (id, name, lead_id, incentive_target)
+VALUES
+  ('60000000-0000-0000-0000-000000000001', 'Tim Kimo', '10000000-0000-0000-0000-000000000002', 1500000000)
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE users
+SET team_id = '60000000-0000-0000-0000-000000000001'
+WHERE id IN ('10000000-0000-0000-0000-000000000002', '10000000-0000-0000-0000-000000000003')
+  AND team_id IS NULL;
+
+-- Daily sales for the last 120 days; each account has its own traffic scale and commission rate
+SELECT setseed(0.42);
+
+WITH account_profiles (account_id, daily_clicks, conversion, avg_order, commission_rate) AS (
+  VALUES
+    ('30000000-0000-0000-0000-000000000001'::uuid, 1400, 0.045, 165000, 0.065),
+    ('30000000-0000-0000-0000-000000000002'::uuid, 900, 0.040, 185000, 0.060),
+    ('30000000-0000-0000-0000-000000000003'::uuid, 1100, 0.055, 120000, 0.075),
+    ('30000000-0000-0000-0000-000000000004'::uuid, 700, 0.020, 950000, 0.030),
+    ('30000000-0000-0000-0000-000000000005'::uuid, 400, 0.018, 780000, 0.035),
+    ('30000000-0000-0000-0000-000000000006'::uuid, 250, 0.035, 210000, 0.055)
+),
+daily AS (
+  SELECT
+    p.account_id,
+    d::date AS date,
+    round(p.daily_clicks * (0.6 + random() * 0.8))::integer AS clicks,
+    p.conversion * (0.7 + random() * 0.6) AS conversion,
+    p.avg_order * (0.85 + random() * 0.3) AS avg_order,
+    p.commission_rate
+  FROM account_profiles p
+  CROSS JOIN generate_series(current_date - 119, current_date, interval '1 day') AS d
+)
+INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers)
+SELECT
+  account_id,
+  date,
+  clicks,
+  round(clicks * conversion)::integer,
+  round(round(clicks * conversion) * avg_order * commission_rate),
+  round(round(clicks * conversion) * 1.3)::integer,
+  round(round(clicks * conversion) * avg_order),
+  round(round(clicks * conversion) * 0.35)::integer
+FROM daily
+ON CONFLICT (account_id, date) DO NOTHING;
+
+-- Incentive rules
+INSERT INTO incentive_rules (id, name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+  base_revenue_threshold, calculation_mode, is_active, effective_from)
+VALUES
+  ('40000000-0000-0000-0000-000000000001', 'Komisi 5% - 7.99%', 'Insentif untuk akun dengan rata-rata komisi 5% sampai 7.99%',
+   50000, 5, 7.99, 80000000, 'progressive', true, date_trunc('month', current_date - 119)::date),
+  ('40000000-0000-0000-0000-000000000002', 'Komisi 8% ke atas', 'Insentif untuk akun dengan rata-rata komisi 8% atau lebih',
+   50000, 8, 100, 60000000, 'flat', true, date_trunc('month', current_date - 119)::date)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO incentive_tiers (id, rule_id, revenue_threshold, incentive_rate)
+VALUES
+  ('41000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000001', 80000000, 0.4),
+  ('41000000-0000-0000-0000-000000000002', '40000000-0000-0000-0000-000000000001', 90000000, 0.6),
+  ('41000000-0000-0000-0000-000000000003', '40000000-0000-0000-0000-000000000001', 100000000, 0.8),
+  ('41000000-0000-0000-0000-000000000004', '40000000-0000-0000-0000-000000000001', 110000000, 1.0),
+  ('41000000-0000-0000-0000-000000000005', '40000000-0000-0000-0000-000000000001', 120000000, 1.2),
+  ('41000000-0000-0000-0000-000000000006', '40000000-0000-0000-0000-000000000001', 130000000, 1.5),
+  ('41000000-0000-0000-0000-000000000007', '40000000-0000-0000-0000-000000000002', 60000000, 0.5),
+  ('41000000-0000-0000-0000-000000000008', '40000000-0000-0000-0000-000000000002', 90000000, 0.8),
+  ('41000000-0000-0000-0000-000000000009', '40000000-0000-0000-0000-000000000002', 120000000, 1.2)
+ON CONFLICT (id) DO NOTHING;
+
+-- First version of each rule, from its terms and tiers above
+INSERT INTO incentive_rule_versions (rule_id, version, effective_from, min_commission_threshold, commission_rate_min,
+  commission_rate_max, base_revenue_threshold, calculation_mode, tiers)
+SELECT
+  r.id, 1, r.effective_from, r.min_commission_threshold, r.commission_rate_min, r.commission_rate_max,
+  r.base_revenue_threshold, r.calculation_mode,
+  (SELECT jsonb_agg(to_jsonb(t) - 'rule_id' ORDER BY t.revenue_threshold) FROM incentive_tiers t WHERE t.rule_id = r.id)
+FROM incentive_rules r
+WHERE r.id IN ('40000000-0000-0000-0000-000000000001', '40000000-0000-0000-0000-000000000002')
+ON CONFLICT (rule_id, version) DO NOTHING;